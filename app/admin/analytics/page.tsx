@@ -0,0 +1,285 @@
+'use client'
+
+import { useState, useEffect, useCallback, Fragment } from 'react'
+import Link from 'next/link'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts'
+import type { AnalyticsReport, BreakdownRow, DropoffPoint, ProgramRow } from '@/lib/watch-analytics'
+
+const RANGES = [7, 30, 90]
+
+function fmtWatch(sec: number) {
+  if (sec >= 3600) return `${Math.round(sec / 360) / 10}h`
+  if (sec >= 60) return `${Math.round(sec / 60)}m`
+  return `${Math.round(sec)}s`
+}
+
+function channelLabel(id: number, name: string | null) {
+  return name || `Channel ${id}`
+}
+
+function programKey(p: ProgramRow) {
+  return `${p.channel_id}|${p.program_title}|${p.mp4_url}`
+}
+
+/** Sessions that ended in each tenth of the program; the last tenth is mostly "watched to the end". */
+function Dropoff({ program, days }: { program: ProgramRow; days: number }) {
+  const [points, setPoints] = useState<DropoffPoint[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const qs = new URLSearchParams({
+      days: String(days),
+      channel: String(program.channel_id),
+      title: program.program_title,
+      url: program.mp4_url,
+    })
+    fetch(`/api/admin/analytics?${qs}`, { cache: 'no-store' })
+      .then(async res => {
+        const j = await res.json()
+        if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+        if (!cancelled) setPoints(j.dropoff)
+      })
+      .catch(e => { if (!cancelled) setError(e.message) })
+    return () => { cancelled = true }
+  }, [program, days])
+
+  if (error) return <p className="text-red-300">{error}</p>
+  if (!points) return <p className="text-gray-500">Loading drop-off…</p>
+  const total = points.reduce((n, p) => n + p.sessions, 0)
+  if (total === 0) return <p className="text-gray-500">No position data for this program yet.</p>
+
+  const data = points.map(p => ({
+    at: `${p.decile * 10}–${p.decile * 10 + 10}%`,
+    share: Math.round((1000 * p.sessions) / total) / 10,
+  }))
+  return (
+    <div>
+      <div className="text-gray-500 mb-1">Where {total} sessions stopped watching (% of sessions)</div>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid stroke="#1f2937" />
+            <XAxis dataKey="at" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+            <YAxis tick={{ fill: '#9ca3af', fontSize: 10 }} unit="%" />
+            <Tooltip contentStyle={{ background: '#111827', border: '1px solid #374151' }} />
+            <Bar dataKey="share" name="Stopped here" fill="#c9a84c" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
+
+function Breakdown({ title, rows, totalSeconds }: { title: string; rows: BreakdownRow[]; totalSeconds: number }) {
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-xl p-4">
+      <div className="text-sm font-semibold mb-3">{title}</div>
+      {rows.length === 0 && <p className="text-sm text-gray-500">No data yet.</p>}
+      <div className="space-y-2">
+        {rows.map(r => (
+          <div key={r.value} className="text-sm">
+            <div className="flex justify-between text-gray-300">
+              <span className="capitalize">{r.value}</span>
+              <span>{fmtWatch(r.seconds_watched)} · {r.sessions.toLocaleString()} sessions</span>
+            </div>
+            <div className="h-1.5 rounded bg-gray-800 mt-1">
+              <div
+                className="h-1.5 rounded bg-yellow-500"
+                style={{ width: `${totalSeconds ? (100 * r.seconds_watched) / totalSeconds : 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function AnalyticsPage() {
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<AnalyticsReport | null>(null)
+  const [open, setOpen] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/admin/analytics?days=${days}`, { cache: 'no-store' })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setReport(j as AnalyticsReport)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => { load() }, [load])
+
+  const totalSeconds = (report?.channels ?? []).reduce((n, c) => n + c.seconds_watched, 0)
+  const totalSessions = (report?.channels ?? []).reduce((n, c) => n + c.sessions, 0)
+  const totalConversions = (report?.channels ?? []).reduce((n, c) => n + c.conversions, 0)
+  const tiers = (report?.breakdown ?? []).filter(b => b.dimension === 'tier')
+  const devices = (report?.breakdown ?? []).filter(b => b.dimension === 'device')
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white pb-10">
+      <div className="max-w-6xl mx-auto px-4 pt-8 space-y-6">
+
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-yellow-400">Viewership Analytics</h1>
+            <p className="text-gray-400 text-sm mt-1">
+              Top programs, watch time, drop-off and which channels bring in new members. Updated hourly.
+            </p>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            {RANGES.map(r => (
+              <button
+                key={r}
+                onClick={() => setDays(r)}
+                className={`px-3 py-2 border rounded-lg text-sm transition ${
+                  days === r ? 'border-yellow-500 text-yellow-300' : 'border-gray-600 hover:border-gray-400'
+                }`}
+              >
+                {r} days
+              </button>
+            ))}
+            <button
+              onClick={load}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              Refresh
+            </button>
+            <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              ← Admin
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            {error}
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="grid gap-3 sm:grid-cols-4">
+          {[
+            ['Watch time', fmtWatch(totalSeconds)],
+            ['Sessions', totalSessions.toLocaleString()],
+            ['Avg per session', totalSessions ? fmtWatch(totalSeconds / totalSessions) : '—'],
+            ['New members', totalConversions.toLocaleString()],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-gray-900 border border-gray-700 rounded-xl p-4">
+              <div className="text-xs text-gray-500 uppercase tracking-wider">{label}</div>
+              <div className="text-2xl font-bold mt-1">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Top programs */}
+        <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-800 text-sm font-semibold">
+            Top programs <span className="text-gray-500 font-normal">· click a row for drop-off</span>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="text-left px-4 py-2">Program</th>
+                <th className="text-left px-4 py-2">Channel</th>
+                <th className="text-right px-4 py-2">Viewers</th>
+                <th className="text-right px-4 py-2">Sessions</th>
+                <th className="text-right px-4 py-2">Watch time</th>
+                <th className="text-right px-4 py-2">Avg watch</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(report?.programs ?? []).map(p => {
+                const key = programKey(p)
+                return (
+                  <Fragment key={key}>
+                    <tr
+                      onClick={() => setOpen(open === key ? null : key)}
+                      className="border-t border-gray-800 hover:bg-gray-800/40 cursor-pointer"
+                    >
+                      <td className="px-4 py-2">
+                        <div className="text-white">{p.program_title || '(untitled)'}</div>
+                        {p.mp4_url && <div className="text-xs text-gray-500 font-mono break-all">{p.mp4_url}</div>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-300">{channelLabel(p.channel_id, p.channel_name)}</td>
+                      <td className="px-4 py-2 text-right">{p.viewers.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right">{p.sessions.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right text-yellow-300">{fmtWatch(p.seconds_watched)}</td>
+                      <td className="px-4 py-2 text-right">{fmtWatch(p.avg_seconds)}</td>
+                    </tr>
+                    {open === key && (
+                      <tr className="border-t border-gray-800 bg-gray-950/60">
+                        <td colSpan={6} className="px-4 py-3 text-xs">
+                          <Dropoff program={p} days={days} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+              {report && report.programs.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                    No viewing recorded in this range yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Channels and conversions */}
+        <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-800 text-sm font-semibold">
+            Channels <span className="text-gray-500 font-normal">· new members are credited to the channel they watched most in the 7 days before joining</span>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="text-left px-4 py-2">Channel</th>
+                <th className="text-right px-4 py-2">Sessions</th>
+                <th className="text-right px-4 py-2">Watch time</th>
+                <th className="text-right px-4 py-2">Avg watch</th>
+                <th className="text-right px-4 py-2">Member share</th>
+                <th className="text-right px-4 py-2">New members</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(report?.channels ?? []).map(c => (
+                <tr key={c.channel_id} className="border-t border-gray-800">
+                  <td className="px-4 py-2 text-white">{channelLabel(c.channel_id, c.channel_name)}</td>
+                  <td className="px-4 py-2 text-right">{c.sessions.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right">{fmtWatch(c.seconds_watched)}</td>
+                  <td className="px-4 py-2 text-right">{fmtWatch(c.avg_seconds)}</td>
+                  <td className="px-4 py-2 text-right text-gray-300">
+                    {c.seconds_watched ? `${Math.round((100 * c.member_seconds) / c.seconds_watched)}%` : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right font-semibold" style={{ color: c.conversions ? '#4ca87c' : undefined }}>
+                    {c.conversions.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Tier and device */}
+        <div className="grid gap-4 md:grid-cols-2">
+          <Breakdown title="By tier" rows={tiers} totalSeconds={totalSeconds} />
+          <Breakdown title="By device" rows={devices} totalSeconds={totalSeconds} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect, useCallback, Fragment } from 'react'
+import Link from 'next/link'
+import { AUDITED_TABLES, type AuditEntry } from '@/lib/audit'
+
+type Row = Record<string, unknown>
+
+const ACTIONS = ['insert', 'update', 'delete', 'role_change', 'fix_schedule']
+const ACTION_COLOR: Record<string, string> = {
+  insert: '#4ca87c',
+  update: '#c9a84c',
+  delete: '#c94c4c',
+  role_change: '#8c7cf0',
+}
+const PAGE_SIZE = 50
+// Rows shown per expanded entry; bulk statements can touch hundreds
+const MAX_ROWS_SHOWN = 25
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+function asRows(v: AuditEntry['before']): Row[] {
+  if (!v) return []
+  return (Array.isArray(v) ? v : [v]) as Row[]
+}
+
+function keyOf(row: Row) {
+  return String(row.id ?? row.code_hash ?? '')
+}
+
+/** Field-level changes per row for update entries. */
+function diffRows(entry: AuditEntry) {
+  const after = new Map(asRows(entry.after).map(r => [keyOf(r), r]))
+  return asRows(entry.before).map(b => {
+    const a = after.get(keyOf(b)) ?? {}
+    const fields = Object.keys({ ...b, ...a }).filter(
+      f => JSON.stringify(b[f]) !== JSON.stringify(a[f])
+    )
+    return { key: keyOf(b), fields: fields.map(f => ({ field: f, from: b[f], to: a[f] })) }
+  })
+}
+
+function show(v: unknown) {
+  if (v === null || v === undefined) return 'null'
+  return typeof v === 'string' ? v : JSON.stringify(v)
+}
+
+function EntryDetail({ entry }: { entry: AuditEntry }) {
+  if (entry.action === 'update' || entry.action === 'role_change') {
+    const diffs = diffRows(entry).filter(d => d.fields.length > 0)
+    return (
+      <div className="space-y-2">
+        {diffs.slice(0, MAX_ROWS_SHOWN).map(d => (
+          <div key={d.key} className="rounded-lg border border-gray-800 p-2">
+            <div className="font-mono text-gray-500 mb-1">{d.key}</div>
+            {d.fields.map(f => (
+              <div key={f.field} className="text-gray-400 break-all">
+                {f.field}: <span className="text-red-300">{show(f.from)}</span>
+                {' → '}<span className="text-green-300">{show(f.to)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+        {diffs.length === 0 && <p className="text-gray-500">No field changed.</p>}
+        {diffs.length > MAX_ROWS_SHOWN && (
+          <p className="text-gray-500">…and {diffs.length - MAX_ROWS_SHOWN} more rows</p>
+        )}
+      </div>
+    )
+  }
+
+  const rows = asRows(entry.before ?? entry.after)
+  if (rows.length === 0) {
+    return (
+      <pre className="whitespace-pre-wrap break-all text-gray-400">
+        {JSON.stringify({ row_keys: entry.row_keys, details: entry.details }, null, 2)}
+      </pre>
+    )
+  }
+  return (
+    <div className="space-y-2">
+      <div className="text-gray-500">{entry.before ? 'Deleted rows (before)' : 'Inserted rows (after)'}</div>
+      {rows.slice(0, MAX_ROWS_SHOWN).map((r, i) => (
+        <pre key={keyOf(r) || i} className="rounded-lg border border-gray-800 p-2 whitespace-pre-wrap break-all text-gray-400">
+          {JSON.stringify(r, null, 2)}
+        </pre>
+      ))}
+      {rows.length > MAX_ROWS_SHOWN && (
+        <p className="text-gray-500">…and {rows.length - MAX_ROWS_SHOWN} more rows</p>
+      )}
+    </div>
+  )
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [nextBefore, setNextBefore] = useState<number | null>(null)
+  const [table, setTable] = useState('')
+  const [action, setAction] = useState('')
+  const [actor, setActor] = useState('')
+  const [rowKey, setRowKey] = useState('')
+  const [since, setSince] = useState('')
+  const [until, setUntil] = useState('')
+  const [open, setOpen] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPage = useCallback(async (before: number | null) => {
+    const qs = new URLSearchParams({ limit: String(PAGE_SIZE) })
+    if (table) qs.set('table', table)
+    if (action) qs.set('action', action)
+    if (actor.trim()) qs.set('actor', actor.trim())
+    if (rowKey.trim()) qs.set('key', rowKey.trim())
+    if (since) qs.set('since', new Date(since).toISOString())
+    if (until) qs.set('until', new Date(until).toISOString())
+    if (before) qs.set('before', String(before))
+    const res = await fetch(`/api/admin/audit-log?${qs}`, { cache: 'no-store' })
+    const j = await res.json()
+    if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+    return j as { entries: AuditEntry[]; next_before: number | null }
+  }, [table, action, actor, rowKey, since, until])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const j = await fetchPage(null)
+      setEntries(j.entries)
+      setNextBefore(j.next_before)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [fetchPage])
+
+  useEffect(() => { load() }, [load])
+
+  async function loadMore() {
+    if (!nextBefore) return
+    setLoading(true)
+    try {
+      const j = await fetchPage(nextBefore)
+      setEntries(prev => [...prev, ...j.entries])
+      setNextBefore(j.next_before)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const input = 'bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white'
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white pb-10">
+      <div className="max-w-6xl mx-auto px-4 pt-8 space-y-6">
+
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-yellow-400">Audit Log</h1>
+            <p className="text-gray-400 text-sm mt-1">
+              Who changed schedules, channels, roles, invites and news — with the rows before and after.
+            </p>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            <button
+              onClick={load}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              Refresh
+            </button>
+            <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              ← Admin
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+          <select value={table} onChange={e => setTable(e.target.value)} className={input}>
+            <option value="">All tables</option>
+            {[...AUDITED_TABLES, 'signup_requests'].map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={action} onChange={e => setAction(e.target.value)} className={input}>
+            <option value="">All actions</option>
+            {ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <input value={actor} onChange={e => setActor(e.target.value)} placeholder="Actor user id" className={input} />
+          <input value={rowKey} onChange={e => setRowKey(e.target.value)} placeholder="Row key (e.g. program id)" className={input} />
+          <input type="datetime-local" value={since} onChange={e => setSince(e.target.value)} className={input} title="From" />
+          <input type="datetime-local" value={until} onChange={e => setUntil(e.target.value)} className={input} title="Until" />
+        </div>
+
+        {error && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto bg-gray-900 border border-gray-700 rounded-xl">
+          <table className="w-full text-xs">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="px-3 py-2">When</th>
+                <th className="px-3 py-2">Actor</th>
+                <th className="px-3 py-2">Action</th>
+                <th className="px-3 py-2">Table</th>
+                <th className="px-3 py-2">Rows</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(e => (
+                <Fragment key={e.id}>
+                  <tr className="border-t border-gray-800 align-top">
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-300">{fmt(e.created_at)}</td>
+                    <td className="px-3 py-2">
+                      {e.actor_id ? (
+                        <button onClick={() => setActor(e.actor_id!)} className="text-left hover:text-yellow-300" title="Show only this actor">
+                          {e.actor_email || <span className="font-mono">{e.actor_id}</span>}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500">system ({e.actor_role || 'unknown'})</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span style={{ color: ACTION_COLOR[e.action] ?? '#9ca3af' }}>{e.action}</span>
+                      {e.source === 'api' && <span className="ml-1 text-gray-500">(api)</span>}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-gray-400">{e.target_table}</td>
+                    <td className="px-3 py-2 text-gray-400">
+                      {e.row_count}
+                      {e.row_keys.length > 0 && (
+                        <span className="ml-2 font-mono text-gray-500">
+                          {e.row_keys.slice(0, 3).join(', ')}{e.row_keys.length > 3 ? '…' : ''}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => setOpen(open === e.id ? null : e.id)}
+                        className="px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:border-gray-400 transition"
+                      >
+                        {open === e.id ? 'Hide' : 'Details'}
+                      </button>
+                    </td>
+                  </tr>
+                  {open === e.id && (
+                    <tr className="border-t border-gray-800">
+                      <td colSpan={6} className="px-3 py-3 bg-gray-950/60">
+                        <EntryDetail entry={e} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+              {!loading && entries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">No entries.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {nextBefore && (
+          <div className="text-center">
+            <button
+              onClick={loadMore}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              {loading ? 'Loading…' : 'Load older entries'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -14,6 +14,8 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { chainSequential, type ChainItem } from "@/lib/schedule";
+import { snapshotSchedule } from "@/lib/schedule-history";
 
 type BucketFile = {
   name: string;
@@ -335,19 +337,8 @@ export default function AutoSchedulePage() {
       a.name.localeCompare(b.name)
     );
 
-    const rows: {
-      channel_id: number;
-      start_time: string;
-      title: string | null;
-      mp4_url: string;
-      duration: number;
-    }[] = [];
-
-    let currentStart = new Date(base.getTime()); // keep UTC anchor
-
+    const items: ChainItem[] = [];
     for (const file of ordered) {
-      const durationSec = file.duration ? Math.round(file.duration) : 0;
-
       const { data } = supabase.storage
         .from(bucketName)
         .getPublicUrl(file.name);
@@ -358,23 +349,25 @@ export default function AutoSchedulePage() {
         return;
       }
 
-      const niceTitle = makeTitleFromFilename(file.name);
-
-      rows.push({
-        channel_id: chId,
-        start_time: currentStart.toISOString(), // UTC ISO
-        title: niceTitle,
+      items.push({
+        title: makeTitleFromFilename(file.name),
         mp4_url: publicUrl,
-        duration: durationSec,
+        duration: file.duration ? Math.round(file.duration) : 0,
       });
-
-      currentStart = new Date(
-        currentStart.getTime() + durationSec * 1000
-      );
     }
 
+    // Back to back from the UTC anchor
+    const { rows } = chainSequential(items, chId, base.getTime());
+
     setSavingSchedule(true);
     try {
+      await snapshotSchedule(
+        supabase,
+        [chId],
+        "auto_schedule",
+        `Scheduled ${rows.length} file(s) from "${bucketName}"`
+      );
+
       const { error } = await supabase.from("programs").insert(rows);
       if (error) {
         console.error("Error inserting schedule", error);
@@ -15,6 +15,10 @@ import {
 } from "@/components/ui/card";
 import { AlertCircle, CheckCircle, RefreshCw, Save } from "lucide-react";
 import Link from "next/link";
+import {
+  invalidateChannelAccessRules,
+  type ChannelAccessTier,
+} from "@/lib/protected-channels";
 
 type Channel = {
   id: string;
@@ -23,20 +27,58 @@ type Channel = {
   description?: string;
   logo_url?: string;
   password_protected?: boolean;
+  access_tier?: ChannelAccessTier;
 };
 
 type EditedChannel = {
   name: string;
   slug: string;
   logo_url: string;
+  access_tier: ChannelAccessTier;
+  plans: string[];
 };
 
+// Partner plans that can unlock individual member channels
+// (rows in channel_plan_access). Plans already in the table are added too.
+const PARTNER_PLANS = ["constructiq"];
+
+function sortById(rows: any[]): Channel[] {
+  return [...rows].sort(
+    (a, b) => Number.parseInt(a.id, 10) - Number.parseInt(b.id, 10)
+  );
+}
+
+function toEdited(channel: Channel, plans: string[] = []): EditedChannel {
+  return {
+    name: channel.name ?? "",
+    slug: channel.slug ?? "",
+    logo_url: channel.logo_url ?? "",
+    access_tier: channel.access_tier ?? "member",
+    plans: [...plans].sort(),
+  };
+}
+
+function samePlans(a: string[], b: string[]) {
+  return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+}
+
+function isChanged(channel: Channel, edited: EditedChannel, plans: string[] = []) {
+  return (
+    edited.name !== (channel.name ?? "") ||
+    edited.slug !== (channel.slug ?? "") ||
+    edited.logo_url !== (channel.logo_url ?? "") ||
+    edited.access_tier !== (channel.access_tier ?? "member") ||
+    !samePlans(edited.plans, plans)
+  );
+}
+
 export default function ChannelManager() {
   const supabase = createClient();
   const [channels, setChannels] = useState<Channel[]>([]);
   const [editedChannels, setEditedChannels] = useState<
     Record<string, EditedChannel>
   >({});
+  const [planAccess, setPlanAccess] = useState<Record<string, string[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState<{
@@ -44,37 +86,40 @@ export default function ChannelManager() {
     text: string;
   } | null>(null);
 
+  // Channels plus their partner-plan grants, keyed by channel id
+  async function fetchChannels() {
+    const [chRes, planRes] = await Promise.all([
+      supabase.from("channels").select("*").order("id"),
+      supabase.from("channel_plan_access").select("channel_id, plan"),
+    ]);
+    if (chRes.error) throw chRes.error;
+    if (planRes.error) throw planRes.error;
+
+    const plans: Record<string, string[]> = {};
+    for (const row of planRes.data || []) {
+      const key = String(row.channel_id);
+      (plans[key] ||= []).push(row.plan);
+    }
+    return { sorted: sortById(chRes.data || []), plans };
+  }
+
+  function applyLoaded(sorted: Channel[], plans: Record<string, string[]>) {
+    setChannels(sorted);
+    setPlanAccess(plans);
+    const initialEdited: Record<string, EditedChannel> = {};
+    sorted.forEach((channel) => {
+      initialEdited[channel.id] = toEdited(channel, plans[channel.id]);
+    });
+    setEditedChannels(initialEdited);
+  }
+
   // Load all channels
   useEffect(() => {
     async function loadChannels() {
       setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from("channels")
-          .select("*")
-          .order("id");
-
-        if (error) throw error;
-
-        // Sort channels by ID numerically
-        const sorted = (data || []).sort((a: any, b: any) => {
-          const aNum = Number.parseInt(a.id, 10);
-          const bNum = Number.parseInt(b.id, 10);
-          return aNum - bNum;
-        }) as Channel[];
-
-        setChannels(sorted);
-
-        // Initialize edited channels with current values
-        const initialEdited: Record<string, EditedChannel> = {};
-        sorted.forEach((channel) => {
-          initialEdited[channel.id] = {
-            name: channel.name ?? "",
-            slug: channel.slug ?? "",
-            logo_url: channel.logo_url ?? "",
-          };
-        });
-        setEditedChannels(initialEdited);
+        const { sorted, plans } = await fetchChannels();
+        applyLoaded(sorted, plans);
       } catch (error) {
         console.error("Error loading channels:", error);
         setMessage({
@@ -90,20 +135,35 @@ export default function ChannelManager() {
   }, []);
 
   // Handle field changes
-  const handleFieldChange = (
+  const handleFieldChange = <K extends keyof EditedChannel>(
     channelId: string,
-    field: keyof EditedChannel,
-    value: string
+    field: K,
+    value: EditedChannel[K]
   ) => {
     setEditedChannels((prev) => ({
       ...prev,
       [channelId]: {
-        ...(prev[channelId] || { name: "", slug: "", logo_url: "" }),
+        ...(prev[channelId] || toEdited({ id: channelId, name: "" })),
         [field]: value,
       },
     }));
   };
 
+  const togglePlan = (channelId: string, plan: string) => {
+    const current = editedChannels[channelId]?.plans ?? [];
+    handleFieldChange(
+      channelId,
+      "plans",
+      current.includes(plan)
+        ? current.filter((p) => p !== plan)
+        : [...current, plan].sort()
+    );
+  };
+
+  const knownPlans = Array.from(
+    new Set([...PARTNER_PLANS, ...Object.values(planAccess).flat()])
+  ).sort();
+
   // Save changes
   const saveChanges = async () => {
     setIsSaving(true);
@@ -114,11 +174,7 @@ export default function ChannelManager() {
       const changedChannels = channels.filter((channel) => {
         const edited = editedChannels[channel.id];
         if (!edited) return false;
-        return (
-          edited.name !== (channel.name ?? "") ||
-          edited.slug !== (channel.slug ?? "") ||
-          edited.logo_url !== (channel.logo_url ?? "")
-        );
+        return isChanged(channel, edited, planAccess[channel.id]);
       });
 
       if (changedChannels.length === 0) {
@@ -127,47 +183,45 @@ export default function ChannelManager() {
         return;
       }
 
-      // Update each changed channel
-      const updates = changedChannels.map((channel) => {
+      // Update each changed channel, then sync its partner-plan grants
+      const updates = changedChannels.map(async (channel) => {
         const edited = editedChannels[channel.id];
-        return supabase
+        const { error } = await supabase
           .from("channels")
           .update({
             name: edited.name,
             slug: edited.slug || null,
             logo_url: edited.logo_url || null,
+            access_tier: edited.access_tier,
           })
           .eq("id", channel.id);
+        if (error) throw error;
+
+        const before = planAccess[channel.id] ?? [];
+        const removed = before.filter((p) => !edited.plans.includes(p));
+        const added = edited.plans.filter((p) => !before.includes(p));
+        if (removed.length) {
+          const { error: delErr } = await supabase
+            .from("channel_plan_access")
+            .delete()
+            .eq("channel_id", channel.id)
+            .in("plan", removed);
+          if (delErr) throw delErr;
+        }
+        if (added.length) {
+          const { error: insErr } = await supabase
+            .from("channel_plan_access")
+            .insert(added.map((plan) => ({ channel_id: channel.id, plan })));
+          if (insErr) throw insErr;
+        }
       });
 
       await Promise.all(updates);
+      invalidateChannelAccessRules();
 
-      // Refresh channel list
-      const { data, error } = await supabase
-        .from("channels")
-        .select("*")
-        .order("id");
-
-      if (error) throw error;
-
-      const sorted = (data || []).sort((a: any, b: any) => {
-        const aNum = Number.parseInt(a.id, 10);
-        const bNum = Number.parseInt(b.id, 10);
-        return aNum - bNum;
-      }) as Channel[];
-
-      setChannels(sorted);
-
-      // Reset editedChannels to match DB
-      const resetEdited: Record<string, EditedChannel> = {};
-      sorted.forEach((channel) => {
-        resetEdited[channel.id] = {
-          name: channel.name ?? "",
-          slug: channel.slug ?? "",
-          logo_url: channel.logo_url ?? "",
-        };
-      });
-      setEditedChannels(resetEdited);
+      // Refresh channel list and reset editedChannels to match DB
+      const { sorted, plans } = await fetchChannels();
+      applyLoaded(sorted, plans);
 
       setMessage({
         type: "success",
@@ -202,15 +256,7 @@ export default function ChannelManager() {
 
   // Reset changes
   const resetChanges = () => {
-    const initialEdited: Record<string, EditedChannel> = {};
-    channels.forEach((channel) => {
-      initialEdited[channel.id] = {
-        name: channel.name ?? "",
-        slug: channel.slug ?? "",
-        logo_url: channel.logo_url ?? "",
-      };
-    });
-    setEditedChannels(initialEdited);
+    applyLoaded(channels, planAccess);
     setMessage(null);
   };
 
@@ -218,11 +264,7 @@ export default function ChannelManager() {
   const hasChanges = channels.some((channel) => {
     const edited = editedChannels[channel.id];
     if (!edited) return false;
-    return (
-      edited.name !== (channel.name ?? "") ||
-      edited.slug !== (channel.slug ?? "") ||
-      edited.logo_url !== (channel.logo_url ?? "")
-    );
+    return isChanged(channel, edited, planAccess[channel.id]);
   });
 
   return (
@@ -230,7 +272,9 @@ export default function ChannelManager() {
       <div className="flex justify-between items-center mb-6">
         <div>
           <h1 className="text-3xl font-bold">Channel Manager</h1>
-          <p className="text-gray-400">Update channel names and information</p>
+          <p className="text-gray-400">
+            Update channel names, information and access tiers
+          </p>
         </div>
         <Link href="/admin">
           <Button variant="outline">Back to Admin</Button>
@@ -258,8 +302,8 @@ export default function ChannelManager() {
         <CardHeader>
           <CardTitle>Channel Names</CardTitle>
           <CardDescription>
-            Edit channel names, slugs, and logo URLs below. Changes will be
-            applied throughout the application.
+            Edit channel names, slugs, logo URLs and who can watch each
+            channel. Changes will be applied throughout the application.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -270,16 +314,10 @@ export default function ChannelManager() {
           ) : (
             <div className="space-y-4">
               {channels.map((channel) => {
-                const edited = editedChannels[channel.id] || {
-                  name: "",
-                  slug: "",
-                  logo_url: "",
-                };
-
-                const changed =
-                  edited.name !== (channel.name ?? "") ||
-                  edited.slug !== (channel.slug ?? "") ||
-                  edited.logo_url !== (channel.logo_url ?? "");
+                const edited =
+                  editedChannels[channel.id] || toEdited(channel);
+                const savedPlans = planAccess[channel.id] ?? [];
+                const changed = isChanged(channel, edited, savedPlans);
 
                 return (
                   <div
@@ -375,6 +413,67 @@ export default function ChannelManager() {
                       </div>
                     </div>
 
+                    {/* Access */}
+                    <div className="mt-3 grid gap-3 md:grid-cols-3">
+                      <div className="flex flex-col gap-1">
+                        <Label
+                          htmlFor={`tier-${channel.id}`}
+                          className="text-xs text-slate-300"
+                        >
+                          Access Tier
+                        </Label>
+                        <select
+                          id={`tier-${channel.id}`}
+                          value={edited.access_tier}
+                          onChange={(e) =>
+                            handleFieldChange(
+                              channel.id,
+                              "access_tier",
+                              e.target.value as ChannelAccessTier
+                            )
+                          }
+                          className={`h-10 rounded-md border bg-transparent px-3 text-sm ${
+                            edited.access_tier !==
+                            (channel.access_tier ?? "member")
+                              ? "border-yellow-500"
+                              : "border-input"
+                          }`}
+                        >
+                          <option value="free">Free — everyone</option>
+                          <option value="member">Members only</option>
+                        </select>
+                      </div>
+
+                      <div className="flex flex-col gap-1 md:col-span-2">
+                        <span className="text-xs text-slate-300">
+                          Also unlocked by partner plans
+                        </span>
+                        <div
+                          className={`flex flex-wrap gap-4 min-h-10 items-center rounded-md border px-3 ${
+                            samePlans(edited.plans, savedPlans)
+                              ? "border-input"
+                              : "border-yellow-500"
+                          } ${
+                            edited.access_tier === "free" ? "opacity-50" : ""
+                          }`}
+                        >
+                          {knownPlans.map((plan) => (
+                            <label
+                              key={plan}
+                              className="flex items-center gap-2 text-sm capitalize"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={edited.plans.includes(plan)}
+                                onChange={() => togglePlan(channel.id, plan)}
+                              />
+                              {plan}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
                     {edited.logo_url && (
                       <div className="mt-3 text-xs text-slate-400">
                         Preview:
@@ -435,6 +534,10 @@ export default function ChannelManager() {
           <li>You may need to refresh the browser to see changes on other pages</li>
           <li>Channel IDs cannot be changed, only the display names</li>
           <li>Use slug and logo URL to control URLs and artwork per channel</li>
+          <li>
+            Access tier changes reach viewers within about a minute; partner
+            plans only matter for members-only channels
+          </li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,452 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import type {
+  ModerationMessage,
+  ModerationQueue,
+  ModerationRoom,
+  SanctionKind,
+  WordAction,
+} from '@/lib/chat-moderation'
+
+const DURATIONS: { label: string; minutes: number | null }[] = [
+  { label: '10 min', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+  { label: '24 hours', minutes: 1440 },
+  { label: '7 days', minutes: 10080 },
+  { label: 'Until lifted', minutes: null },
+]
+
+const SLOW_MODES = [0, 5, 10, 30, 60, 120, 300]
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+export default function ChatModerationPage() {
+  const [queue, setQueue] = useState<ModerationQueue | null>(null)
+  const [room, setRoom] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // sanction form, opened from a message
+  const [target, setTarget] = useState<ModerationMessage | null>(null)
+  const [kind, setKind] = useState<SanctionKind>('mute')
+  const [minutes, setMinutes] = useState<number | null>(60)
+  const [global, setGlobal] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const [newWord, setNewWord] = useState('')
+  const [wordMode, setWordMode] = useState<WordAction>('block')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const qs = room ? `?room=${encodeURIComponent(room)}` : ''
+      const res = await fetch(`/api/admin/chat-moderation${qs}`, { cache: 'no-store' })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setQueue(j)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [room])
+
+  useEffect(() => { load() }, [load])
+
+  async function act(body: Record<string, unknown>, done: string) {
+    setBusy(true)
+    setNotice(null)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/chat-moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setNotice(done)
+      await load()
+      return true
+    } catch (e: any) {
+      setError(e.message)
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function openSanction(m: ModerationMessage, k: SanctionKind) {
+    setTarget(m)
+    setKind(k)
+    setMinutes(k === 'mute' ? 60 : null)
+    setGlobal(false)
+    setReason('')
+  }
+
+  async function submitSanction() {
+    if (!target) return
+    const ok = await act(
+      {
+        action: 'sanction',
+        user_id: target.sender_id,
+        kind,
+        room_id: global ? undefined : target.room_id,
+        minutes: minutes ?? undefined,
+        reason: reason || undefined,
+      },
+      `${target.sender_name || 'Member'} ${kind === 'ban' ? 'banned' : 'muted'}${global ? ' everywhere' : ''}.`
+    )
+    if (ok) setTarget(null)
+  }
+
+  const roomName = (id: string | null) =>
+    id ? queue?.rooms.find(r => r.id === id)?.name || id : 'All rooms'
+
+  function MessageRow({ m, flagged }: { m: ModerationMessage; flagged?: boolean }) {
+    return (
+      <li className="rounded-lg border border-gray-800 p-3 text-xs">
+        <div className="flex justify-between gap-2 flex-wrap">
+          <div>
+            <span className="font-semibold text-yellow-300">{m.sender_name || 'Member'}</span>
+            <span className="text-gray-500"> · {roomName(m.room_id)} · {fmt(m.created_at)}</span>
+          </div>
+          {flagged && m.flag_reason && <span className="text-orange-300">{m.flag_reason}</span>}
+        </div>
+        <p className="mt-1 text-gray-100 whitespace-pre-wrap break-words">{m.message}</p>
+        <div className="mt-2 flex gap-2 flex-wrap">
+          <button
+            disabled={busy}
+            onClick={() => act({ action: 'delete', message_id: m.id }, 'Message deleted.')}
+            className="px-3 py-1 rounded-lg border border-red-600 text-red-300 hover:bg-red-900/30 transition disabled:opacity-40"
+          >
+            Delete
+          </button>
+          {flagged && (
+            <button
+              disabled={busy}
+              onClick={() => act({ action: 'dismiss_flag', message_id: m.id }, 'Flag dismissed.')}
+              className="px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:border-gray-400 transition disabled:opacity-40"
+            >
+              Keep
+            </button>
+          )}
+          <button
+            disabled={busy}
+            onClick={() => openSanction(m, 'mute')}
+            className="px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:border-yellow-500/40 transition disabled:opacity-40"
+          >
+            Mute
+          </button>
+          <button
+            disabled={busy}
+            onClick={() => openSanction(m, 'ban')}
+            className="px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:border-red-500/60 transition disabled:opacity-40"
+          >
+            Ban
+          </button>
+        </div>
+      </li>
+    )
+  }
+
+  function RoomSettings({ r }: { r: ModerationRoom }) {
+    return (
+      <tr className="border-t border-gray-800">
+        <td className="px-3 py-2 text-gray-200">{r.name}</td>
+        <td className="px-3 py-2">
+          <select
+            value={r.slow_mode_seconds}
+            disabled={busy}
+            onChange={e =>
+              act(
+                { action: 'room_settings', room_id: r.id, slow_mode_seconds: Number(e.target.value) },
+                `Slow mode updated for ${r.name}.`
+              )
+            }
+            className="bg-gray-950 border border-gray-700 rounded px-2 py-1"
+          >
+            {[...new Set([...SLOW_MODES, r.slow_mode_seconds])].sort((a, b) => a - b).map(s => (
+              <option key={s} value={s}>{s === 0 ? 'Off' : `${s}s`}</option>
+            ))}
+          </select>
+        </td>
+        <td className="px-3 py-2">
+          <label className="inline-flex items-center gap-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={r.members_only}
+              disabled={busy}
+              onChange={e =>
+                act(
+                  { action: 'room_settings', room_id: r.id, members_only: e.target.checked },
+                  `${r.name} is now ${e.target.checked ? 'members only' : 'open to everyone'}.`
+                )
+              }
+            />
+            Members only
+          </label>
+        </td>
+        <td className="px-3 py-2">
+          <select
+            value={r.report_hide_threshold}
+            disabled={busy}
+            onChange={e =>
+              act(
+                { action: 'room_settings', room_id: r.id, report_hide_threshold: Number(e.target.value) },
+                `${r.name} now hides messages after ${e.target.value} report(s).`
+              )
+            }
+            className="bg-gray-950 border border-gray-700 rounded px-2 py-1"
+          >
+            {[...new Set([1, 2, 3, 5, 10, r.report_hide_threshold])].sort((a, b) => a - b).map(n => (
+              <option key={n} value={n}>{n} report{n === 1 ? '' : 's'}</option>
+            ))}
+          </select>
+        </td>
+      </tr>
+    )
+  }
+
+  const panel = 'bg-gray-900 border border-gray-700 rounded-xl p-4'
+  const heading = 'text-xs uppercase tracking-widest text-gray-400 font-semibold mb-3'
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white pb-10">
+      <div className="max-w-6xl mx-auto px-4 pt-8 space-y-6">
+
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-yellow-400">Chat Moderation</h1>
+            <p className="text-gray-400 text-sm mt-1">
+              Flagged messages, mutes and bans, slow mode, members-only rooms and the word filter.
+            </p>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            <select
+              value={room}
+              onChange={e => setRoom(e.target.value)}
+              className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">All rooms</option>
+              {queue?.rooms.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <button
+              onClick={load}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              Refresh
+            </button>
+            <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              ← Admin
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-xl p-4 border border-gray-700 bg-gray-900 text-sm text-gray-300">{notice}</div>
+        )}
+
+        {target && (
+          <div className={`${panel} border-yellow-500/40`}>
+            <div className={heading}>
+              {kind === 'ban' ? 'Ban' : 'Mute'} {target.sender_name || target.sender_id}
+            </div>
+            <div className="flex gap-3 flex-wrap items-center text-sm">
+              <select value={kind} onChange={e => setKind(e.target.value as SanctionKind)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1">
+                <option value="mute">Mute (can read, can&apos;t post)</option>
+                <option value="ban">Ban (can&apos;t read or post)</option>
+              </select>
+              <select
+                value={minutes ?? ''}
+                onChange={e => setMinutes(e.target.value ? Number(e.target.value) : null)}
+                className="bg-gray-950 border border-gray-700 rounded px-2 py-1"
+              >
+                {DURATIONS.map(d => <option key={d.label} value={d.minutes ?? ''}>{d.label}</option>)}
+              </select>
+              <label className="inline-flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={global} onChange={e => setGlobal(e.target.checked)} />
+                Every room (not just {roomName(target.room_id)})
+              </label>
+              <input
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                placeholder="Reason (internal)"
+                className="flex-1 min-w-[180px] bg-gray-950 border border-gray-700 rounded px-2 py-1"
+              />
+              <button
+                onClick={submitSanction}
+                disabled={busy}
+                className="px-4 py-1.5 bg-yellow-400 text-black rounded-lg font-bold uppercase text-xs hover:bg-yellow-300 transition disabled:opacity-40"
+              >
+                Apply
+              </button>
+              <button onClick={() => setTarget(null)} className="text-gray-400 hover:text-gray-200 text-xs">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Queue */}
+        <div className={panel}>
+          <div className={heading}>Flagged by the word filter · {queue?.flagged.length ?? 0}</div>
+          {queue && queue.flagged.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing waiting for review.</p>
+          ) : (
+            <ul className="space-y-2">
+              {queue?.flagged.map(m => <MessageRow key={m.id} m={m} flagged />)}
+            </ul>
+          )}
+        </div>
+
+        <div className={panel}>
+          <div className={heading}>Recent messages</div>
+          {queue && queue.recent.length === 0 ? (
+            <p className="text-sm text-gray-500">No messages.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {queue?.recent.map(m => <MessageRow key={m.id} m={m} />)}
+            </ul>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Sanctions */}
+          <div className={panel}>
+            <div className={heading}>Active mutes &amp; bans</div>
+            {queue && queue.sanctions.length === 0 ? (
+              <p className="text-sm text-gray-500">None.</p>
+            ) : (
+              <ul className="space-y-2 text-xs">
+                {queue?.sanctions.map(s => (
+                  <li key={s.id} className="rounded-lg border border-gray-800 p-3 flex justify-between gap-2">
+                    <div>
+                      <div className="text-gray-200">
+                        <span style={{ color: s.kind === 'ban' ? '#c94c4c' : '#c9a84c' }}>{s.kind}</span>{' '}
+                        {s.user_name || <span className="font-mono">{s.user_id}</span>}
+                      </div>
+                      <div className="text-gray-500">
+                        {roomName(s.room_id)} · until {s.expires_at ? fmt(s.expires_at) : 'lifted'}
+                        {s.reason && <> · {s.reason}</>}
+                      </div>
+                    </div>
+                    <button
+                      disabled={busy}
+                      onClick={() => act({ action: 'lift', sanction_id: s.id }, 'Lifted.')}
+                      className="self-start px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:border-gray-400 transition disabled:opacity-40"
+                    >
+                      Lift
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Word filter */}
+          <div className={panel}>
+            <div className={heading}>Word filter</div>
+            <form
+              onSubmit={async e => {
+                e.preventDefault()
+                if (!newWord.trim()) return
+                if (await act({ action: 'word_add', word: newWord, mode: wordMode }, `"${newWord.trim()}" added.`)) {
+                  setNewWord('')
+                }
+              }}
+              className="flex gap-2 mb-3 text-sm"
+            >
+              <input
+                value={newWord}
+                onChange={e => setNewWord(e.target.value)}
+                placeholder="Word or phrase"
+                className="flex-1 bg-gray-950 border border-gray-700 rounded px-2 py-1"
+              />
+              <select value={wordMode} onChange={e => setWordMode(e.target.value as WordAction)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1">
+                <option value="block">Block</option>
+                <option value="flag">Flag for review</option>
+              </select>
+              <button disabled={busy} className="px-3 py-1 border border-gray-600 rounded-lg hover:border-yellow-500/40 transition disabled:opacity-40">
+                Add
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {queue?.words.map(w => (
+                <span key={w.word} className="inline-flex items-center gap-1 rounded-full border border-gray-700 px-2 py-1">
+                  <span style={{ color: w.action === 'block' ? '#f09090' : '#f0c090' }}>{w.word}</span>
+                  <button
+                    disabled={busy}
+                    onClick={() => act({ action: 'word_remove', word: w.word }, `"${w.word}" removed.`)}
+                    className="text-gray-500 hover:text-gray-200"
+                    aria-label={`Remove ${w.word}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              {queue && queue.words.length === 0 && <span className="text-gray-500">No words yet.</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* Rooms */}
+        <div className="overflow-x-auto bg-gray-900 border border-gray-700 rounded-xl">
+          <table className="w-full text-xs">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="px-3 py-2">Room</th>
+                <th className="px-3 py-2">Slow mode</th>
+                <th className="px-3 py-2">Access</th>
+                <th className="px-3 py-2">Hide after</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue?.rooms.map(r => <RoomSettings key={r.id} r={r} />)}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Log */}
+        <div className={panel}>
+          <div className={heading}>Recent moderator actions</div>
+          <ul className="space-y-1 text-xs text-gray-400">
+            {queue?.actions.map(a => (
+              <li key={a.id}>
+                <span className="text-gray-500">{fmt(a.created_at)}</span>{' '}
+                <span className="text-gray-200">{a.action}</span>
+                {a.room_id && <> · {roomName(a.room_id)}</>}
+                {a.reason && <> · {a.reason}</>}
+                {a.action === 'delete' && a.original_text && (
+                  <>
+                    {' '}· <span className="italic">&ldquo;{a.original_text}&rdquo;</span>{' '}
+                    <button
+                      disabled={busy}
+                      onClick={() => act({ action: 'restore', message_id: a.message_id }, 'Message restored.')}
+                      className="text-yellow-300 hover:underline"
+                    >
+                      restore
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { REPORT_REASON_LABEL, type ReportReason } from '@/lib/chat-reports-client'
+import type { ReportStatus, ReportedMessage } from '@/lib/chat-reports'
+import type { SanctionKind } from '@/lib/chat-moderation'
+
+const FILTERS: ReportStatus[] = ['open', 'actioned', 'dismissed']
+
+type Review = {
+  deleteMessage: boolean
+  warn: boolean
+  warning: string
+  sanction: '' | SanctionKind
+  minutes: string
+}
+
+const DEFAULT_REVIEW: Review = { deleteMessage: true, warn: true, warning: '', sanction: '', minutes: '1440' }
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+export default function ChatReportsPage() {
+  const [messages, setMessages] = useState<ReportedMessage[]>([])
+  const [filter, setFilter] = useState<ReportStatus>('open')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [reviews, setReviews] = useState<Record<string, Review>>({})
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/admin/chat-reports?status=${filter}`, { cache: 'no-store' })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setMessages(j.messages)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter])
+
+  useEffect(() => { load() }, [load])
+
+  const review = (id: string) => reviews[id] ?? DEFAULT_REVIEW
+  const setReview = (id: string, patch: Partial<Review>) =>
+    setReviews(prev => ({ ...prev, [id]: { ...review(id), ...patch } }))
+
+  async function decide(m: ReportedMessage, decision: 'dismiss' | 'act') {
+    const r = review(m.message_id)
+    setBusy(m.message_id)
+    setNotice(null)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/chat-reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          decision === 'dismiss'
+            ? { message_id: m.message_id, decision }
+            : {
+                message_id: m.message_id,
+                decision,
+                delete: r.deleteMessage,
+                warn: r.warn,
+                warning: r.warning || undefined,
+                sanction: r.sanction ? { kind: r.sanction, minutes: Number(r.minutes) || undefined } : undefined,
+              }
+        ),
+      })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setNotice(
+        decision === 'dismiss'
+          ? `Reports dismissed; ${m.sender_name || 'the message'}'s message is visible again.`
+          : `Reports upheld${j.warned ? ' and sender warned' : ''}.`
+      )
+      await load()
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white pb-10">
+      <div className="max-w-5xl mx-auto px-4 pt-8 space-y-6">
+
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-yellow-400">Chat Reports</h1>
+            <p className="text-gray-400 text-sm mt-1">
+              Messages viewers reported. Messages with enough reports are already hidden from chat until you decide.
+            </p>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            <button
+              onClick={load}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              Refresh
+            </button>
+            <Link href="/admin/chat-moderation" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              Moderation
+            </Link>
+            <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              ← Admin
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {FILTERS.map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1 rounded-full text-xs border transition ${
+                filter === f ? 'border-yellow-400 text-yellow-300' : 'border-gray-700 text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              {f}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-xl p-4 border border-gray-700 bg-gray-900 text-sm text-gray-300">{notice}</div>
+        )}
+
+        {!loading && messages.length === 0 && (
+          <p className="text-sm text-gray-500">No {filter} reports.</p>
+        )}
+
+        <ul className="space-y-4">
+          {messages.map(m => {
+            const r = review(m.message_id)
+            return (
+              <li key={m.message_id} className="bg-gray-900 border border-gray-700 rounded-xl p-4 text-sm">
+                <div className="flex justify-between gap-2 flex-wrap text-xs">
+                  <div>
+                    <span className="font-semibold text-yellow-300">{m.sender_name || 'Member'}</span>
+                    <span className="text-gray-500"> · {m.room_name || 'Unknown room'} · {fmt(m.created_at)}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    {m.deleted && <span className="text-red-300">deleted</span>}
+                    {!m.deleted && m.hidden_at && <span className="text-orange-300">hidden {fmt(m.hidden_at)}</span>}
+                    <span className="text-gray-300">{m.report_count} report{m.report_count === 1 ? '' : 's'}</span>
+                  </div>
+                </div>
+
+                <p className="mt-2 text-gray-100 whitespace-pre-wrap break-words">
+                  {m.deleted ? <span className="italic text-gray-500">Deleted message</span> : m.message}
+                </p>
+
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {(Object.entries(m.reasons) as [ReportReason, number][]).map(([reason, n]) => (
+                    <span key={reason} className="rounded-full border border-gray-700 px-2 py-0.5 text-gray-300">
+                      {REPORT_REASON_LABEL[reason]} · {n}
+                    </span>
+                  ))}
+                </div>
+                {m.details.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-400">
+                    {m.details.map((d, i) => <li key={i}>&ldquo;{d}&rdquo;</li>)}
+                  </ul>
+                )}
+
+                {filter === 'open' && (
+                  <div className="mt-4 border-t border-gray-800 pt-3 space-y-3 text-xs">
+                    <div className="flex flex-wrap gap-4 items-center text-gray-300">
+                      <label className="inline-flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={r.deleteMessage}
+                          disabled={m.deleted}
+                          onChange={e => setReview(m.message_id, { deleteMessage: e.target.checked })}
+                        />
+                        Delete message
+                      </label>
+                      <label className="inline-flex items-center gap-2">
+                        <input type="checkbox" checked={r.warn} onChange={e => setReview(m.message_id, { warn: e.target.checked })} />
+                        Warn sender
+                      </label>
+                      <select
+                        value={r.sanction}
+                        onChange={e => setReview(m.message_id, { sanction: e.target.value as Review['sanction'] })}
+                        className="bg-gray-950 border border-gray-700 rounded px-2 py-1"
+                      >
+                        <option value="">No mute or ban</option>
+                        <option value="mute">Mute in this room</option>
+                        <option value="ban">Ban from this room</option>
+                      </select>
+                      {r.sanction && (
+                        <select
+                          value={r.minutes}
+                          onChange={e => setReview(m.message_id, { minutes: e.target.value })}
+                          className="bg-gray-950 border border-gray-700 rounded px-2 py-1"
+                        >
+                          <option value="60">1 hour</option>
+                          <option value="1440">24 hours</option>
+                          <option value="10080">7 days</option>
+                          <option value="">Until lifted</option>
+                        </select>
+                      )}
+                    </div>
+                    {r.warn && (
+                      <input
+                        value={r.warning}
+                        onChange={e => setReview(m.message_id, { warning: e.target.value })}
+                        placeholder="Add a note to the warning (optional)"
+                        className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1"
+                      />
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => decide(m, 'act')}
+                        disabled={busy !== null}
+                        className="px-4 py-1.5 bg-yellow-400 text-black rounded-lg font-bold uppercase hover:bg-yellow-300 transition disabled:opacity-40"
+                      >
+                        {busy === m.message_id ? 'Working…' : 'Uphold'}
+                      </button>
+                      <button
+                        onClick={() => decide(m, 'dismiss')}
+                        disabled={busy !== null}
+                        className="px-4 py-1.5 border border-gray-600 rounded-lg text-gray-300 hover:border-gray-400 transition disabled:opacity-40"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ import {
   Film,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { snapshotSchedule } from "@/lib/schedule-history";
 
 type ProgramRow = {
   // NOTE: no "id" column here because your programs table does not have it
@@ -151,6 +152,14 @@ export default function CleanupProgramsPage() {
     setSuccessMsg(null);
 
     try {
+      // Undo point for every channel we're about to touch
+      await snapshotSchedule(
+        supabase,
+        indexes.map((idx) => programs[idx]?.channel_id).filter((c) => c != null),
+        "cleanup",
+        `Removed ${indexes.length} program(s)`
+      );
+
       // delete row-by-row using the composite key
       for (const idx of indexes) {
         const row = programs[idx];
@@ -172,7 +181,9 @@ export default function CleanupProgramsPage() {
         prev.filter((_, idx) => !selectedIndexes.has(idx))
       );
       setSelectedIndexes(new Set());
-      setSuccessMsg(`Deleted ${indexes.length} program(s) from the schedule.`);
+      setSuccessMsg(
+        `Deleted ${indexes.length} program(s) from the schedule. Undo from Schedule History.`
+      );
     } catch (e: any) {
       console.error("Error deleting programs", e);
       setErr(e?.message || "Failed to delete selected programs.");
@@ -5,6 +5,7 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import Link from "next/link"
 import { supabase } from "@/lib/supabase"
+import { snapshotSchedule } from "@/lib/schedule-history"
 import { Button } from "@/components/ui/button"
 import { ArrowLeft, Database, RefreshCw, Trash2, CheckCircle, XCircle, AlertTriangle } from "lucide-react"
 
@@ -123,7 +124,7 @@ export default function DatabaseInspectorPage() {
 
   // Reset programs for a specific channel
   const resetChannelPrograms = async (channelId: string) => {
-    if (!confirm(`Are you sure you want to delete ALL programs for channel ${channelId}? This cannot be undone.`)) {
+    if (!confirm(`Are you sure you want to delete ALL programs for channel ${channelId}? You can put them back from Schedule history.`)) {
       return
     }
 
@@ -131,6 +132,8 @@ export default function DatabaseInspectorPage() {
     setResult(null)
 
     try {
+      await snapshotSchedule(supabase, [Number(channelId)], "reset", `Deleted all programs for channel ${channelId}`)
+
       const { error } = await supabase.from("programs").delete().eq("channel_id", channelId)
 
       if (error) {
@@ -158,7 +161,7 @@ export default function DatabaseInspectorPage() {
 
   // Reset all programs
   const resetAllPrograms = async () => {
-    if (!confirm("⚠️ WARNING: Are you sure you want to delete ALL programs for ALL channels? This cannot be undone.")) {
+    if (!confirm("⚠️ WARNING: Are you sure you want to delete ALL programs for ALL channels? You can put them back from Schedule history.")) {
       return
     }
 
@@ -170,6 +173,8 @@ export default function DatabaseInspectorPage() {
     setResult(null)
 
     try {
+      await snapshotSchedule(supabase, null, "reset", "Reset all programs")
+
       const { error } = await supabase.from("programs").delete().gt("id", "0") // Delete all programs
 
       if (error) {
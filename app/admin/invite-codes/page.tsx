@@ -17,8 +17,17 @@ type Row = {
   created_at: string;
 };
 
+type Redemption = {
+  code_hash: string;
+  user_id: string;
+  email: string | null;
+  role_granted: string;
+  redeemed_at: string;
+};
+
 export default function InviteCodesPage() {
   const [rows, setRows] = useState<Row[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [err, setErr] = useState<string | null>(null);
@@ -37,6 +46,11 @@ export default function InviteCodesPage() {
     return isNaN(d.getTime()) ? null : d.toISOString();
   }, [expires]);
 
+  const labelByHash = useMemo(
+    () => new Map(rows.filter((r) => r.label).map((r) => [r.code_hash, r.label as string])),
+    [rows]
+  );
+
   async function sha256Hex(text: string) {
     const enc = new TextEncoder();
     const buf = await crypto.subtle.digest("SHA-256", enc.encode(text));
@@ -48,12 +62,21 @@ export default function InviteCodesPage() {
     setLoading(true);
     setErr(null);
     try {
-      const { data, error } = await supabase
-        .from("invite_codes")
-        .select("code_hash, role, label, expires_at, max_uses, used_count, created_at")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      setRows((data as Row[]) || []);
+      const [codes, redeemed] = await Promise.all([
+        supabase
+          .from("invite_codes")
+          .select("code_hash, role, label, expires_at, max_uses, used_count, created_at")
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("invite_redemptions")
+          .select("code_hash, user_id, email, role_granted, redeemed_at")
+          .order("redeemed_at", { ascending: false })
+          .limit(50),
+      ]);
+      if (codes.error) throw codes.error;
+      setRows((codes.data as Row[]) || []);
+      // Redemptions are secondary; an older DB without the table still lists codes
+      setRedemptions(redeemed.error ? [] : ((redeemed.data as Redemption[]) || []));
     } catch (e: any) {
       setErr(e?.message || "Failed to load invite codes.");
     } finally {
@@ -88,7 +111,8 @@ export default function InviteCodesPage() {
       const { error } = await supabase.from("invite_codes").insert(payload as any);
       if (error) throw error;
 
-      setMsg("Invite code created.");
+      const link = `${window.location.origin}/request-access?invite=${encodeURIComponent(plainCode.trim())}`;
+      setMsg(`Invite code created. Share this sign-up link: ${link}`);
       setPlainCode("");
       setLabel("");
       setExpires("");
@@ -147,7 +171,6 @@ export default function InviteCodesPage() {
                 onChange={(e) => setRole(e.target.value as Row["role"])}
               >
                 <option value="student">student</option>
-                <option value="admin">admin</option>
                 <option value="member">member</option>
               </select>
             </div>
@@ -251,6 +274,42 @@ export default function InviteCodesPage() {
           )}
         </CardContent>
       </Card>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle>Recent Redemptions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {redemptions.length === 0 ? (
+            <p className="text-gray-400">No codes redeemed yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-4">Who</th>
+                    <th className="py-2 pr-4">Code</th>
+                    <th className="py-2 pr-4">Role granted</th>
+                    <th className="py-2 pr-4">Redeemed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {redemptions.map((r) => (
+                    <tr key={`${r.code_hash}:${r.user_id}`} className="border-t border-gray-700">
+                      <td className="py-2 pr-4">{r.email || <span className="font-mono text-gray-500">{r.user_id}</span>}</td>
+                      <td className="py-2 pr-4">
+                        {labelByHash.get(r.code_hash) || <span className="font-mono text-gray-500">{r.code_hash.slice(0, 10)}…</span>}
+                      </td>
+                      <td className="py-2 pr-4">{r.role_granted}</td>
+                      <td className="py-2 pr-4">{new Date(r.redeemed_at).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -1,5 +1,8 @@
 // app/admin/layout.tsx
 import type { ReactNode } from "react";
+import { createClient } from "@/utils/supabase/server";
+import { loadStaffAccess } from "@/lib/permissions";
+import { AdminPermissionsProvider } from "@/components/admin-permissions";
 
 type Props = {
   children: ReactNode;
@@ -7,7 +10,12 @@ type Props = {
 
 export const dynamic = "force-dynamic";
 
-export default function AdminLayout({ children }: Props) {
+export default async function AdminLayout({ children }: Props) {
+  // middleware.ts already gated the path; this is for hiding tools the role can't use
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  const access = await loadStaffAccess(supabase, data?.user?.id ?? null);
+
   return (
     <div
       style={{
@@ -16,7 +24,7 @@ export default function AdminLayout({ children }: Props) {
         color: "#ffffff",
       }}
     >
-      {children}
+      <AdminPermissionsProvider access={access}>{children}</AdminPermissionsProvider>
     </div>
   );
 }
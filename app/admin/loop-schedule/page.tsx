@@ -13,6 +13,15 @@ import {
   Clock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  asSeconds,
+  chainSequential,
+  parseUtcishMs,
+  scheduleEndMs,
+  sortByStart,
+  totalDurationSec,
+} from "@/lib/schedule";
+import { snapshotSchedule } from "@/lib/schedule-history";
 
 type ProgramRow = {
   channel_id: number;
@@ -22,6 +31,10 @@ type ProgramRow = {
   duration: number | null; // seconds
 };
 
+// Rows usable as a loop template: must have a video and a positive duration
+const isTemplateRow = (p: ProgramRow) =>
+  Boolean(p.mp4_url) && asSeconds(p.duration) > 0;
+
 export default function LoopSchedulePage() {
   const supabase = createClient();
 
@@ -79,14 +92,10 @@ export default function LoopSchedulePage() {
       }
 
       // Use the entire current schedule as the template
-      const earliestStart = new Date(rows[0].start_time);
-      const templateRows = rows;
+      const earliestStart = new Date(parseUtcishMs(rows[0].start_time));
 
       // Filter to only rows with valid duration and mp4_url
-      const validTemplateRows = templateRows.filter((p) => {
-        const dur = Number(p.duration ?? 0);
-        return Boolean(p.mp4_url) && Number.isFinite(dur) && dur > 0;
-      });
+      const validTemplateRows = rows.filter(isTemplateRow);
 
       if (!validTemplateRows.length) {
         setErr(
@@ -97,16 +106,11 @@ export default function LoopSchedulePage() {
 
       // Compute template duration and window
       const templateStartMs = earliestStart.getTime();
-      let templateDurationMs = 0;
-      let templateEndMs = templateStartMs;
-
-      for (const p of validTemplateRows) {
-        const sMs = new Date(p.start_time).getTime();
-        const durSec = Number(p.duration ?? 0);
-        const endMs = sMs + durSec * 1000;
-        if (endMs > templateEndMs) templateEndMs = endMs;
-        templateDurationMs += durSec * 1000;
-      }
+      const templateDurationMs = totalDurationSec(validTemplateRows) * 1000;
+      const templateEndMs = Math.max(
+        templateStartMs,
+        scheduleEndMs(validTemplateRows)
+      );
 
       const templateDurationHours =
         Math.round((templateDurationMs / (1000 * 60 * 60)) * 10) / 10;
@@ -117,13 +121,7 @@ export default function LoopSchedulePage() {
         ) / 10;
 
       // Current end time for the whole channel (last program end)
-      let currentEndMs = templateStartMs;
-      for (const p of rows) {
-        const s = new Date(p.start_time).getTime();
-        const durSec = Number(p.duration ?? 0);
-        const endMs = s + durSec * 1000;
-        if (endMs > currentEndMs) currentEndMs = endMs;
-      }
+      const currentEndMs = Math.max(templateStartMs, scheduleEndMs(rows));
       const currentEnd = new Date(currentEndMs);
 
       // Projected end if we add N blocks
@@ -200,14 +198,10 @@ export default function LoopSchedulePage() {
       }
 
       // 2) Use the entire schedule as the template
-      const earliestStart = new Date(rows[0].start_time);
-      const templateRows = rows;
+      const templateStartMs = parseUtcishMs(rows[0].start_time);
 
       // Valid template rows only (must have duration + mp4)
-      const validTemplateRows = templateRows.filter((p) => {
-        const dur = Number(p.duration ?? 0);
-        return Boolean(p.mp4_url) && Number.isFinite(dur) && dur > 0;
-      });
+      const validTemplateRows = rows.filter(isTemplateRow);
 
       if (!validTemplateRows.length) {
         setErr(
@@ -217,28 +211,8 @@ export default function LoopSchedulePage() {
       }
 
       // 3) Build template pattern in order (no relative offsets)
-      const templateStartMs = earliestStart.getTime();
-
-      const templatePattern = validTemplateRows
-        .slice()
-        .sort((a, b) => {
-          return (
-            new Date(a.start_time).getTime() -
-            new Date(b.start_time).getTime()
-          );
-        })
-        .map((p) => {
-          return {
-            title: p.title ?? null,
-            mp4_url: p.mp4_url as string,
-            durationSec: Number(p.duration ?? 0), // SECONDS
-          };
-        });
-
-      let templateDurationMs = 0;
-      for (const p of templatePattern) {
-        templateDurationMs += p.durationSec * 1000;
-      }
+      const templatePattern = sortByStart(validTemplateRows);
+      const templateDurationMs = totalDurationSec(templatePattern) * 1000;
 
       if (templateDurationMs <= 0) {
         setErr(
@@ -248,13 +222,7 @@ export default function LoopSchedulePage() {
       }
 
       // 4) Find the true current end of the channel (last program end)
-      let currentEndMs = templateStartMs;
-      for (const p of rows) {
-        const s = new Date(p.start_time).getTime();
-        const durSec = Number(p.duration ?? 0);
-        const endMs = s + durSec * 1000;
-        if (endMs > currentEndMs) currentEndMs = endMs;
-      }
+      const currentEndMs = Math.max(templateStartMs, scheduleEndMs(rows));
 
       // Each block = one full run of the existing schedule
       const totalBlocks = blocks;
@@ -267,37 +235,14 @@ export default function LoopSchedulePage() {
         return;
       }
 
-      // 5) Build inserts SEQUENTIALLY (no gaps, no overlaps)
-      const inserts: {
-        channel_id: number;
-        start_time: string;
-        title: string | null;
-        mp4_url: string;
-        duration: number; // SECONDS
-      }[] = [];
-
-      let workingEndMs = currentEndMs;
-
-      for (let i = 0; i < totalBlocks; i++) {
-        let cursorMs = workingEndMs; // start this block right after the last program
-
-        for (const p of templatePattern) {
-          const newStart = new Date(cursorMs);
-
-          inserts.push({
-            channel_id: chId,
-            start_time: newStart.toISOString(), // UTC
-            title: p.title,
-            mp4_url: p.mp4_url,
-            duration: p.durationSec,
-          });
-
-          cursorMs += p.durationSec * 1000; // move forward by this show's duration
-        }
-
-        // Next block starts exactly where this block ended
-        workingEndMs = cursorMs;
-      }
+      // 5) Build inserts SEQUENTIALLY (no gaps, no overlaps); each block
+      //    starts exactly where the previous one ended
+      const { rows: inserts } = chainSequential(
+        templatePattern,
+        chId,
+        currentEndMs,
+        { repeat: Math.ceil(totalBlocks) }
+      );
 
       if (!inserts.length) {
         setErr("Nothing to insert. Check your template and durations.");
@@ -311,7 +256,14 @@ export default function LoopSchedulePage() {
         return;
       }
 
-      // 6) Insert into programs
+      // 6) Undo point, then insert into programs
+      await snapshotSchedule(
+        supabase,
+        [chId],
+        "loop",
+        `Extended by ${totalBlocks} block(s)`
+      );
+
       const { error: insertError } = await supabase
         .from("programs")
         .insert(inserts);
@@ -328,7 +280,7 @@ export default function LoopSchedulePage() {
         ) / 10;
 
       setSuccessMsg(
-        `Added ${inserts.length} program(s), repeating the current schedule ${totalBlocks} time(s) and adding ~${totalHoursAdded} hours of programming for channel ${chId}.`
+        `Added ${inserts.length} program(s), repeating the current schedule ${totalBlocks} time(s) and adding ~${totalHoursAdded} hours of programming for channel ${chId}. Undo from Schedule History.`
       );
     } catch (e: any) {
       console.error("Unexpected loop error", e);
@@ -1,7 +1,7 @@
 // app/admin/membership-requests/page.tsx
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { createClient } from "@/utils/supabase/client";
 
@@ -15,49 +15,151 @@ type SignupRequest = {
   volunteer_interest: string | null;
   donate_interest: string | null;
   note: string | null;
+  status: RequestStatus | null;
+  review_note: string | null;
+  decision_message: string | null;
+  reviewed_at: string | null;
 };
 
+type RequestStatus = "pending" | "approved" | "rejected" | "needs_info";
+type Decision = Exclude<RequestStatus, "pending">;
+type Filter = RequestStatus | "all";
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "needs_info", label: "Needs info" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+];
+
+const STATUS_BADGE: Record<RequestStatus, string> = {
+  pending: "border-amber-500/60 bg-amber-900/40 text-amber-200",
+  needs_info: "border-sky-500/60 bg-sky-900/40 text-sky-200",
+  approved: "border-emerald-500/60 bg-emerald-900/40 text-emerald-200",
+  rejected: "border-red-500/60 bg-red-900/40 text-red-200",
+};
+
+const DECISION_LABEL: Record<Decision, string> = {
+  approved: "Approve",
+  needs_info: "Ask for info",
+  rejected: "Reject",
+};
+
+function statusOf(req: SignupRequest): RequestStatus {
+  return req.status ?? "pending";
+}
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
 export default function MembershipRequestsPage() {
   const supabase = createClient();
 
   const [requests, setRequests] = useState<SignupRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>("pending");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reviewNote, setReviewNote] = useState("");
+  const [decisionMessage, setDecisionMessage] = useState("");
+  const [working, setWorking] = useState(false);
+  const [actionMsg, setActionMsg] = useState<string | null>(null);
 
-  useEffect(() => {
-    let cancelled = false;
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
 
-    async function load() {
-      setLoading(true);
-      setErrorMsg(null);
+    const { data, error } = await supabase
+      .from("signup_requests")
+      .select(
+        "id, created_at, name, email, reason, favorite_channel, volunteer_interest, donate_interest, note, status, review_note, decision_message, reviewed_at"
+      )
+      .order("created_at", { ascending: false });
 
-      const { data, error } = await supabase
-        .from("signup_requests")
-        .select(
-          "id, created_at, name, email, reason, favorite_channel, volunteer_interest, donate_interest, note"
-        )
-        .order("created_at", { ascending: false });
+    if (error) {
+      console.error("Error loading signup_requests:", error);
+      setErrorMsg(error.message);
+    } else {
+      setRequests((data as SignupRequest[]) || []);
+    }
 
-      if (cancelled) return;
+    setLoading(false);
+  }, [supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
 
-      if (error) {
-        console.error("Error loading signup_requests:", error);
-        setErrorMsg(error.message);
-      } else {
-        setRequests(data || []);
-      }
+  const visible = useMemo(
+    () => (filter === "all" ? requests : requests.filter((r) => statusOf(r) === filter)),
+    [requests, filter]
+  );
+  const counts = useMemo(() => {
+    const c: Record<Filter, number> = { all: requests.length, pending: 0, needs_info: 0, approved: 0, rejected: 0 };
+    for (const r of requests) c[statusOf(r)]++;
+    return c;
+  }, [requests]);
 
-      setLoading(false);
-    }
+  const hasRequests = visible.length > 0;
+  const allVisibleSelected = hasRequests && visible.every((r) => selected.has(r.id));
 
-    load();
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
 
-    return () => {
-      cancelled = true;
-    };
-  }, [supabase]);
+  function toggleAllVisible() {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map((r) => r.id)));
+  }
 
-  const hasRequests = requests.length > 0;
+  async function decide(ids: string[], decision: Decision) {
+    if (!ids.length) return;
+    if (
+      decision === "rejected" &&
+      !confirm(`Reject ${ids.length} request${ids.length === 1 ? "" : "s"}? Each requester is emailed.`)
+    ) {
+      return;
+    }
+    setWorking(true);
+    setActionMsg(null);
+    try {
+      const res = await fetch("/api/admin/membership-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, decision, note: reviewNote, message: decisionMessage }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Review failed");
+
+      const results = (body.results || []) as { id: string; ok: boolean; error?: string; emailed?: boolean }[];
+      const failed = results.filter((r) => !r.ok);
+      const emailed = results.filter((r) => r.emailed).length;
+      setActionMsg(
+        `${results.length - failed.length} updated, ${emailed} emailed` +
+          (failed.length ? ` — ${failed.length} failed: ${failed.map((f) => f.error).join("; ")}` : "")
+      );
+      setSelected(new Set());
+      setReviewNote("");
+      setDecisionMessage("");
+      await load();
+    } catch (e: any) {
+      setActionMsg(e?.message || "Review failed");
+    } finally {
+      setWorking(false);
+    }
+  }
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -104,7 +206,7 @@ export default function MembershipRequestsPage() {
                   {requests.length}
                 </span>
               </span>
-              {hasRequests && (
+              {requests.length > 0 && (
                 <span className="text-xs text-slate-400">
                   Most recent at{" "}
                   {requests[0].created_at
@@ -125,17 +227,85 @@ export default function MembershipRequestsPage() {
           )}
         </section>
 
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          {FILTERS.map((f) => (
+            <button
+              key={f.value}
+              onClick={() => {
+                setFilter(f.value);
+                setSelected(new Set());
+              }}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                filter === f.value
+                  ? "border-amber-400 bg-amber-400/10 text-amber-200"
+                  : "border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500"
+              }`}
+            >
+              {f.label} <span className="text-slate-400">({counts[f.value]})</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Decision panel: applies to the selected requests, or to one via its own buttons */}
+        {!loading && !errorMsg && hasRequests && (
+          <section className="rounded-xl border border-slate-800 bg-slate-900/70 p-4 space-y-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-slate-200">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-amber-400" />
+                Select all shown
+              </label>
+              <span className="text-xs text-slate-400">{selected.size} selected</span>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <label className="block">
+                <span className="text-[11px] uppercase tracking-wide text-slate-400">Message to requester (emailed)</span>
+                <textarea
+                  value={decisionMessage}
+                  onChange={(e) => setDecisionMessage(e.target.value)}
+                  rows={2}
+                  placeholder="e.g. Could you tell us how you heard about us?"
+                  className="mt-1 w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-amber-400"
+                />
+              </label>
+              <label className="block">
+                <span className="text-[11px] uppercase tracking-wide text-slate-400">Reviewer note (internal)</span>
+                <textarea
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  rows={2}
+                  className="mt-1 w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-amber-400"
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(DECISION_LABEL) as Decision[]).map((d) => (
+                <button
+                  key={d}
+                  disabled={working || selected.size === 0}
+                  onClick={() => decide(Array.from(selected), d)}
+                  className={`rounded-full border px-3 py-1.5 text-xs font-semibold disabled:opacity-40 ${STATUS_BADGE[d]}`}
+                >
+                  {DECISION_LABEL[d]} selected
+                </button>
+              ))}
+              {actionMsg && <span className="text-xs text-slate-300">{actionMsg}</span>}
+            </div>
+          </section>
+        )}
+
         {/* List of requests */}
         {!loading && !errorMsg && !hasRequests && (
           <p className="text-sm text-slate-400">
-            No signup requests yet. When someone submits the Request Access
-            form, they will appear here.
+            {requests.length === 0
+              ? "No signup requests yet. When someone submits the Request Access form, they will appear here."
+              : "No requests with this status."}
           </p>
         )}
 
         {!loading && !errorMsg && hasRequests && (
           <div className="space-y-3">
-            {requests.map((req) => {
+            {visible.map((req) => {
               const created = req.created_at
                 ? new Date(req.created_at)
                 : null;
@@ -146,7 +316,14 @@ export default function MembershipRequestsPage() {
                   className="rounded-xl border border-slate-800 bg-slate-900/80 p-4 text-sm text-slate-100"
                 >
                   <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
-                    <div className="space-y-0.5">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(req.id)}
+                      onChange={() => toggle(req.id)}
+                      aria-label={`Select request from ${req.name || req.email || "unknown"}`}
+                      className="accent-amber-400 self-center"
+                    />
+                    <div className="space-y-0.5 flex-1">
                       <div className="font-semibold">
                         {req.name || "No name given"}
                       </div>
@@ -163,6 +340,11 @@ export default function MembershipRequestsPage() {
                         )}
                       </div>
                     </div>
+                    <span
+                      className={`rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${STATUS_BADGE[statusOf(req)]}`}
+                    >
+                      {FILTERS.find((f) => f.value === statusOf(req))?.label}
+                    </span>
                     <div className="text-xs text-slate-400">
                       {created
                         ? created.toLocaleString("en-US", {
@@ -227,6 +409,38 @@ export default function MembershipRequestsPage() {
                       </p>
                     </div>
                   )}
+
+                  {/* Review */}
+                  {req.reviewed_at && (
+                    <div className="mt-3 rounded-lg border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300 space-y-1">
+                      <div className="text-slate-400">Reviewed {fmtDate(req.reviewed_at)}</div>
+                      {req.decision_message && (
+                        <div>
+                          <span className="text-slate-400">Told requester:</span> {req.decision_message}
+                        </div>
+                      )}
+                      {req.review_note && (
+                        <div>
+                          <span className="text-slate-400">Note:</span> {req.review_note}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {(Object.keys(DECISION_LABEL) as Decision[])
+                      .filter((d) => d !== statusOf(req))
+                      .map((d) => (
+                        <button
+                          key={d}
+                          disabled={working}
+                          onClick={() => decide([req.id], d)}
+                          className={`rounded-full border px-3 py-1 text-[11px] font-semibold disabled:opacity-40 ${STATUS_BADGE[d]}`}
+                        >
+                          {DECISION_LABEL[d]}
+                        </button>
+                      ))}
+                  </div>
                 </div>
               );
             })}
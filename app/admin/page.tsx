@@ -1,6 +1,9 @@
 "use client";
 
 import Link from "next/link";
+import { useAdminPermissions } from "@/components/admin-permissions";
+import AdminViewersPanel from "@/components/admin-viewers-panel";
+import { canOpenPath, type StaffAccess } from "@/lib/permissions";
 
 type Tool = {
   name: string;
@@ -100,6 +103,11 @@ const programmingTools: Tool[] = [
     description:
       "Edit the three Breaking News segment cards shown on /breaking-news.",
   },
+  {
+    name: "Schedule History",
+    path: "/admin/schedule-history",
+    description: "Undo bulk schedule changes by restoring a saved snapshot.",
+  },
   {
     name: "Continue Watching",
     path: "/admin/continue",
@@ -141,17 +149,48 @@ const systemTools: Tool[] = [
     path: "/admin/membership-requests",
     description: "Review and approve new member access requests.",
   },
+  {
+    name: "Chat Moderation",
+    path: "/admin/chat-moderation",
+    description: "Review flagged messages, mute or ban, slow mode and word filter.",
+  },
+  {
+    name: "Chat Reports",
+    path: "/admin/chat-reports",
+    description: "Review messages viewers reported; dismiss or act and warn the sender.",
+  },
+  {
+    name: "Stripe Events",
+    path: "/admin/stripe-events",
+    description: "Webhook ledger, event replay and membership reconciliation.",
+  },
+  {
+    name: "Audit Log",
+    path: "/admin/audit-log",
+    description: "Who changed schedules, channels, roles, invites and news.",
+  },
+  {
+    name: "Viewership Analytics",
+    path: "/admin/analytics",
+    description: "Top programs, watch time, drop-off and channels that convert members.",
+  },
 ];
 
 function Section({
   title,
   subtitle,
   tools,
+  access,
 }: {
   title: string;
   subtitle: string;
   tools: Tool[];
+  access: StaffAccess;
 }) {
+  // Only the tools this role can open; a section with none is hidden
+  const visible = tools.filter((tool) => canOpenPath(access, tool.path));
+  if (visible.length === 0) return null;
+
   return (
     <section style={{ marginBottom: "32px" }}>
       <div
@@ -182,7 +221,7 @@ function Section({
           gap: "16px",
         }}
       >
-        {tools.map((tool) => (
+        {visible.map((tool) => (
           <ToolCard key={tool.path} tool={tool} />
         ))}
       </div>
@@ -298,6 +337,9 @@ function QuickLink({
   path: string;
   detail: string;
 }) {
+  const access = useAdminPermissions();
+  if (!canOpenPath(access, path)) return null;
+
   return (
     <Link href={path} style={{ textDecoration: "none" }}>
       <div
@@ -343,6 +385,11 @@ function QuickLink({
 }
 
 export default function AdminDashboard() {
+  const access = useAdminPermissions();
+  const roleLabel = access.role
+    ? access.role.charAt(0).toUpperCase() + access.role.slice(1)
+    : "Admin";
+
   return (
     <div
       style={{
@@ -425,7 +472,7 @@ export default function AdminDashboard() {
                 color: "rgba(209,213,219,0.9)",
               }}
             >
-              Role: <strong style={{ color: "#facc15" }}>Admin</strong>
+              Role: <strong style={{ color: "#facc15" }}>{roleLabel}</strong>
             </span>
 
             <span
@@ -611,28 +658,35 @@ export default function AdminDashboard() {
           </div>
         </div>
 
+        {/* Viewer counts are admin only, like /api/admin/viewers */}
+        {access.isAdmin && <AdminViewersPanel />}
+
         <Section
           title="Channel Tools"
           subtitle="Set up and manage channels, names, branding, and live controls."
           tools={channelTools}
+          access={access}
         />
 
         <Section
           title="Programming & Scheduling"
           subtitle="Control your 24/7 rotation, auto-scheduling, cleanup tools, and news."
           tools={programmingTools}
+          access={access}
         />
 
         <Section
           title="Library & Freedom School"
           subtitle="Update your long-term archive and educational content for the network."
           tools={libraryTools}
+          access={access}
         />
 
         <Section
           title="System & Utilities"
           subtitle="Back-end utilities for invites, database inspection, and member access."
           tools={systemTools}
+          access={access}
         />
       </main>
     </div>
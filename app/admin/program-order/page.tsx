@@ -14,6 +14,8 @@ import {
   Check,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { chainSequential, parseUtcishMs } from "@/lib/schedule";
+import { snapshotSchedule } from "@/lib/schedule-history";
 
 type Program = {
   channel_id: number;
@@ -124,31 +126,32 @@ export default function ProgramOrderPage() {
 
     // Find earliest start time among current rows (as base)
     const baseMs = Math.min(
-      ...programs.map((p) => new Date(p.start_time).getTime())
+      ...programs.map((p) => parseUtcishMs(p.start_time))
     );
     if (!Number.isFinite(baseMs)) {
       setGlobalError("Could not determine base start time.");
       return;
     }
 
-    let current = new Date(baseMs);
+    // Chain back to back in the current order. keepEmpty gives zero-duration
+    // rows a slot too (they just don't advance the clock), so rows[i] is
+    // programs[i]'s new start.
+    const { rows } = chainSequential(programs, Number(channelFilter), baseMs, { keepEmpty: true });
     const updates: {
       program: Program;
       newStart: string;
-    }[] = [];
-
-    for (const p of programs) {
-      const newStartIso = current.toISOString();
-      updates.push({ program: p, newStart: newStartIso });
-
-      // advance by duration
-      const durMs = (p.duration || 0) * 1000;
-      current = new Date(current.getTime() + durMs);
-    }
+    }[] = programs.map((p, i) => ({ program: p, newStart: rows[i].start_time }));
 
     setSavingOrder(true);
 
     try {
+      await snapshotSchedule(
+        supabase,
+        [Number(channelFilter)],
+        "reorder",
+        `Reordered ${updates.length} program(s)`
+      );
+
       for (const u of updates) {
         const p = u.program;
 
@@ -14,6 +14,8 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { chainSequential, groupByChannel } from "@/lib/schedule";
+import { snapshotSchedule } from "@/lib/schedule-history";
 
 type ProgramRow = {
   // NOTE: no "id" here because your table does NOT have programs.id
@@ -24,6 +26,8 @@ type ProgramRow = {
   start_time: string | null;
 };
 
+const FALLBACK_DURATION_SEC = 300; // rows with no duration get 5 min
+
 export default function RefreshProgramsPage() {
   const supabase = createClient();
 
@@ -151,19 +155,23 @@ export default function RefreshProgramsPage() {
         return;
       }
 
-      // Build mapping: each row gets a new start_time
-      let cursor = new Date(base);
-      const schedule: { oldStart: string | null; newStart: string }[] = [];
-
-      for (const row of rows) {
-        const oldStart = row.start_time;
-        const newStart = cursor.toISOString();
-
-        schedule.push({ oldStart, newStart });
-
-        const dur = row.duration && row.duration > 0 ? row.duration : 300; // default 5 min
-        cursor = new Date(cursor.getTime() + dur * 1000);
-      }
+      // Build mapping: each row gets a new start_time (the fallback
+      // duration guarantees one chained row per existing row)
+      const chained = chainSequential(rows, chId, base.getTime(), {
+        fallbackDurationSec: FALLBACK_DURATION_SEC,
+      }).rows;
+      const schedule = rows.map((row, i) => ({
+        oldStart: row.start_time,
+        newStart: chained[i].start_time,
+      }));
+
+      // Undo point (Schedule history) before rewriting any start_time
+      await snapshotSchedule(
+        supabase,
+        [chId],
+        "refresh",
+        `Rebuild from ${base.toISOString()}`
+      );
 
       // 🔁 Update EACH row using channel_id + old start_time (no id needed)
       for (const item of schedule) {
@@ -191,7 +199,7 @@ export default function RefreshProgramsPage() {
       setLastOld(rows[rows.length - 1].start_time ?? null);
 
       setSuccessMsg(
-        `Rebuilt schedule for channel ${chId}. Programs: ${rows.length}. New first start: ${base.toISOString()}.`
+        `Rebuilt schedule for channel ${chId}. Programs: ${rows.length}. New first start: ${base.toISOString()}. Undo from Schedule History.`
       );
     } catch (e: any) {
       console.error("Unexpected error rebuilding schedule", e);
@@ -231,33 +239,29 @@ export default function RefreshProgramsPage() {
         return;
       }
 
-      // Group by channel_id
-      const byChannel = new Map<number, ProgramRow[]>();
-      for (const row of rows) {
-        const cid = Number(row.channel_id);
-        if (!Number.isFinite(cid)) continue;
-        if (!byChannel.has(cid)) byChannel.set(cid, []);
-        byChannel.get(cid)!.push(row);
-      }
+      // Group by channel_id (each group ordered by start_time)
+      const byChannel = groupByChannel(rows);
 
       // Base = midnight UTC today
       const baseUtc = new Date();
       baseUtc.setUTCHours(0, 0, 0, 0);
 
+      await snapshotSchedule(
+        supabase,
+        [...byChannel.keys()],
+        "daily_reset",
+        `Daily reset from ${baseUtc.toISOString()}`
+      );
+
       // For each channel, compute new start_times and update rows
       for (const [cid, channelRows] of byChannel.entries()) {
-        // Ensure ordered
-        channelRows.sort((a, b) => {
-          const ta = a.start_time ? Date.parse(a.start_time) : 0;
-          const tb = b.start_time ? Date.parse(b.start_time) : 0;
-          return ta - tb;
-        });
+        const chained = chainSequential(channelRows, cid, baseUtc.getTime(), {
+          fallbackDurationSec: FALLBACK_DURATION_SEC,
+        }).rows;
 
-        let cursor = new Date(baseUtc);
-
-        for (const row of channelRows) {
-          const oldStart = row.start_time;
-          const newStart = cursor.toISOString();
+        for (let i = 0; i < channelRows.length; i++) {
+          const oldStart = channelRows[i].start_time;
+          const newStart = chained[i].start_time;
 
           if (oldStart) {
             const { error: updateError } = await supabase
@@ -276,10 +280,6 @@ export default function RefreshProgramsPage() {
               return;
             }
           }
-
-          const dur =
-            row.duration && row.duration > 0 ? row.duration : 300;
-          cursor = new Date(cursor.getTime() + dur * 1000);
         }
       }
 
@@ -287,7 +287,7 @@ export default function RefreshProgramsPage() {
       setDailyTouchedChannels(byChannel.size);
 
       setSuccessMsg(
-        `Daily reset complete. Rebuilt schedules for ${byChannel.size} channel(s) and ${rows.length} program(s), starting from midnight UTC today.`
+        `Daily reset complete. Rebuilt schedules for ${byChannel.size} channel(s) and ${rows.length} program(s), starting from midnight UTC today. Undo from Schedule History.`
       );
     } catch (e: any) {
       console.error("Unexpected error during daily reset", e);
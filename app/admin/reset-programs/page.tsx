@@ -3,6 +3,7 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { supabase } from "@/lib/supabase"
+import { snapshotSchedule } from "@/lib/schedule-history"
 import { AlertCircle, CheckCircle } from "lucide-react"
 
 export default function ResetProgramsPage() {
@@ -18,7 +19,10 @@ export default function ResetProgramsPage() {
     setResult(null)
 
     try {
-      // First, delete all existing programs
+      // Undo point for every channel (restore from Schedule History)
+      await snapshotSchedule(supabase, null, "reset", "Reset all programs")
+
+      // Then delete all existing programs
       const { error: deleteError } = await supabase.from("programs").delete().neq("id", 0)
 
       if (deleteError) {
@@ -60,7 +64,7 @@ export default function ResetProgramsPage() {
 
       setResult({
         success: true,
-        message: "Programs reset successfully. Sample programs created.",
+        message: "Programs reset successfully. Sample programs created. Undo from Schedule History.",
       })
     } catch (error) {
       setResult({
@@ -76,7 +80,8 @@ export default function ResetProgramsPage() {
     <div className="container mx-auto p-4">
       <h1 className="text-2xl font-bold mb-4">Reset Programs</h1>
       <p className="mb-6 text-gray-400">
-        This will delete all existing programs and create sample programs for testing.
+        This will delete all existing programs and create sample programs for testing. Each
+        channel&apos;s schedule is saved to Schedule History first.
         <br />
         <span className="text-red-500 font-semibold">Use with caution!</span>
       </p>
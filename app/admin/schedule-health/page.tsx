@@ -1,15 +1,24 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+} from 'recharts'
+import { needsAttention as hasIssues, type ChannelHealth, type HealthRunSummary } from '@/lib/schedule-health-status'
 
-interface ChannelHealth {
-  channelId: number
-  channelName: string
-  status: 'great' | 'good' | 'warning' | 'critical' | 'expired' | 'no_content' | 'error'
-  endTime: string | null
-  hoursRemaining: number
-  programCount: number
+interface HealthRun {
+  run_at: string
+  channels_checked: number
+  channels_errored: number
+  results_json: HealthRunSummary
 }
 
 const STATUS_CONFIG = {
@@ -22,27 +31,53 @@ const STATUS_CONFIG = {
   error:      { label: '✗ Error',     color: '#c94c4c', bg: 'rgba(201,76,76,0.1)',   border: 'rgba(201,76,76,0.3)',   desc: 'Error' },
 }
 
+function fmtDuration(sec: number) {
+  if (sec >= 3600) return `${Math.round(sec / 360) / 10}h`
+  if (sec >= 60) return `${Math.round(sec / 60)}m`
+  return `${sec}s`
+}
+
+function fmtRunTime(iso: string) {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
 export default function ScheduleHealthPage() {
-  const [health, setHealth] = useState<ChannelHealth[]>([])
+  const [runs, setRuns] = useState<HealthRun[]>([])
   const [loading, setLoading] = useState(true)
-  const [lastChecked, setLastChecked] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [auditing, setAuditing] = useState(false)
   const [running, setRunning] = useState(false)
   const [runResult, setRunResult] = useState<any>(null)
 
-  async function loadHealth() {
+  async function loadHistory() {
     setLoading(true)
+    setLoadError(null)
     try {
-      const res = await fetch('/api/cron/schedule-health')
+      const res = await fetch('/api/admin/schedule-health?limit=30', { cache: 'no-store' })
       const data = await res.json()
-      setHealth(data.health || [])
-      setLastChecked(data.checkedAt)
-    } catch (e) {
-      console.error(e)
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`)
+      setRuns(data.runs || [])
+    } catch (e: any) {
+      setLoadError(e.message)
     } finally {
       setLoading(false)
     }
   }
 
+  async function auditNow() {
+    setAuditing(true)
+    try {
+      const res = await fetch('/api/cron/schedule-health', { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok || data.error) throw new Error(data?.error || `HTTP ${res.status}`)
+      await loadHistory()
+    } catch (e: any) {
+      setLoadError(e.message)
+    } finally {
+      setAuditing(false)
+    }
+  }
+
   async function runNow() {
     setRunning(true)
     setRunResult(null)
@@ -50,7 +85,6 @@ export default function ScheduleHealthPage() {
       const res = await fetch('/api/cron/auto-extend', { method: 'POST' })
       const data = await res.json()
       setRunResult(data)
-      await loadHealth()
     } catch (e: any) {
       setRunResult({ error: e.message })
     } finally {
@@ -58,7 +92,29 @@ export default function ScheduleHealthPage() {
     }
   }
 
-  useEffect(() => { loadHealth() }, [])
+  useEffect(() => { loadHistory() }, [])
+
+  const latest = runs[0] ?? null
+  const health: ChannelHealth[] = latest?.results_json?.channels ?? []
+  const lastChecked = latest?.run_at ?? null
+
+  // Oldest → newest for the charts
+  const trend = useMemo(() => runs.slice().reverse().map(r => {
+    const chans = r.results_json?.channels ?? []
+    const sum = (f: (h: ChannelHealth) => number) => chans.reduce((s, h) => s + f(h), 0)
+    const hours = chans.filter(h => h.status !== 'no_content' && h.status !== 'error').map(h => h.hoursRemaining)
+    return {
+      at: fmtRunTime(r.run_at),
+      healthy: chans.filter(h => h.status === 'great' || h.status === 'good').length,
+      atRisk: chans.filter(h => h.status === 'warning' || h.status === 'critical').length,
+      down: chans.filter(h => ['expired', 'no_content', 'error'].includes(h.status)).length,
+      gaps: sum(h => h.gaps.count),
+      overlaps: sum(h => h.overlaps.count),
+      unreachable: sum(h => h.unreachable.length),
+      standbyHours: Math.round(sum(h => h.standbyStretches.reduce((s, x) => s + x.hours, 0)) * 10) / 10,
+      minHours: hours.length ? Math.min(...hours) : 0,
+    }
+  }), [runs])
 
   const counts = {
     great:   health.filter(h => h.status === 'great').length,
@@ -68,9 +124,7 @@ export default function ScheduleHealthPage() {
     expired: health.filter(h => h.status === 'expired' || h.status === 'no_content').length,
   }
 
-  const needsAttention = health.filter(h =>
-    ['warning', 'critical', 'expired', 'no_content'].includes(h.status)
-  )
+  const needsAttention = health.filter(hasIssues)
 
   return (
     <div className="min-h-screen bg-gray-950 text-white pb-10">
@@ -81,24 +135,31 @@ export default function ScheduleHealthPage() {
           <div>
             <h1 className="text-2xl font-bold text-yellow-400">Schedule Health Dashboard</h1>
             <p className="text-gray-400 text-sm mt-1">
-              Cron runs every night at 2am UTC and auto-extends any channel ending within 48 hours.
-              {lastChecked && ` Last checked: ${new Date(lastChecked).toLocaleString()}`}
+              Read-only audit of every channel: gaps, overlaps, standby stretches, bad durations and unreachable files.
+              {lastChecked && ` Last audit: ${new Date(lastChecked).toLocaleString()}`}
             </p>
           </div>
           <div className="flex gap-3 flex-wrap">
             <button
-              onClick={loadHealth}
+              onClick={loadHistory}
               disabled={loading}
               className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition"
             >
               {loading ? 'Refreshing...' : '↻ Refresh'}
             </button>
+            <button
+              onClick={auditNow}
+              disabled={auditing}
+              className="px-4 py-2 border border-yellow-500/60 text-yellow-300 rounded-lg text-sm font-bold uppercase hover:bg-yellow-500/10 transition disabled:opacity-40"
+            >
+              {auditing ? 'Auditing...' : '🔍 Audit Now'}
+            </button>
             <button
               onClick={runNow}
               disabled={running}
               className="px-4 py-2 bg-yellow-400 text-black rounded-lg text-sm font-bold uppercase hover:bg-yellow-300 transition disabled:opacity-40"
             >
-              {running ? 'Running...' : '▶ Run Cron Now'}
+              {running ? 'Running...' : '▶ Run Auto-Extend'}
             </button>
             <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
               ← Admin
@@ -106,6 +167,18 @@ export default function ScheduleHealthPage() {
           </div>
         </div>
 
+        {loadError && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            ✗ {loadError}
+          </div>
+        )}
+
+        {!loading && !latest && !loadError && (
+          <div className="rounded-xl p-4 border border-gray-700 bg-gray-900 text-sm text-gray-400">
+            No audits recorded yet. Click “Audit Now” to run the first one.
+          </div>
+        )}
+
         {/* Summary cards */}
         <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
           {[
@@ -122,13 +195,13 @@ export default function ScheduleHealthPage() {
           ))}
         </div>
 
-        {/* Run result */}
+        {/* Auto-extend result */}
         {runResult && (
           <div className={`rounded-xl p-4 border ${runResult.error ? 'bg-red-950/30 border-red-700' : 'bg-green-950/30 border-green-700'}`}>
             <div className="text-sm font-semibold mb-2" style={{ color: runResult.error ? '#f09090' : '#7de0b0' }}>
               {runResult.error
                 ? `✗ Error: ${runResult.error}`
-                : `✓ Cron completed — ${runResult.channels_extended} channel(s) extended, ${runResult.channels_checked} checked`
+                : `✓ Auto-extend completed — ${runResult.channels_extended} channel(s) extended, ${runResult.channels_checked} checked. Run an audit to see the effect.`
               }
             </div>
             {runResult.results && (
@@ -148,6 +221,52 @@ export default function ScheduleHealthPage() {
           </div>
         )}
 
+        {/* Trends */}
+        {trend.length > 1 && (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="bg-gray-900 border border-gray-700 rounded-xl p-4">
+              <div className="text-xs uppercase tracking-widest text-gray-400 font-semibold mb-3">
+                Channel status over time
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid stroke="#1f2937" />
+                    <XAxis dataKey="at" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                    <YAxis allowDecimals={false} tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                    <Tooltip contentStyle={{ background: '#111827', border: '1px solid #374151' }} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line type="monotone" dataKey="healthy" name="Healthy" stroke="#4ca87c" dot={false} />
+                    <Line type="monotone" dataKey="atRisk" name="At risk" stroke="#c9a84c" dot={false} />
+                    <Line type="monotone" dataKey="down" name="Empty/Expired/Error" stroke="#c94c4c" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div className="bg-gray-900 border border-gray-700 rounded-xl p-4">
+              <div className="text-xs uppercase tracking-widest text-gray-400 font-semibold mb-3">
+                Schedule problems over time
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid stroke="#1f2937" />
+                    <XAxis dataKey="at" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                    <YAxis tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                    <Tooltip contentStyle={{ background: '#111827', border: '1px solid #374151' }} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line type="monotone" dataKey="gaps" name="Gaps" stroke="#ff6b35" dot={false} />
+                    <Line type="monotone" dataKey="overlaps" name="Overlaps" stroke="#c9a84c" dot={false} />
+                    <Line type="monotone" dataKey="unreachable" name="Unreachable files" stroke="#c94c4c" dot={false} />
+                    <Line type="monotone" dataKey="standbyHours" name="Standby hours" stroke="#9ca3af" dot={false} />
+                    <Line type="monotone" dataKey="minHours" name="Min hours left" stroke="#4c9cc9" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Needs attention */}
         {needsAttention.length > 0 && (
           <div>
@@ -160,25 +279,63 @@ export default function ScheduleHealthPage() {
                 return (
                   <div
                     key={ch.channelId}
-                    className="flex items-center justify-between px-4 py-3 rounded-xl flex-wrap gap-2"
+                    className="px-4 py-3 rounded-xl space-y-2"
                     style={{ background: cfg.bg, border: `1px solid ${cfg.border}` }}
                   >
-                    <div className="flex items-center gap-3">
-                      <span className="text-xs font-bold w-8 text-center" style={{ color: cfg.color }}>
-                        {ch.channelId}
-                      </span>
-                      <span className="font-semibold text-sm">{ch.channelName}</span>
-                    </div>
-                    <div className="flex items-center gap-4 text-xs flex-wrap">
-                      <span style={{ color: cfg.color }}>{cfg.label}</span>
-                      <span className="text-gray-400">{ch.hoursRemaining}h remaining</span>
-                      <span className="text-gray-500">{ch.programCount} programs</span>
-                      {ch.endTime && (
-                        <span className="text-gray-500">
-                          ends {new Date(ch.endTime).toLocaleDateString()}
+                    <div className="flex items-center justify-between flex-wrap gap-2">
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs font-bold w-8 text-center" style={{ color: cfg.color }}>
+                          {ch.channelId}
                         </span>
-                      )}
+                        <span className="font-semibold text-sm">{ch.channelName}</span>
+                      </div>
+                      <div className="flex items-center gap-4 text-xs flex-wrap">
+                        <span style={{ color: cfg.color }}>{cfg.label}</span>
+                        <span className="text-gray-400">{ch.hoursRemaining}h remaining</span>
+                        <span className="text-gray-400">{ch.coveredHours}h real content</span>
+                        {ch.endTime && (
+                          <span className="text-gray-500">
+                            ends {new Date(ch.endTime).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
                     </div>
+                    <ul className="text-xs text-gray-300 space-y-1 pl-11">
+                      {ch.message && <li>{ch.message}</li>}
+                      {ch.gaps.count > 0 && (
+                        <li>
+                          {ch.gaps.count} gap(s), {fmtDuration(ch.gaps.totalSec)} of dead air — first at{' '}
+                          {fmtRunTime(ch.gaps.samples[0].start)} ({fmtDuration(ch.gaps.samples[0].seconds)})
+                        </li>
+                      )}
+                      {ch.overlaps.count > 0 && (
+                        <li>
+                          {ch.overlaps.count} overlap(s), {fmtDuration(ch.overlaps.totalSec)} total — first at{' '}
+                          {fmtRunTime(ch.overlaps.samples[0].start)}
+                          {ch.overlaps.samples[0].after ? ` (“${ch.overlaps.samples[0].after}”)` : ''}
+                        </li>
+                      )}
+                      {ch.standbyStretches.map((s, i) => (
+                        <li key={i}>
+                          Standby only for {s.hours}h from {fmtRunTime(s.start)}
+                        </li>
+                      ))}
+                      {ch.badDurations.count > 0 && (
+                        <li>
+                          {ch.badDurations.count} program(s) with zero/unreadable duration or start time
+                          {ch.badDurations.samples[0]?.title ? ` — e.g. “${ch.badDurations.samples[0].title}”` : ''}
+                        </li>
+                      )}
+                      {ch.unreachable.length > 0 && (
+                        <li>
+                          {ch.unreachable.length} of {ch.urlsChecked} upcoming file(s) unreachable:{' '}
+                          <span className="text-gray-400 break-all">
+                            {ch.unreachable.slice(0, 3).map(u => `${u.url} (${u.status})`).join(', ')}
+                            {ch.unreachable.length > 3 ? ', …' : ''}
+                          </span>
+                        </li>
+                      )}
+                    </ul>
                   </div>
                 )
               })}
@@ -194,11 +351,11 @@ export default function ScheduleHealthPage() {
           {loading ? (
             <div className="text-gray-400 text-sm text-center py-8">Loading channel health...</div>
           ) : (
-            <div className="bg-gray-900 border border-gray-700 rounded-2xl overflow-hidden">
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="bg-gray-800">
                   <tr>
-                    {['Ch', 'Channel', 'Status', 'Hours Left', 'Schedule Ends', 'Programs'].map(h => (
+                    {['Ch', 'Channel', 'Status', 'Hours Left', 'Real Content', 'Gaps', 'Overlaps', 'Bad Rows', 'Unreachable', 'Schedule Ends'].map(h => (
                       <th key={h} className="px-4 py-3 text-left text-xs text-gray-400 uppercase tracking-widest">{h}</th>
                     ))}
                   </tr>
@@ -221,15 +378,19 @@ export default function ScheduleHealthPage() {
                         <td className="px-4 py-3 text-sm" style={{ color: cfg.color }}>
                           {ch.hoursRemaining > 0 ? `${ch.hoursRemaining}h` : '—'}
                         </td>
+                        <td className="px-4 py-3 text-xs text-gray-400">{ch.coveredHours}h</td>
+                        <td className="px-4 py-3 text-xs text-gray-400">{ch.gaps.count || '—'}</td>
+                        <td className="px-4 py-3 text-xs text-gray-400">{ch.overlaps.count || '—'}</td>
+                        <td className="px-4 py-3 text-xs text-gray-400">{ch.badDurations.count || '—'}</td>
+                        <td className="px-4 py-3 text-xs text-gray-400">
+                          {ch.urlsChecked > 0 ? `${ch.unreachable.length}/${ch.urlsChecked}` : '—'}
+                        </td>
                         <td className="px-4 py-3 text-xs text-gray-400">
                           {ch.endTime
                             ? new Date(ch.endTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
                             : '—'
                           }
                         </td>
-                        <td className="px-4 py-3 text-xs text-gray-400">
-                          {ch.programCount.toLocaleString()}
-                        </td>
                       </tr>
                     )
                   })}
@@ -239,17 +400,48 @@ export default function ScheduleHealthPage() {
           )}
         </div>
 
+        {/* Run history */}
+        {runs.length > 0 && (
+          <div>
+            <div className="text-xs uppercase tracking-widest text-gray-400 font-semibold mb-3">
+              Audit History ({runs.length})
+            </div>
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-800">
+                  <tr>
+                    {['Run', 'Checked', 'Need Attention', 'Errors'].map(h => (
+                      <th key={h} className="px-4 py-3 text-left text-xs text-gray-400 uppercase tracking-widest">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(r => (
+                    <tr key={r.run_at} className="border-t border-gray-800">
+                      <td className="px-4 py-2 text-xs text-gray-300">{new Date(r.run_at).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-xs text-gray-400">{r.channels_checked}</td>
+                      <td className="px-4 py-2 text-xs text-gray-400">
+                        {(r.results_json?.channels ?? []).filter(hasIssues).length}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-400">{r.channels_errored}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Info box */}
         <div className="bg-gray-900 border border-gray-700 rounded-xl p-5">
           <div className="text-xs uppercase tracking-widest text-yellow-400 font-semibold mb-3">
-            How Auto-Scheduling Works
+            How Schedule Health Works
           </div>
           <div className="space-y-2 text-sm text-gray-400">
-            <p>🕑 <strong className="text-white">Every night at 2am UTC</strong> — Vercel cron calls <code className="text-yellow-400">/api/cron/auto-extend</code> automatically.</p>
-            <p>🔍 <strong className="text-white">Checks all 31 channels</strong> — finds any channel whose schedule ends within 48 hours.</p>
-            <p>🔁 <strong className="text-white">Auto-extends by 7 days</strong> — loops existing content forward. No manual work needed.</p>
-            <p>📊 <strong className="text-white">This dashboard</strong> — shows the health of every channel in real time.</p>
-            <p>▶ <strong className="text-white">Run Cron Now button</strong> — triggers the cron manually anytime you want.</p>
+            <p>🕑 <strong className="text-white">Every night at 2am UTC</strong> — Vercel cron calls <code className="text-yellow-400">/api/cron/auto-extend</code> to extend channels ending within 48 hours.</p>
+            <p>🔍 <strong className="text-white">Every 6 hours</strong> — <code className="text-yellow-400">/api/cron/schedule-health</code> audits every channel and records the results here. It never changes the schedule.</p>
+            <p>📊 <strong className="text-white">This dashboard</strong> — shows the latest audit, what needs fixing, and how things are trending.</p>
+            <p>▶ <strong className="text-white">Audit Now / Run Auto-Extend</strong> — trigger either job manually anytime.</p>
           </div>
         </div>
 
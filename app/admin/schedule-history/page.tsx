@@ -0,0 +1,231 @@
+// app/admin/schedule-history/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/utils/supabase/client";
+import {
+  ArrowLeft,
+  History,
+  Loader2,
+  RotateCcw,
+  AlertCircle,
+  CheckCircle2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  listChangesets,
+  restoreChangeset,
+  type ScheduleChangeset,
+} from "@/lib/schedule-history";
+
+const OPERATION_LABEL: Record<string, string> = {
+  refresh: "Rebuild schedule",
+  daily_reset: "Daily reset",
+  cleanup: "Cleanup",
+  loop: "Loop / extend",
+  reorder: "Program order",
+  auto_schedule: "Auto schedule",
+  reset: "Reset all programs",
+  restore: "Restore",
+};
+
+function fmtLocal(dt: string | null) {
+  if (!dt) return "—";
+  const d = new Date(dt);
+  return Number.isNaN(d.getTime()) ? dt : d.toLocaleString();
+}
+
+export default function ScheduleHistoryPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [channelNames, setChannelNames] = useState<Record<number, string>>({});
+  const [channelFilter, setChannelFilter] = useState<string>("");
+  const [sets, setSets] = useState<ScheduleChangeset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const chId = channelFilter ? Number(channelFilter) : null;
+      setSets(await listChangesets(supabase, chId));
+    } catch (e: any) {
+      setErr(e?.message || "Failed to load schedule history.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, channelFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    supabase
+      .from("channels")
+      .select("id, name")
+      .order("id", { ascending: true })
+      .then(({ data }) => {
+        const names: Record<number, string> = {};
+        for (const c of (data ?? []) as { id: number; name: string | null }[]) {
+          names[Number(c.id)] = c.name || `Channel ${c.id}`;
+        }
+        setChannelNames(names);
+      });
+  }, [supabase]);
+
+  // Newest first within each channel, channels in id order
+  const byChannel = useMemo(() => {
+    const groups = new Map<number, ScheduleChangeset[]>();
+    for (const s of sets) {
+      const list = groups.get(s.channel_id) ?? [];
+      list.push(s);
+      groups.set(s.channel_id, list);
+    }
+    return [...groups.entries()].sort((a, b) => a[0] - b[0]);
+  }, [sets]);
+
+  async function handleRestore(set: ScheduleChangeset) {
+    const name = channelNames[set.channel_id] || `Channel ${set.channel_id}`;
+    const ok = window.confirm(
+      `Restore ${name} to how it was before "${OPERATION_LABEL[set.operation] ?? set.operation}" on ${fmtLocal(set.created_at)}?\n\nThis replaces the channel's current ${set.row_count === 0 ? "programs with an empty schedule" : `programs with ${set.row_count} program(s)`}. The current schedule is saved first, so you can undo this too.`
+    );
+    if (!ok) return;
+
+    setRestoring(set.id);
+    setErr(null);
+    setSuccessMsg(null);
+    try {
+      const count = await restoreChangeset(supabase, set.id);
+      setSuccessMsg(`Restored ${name}: ${count} program(s) put back.`);
+      await load();
+    } catch (e: any) {
+      setErr(e?.message || "Restore failed.");
+    } finally {
+      setRestoring(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#040814] via-[#050b1a] to-black text-white pb-10">
+      <div className="mx-auto max-w-5xl px-4 pt-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+              <History className="h-5 w-5 text-emerald-400" />
+              Schedule History
+            </h1>
+            <p className="mt-1 text-sm text-slate-300">
+              Every bulk schedule tool saves each affected channel here before
+              it runs. Restore puts a channel&apos;s programs back exactly as
+              they were.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/admin">
+              <Button variant="outline" className="border-slate-600 bg-slate-900">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Admin
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <section className="rounded-lg border border-slate-700 bg-slate-900/70 p-4 flex flex-wrap items-center gap-3">
+          <label className="text-xs font-medium text-slate-300">Channel</label>
+          <select
+            value={channelFilter}
+            onChange={(e) => setChannelFilter(e.target.value)}
+            className="rounded-md border border-slate-600 bg-slate-950 px-3 py-1.5 text-sm text-white"
+          >
+            <option value="">All channels</option>
+            {Object.entries(channelNames).map(([id, name]) => (
+              <option key={id} value={id}>
+                {id} — {name}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={load}
+            disabled={loading}
+            className="border-slate-600 bg-slate-950 text-sm"
+          >
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Refresh
+          </Button>
+        </section>
+
+        {err && (
+          <div className="flex items-start gap-2 rounded-md border border-red-500/60 bg-red-950/60 px-3 py-2 text-xs text-red-100">
+            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <p>{err}</p>
+          </div>
+        )}
+        {successMsg && (
+          <div className="flex items-start gap-2 rounded-md border border-emerald-500/60 bg-emerald-950/50 px-3 py-2 text-xs text-emerald-100">
+            <CheckCircle2 className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <p>{successMsg}</p>
+          </div>
+        )}
+
+        {!loading && byChannel.length === 0 && (
+          <p className="text-sm text-slate-400">
+            No changesets yet. They appear after a rebuild, cleanup, loop or
+            reset.
+          </p>
+        )}
+
+        {byChannel.map(([channelId, list]) => (
+          <section
+            key={channelId}
+            className="rounded-lg border border-slate-700 bg-slate-900/70 p-4 space-y-2"
+          >
+            <h2 className="text-sm font-semibold text-slate-100">
+              {channelNames[channelId] || `Channel ${channelId}`}{" "}
+              <span className="font-mono text-xs text-slate-400">#{channelId}</span>
+            </h2>
+            <ul className="divide-y divide-slate-800">
+              {list.map((s) => (
+                <li key={s.id} className="flex flex-wrap items-center gap-3 py-2 text-xs">
+                  <div className="min-w-[150px] text-slate-300">{fmtLocal(s.created_at)}</div>
+                  <div className="flex-1 min-w-[200px]">
+                    <span className="font-semibold text-amber-200">
+                      {OPERATION_LABEL[s.operation] ?? s.operation}
+                    </span>
+                    {s.label && <span className="text-slate-400"> · {s.label}</span>}
+                    <div className="text-slate-500">
+                      {s.row_count} program(s) saved
+                      {s.restored_at && (
+                        <span className="text-emerald-300"> · restored {fmtLocal(s.restored_at)}</span>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    onClick={() => handleRestore(s)}
+                    disabled={restoring !== null}
+                    className="bg-sky-600 hover:bg-sky-700 text-xs h-8"
+                  >
+                    {restoring === s.id ? (
+                      <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-3 w-3" />
+                    )}
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import type { LedgerStatus, ReconciliationReport } from '@/lib/stripe-ledger'
+
+interface LedgerRow {
+  id: string
+  type: string
+  event_created: string
+  livemode: boolean
+  subscription_id: string | null
+  customer_id: string | null
+  user_id: string | null
+  status: LedgerStatus
+  error: string | null
+  attempts: number
+  received_at: string
+  processed_at: string | null
+}
+
+const STATUS_COLOR: Record<LedgerStatus, string> = {
+  received: '#c9a84c',
+  processed: '#4ca87c',
+  skipped: '#888',
+  failed: '#c94c4c',
+}
+
+const FILTERS: (LedgerStatus | 'all')[] = ['all', 'failed', 'skipped', 'received', 'processed']
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+export default function StripeEventsPage() {
+  const [events, setEvents] = useState<LedgerRow[]>([])
+  const [recon, setRecon] = useState<ReconciliationReport | null>(null)
+  const [filter, setFilter] = useState<LedgerStatus | 'all'>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replaying, setReplaying] = useState<string | null>(null)
+  const [reconciling, setReconciling] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const qs = filter === 'all' ? '' : `?status=${filter}`
+      const res = await fetch(`/api/admin/stripe-events${qs}`, { cache: 'no-store' })
+      const j = await res.json()
+      if (!res.ok) throw new Error(j.error || `HTTP ${res.status}`)
+      setEvents(j.events)
+      setRecon(j.reconciliation)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter])
+
+  useEffect(() => { load() }, [load])
+
+  async function replay(id: string) {
+    setReplaying(id)
+    setNotice(null)
+    try {
+      const res = await fetch(`/api/admin/stripe-events/${encodeURIComponent(id)}/replay`, { method: 'POST' })
+      const j = await res.json()
+      setNotice(res.ok ? `${id}: ${j.status}${j.note ? ` — ${j.note}` : ''}` : `${id}: ${j.error}`)
+      await load()
+    } finally {
+      setReplaying(null)
+    }
+  }
+
+  async function reconcile() {
+    setReconciling(true)
+    setNotice(null)
+    try {
+      const res = await fetch('/api/cron/stripe-reconcile', { method: 'POST' })
+      const j = await res.json()
+      setNotice(res.ok
+        ? `Reconciliation: ${j.profiles_checked} profiles checked, ${j.drift_count} drifted, ${j.errors_count} errors`
+        : `Reconciliation failed: ${j.error}`)
+      await load()
+    } finally {
+      setReconciling(false)
+    }
+  }
+
+  const failedCount = events.filter(e => e.status === 'failed').length
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white pb-10">
+      <div className="max-w-6xl mx-auto px-4 pt-8 space-y-6">
+
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-yellow-400">Stripe Events</h1>
+            <p className="text-gray-400 text-sm mt-1">
+              Every verified webhook, how it was applied, and nightly drift between profiles and Stripe.
+            </p>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            <button
+              onClick={load}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-yellow-500/40 transition disabled:opacity-40"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={reconcile}
+              disabled={reconciling}
+              className="px-4 py-2 bg-yellow-400 text-black rounded-lg text-sm font-bold uppercase hover:bg-yellow-300 transition disabled:opacity-40"
+            >
+              {reconciling ? 'Reconciling…' : 'Reconcile Now'}
+            </button>
+            <Link href="/admin" className="px-4 py-2 border border-gray-600 rounded-lg text-sm hover:border-gray-400 transition">
+              ← Admin
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-xl p-4 border bg-red-950/30 border-red-700 text-sm" style={{ color: '#f09090' }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-xl p-4 border border-gray-700 bg-gray-900 text-sm text-gray-300 break-all">
+            {notice}
+          </div>
+        )}
+
+        {/* Reconciliation */}
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-4">
+          <div className="text-xs uppercase tracking-widest text-gray-400 font-semibold mb-3">
+            Latest reconciliation
+          </div>
+          {!recon ? (
+            <p className="text-sm text-gray-500">No reconciliation has run yet.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-300">
+                {fmt(recon.run_at)} — {recon.profiles_checked} profiles checked,{' '}
+                <span style={{ color: recon.drift_count ? '#c94c4c' : '#4ca87c' }}>{recon.drift_count} drifted</span>
+                {recon.errors_count > 0 && <span className="text-yellow-400">, {recon.errors_count} errors</span>}
+              </p>
+              {recon.drift.length > 0 && (
+                <ul className="mt-3 space-y-2 text-xs">
+                  {recon.drift.map(d => (
+                    <li key={d.user_id} className="rounded-lg border border-gray-800 p-3">
+                      <div className="font-semibold text-gray-200">
+                        {d.email || d.user_id}{' '}
+                        <span className="font-mono text-gray-500">{d.subscription_id}</span>
+                        {d.stripe_status && <span className="text-gray-400"> · Stripe: {d.stripe_status}</span>}
+                      </div>
+                      {d.error ? (
+                        <div className="text-yellow-400 mt-1">{d.error}</div>
+                      ) : (
+                        Object.entries(d.fields).map(([field, v]) => (
+                          <div key={field} className="text-gray-400 mt-1">
+                            {field}: profile <span className="text-red-300">{v.profile ?? 'null'}</span>
+                            {' → '}Stripe <span className="text-green-300">{v.stripe ?? 'null'}</span>
+                          </div>
+                        ))
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Ledger */}
+        <div>
+          <div className="flex items-center justify-between flex-wrap gap-2 mb-3">
+            <div className="text-xs uppercase tracking-widest text-gray-400 font-semibold">
+              Webhook ledger {failedCount > 0 && <span style={{ color: STATUS_COLOR.failed }}>· {failedCount} failed</span>}
+            </div>
+            <div className="flex gap-2">
+              {FILTERS.map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-3 py-1 rounded-full text-xs border transition ${
+                    filter === f ? 'border-yellow-400 text-yellow-300' : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto bg-gray-900 border border-gray-700 rounded-xl">
+            <table className="w-full text-xs">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="px-3 py-2">Received</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Event</th>
+                  <th className="px-3 py-2">Subscription</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Tries</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {events.map(ev => (
+                  <tr key={ev.id} className="border-t border-gray-800 align-top">
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-300">{fmt(ev.received_at)}</td>
+                    <td className="px-3 py-2">
+                      {ev.type}
+                      {!ev.livemode && <span className="ml-1 text-gray-500">(test)</span>}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-gray-400">{ev.id}</td>
+                    <td className="px-3 py-2 font-mono text-gray-400">{ev.subscription_id || '—'}</td>
+                    <td className="px-3 py-2">
+                      <span style={{ color: STATUS_COLOR[ev.status] }}>{ev.status}</span>
+                      {ev.error && <div className="text-gray-500 max-w-xs break-words">{ev.error}</div>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">{ev.attempts}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => replay(ev.id)}
+                        disabled={replaying !== null}
+                        className={`px-3 py-1 rounded-lg border text-xs transition disabled:opacity-40 ${
+                          ev.status === 'failed'
+                            ? 'border-red-600 text-red-300 hover:bg-red-900/30'
+                            : 'border-gray-600 text-gray-300 hover:border-gray-400'
+                        }`}
+                      >
+                        {replaying === ev.id ? 'Replaying…' : 'Replay'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!loading && events.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-gray-500">No events.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
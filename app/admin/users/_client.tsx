@@ -11,7 +11,13 @@
 import { useEffect, useMemo, useState } from "react";
 import { createClient } from "@/utils/supabase/client";
 
-type Role = "admin" | "member" | "student";
+// Any key in public.roles (scripts/012-roles-and-permissions.sql)
+type Role = string;
+
+type RoleOption = {
+  key: Role;
+  label: string;
+};
 
 type Profile = {
   id: string;
@@ -23,13 +29,23 @@ type Profile = {
   created_at: string | null;
 };
 
-const ROLE_OPTIONS: Role[] = ["admin", "member", "student"];
+// Used until public.roles loads (or if it doesn't exist yet)
+const DEFAULT_ROLES: RoleOption[] = [
+  { key: "member", label: "Member" },
+  { key: "student", label: "Student" },
+  { key: "scheduler", label: "Scheduler" },
+  { key: "uploader", label: "Content uploader" },
+  { key: "moderator", label: "Chat moderator" },
+  { key: "admin", label: "Admin" },
+];
 
 export default function AdminUsersClient() {
   const supabase = createClient();
 
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [favCounts, setFavCounts] = useState<Record<string, number>>({});
+  const [roles, setRoles] = useState<RoleOption[]>(DEFAULT_ROLES);
+  const [rolePerms, setRolePerms] = useState<Record<string, string[]>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -48,7 +64,7 @@ export default function AdminUsersClient() {
     setLoading(true);
     setError(null);
     try {
-      const [profRes, favRes] = await Promise.all([
+      const [profRes, favRes, roleRes, permRes] = await Promise.all([
         supabase
           .from("user_profiles")
           .select(
@@ -57,6 +73,11 @@ export default function AdminUsersClient() {
           .order("created_at", { ascending: false })
           .limit(500),
         supabase.from("user_favorites").select("user_id"),
+        supabase
+          .from("roles")
+          .select("key, label")
+          .order("sort_order", { ascending: true }),
+        supabase.from("role_permissions").select("role, permission"),
       ]);
 
       if (profRes.error) {
@@ -73,6 +94,18 @@ export default function AdminUsersClient() {
         }
         setFavCounts(counts);
       }
+
+      if (!roleRes.error && roleRes.data?.length) {
+        setRoles(roleRes.data as RoleOption[]);
+      }
+
+      if (!permRes.error && permRes.data) {
+        const perms: Record<string, string[]> = {};
+        for (const row of permRes.data as { role: string; permission: string }[]) {
+          (perms[row.role] ??= []).push(row.permission);
+        }
+        setRolePerms(perms);
+      }
     } finally {
       setLoading(false);
     }
@@ -303,12 +336,21 @@ export default function AdminUsersClient() {
                       disabled={saving === p.id}
                       className="rounded-lg border border-slate-700 bg-black/60 px-2 py-1.5 text-xs text-white"
                     >
-                      {ROLE_OPTIONS.map((r) => (
-                        <option key={r} value={r}>
-                          {r}
+                      {roles.map((r) => (
+                        <option key={r.key} value={r.key}>
+                          {r.label}
                         </option>
                       ))}
+                      {/* keep an unknown role visible rather than silently showing another */}
+                      {p.role && !roles.some((r) => r.key === p.role) && (
+                        <option value={p.role}>{p.role}</option>
+                      )}
                     </select>
+                    {p.role && p.role !== "admin" && rolePerms[p.role]?.length ? (
+                      <div className="mt-1 text-[10px] text-slate-400">
+                        {rolePerms[p.role].join(", ")}
+                      </div>
+                    ) : null}
                   </td>
                   <td className="px-4 py-3">
                     <span
@@ -0,0 +1,41 @@
+// app/api/admin/analytics/route.ts
+// Admin only: program viewership analytics from the daily rollups.
+//   GET ?days=30 (1–365)                         → AnalyticsReport
+//   GET ?days=30&channel=&title=&url=            → { dropoff: DropoffPoint[] }
+// Rollups are rebuilt hourly by /api/cron/analytics-rollup.
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/require-admin";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getAnalyticsReport, getDropoff } from "@/lib/watch-analytics";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const n = Number(params.get("days") || DEFAULT_DAYS);
+  const days = Math.min(MAX_DAYS, Math.max(1, Number.isFinite(n) ? Math.floor(n) : DEFAULT_DAYS));
+  const admin = getSupabaseAdmin();
+
+  try {
+    const channel = params.get("channel");
+    if (channel != null) {
+      const dropoff = await getDropoff(admin, days, {
+        channel_id: Number(channel),
+        program_title: params.get("title") ?? "",
+        mp4_url: params.get("url") ?? "",
+      });
+      return NextResponse.json({ dropoff });
+    }
+    return NextResponse.json(await getAnalyticsReport(admin, days));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load analytics" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/admin/audit-log/route.ts
+// Admin only: audit log entries, newest first.
+//   GET ?table=&action=&actor=&key=&since=&until=&before=<id>&limit=
+//   → { entries, next_before }  (pass next_before back as ?before= for the next page)
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/require-admin";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { listAuditLog } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_ENTRIES = 50;
+const MAX_ENTRIES = 200;
+
+function isoOrNull(v: string | null) {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const n = Number(params.get("limit") || DEFAULT_ENTRIES);
+  const limit = Math.min(MAX_ENTRIES, Math.max(1, Number.isFinite(n) ? Math.floor(n) : DEFAULT_ENTRIES));
+  const before = Number(params.get("before"));
+
+  try {
+    const entries = await listAuditLog(getSupabaseAdmin(), {
+      table: params.get("table"),
+      action: params.get("action"),
+      actorId: params.get("actor"),
+      rowKey: params.get("key")?.trim() || null,
+      since: isoOrNull(params.get("since")),
+      until: isoOrNull(params.get("until")),
+      before: Number.isFinite(before) && before > 0 ? before : null,
+      limit,
+    });
+    return NextResponse.json({
+      entries,
+      next_before: entries.length === limit ? entries[entries.length - 1].id : null,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to load audit log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+// app/api/admin/chat-moderation/route.ts
+// Staff (chat:moderate): the moderation queue and moderator actions.
+//   GET ?room=<id>  → { flagged, recent, sanctions, rooms, words, actions }
+//   POST { action, ... }:
+//     delete        { message_id, reason? }
+//     restore       { message_id }
+//     dismiss_flag  { message_id }
+//     sanction      { user_id, kind: "mute" | "ban", room_id? (omit = every room), minutes? (omit = until lifted), reason? }
+//     lift          { sanction_id }
+//     room_settings { room_id, slow_mode_seconds?, members_only?, report_hide_threshold? }
+//     word_add      { word, mode: "block" | "flag" }
+//     word_remove   { word }
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import {
+  addBlockedWord,
+  deleteMessage,
+  dismissFlag,
+  getModerationQueue,
+  isSanctionKind,
+  isWordAction,
+  liftSanction,
+  removeBlockedWord,
+  restoreMessage,
+  sanctionUser,
+  updateRoomSettings,
+} from "@/lib/chat-moderation";
+
+export const dynamic = "force-dynamic";
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+export async function GET(req: Request) {
+  const gate = await requirePermission("chat:moderate");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  try {
+    const room = new URL(req.url).searchParams.get("room");
+    return NextResponse.json(await getModerationQueue(getSupabaseAdmin(), room));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to load queue" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const gate = await requirePermission("chat:moderate");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const admin = getSupabaseAdmin();
+  const actor = gate.userId;
+  const messageId = str(body?.message_id);
+
+  try {
+    switch (body?.action) {
+      case "delete":
+        if (!messageId) return NextResponse.json({ error: "message_id is required" }, { status: 400 });
+        await deleteMessage(admin, actor, messageId, str(body?.reason));
+        break;
+      case "restore":
+        if (!messageId) return NextResponse.json({ error: "message_id is required" }, { status: 400 });
+        await restoreMessage(admin, actor, messageId);
+        break;
+      case "dismiss_flag":
+        if (!messageId) return NextResponse.json({ error: "message_id is required" }, { status: 400 });
+        await dismissFlag(admin, actor, messageId);
+        break;
+      case "sanction": {
+        const userId = str(body?.user_id);
+        if (!userId) return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+        if (!isSanctionKind(body?.kind)) return NextResponse.json({ error: "Unknown sanction" }, { status: 400 });
+        const minutes = Number(body?.minutes);
+        await sanctionUser(admin, actor, {
+          userId,
+          roomId: str(body?.room_id),
+          kind: body.kind,
+          reason: str(body?.reason),
+          minutes: Number.isFinite(minutes) && minutes > 0 ? Math.floor(minutes) : null,
+        });
+        break;
+      }
+      case "lift": {
+        const id = Number(body?.sanction_id);
+        if (!Number.isInteger(id) || id <= 0) {
+          return NextResponse.json({ error: "sanction_id is required" }, { status: 400 });
+        }
+        await liftSanction(admin, actor, id);
+        break;
+      }
+      case "room_settings": {
+        const roomId = str(body?.room_id);
+        if (!roomId) return NextResponse.json({ error: "room_id is required" }, { status: 400 });
+        const slow = Number(body?.slow_mode_seconds);
+        const hideAfter = Number(body?.report_hide_threshold);
+        await updateRoomSettings(admin, actor, roomId, {
+          slow_mode_seconds: body?.slow_mode_seconds !== undefined && Number.isFinite(slow) ? slow : undefined,
+          members_only: typeof body?.members_only === "boolean" ? body.members_only : undefined,
+          report_hide_threshold:
+            body?.report_hide_threshold !== undefined && Number.isFinite(hideAfter) ? hideAfter : undefined,
+        });
+        break;
+      }
+      case "word_add": {
+        const word = str(body?.word);
+        if (!word) return NextResponse.json({ error: "word is required" }, { status: 400 });
+        await addBlockedWord(admin, actor, word, isWordAction(body?.mode) ? body.mode : "block");
+        break;
+      }
+      case "word_remove": {
+        const word = str(body?.word);
+        if (!word) return NextResponse.json({ error: "word is required" }, { status: 400 });
+        await removeBlockedWord(admin, actor, word);
+        break;
+      }
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Action failed" }, { status: 500 });
+  }
+}
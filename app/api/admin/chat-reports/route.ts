@@ -0,0 +1,72 @@
+// app/api/admin/chat-reports/route.ts
+// Staff (chat:moderate): viewer reports on chat messages, grouped by message.
+//   GET ?status=open|dismissed|actioned  → { messages: ReportedMessage[] }
+//   POST { message_id, decision: "dismiss" }
+//   POST { message_id, decision: "act", delete?: boolean, warn?: boolean, warning?: string,
+//          sanction?: { kind: "mute" | "ban", minutes?: number } }
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { isSanctionKind } from "@/lib/chat-moderation";
+import { actOnReports, dismissReports, listReportedMessages, type ReportStatus } from "@/lib/chat-reports";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES = new Set<ReportStatus>(["open", "dismissed", "actioned"]);
+
+export async function GET(req: Request) {
+  const gate = await requirePermission("chat:moderate");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const status = new URL(req.url).searchParams.get("status") as ReportStatus | null;
+  try {
+    const messages = await listReportedMessages(
+      getSupabaseAdmin(),
+      status && STATUSES.has(status) ? status : "open"
+    );
+    return NextResponse.json({ messages });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to load reports" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const gate = await requirePermission("chat:moderate");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const messageId = typeof body?.message_id === "string" ? body.message_id : "";
+  if (!messageId) return NextResponse.json({ error: "message_id is required" }, { status: 400 });
+
+  const admin = getSupabaseAdmin();
+  try {
+    if (body?.decision === "dismiss") {
+      await dismissReports(admin, gate.userId, messageId);
+      return NextResponse.json({ ok: true });
+    }
+    if (body?.decision !== "act") {
+      return NextResponse.json({ error: "Unknown decision" }, { status: 400 });
+    }
+
+    const sanction = body?.sanction;
+    if (sanction && !isSanctionKind(sanction.kind)) {
+      return NextResponse.json({ error: "Unknown sanction" }, { status: 400 });
+    }
+    const minutes = Number(sanction?.minutes);
+    const result = await actOnReports(admin, gate.userId, messageId, {
+      deleteMessage: body?.delete !== false,
+      warn: !!body?.warn,
+      warning: typeof body?.warning === "string" ? body.warning : null,
+      sanction: sanction
+        ? { kind: sanction.kind, minutes: Number.isFinite(minutes) && minutes > 0 ? Math.floor(minutes) : null }
+        : null,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Action failed" }, { status: 500 });
+  }
+}
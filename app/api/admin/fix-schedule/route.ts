@@ -1,12 +1,14 @@
 // app/api/admin/fix-schedule/route.ts
 import { NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/require-admin";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
-  const gate = await requireAdmin();
+  const gate = await requirePermission("schedule:write");
   if (!gate.ok) {
     return NextResponse.json({ error: gate.error }, { status: gate.status });
   }
@@ -23,6 +25,20 @@ export async function GET(req: Request) {
   });
   const data: any = await res.json().catch(() => ({}));
 
+  // auto-extend writes with the service role; note who asked for it
+  await recordAudit(getSupabaseAdmin(), {
+    actorId: gate.userId,
+    actorRole: gate.access.role,
+    action: "fix_schedule",
+    table: "programs",
+    rowKeys: (data.results || []).map((r: any) => String(r.channelId)),
+    details: {
+      status: res.status,
+      channels_extended: data.channels_extended ?? null,
+      channels_errored: data.channels_errored ?? null,
+    },
+  });
+
   const lines: string[] = [];
   lines.push("SCHEDULE FIX RESULT");
   lines.push(
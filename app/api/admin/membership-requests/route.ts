@@ -0,0 +1,52 @@
+// app/api/admin/membership-requests/route.ts
+// Staff (members:manage): decide on signup requests, one or many at a time.
+//   POST { ids: string[], decision: "approved" | "rejected" | "needs_info",
+//          note?: string (internal), message?: string (to the requester) }
+//   → { results: [{ id, ok, error?, notified?, emailed? }] }
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { isReviewDecision, reviewSignupRequests } from "@/lib/signup-requests";
+import { recordAudit } from "@/lib/audit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_BATCH = 200;
+
+export async function POST(req: Request) {
+  const gate = await requirePermission("members:manage");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const ids: string[] = Array.isArray(body?.ids) ? body.ids.map(String).filter(Boolean) : [];
+  if (!ids.length) return NextResponse.json({ error: "No requests selected" }, { status: 400 });
+  if (ids.length > MAX_BATCH) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH} requests at a time` }, { status: 400 });
+  }
+  if (!isReviewDecision(body?.decision)) {
+    return NextResponse.json({ error: "Unknown decision" }, { status: 400 });
+  }
+
+  try {
+    const admin = getSupabaseAdmin();
+    const results = await reviewSignupRequests(admin, ids, body.decision, {
+      reviewerId: gate.userId,
+      note: body?.note ? String(body.note) : null,
+      message: body?.message ? String(body.message) : null,
+    });
+    await recordAudit(admin, {
+      actorId: gate.userId,
+      actorRole: gate.access.role,
+      action: `review_${body.decision}`,
+      table: "signup_requests",
+      rowKeys: results.filter((r) => r.ok).map((r) => r.id),
+      details: { failed: results.filter((r) => !r.ok).map((r) => r.id) },
+    });
+    return NextResponse.json({ results });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Review failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/admin/schedule-health/route.ts
+// Staff (schedule:write): recent schedule-health audit runs (newest first) for the dashboard.
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_RUNS = 30;
+const MAX_RUNS = 90;
+
+export async function GET(req: Request) {
+  const gate = await requirePermission("schedule:write");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const n = Number(new URL(req.url).searchParams.get("limit") || DEFAULT_RUNS);
+  const limit = Math.min(MAX_RUNS, Math.max(1, Number.isFinite(n) ? Math.floor(n) : DEFAULT_RUNS));
+
+  // auto-extend also logs here; only audit runs carry results_json.kind = 'audit'
+  const { data, error } = await getSupabaseAdmin()
+    .from("schedule_health_log")
+    .select("run_at, channels_checked, channels_errored, results_json")
+    .eq("results_json->>kind", "audit")
+    .order("run_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ runs: data ?? [] });
+}
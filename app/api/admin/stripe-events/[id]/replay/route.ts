@@ -0,0 +1,38 @@
+// app/api/admin/stripe-events/[id]/replay/route.ts
+// Admin: re-apply a stored Stripe event (any status). Safe to repeat —
+// state is re-read from Stripe and guarded by the profile watermark.
+import { NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { requireAdmin } from "@/lib/require-admin";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { processStripeEvent } from "@/lib/stripe-ledger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const gate = await requireAdmin();
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const { id } = await params;
+  const admin = getSupabaseAdmin();
+  const { data: row, error } = await admin
+    .from("stripe_events")
+    .select("payload")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!row) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+  try {
+    const outcome = await processStripeEvent(admin, row.payload as Stripe.Event, { force: true });
+    return NextResponse.json({ ok: outcome.status !== "failed", ...outcome });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Replay failed" }, { status: 500 });
+  }
+}
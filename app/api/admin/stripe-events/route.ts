@@ -0,0 +1,53 @@
+// app/api/admin/stripe-events/route.ts
+// Staff (billing:read): recent Stripe webhook ledger rows (newest first, payload omitted)
+// plus the latest reconciliation run.
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_EVENTS = 100;
+const MAX_EVENTS = 500;
+const STATUSES = new Set(["received", "processed", "skipped", "failed"]);
+
+export async function GET(req: Request) {
+  const gate = await requirePermission("billing:read");
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const n = Number(params.get("limit") || DEFAULT_EVENTS);
+  const limit = Math.min(MAX_EVENTS, Math.max(1, Number.isFinite(n) ? Math.floor(n) : DEFAULT_EVENTS));
+  const status = params.get("status");
+
+  const admin = getSupabaseAdmin();
+  let query = admin
+    .from("stripe_events")
+    .select(
+      "id, type, event_created, livemode, subscription_id, customer_id, user_id, status, error, attempts, received_at, processed_at"
+    )
+    .order("received_at", { ascending: false })
+    .limit(limit);
+  if (status && STATUSES.has(status)) query = query.eq("status", status);
+
+  const [events, recon] = await Promise.all([
+    query,
+    admin
+      .from("stripe_reconciliation_runs")
+      .select("run_at, profiles_checked, drift_count, errors_count, drift")
+      .order("run_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (events.error) {
+    return NextResponse.json({ error: events.error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    events: events.data ?? [],
+    reconciliation: recon.data ?? null,
+  });
+}
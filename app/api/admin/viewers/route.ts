@@ -0,0 +1,28 @@
+// app/api/admin/viewers/route.ts
+// Admin only: concurrent viewers per channel and per program.
+//   GET ?hours=24 (1–720) → ViewerStats (lib/viewer-stats.ts)
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/require-admin";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getViewerStats } from "@/lib/viewer-stats";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_HOURS = 24;
+const MAX_HOURS = 720;
+
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) {
+    return NextResponse.json({ error: gate.error }, { status: gate.status });
+  }
+
+  const n = Number(new URL(req.url).searchParams.get("hours") || DEFAULT_HOURS);
+  const hours = Math.min(MAX_HOURS, Math.max(1, Number.isFinite(n) ? Math.floor(n) : DEFAULT_HOURS));
+
+  try {
+    return NextResponse.json(await getViewerStats(getSupabaseAdmin(), hours));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load viewer stats" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/analytics/heartbeat/route.ts
+// Player heartbeats (hooks/use-watch-heartbeat.ts). Anyone watching may
+// post; the program, tier and device class are worked out here, not taken
+// from the body (see lib/watch-analytics.ts).
+//   POST { session_id, channel_id, seconds } → 204, or 429 when the
+//        session's previous heartbeat was under HEARTBEAT_MS ago
+// Accepts sendBeacon's text/plain bodies too.
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { loadSessionEntitlements } from "@/lib/entitlements";
+import { deviceClass, parseHeartbeat, recordHeartbeat } from "@/lib/watch-analytics";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = JSON.parse(await req.text());
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const beat = parseHeartbeat(body);
+  if (!beat) {
+    return NextResponse.json({ error: "Invalid heartbeat" }, { status: 400 });
+  }
+  // Nothing watched since the last beat
+  if (beat.seconds === 0) return new NextResponse(null, { status: 204 });
+
+  let result;
+  try {
+    const ent = await loadSessionEntitlements(await createClient());
+    result = await recordHeartbeat(getSupabaseAdmin(), beat, {
+      userId: ent.userId,
+      tier: ent.tier,
+      device: deviceClass(req.headers.get("user-agent")),
+    });
+  } catch (e: any) {
+    console.error("heartbeat insert failed:", e?.message || e);
+    return NextResponse.json({ error: "Could not record heartbeat" }, { status: 500 });
+  }
+
+  if (result === "too_soon") {
+    return NextResponse.json({ error: "Too many heartbeats" }, { status: 429 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
 import { cookies } from 'next/headers'
+import { resolveEntitlements } from '@/lib/entitlements'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -9,13 +10,13 @@ export async function GET() {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
 
-  if (!user) return NextResponse.json({ profile: null })
+  if (!user) return NextResponse.json({ profile: null, entitlements: resolveEntitlements(null, null) })
 
   const { data: profile } = await supabase
     .from('user_profiles')
-    .select('id, email, name, full_name, role, membership_tier, membership_status, membership_ends_at')
+    .select('id, email, name, full_name, role, membership_tier, membership_plan, membership_status, membership_ends_at, grace_until, trial_used_at')
     .eq('id', user.id)
     .single()
 
-  return NextResponse.json({ profile })
+  return NextResponse.json({ profile, entitlements: resolveEntitlements(user.id, profile) })
 }
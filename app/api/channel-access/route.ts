@@ -1,91 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
-import { cookies } from 'next/headers'
-import { canAccessChannel, isFreeChannel } from '@/lib/protected-channels'
+import { isFreeChannel } from '@/lib/protected-channels'
+import { canWatchChannel, loadSessionEntitlements, type Entitlements } from '@/lib/entitlements'
 
 export const dynamic = 'force-dynamic'
 
+type Decision =
+  | { hasAccess: true; tier: Entitlements['tier'] | 'free'; ent?: Entitlements }
+  | { hasAccess: false; reason: 'not_logged_in' | 'no_membership'; tier?: Entitlements['tier'] }
+
+async function decide(channelId: number): Promise<Decision> {
+  if (await isFreeChannel(channelId)) return { hasAccess: true, tier: 'free' }
+
+  const ent = await loadSessionEntitlements(await createClient())
+  if (!ent.userId) return { hasAccess: false, reason: 'not_logged_in' }
+
+  return (await canWatchChannel(ent, channelId))
+    ? { hasAccess: true, tier: ent.tier, ent }
+    : { hasAccess: false, reason: 'no_membership', tier: ent.tier }
+}
+
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url)
   const channelId = parseInt(searchParams.get('channelId') || '0')
+  const d = await decide(channelId)
 
-  if (isFreeChannel(channelId)) {
-    return NextResponse.json({ hasAccess: true, tier: 'free' })
-  }
-
-  const supabase = await createClient()
-  const { data: { user } } = await supabase.auth.getUser()
-
-  if (!user) {
+  if (d.hasAccess) {
+    // basis/expires_at: when a trial, gift or grace period runs out
     return NextResponse.json({
-      hasAccess: false,
-      reason: 'not_logged_in',
-      upgrade_url: '/membership',
+      hasAccess: true,
+      tier: d.tier,
+      basis: d.ent?.basis ?? null,
+      in_grace: !!d.ent?.inGrace,
+      expires_at: d.ent?.basis === 'grace' ? d.ent.graceUntil : d.ent?.expiresAt ?? null,
+      reason: null,
+      upgrade_url: null,
     })
   }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, membership_tier, membership_status')
-    .eq('id', user.id)
-    .single()
-
-  const tier = profile?.role === 'admin'
-    ? 'admin'
-    : profile?.membership_status === 'active'
-      ? (profile?.membership_tier as 'member' | 'constructiq' | 'admin')
-      : 'free'
-
-  const hasAccess = canAccessChannel(channelId, tier)
-
   return NextResponse.json({
-    hasAccess,
-    tier,
-    reason: hasAccess ? null : 'no_membership',
-    upgrade_url: hasAccess ? null : '/membership',
+    hasAccess: false,
+    tier: d.tier ?? null,
+    reason: d.reason,
+    upgrade_url: '/membership',
   })
 }
 
 export async function POST(req: NextRequest) {
   const { channelId } = await req.json()
-  const id = parseInt(String(channelId))
-
-  if (isFreeChannel(id)) {
-    return NextResponse.json({ ok: true, tier: 'free' })
-  }
-
-  const supabase = await createClient()
-  const { data: { user } } = await supabase.auth.getUser()
-
-  if (!user) {
-    return NextResponse.json({
-      ok: false,
-      error: 'Please log in to access this channel',
-      upgrade_url: '/membership',
-    }, { status: 401 })
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, membership_tier, membership_status')
-    .eq('id', user.id)
-    .single()
-
-  const tier = profile?.role === 'admin'
-    ? 'admin'
-    : profile?.membership_status === 'active'
-      ? (profile?.membership_tier as 'member' | 'constructiq' | 'admin')
-      : 'free'
-
-  const hasAccess = canAccessChannel(id, tier)
-
-  if (!hasAccess) {
-    return NextResponse.json({
-      ok: false,
-      error: 'Membership required to access this channel',
-      upgrade_url: '/membership',
-    }, { status: 403 })
-  }
-
-  return NextResponse.json({ ok: true, tier })
+  const d = await decide(parseInt(String(channelId)))
+
+  if (d.hasAccess) return NextResponse.json({ ok: true, tier: d.tier })
+
+  return d.reason === 'not_logged_in'
+    ? NextResponse.json({
+        ok: false,
+        error: 'Please log in to access this channel',
+        upgrade_url: '/membership',
+      }, { status: 401 })
+    : NextResponse.json({
+        ok: false,
+        error: 'Membership required to access this channel',
+        upgrade_url: '/membership',
+      }, { status: 403 })
 }
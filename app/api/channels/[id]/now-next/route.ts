@@ -0,0 +1,50 @@
+// app/api/channels/[id]/now-next/route.ts
+// Public: current program + next N for one channel, from a bounded time
+// window. Cached briefly at the edge so a busy channel doesn't turn every
+// viewer's poll into a database query.
+
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { queryNowNext } from "@/lib/now-next";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CACHE_CONTROL = "public, s-maxage=15, stale-while-revalidate=30";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const channelId = Number.parseInt(id, 10);
+  if (!Number.isInteger(channelId) || channelId <= 0) {
+    return NextResponse.json({ error: "Bad channel id" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const n = searchParams.get("n");
+  const hours = searchParams.get("hours");
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const result = await queryNowNext(supabase, channelId, {
+      count: n ? Number(n) : undefined,
+      aheadHours: hours ? Number(hours) : undefined,
+    });
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (e: any) {
+    console.error("now-next error:", e?.message || e);
+    return NextResponse.json(
+      { error: e?.message || "Could not load schedule" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/channels/schedule/route.ts
+// Public: every program of several channels in a time window, for the TV
+// guide. One request for the whole grid, paged past Supabase's row cap.
+//   GET ?channels=1,2,3&from=<ISO>&to=<ISO>   (window capped at 72h)
+// Cached briefly at the edge like /api/channels/[id]/now-next.
+
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { queryScheduleWindow } from "@/lib/now-next";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CACHE_CONTROL = "public, s-maxage=30, stale-while-revalidate=60";
+const MAX_CHANNELS = 100;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const channelIds = (searchParams.get("channels") || "")
+    .split(",")
+    .map((s) => Number.parseInt(s, 10))
+    .filter((n) => Number.isInteger(n) && n > 0);
+  const fromMs = Date.parse(searchParams.get("from") || "");
+  const toMs = Date.parse(searchParams.get("to") || "");
+
+  if (channelIds.length === 0 || channelIds.length > MAX_CHANNELS) {
+    return NextResponse.json({ error: "Bad channel list" }, { status: 400 });
+  }
+  if (!Number.isFinite(fromMs) || !Number.isFinite(toMs) || toMs <= fromMs) {
+    return NextResponse.json({ error: "Bad from/to window" }, { status: 400 });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const result = await queryScheduleWindow(supabase, channelIds, fromMs, toMs);
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (e: any) {
+    console.error("schedule window error:", e?.message || e);
+    return NextResponse.json(
+      { error: e?.message || "Could not load schedule" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
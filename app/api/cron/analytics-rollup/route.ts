@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/require-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { rollupRecentDays } from '@/lib/watch-analytics'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// Hourly: rebuilds today's and yesterday's viewership aggregates from player
+// heartbeats and drops raw heartbeats past retention. See
+// lib/watch-analytics.ts and scripts/019-watch-analytics.sql.
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  // Vercel cron (bearer secret) or a logged-in admin
+  const secretOk = Boolean(cronSecret) && authHeader === `Bearer ${cronSecret}`
+  if (!secretOk) {
+    const gate = await requireAdmin()
+    if (!gate.ok) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const result = await rollupRecentDays(getSupabaseAdmin())
+    return NextResponse.json({ ok: true, ...result })
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  return GET(req)
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { requireAdmin } from '@/lib/require-admin'
+import { requirePermission } from '@/lib/require-permission'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -52,11 +52,12 @@ export async function GET(req: Request) {
   const authHeader = req.headers.get('authorization')
   const cronSecret = process.env.CRON_SECRET
 
-  // Allowed callers: Vercel's nightly cron (bearer secret) OR a logged-in
-  // admin clicking from the dashboard. Everyone else is rejected.
+  // Allowed callers: Vercel's nightly cron (bearer secret) OR logged-in
+  // staff with schedule:write clicking from the dashboard. Everyone else is
+  // rejected.
   const secretOk = Boolean(cronSecret) && authHeader === `Bearer ${cronSecret}`
   if (!secretOk) {
-    const gate = await requireAdmin()
+    const gate = await requirePermission('schedule:write')
     if (!gate.ok) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
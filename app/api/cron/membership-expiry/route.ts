@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/require-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { sweepExpiredMemberships } from '@/lib/membership-expiry'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// Hourly backstop for missed Stripe webhooks: downgrades profiles whose
+// membership, trial, gift or grace period has run out (after checking Stripe
+// for a renewal we never heard about), logs membership_events and tells the
+// member via user_notifications. See lib/membership-expiry.ts.
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  // Vercel cron (bearer secret) or a logged-in admin
+  const secretOk = Boolean(cronSecret) && authHeader === `Bearer ${cronSecret}`
+  if (!secretOk) {
+    const gate = await requireAdmin()
+    if (!gate.ok) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const sweep = await sweepExpiredMemberships(getSupabaseAdmin())
+    return NextResponse.json({ ok: true, ...sweep })
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  return GET(req)
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/require-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { reconcileMemberships } from '@/lib/stripe-ledger'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// READ-ONLY against profiles: compares each subscribed profile's membership
+// fields with Stripe's live subscription and records drift in
+// stripe_reconciliation_runs for /admin/stripe-events. Fix drift by
+// replaying the subscription's latest event.
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  // Vercel cron (bearer secret) or a logged-in admin
+  const secretOk = Boolean(cronSecret) && authHeader === `Bearer ${cronSecret}`
+  if (!secretOk) {
+    const gate = await requireAdmin()
+    if (!gate.ok) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const report = await reconcileMemberships(getSupabaseAdmin())
+    return NextResponse.json({ ok: true, ...report })
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  return GET(req)
+}
@@ -0,0 +1,65 @@
+// app/api/donations/[id]/receipt/route.ts
+// Printable HTML receipt for one donation. Open to the donor (logged in, or
+// holding the token from their receipt email) and to admins.
+//   ?download=1 → served as an attachment (receipt-<number>.html)
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getDonation, renderReceiptHtml } from "@/lib/donations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function tokenMatches(given: string, expected: string) {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const url = new URL(req.url);
+  const token = url.searchParams.get("token") || "";
+
+  const admin = getSupabaseAdmin();
+  let donation;
+  try {
+    donation = await getDonation(admin, id);
+  } catch {
+    return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+  }
+  if (!donation) return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+
+  let allowed = !!token && tokenMatches(token, donation.receipt_token);
+  if (!allowed) {
+    const supabase = await createClient();
+    const { data } = await supabase.auth.getUser();
+    const userId = data?.user?.id;
+    if (userId && userId === donation.donor_id) {
+      allowed = true;
+    } else if (userId) {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("role")
+        .eq("id", userId)
+        .maybeSingle();
+      allowed = profile?.role === "admin";
+    }
+  }
+  // Same answer as a missing id: receipt ids aren't confirmed to strangers
+  if (!allowed) return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+
+  const headers: Record<string, string> = {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "private, no-store",
+    "X-Robots-Tag": "noindex",
+  };
+  if (url.searchParams.get("download") === "1") {
+    headers["Content-Disposition"] = `attachment; filename="receipt-${donation.receipt_number}.html"`;
+  }
+  return new NextResponse(renderReceiptHtml(donation), { headers });
+}
@@ -0,0 +1,81 @@
+// app/api/donations/route.ts
+// Donations (login optional).
+//   GET  → the active fundraising goal with its total, plus the caller's own
+//          donations when logged in
+//   POST → { amount_cents, recurring?, cover_fees? } → Stripe Checkout URL
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getStripe } from "@/lib/stripe-ledger";
+import {
+  DONATION_MAX_CENTS,
+  DONATION_MIN_CENTS,
+  createDonationCheckout,
+  getActiveGoal,
+  listDonations,
+} from "@/lib/donations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function currentUser() {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  return data?.user ?? null;
+}
+
+export async function GET() {
+  const user = await currentUser();
+  const admin = getSupabaseAdmin();
+
+  try {
+    const [goal, donations] = await Promise.all([
+      getActiveGoal(admin),
+      user ? listDonations(admin, user.id) : Promise.resolve([]),
+    ]);
+    return NextResponse.json({ goal, donations }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load donations" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const user = await currentUser();
+
+  const body = await req.json().catch(() => ({}));
+  const baseCents = Math.round(Number(body?.amount_cents));
+  const recurring = body?.recurring === true;
+  const coverFees = body?.cover_fees === true;
+
+  if (!Number.isFinite(baseCents) || baseCents < DONATION_MIN_CENTS || baseCents > DONATION_MAX_CENTS) {
+    return NextResponse.json(
+      { error: `Donations can be from $${DONATION_MIN_CENTS / 100} to $${(DONATION_MAX_CENTS / 100).toLocaleString("en-US")}.` },
+      { status: 400 }
+    );
+  }
+
+  let profile: { email: string | null; stripe_customer_id: string | null } | null = null;
+  if (user) {
+    const { data } = await getSupabaseAdmin()
+      .from("user_profiles")
+      .select("email, stripe_customer_id")
+      .eq("id", user.id)
+      .maybeSingle();
+    profile = data;
+  }
+
+  try {
+    const url = await createDonationCheckout(getStripe(), {
+      baseCents,
+      recurring,
+      coverFees,
+      donorId: user?.id ?? null,
+      donorEmail: profile?.email || user?.email || null,
+      customerId: profile?.stripe_customer_id ?? null,
+    });
+    return NextResponse.json({ url });
+  } catch (e: any) {
+    console.error("donation checkout error:", e?.message || e);
+    return NextResponse.json({ error: "Could not start checkout." }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/epg.json/route.ts
+// Public JSON guide (same data as /api/epg.xml). ?hours= sets the window
+// (default 24, max 168).
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { buildEpg, parseEpgHours, EPG_CACHE_CONTROL } from "@/lib/epg";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const hours = parseEpgHours(new URL(req.url).searchParams.get("hours"));
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const epg = await buildEpg(supabase, { hours });
+    return NextResponse.json(epg, { headers: { "Cache-Control": EPG_CACHE_CONTROL } });
+  } catch (e: any) {
+    console.error("epg.json error:", e?.message || e);
+    return NextResponse.json(
+      { error: e?.message || "Could not build guide" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
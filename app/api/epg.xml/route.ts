@@ -0,0 +1,33 @@
+// app/api/epg.xml/route.ts
+// Public XMLTV guide for IPTV apps. ?hours= sets the window (default 24, max 168).
+import { createClient } from "@supabase/supabase-js";
+import { buildEpg, epgToXmltv, parseEpgHours, EPG_CACHE_CONTROL } from "@/lib/epg";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const hours = parseEpgHours(new URL(req.url).searchParams.get("hours"));
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const epg = await buildEpg(supabase, { hours });
+    return new Response(epgToXmltv(epg), {
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Cache-Control": EPG_CACHE_CONTROL,
+      },
+    });
+  } catch (e: any) {
+    console.error("epg.xml error:", e?.message || e);
+    return new Response("Could not build guide", {
+      status: 500,
+      headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/gifts/redeem/route.ts
+// Redeem a gift code for the logged-in user: { code } → { ok, ends_at }
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { redeemGift } from "@/lib/gifts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  if (!data?.user) {
+    return NextResponse.json({ error: "Please log in to redeem your gift." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const result = await redeemGift(getSupabaseAdmin(), data.user.id, String(body?.code || ""));
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ ok: true, months: result.months, ends_at: result.endsAt });
+  } catch (e: any) {
+    console.error("gift redeem error:", e?.message || e);
+    return NextResponse.json({ error: "Could not redeem that code." }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// app/api/gifts/route.ts
+// Gift memberships for the logged-in purchaser.
+//   GET  → gifts they've bought (codes shown once paid)
+//   POST → { months, recipient_email?, message? } → Stripe Checkout URL
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getStripe } from "@/lib/stripe-ledger";
+import { GIFT_MONTHS, createGiftCheckout, giftPriceCents, isGiftMonths, listPurchasedGifts } from "@/lib/gifts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_MESSAGE = 500;
+
+async function currentUser() {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  return data?.user ?? null;
+}
+
+export async function GET() {
+  const user = await currentUser();
+  const admin = getSupabaseAdmin();
+
+  // Prices are public so the form can show them before login
+  const prices = await Promise.all(
+    GIFT_MONTHS.map(async (months) => ({ months, ...(await giftPriceCents(admin, months)) }))
+  ).catch(() => []);
+
+  if (!user) return NextResponse.json({ gifts: [], prices });
+  try {
+    const gifts = await listPurchasedGifts(admin, user.id);
+    return NextResponse.json({ gifts, prices }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load gifts" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const user = await currentUser();
+  if (!user) return NextResponse.json({ error: "Please log in to buy a gift." }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const months = Number(body?.months);
+  const recipientEmail = String(body?.recipient_email || "").trim() || null;
+  const message = String(body?.message || "").trim().slice(0, MAX_MESSAGE) || null;
+
+  if (!isGiftMonths(months)) {
+    return NextResponse.json({ error: "Choose a gift length." }, { status: 400 });
+  }
+  if (recipientEmail && !EMAIL_RE.test(recipientEmail)) {
+    return NextResponse.json({ error: "That recipient email doesn't look right." }, { status: 400 });
+  }
+
+  const admin = getSupabaseAdmin();
+  const { data: profile } = await admin
+    .from("user_profiles")
+    .select("email, stripe_customer_id")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  try {
+    const url = await createGiftCheckout(admin, getStripe(), {
+      purchaserId: user.id,
+      purchaserEmail: profile?.email || user.email || null,
+      customerId: profile?.stripe_customer_id ?? null,
+      months,
+      recipientEmail,
+      message,
+    });
+    return NextResponse.json({ url });
+  } catch (e: any) {
+    console.error("gift checkout error:", e?.message || e);
+    return NextResponse.json({ error: "Could not start checkout." }, { status: 500 });
+  }
+}
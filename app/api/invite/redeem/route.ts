@@ -0,0 +1,36 @@
+// app/api/invite/redeem/route.ts
+// Redeem an invite code for the logged-in user: { code? } → { ok, role }.
+// Without a code, redeems the one stashed at signup (see lib/invites.ts).
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { PENDING_INVITE_KEY, clearPendingInvite, redeemInviteCode } from "@/lib/invites";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  const user = data?.user;
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to redeem your invite." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const pending = String(user.user_metadata?.[PENDING_INVITE_KEY] || "");
+  const code = String(body?.code || "") || pending;
+  if (!code) return NextResponse.json({ error: "Enter an invite code." }, { status: 400 });
+
+  const admin = getSupabaseAdmin();
+  try {
+    const result = await redeemInviteCode(admin, user, code);
+    // A stashed code is tried once; after that the user can enter it by hand
+    if (pending && (result.ok || code === pending)) await clearPendingInvite(admin, user);
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ ok: true, role: result.role });
+  } catch (e: any) {
+    console.error("invite redeem error:", e?.message || e);
+    return NextResponse.json({ error: "Could not redeem that invite code." }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/iptv-token/route.ts
+// Logged-in user's personal IPTV token. Only its hash is stored, so the
+// token (and the playlist URL built from it) can be shown just once.
+//   GET  → first use: a new token + playlist URL. After that
+//          { token: null, created_at, last_used_at }
+//   POST → rotate: a new token + playlist URL; old URLs stop working immediately
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { generateStreamToken, hashStreamToken, playlistUrl } from "@/lib/iptv";
+
+export const dynamic = "force-dynamic";
+
+async function currentUserId() {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  return data?.user?.id ?? null;
+}
+
+function payload(body: {
+  token: string | null;
+  created_at?: string | null;
+  last_used_at?: string | null;
+}) {
+  return NextResponse.json(
+    { ...body, playlist_url: body.token ? playlistUrl(body.token) : null },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function GET() {
+  const userId = await currentUserId();
+  if (!userId) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+  const admin = getSupabaseAdmin();
+  const { data: existing, error } = await admin
+    .from("iptv_tokens")
+    .select("created_at, last_used_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (existing) return payload({ token: null, ...existing });
+
+  const token = generateStreamToken();
+  const { error: insErr } = await admin
+    .from("iptv_tokens")
+    .insert({ user_id: userId, token_hash: hashStreamToken(token) });
+  if (insErr) return NextResponse.json({ error: insErr.message }, { status: 500 });
+  return payload({ token });
+}
+
+export async function POST() {
+  const userId = await currentUserId();
+  if (!userId) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+  const token = generateStreamToken();
+  const { error } = await getSupabaseAdmin()
+    .from("iptv_tokens")
+    .upsert(
+      {
+        user_id: userId,
+        token_hash: hashStreamToken(token),
+        created_at: new Date().toISOString(),
+        last_used_at: null,
+      },
+      { onConflict: "user_id" }
+    );
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return payload({ token });
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createClient as createServerSupabase } from "@/utils/supabase/server";
 import { createClient } from "@supabase/supabase-js";
+import { loadEntitlements } from "@/lib/entitlements";
 
 export const runtime = "nodejs";
 
@@ -14,23 +15,6 @@ function enabled() {
   );
 }
 
-function hasPaidAccess(profile: any) {
-  const status = String(profile?.membership_status || "free")
-    .toLowerCase()
-    .trim();
-
-  // paid members allowed
-  if (status === "active") return true;
-
-  // ✅ grace allowed if set and still in future
-  if (profile?.grace_until) {
-    const graceUntil = new Date(profile.grace_until);
-    if (new Date() < graceUntil) return true;
-  }
-
-  return false;
-}
-
 export async function POST(req: Request) {
   // If flag off, make it behave like it doesn't exist
   if (!enabled()) {
@@ -54,21 +38,9 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
-    // ✅ Paywall check (admin bypass)
-    const { data: profile, error: profErr } = await supabase
-      .from("user_profiles")
-      .select("id, role, membership_status, grace_until")
-      .eq("id", userData.user.id)
-      .maybeSingle();
-
-    if (profErr) {
-      return NextResponse.json({ error: profErr.message }, { status: 500 });
-    }
-
-    const role = String(profile?.role || "").toLowerCase().trim();
-    const isAdmin = role === "admin";
-
-    if (!isAdmin && !hasPaidAccess(profile)) {
+    // ✅ Paywall check (admin bypass, grace honored) — same rules as every gate
+    const ent = await loadEntitlements(supabase, userData.user.id);
+    if (!ent.paid) {
       return NextResponse.json({ error: "Payment required" }, { status: 402 });
     }
 
@@ -0,0 +1,31 @@
+// app/api/membership-requests/status/route.ts
+// The signed-in requester's own request: { signed_in, approved, request }.
+// approved = they have a profile (what login checks), whatever the request says.
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getRequestStatus } from "@/lib/signup-requests";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  const user = data?.user;
+  if (!user) return NextResponse.json({ signed_in: false, approved: false, request: null });
+
+  const admin = getSupabaseAdmin();
+  try {
+    const [{ data: profile }, request] = await Promise.all([
+      admin.from("user_profiles").select("id").eq("id", user.id).maybeSingle(),
+      user.email ? getRequestStatus(admin, user.email) : Promise.resolve(null),
+    ]);
+    return NextResponse.json(
+      { signed_in: true, approved: !!profile, request },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load request status" }, { status: 500 });
+  }
+}
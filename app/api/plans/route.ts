@@ -0,0 +1,21 @@
+// app/api/plans/route.ts
+// Public membership plan catalog for /membership (Stripe price ids omitted).
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { listPlans, toPublicPlan } from "@/lib/plans";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    // service role: listPlans needs server env to tell which plans have a price
+    const plans = await listPlans(getSupabaseAdmin());
+    return NextResponse.json(
+      { plans: plans.map(toPublicPlan) },
+      { headers: { "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600" } }
+    );
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Could not load plans" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/playlist.m3u/route.ts
+// M3U playlist for VLC / IPTV apps. Free channels for everyone; member
+// channels appear only with a valid ?token= (see /api/iptv-token).
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { buildPlaylist, resolveStreamToken } from "@/lib/iptv";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get("token");
+
+  try {
+    const admin = getSupabaseAdmin();
+    const holder = token ? await resolveStreamToken(admin, token) : null;
+    if (token && !holder) {
+      return new Response("Invalid or revoked token", {
+        status: 401,
+        headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+      });
+    }
+
+    const body = await buildPlaylist(admin, holder?.tier ?? null, holder ? token : null);
+    return new Response(body, {
+      headers: {
+        "Content-Type": "audio/x-mpegurl; charset=utf-8",
+        "Content-Disposition": 'inline; filename="blacktruthtv.m3u"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (e: any) {
+    console.error("playlist.m3u error:", e?.message || e);
+    return new Response("Could not build playlist", {
+      status: 500,
+      headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  }
+}
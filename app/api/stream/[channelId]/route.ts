@@ -0,0 +1,46 @@
+// app/api/stream/[channelId]/route.ts
+// Stable per-channel stream URL for IPTV players: redirects to the file the
+// channel is airing right now (standby clip if nothing is, or it's missing).
+// Member channels need ?token= from /api/iptv-token.
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { canAccessChannel, isFreeChannel } from "@/lib/protected-channels";
+import { resolveLiveStream, resolveStreamToken } from "@/lib/iptv";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function plain(status: number, text: string) {
+  return new Response(text, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  const { channelId: raw } = await params;
+  const channelId = Number.parseInt(raw, 10);
+  if (!Number.isInteger(channelId) || channelId <= 0) return plain(400, "Bad channel id");
+
+  try {
+    const admin = getSupabaseAdmin();
+
+    if (!(await isFreeChannel(channelId))) {
+      const token = new URL(req.url).searchParams.get("token");
+      const holder = await resolveStreamToken(admin, token);
+      if (!holder) return plain(401, "Membership token required");
+      if (!(await canAccessChannel(channelId, holder.tier))) return plain(403, "Membership required");
+    }
+
+    const { url } = await resolveLiveStream(admin, channelId);
+    const res = NextResponse.redirect(url, 302);
+    res.headers.set("Cache-Control", "no-store");
+    return res;
+  } catch (e: any) {
+    console.error("stream error:", e?.message || e);
+    return plain(500, "Could not resolve stream");
+  }
+}
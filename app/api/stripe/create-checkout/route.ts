@@ -1,26 +1,80 @@
 import { NextResponse } from 'next/server'
-import Stripe from 'stripe'
+import type Stripe from 'stripe'
 import { createClient } from '@/utils/supabase/server'
-import { cookies } from 'next/headers'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { getStripe } from '@/lib/stripe-ledger'
+import { DEFAULT_PLAN_KEY, TRIAL_DAYS, findPromotionCode, getPlan, planPriceId } from '@/lib/plans'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2024-06-20' })
-
-export async function POST() {
+// Body (optional): { plan?: string, promo_code?: string, trial?: boolean }
+// No plan → the monthly membership, as before. trial → TRIAL_DAYS free,
+// once per profile.
+export async function POST(req: Request) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
 
+  const body = await req.json().catch(() => ({}))
+  const planKey = String(body?.plan || DEFAULT_PLAN_KEY)
+  const promoCode = String(body?.promo_code || '').trim()
+  const wantsTrial = body?.trial === true
+
+  const plan = await getPlan(getSupabaseAdmin(), planKey)
+  const priceId = plan?.active ? planPriceId(plan) : null
+  if (!plan || !priceId) {
+    return NextResponse.json({ error: 'Unknown plan' }, { status: 400 })
+  }
+
+  const stripe = getStripe()
+
+  // A typed code is applied up front; otherwise Stripe's own field is shown.
+  let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined
+  if (promoCode) {
+    const promotionCode = await findPromotionCode(stripe, promoCode)
+    if (!promotionCode) {
+      return NextResponse.json({ error: 'That promo code is not valid.' }, { status: 400 })
+    }
+    discounts = [{ promotion_code: promotionCode }]
+  }
+
   const { data: profile } = await supabase
     .from('user_profiles')
-    .select('stripe_customer_id, email, full_name, name')
+    .select('stripe_customer_id, email, full_name, name, trial_used_at')
     .eq('id', user.id)
     .single()
 
   let customerId = profile?.stripe_customer_id
 
+  if (wantsTrial) {
+    // Stripe history covers subscriptions from before trial_used_at existed.
+    // Monthly donations are subscriptions too; they don't use up the trial.
+    // trial_used_at itself is set by the webhook once the subscription exists.
+    const priorSubs = customerId
+      ? await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 100 })
+      : null
+    const hadMembership = !!priorSubs?.data.some(s => !s.metadata?.donation)
+    if (profile?.trial_used_at || hadMembership) {
+      return NextResponse.json(
+        { error: 'Free trials are for first-time members. You can still join below.' },
+        { status: 409 }
+      )
+    }
+
+    // Only one trial checkout open at a time, so two tabs can't both start
+    // a trial: the same plan reuses it, anything else expires it first.
+    if (customerId) {
+      const open = await stripe.checkout.sessions.list({ customer: customerId, status: 'open', limit: 100 })
+      for (const cs of open.data.filter(cs => cs.metadata?.trial === 'true')) {
+        if (cs.url && cs.metadata?.plan_key === plan.key && !promoCode) {
+          return NextResponse.json({ url: cs.url })
+        }
+        await stripe.checkout.sessions.expire(cs.id)
+      }
+    }
+  }
+
   if (!customerId) {
     const customer = await stripe.customers.create({
       email: profile?.email || user.email || '',
@@ -36,7 +90,6 @@ export async function POST() {
   }
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://www.blacktruthtv.org'
-  const priceId = process.env.STRIPE_PRICE_MEMBERSHIP_MONTHLY!
 
   const session = await stripe.checkout.sessions.create({
     customer: customerId,
@@ -44,12 +97,13 @@ export async function POST() {
     mode: 'subscription',
     line_items: [{ price: priceId, quantity: 1 }],
     subscription_data: {
-      metadata: { supabase_user_id: user.id },
+      metadata: { supabase_user_id: user.id, plan_key: plan.key },
+      ...(wantsTrial ? { trial_period_days: TRIAL_DAYS } : {}),
     },
     success_url: `${appUrl}/browse?member=true`,
     cancel_url: `${appUrl}/membership?cancelled=true`,
-    allow_promotion_codes: true,
-    metadata: { supabase_user_id: user.id },
+    ...(discounts ? { discounts } : { allow_promotion_codes: true }),
+    metadata: { supabase_user_id: user.id, plan_key: plan.key, ...(wantsTrial ? { trial: 'true' } : {}) },
   })
 
   return NextResponse.json({ url: session.url })
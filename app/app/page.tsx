@@ -6,6 +6,7 @@ import { createClient } from "@/utils/supabase/client";
 import NewsTicker from "@/components/NewsTicker";
 import NotificationBell from "@/components/notification-bell";
 import SignOutButton from "@/app/components/SignOutButton";
+import { resolveEntitlements } from "@/lib/entitlements";
 
 type Summary = { channels: number };
 
@@ -16,6 +17,8 @@ type Profile = {
   role?: string | null;
   membership_status?: string | null; // "active" | "unpaid" | etc.
   grace_until?: string | null;       // timestamp
+  membership_tier?: string | null;
+  membership_ends_at?: string | null;
   welcome_started_at?: string | null;
 };
 
@@ -74,7 +77,7 @@ export default function AppPage() {
         const { data, error } = await supabase
           .from("user_profiles")
           .select(
-            "id,full_name,email,role,membership_status,grace_until,welcome_started_at"
+            "id,full_name,email,role,membership_status,membership_tier,membership_ends_at,grace_until,welcome_started_at"
           )
           .eq("id", user.id)
           .maybeSingle();
@@ -98,7 +101,7 @@ export default function AppPage() {
           const byEmail = await supabase
             .from("user_profiles")
             .select(
-              "id,full_name,email,role,membership_status,grace_until,welcome_started_at"
+              "id,full_name,email,role,membership_status,membership_tier,membership_ends_at,grace_until,welcome_started_at"
             )
             .eq("email", user.email)
             .maybeSingle();
@@ -126,19 +129,11 @@ export default function AppPage() {
     };
   }, [supabase]);
 
-  const isAdmin = useMemo(() => {
-    const r = String(profile?.role ?? "").toLowerCase().trim();
-    return r === "admin";
-  }, [profile]);
-
-  const status = useMemo(() => {
-    return String(profile?.membership_status ?? "").toLowerCase().trim();
-  }, [profile]);
-
-  const isPaidActive = useMemo(() => {
-    if (isAdmin) return true;
-    return status === "active";
-  }, [isAdmin, status]);
+  // Same decision the server gates make (grace and renewal slack included)
+  const entitlements = useMemo(
+    () => resolveEntitlements(profile?.id ?? null, profile),
+    [profile]
+  );
 
   const hasAccess = useMemo(() => {
     if (!profile) return false;
@@ -155,9 +150,8 @@ export default function AppPage() {
   const showUpgradeBanner = useMemo(() => {
     if (profileLoading) return false;
     if (!profile) return false;
-    if (isAdmin) return false;
-    return status !== "active";
-  }, [profileLoading, profile, isAdmin, status]);
+    return !entitlements.paid;
+  }, [profileLoading, profile, entitlements]);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-black via-slate-950 to-black text-white">
@@ -1,9 +1,11 @@
 // app/chat/[roomId]/page.tsx
 "use client";
 
-import { useEffect, useState, FormEvent } from "react";
+import { useEffect, useRef, useState, FormEvent } from "react";
 import Link from "next/link";
 import { createClient } from "@/utils/supabase/client";
+import { useChatRoom } from "@/hooks/use-chat-room";
+import ChatReportButton from "@/components/chat-report-button";
 
 type ChatRoom = {
   id: string;
@@ -12,14 +14,6 @@ type ChatRoom = {
   channel_id: string | null;
 };
 
-type ChatMessage = {
-  id: string;
-  room_id: string;
-  sender_id: string;
-  message: string;
-  created_at: string;
-};
-
 export default function ChatRoomPage({
   params,
 }: {
@@ -32,9 +26,15 @@ export default function ChatRoomPage({
   const [roomError, setRoomError] = useState<string | null>(null);
   const [loadingRoom, setLoadingRoom] = useState(true);
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [loadingMessages, setLoadingMessages] = useState(true);
-  const [messagesError, setMessagesError] = useState<string | null>(null);
+  const {
+    messages,
+    loading: loadingMessages,
+    error: messagesError,
+    connection,
+    send,
+    viewerId,
+  } = useChatRoom(roomId || null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
 
   const [newMessage, setNewMessage] = useState("");
   const [sending, setSending] = useState(false);
@@ -67,35 +67,11 @@ export default function ChatRoomPage({
     }
   }, [roomId, supabase]);
 
-  // Load messages
+  // Keep the newest message in view as messages arrive
   useEffect(() => {
-    async function loadMessages() {
-      setLoadingMessages(true);
-      setMessagesError(null);
-
-      const { data, error } = await supabase
-        .from("chat_messages")
-        .select("id, room_id, sender_id, message, created_at")
-        .eq("room_id", roomId)
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        console.error("Error loading chat messages:", error);
-        setMessagesError(
-          error.message || "Could not load chat messages. Please try again."
-        );
-        setMessages([]);
-      } else {
-        setMessages((data || []) as ChatMessage[]);
-      }
-
-      setLoadingMessages(false);
-    }
-
-    if (roomId) {
-      loadMessages();
-    }
-  }, [roomId, supabase]);
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages]);
 
   // Send a new message
   async function handleSendMessage(e: FormEvent) {
@@ -104,36 +80,11 @@ export default function ChatRoomPage({
     setSending(true);
 
     try {
-      // Get current user for sender_id
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        alert("You must be logged in to send messages.");
-        setSending(false);
-        return;
-      }
-
-      const payload = {
-        room_id: roomId,
-        sender_id: user.id, // 👈 matches your schema
-        message: newMessage.trim(),
-      };
-
-      const { data, error } = await supabase
-        .from("chat_messages")
-        .insert(payload)
-        .select("id, room_id, sender_id, message, created_at")
-        .single();
-
-      if (error) {
-        console.error("Error sending message:", error);
-        alert(error.message || "Could not send message.");
-      } else if (data) {
-        setMessages((prev) => [...prev, data as ChatMessage]);
-        setNewMessage("");
-      }
+      await send(newMessage);
+      setNewMessage("");
+    } catch (err: any) {
+      console.error("Error sending message:", err);
+      alert(err?.message || "Could not send message.");
     } finally {
       setSending(false);
     }
@@ -147,6 +98,12 @@ export default function ChatRoomPage({
           <div>
             <p className="text-xs uppercase tracking-wide text-slate-400 mb-1">
               Black Truth TV • Community Chat
+              {connection === "live" && (
+                <span className="ml-2 text-emerald-400">● Live</span>
+              )}
+              {connection === "reconnecting" && (
+                <span className="ml-2 text-amber-400">Reconnecting…</span>
+              )}
             </p>
             {loadingRoom ? (
               <h1 className="text-xl font-semibold text-slate-100">
@@ -181,13 +138,13 @@ export default function ChatRoomPage({
         {/* Chat panel */}
         <div className="rounded-2xl border border-slate-800 bg-slate-950/80 shadow-xl flex flex-col h-[70vh]">
           {/* Messages area */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
             {messagesError ? (
               // REAL error
               <div className="text-sm text-red-300 bg-red-900/40 border border-red-500/60 rounded-md px-3 py-2">
                 {messagesError}
               </div>
-            ) : loadingMessages ? (
+            ) : loadingMessages && messages.length === 0 ? (
               // Loading state
               <div className="text-sm text-slate-300">
                 Loading messages…
@@ -212,12 +169,14 @@ export default function ChatRoomPage({
                     className="rounded-lg bg-slate-900/70 border border-slate-800 px-3 py-2 text-sm"
                   >
                     <div className="flex items-center justify-between mb-1">
-                      {/* We don't have names yet, just show Member for now */}
                       <span className="text-xs font-semibold text-amber-300">
-                        Member
+                        {m.sender_name || "Member"}
                       </span>
-                      <span className="text-[10px] text-slate-400">
+                      <span className="flex items-center gap-2 text-[10px] text-slate-400">
                         {new Date(m.created_at).toLocaleString()}
+                        {viewerId && m.sender_id !== viewerId && (
+                          <ChatReportButton messageId={m.id} />
+                        )}
                       </span>
                     </div>
                     <p className="text-sm text-slate-100 whitespace-pre-wrap">
@@ -1,22 +1,61 @@
 // app/donate/page.tsx
 "use client";
 
-import { useMemo, useState } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import TopNav from "@/components/top-nav";
 import { Button } from "@/components/ui/button";
+import { DonationGoal, type DonationGoalData } from "@/components/donation-goal";
+import { useDonationCheckout } from "@/hooks/use-donation-checkout";
+import { formatPlanPrice } from "@/lib/plans";
 import { ArrowLeft } from "lucide-react";
 
-const DONATE_URL =
-  process.env.NEXT_PUBLIC_DONATE_URL ||
-  "https://your-donate-provider.example.com/blacktruth";
-
 const PRESETS = [10, 25, 50, 100];
+// The goal bar refreshes while the page is open
+const GOAL_REFRESH_MS = 60_000;
+
+type DonationRow = {
+  id: string;
+  receipt_number: string;
+  amount_cents: number;
+  refunded_cents: number;
+  currency: string;
+  recurring: boolean;
+  status: "paid" | "refunded";
+  paid_at: string;
+};
+
+function DonateContent() {
+  const searchParams = useSearchParams();
+  const thanks = searchParams.get("thanks");
+  const cancelled = searchParams.get("cancelled");
 
-export default function DonatePage() {
   const [amount, setAmount] = useState<string>("25");
   const [isMonthly, setIsMonthly] = useState<boolean>(false);
   const [coverFees, setCoverFees] = useState<boolean>(true);
+  const [goal, setGoal] = useState<DonationGoalData | null>(null);
+  const [donations, setDonations] = useState<DonationRow[]>([]);
+  const { donate, pending, error } = useDonationCheckout();
+
+  useEffect(() => {
+    let stale = false;
+    const load = () =>
+      fetch("/api/donations", { cache: "no-store" })
+        .then((r) => r.json())
+        .then((d) => {
+          if (stale) return;
+          setGoal(d.goal ?? null);
+          setDonations(d.donations ?? []);
+        })
+        .catch(() => {});
+    load();
+    const t = setInterval(load, GOAL_REFRESH_MS);
+    return () => {
+      stale = true;
+      clearInterval(t);
+    };
+  }, []);
 
   const parsedAmount = useMemo(() => {
     const n = Number(amount);
@@ -25,32 +64,14 @@ export default function DonatePage() {
   }, [amount]);
 
   const displayAmount = useMemo(() => {
-    // Add a simple 3% fee cover if toggled on (rounded up)
+    // Add a simple 3% fee cover if toggled on (rounded up); the server
+    // charges the same (lib/donations.ts feeCoverCents)
     if (!coverFees || parsedAmount <= 0) return parsedAmount;
     return Math.max(parsedAmount, Math.ceil(parsedAmount * 1.03));
   }, [parsedAmount, coverFees]);
 
-  const checkoutBase = useMemo(() => {
-    try {
-      return new URL(DONATE_URL);
-    } catch {
-      return null;
-    }
-  }, []);
-
   const go = () => {
-    const amt = Math.max(1, displayAmount || 0);
-    if (checkoutBase) {
-      const url = new URL(checkoutBase.toString());
-      url.searchParams.set("amount", String(amt));
-      if (isMonthly) url.searchParams.set("recurring", "1");
-      if (coverFees) url.searchParams.set("cover_fees", "1");
-      window.location.href = url.toString();
-    } else {
-      alert(
-        `Proceeding to ${isMonthly ? "monthly" : "one-time"} donation of $${amt}. (Set NEXT_PUBLIC_DONATE_URL for real checkout.)`
-      );
-    }
+    donate({ amount: Math.max(1, parsedAmount), monthly: isMonthly, coverFees });
   };
 
   return (
@@ -74,6 +95,30 @@ export default function DonatePage() {
         </div>
       </section>
 
+      {(thanks || cancelled) && (
+        <section className="px-4 md:px-10 pt-8">
+          <div
+            className={`max-w-3xl mx-auto rounded-xl border px-5 py-3 text-sm ${
+              thanks
+                ? "bg-green-900/30 border-green-700 text-green-400"
+                : "bg-yellow-900/30 border-yellow-700 text-yellow-400"
+            }`}
+          >
+            {thanks
+              ? "Thank you! Your gift is confirmed — a receipt for your tax records is on its way to your inbox."
+              : "Checkout cancelled — nothing was charged."}
+          </div>
+        </section>
+      )}
+
+      {goal && (
+        <section className="px-4 md:px-10 pt-10">
+          <div className="max-w-3xl mx-auto">
+            <DonationGoal goal={goal} />
+          </div>
+        </section>
+      )}
+
       {/* Donate Card */}
       <section className="px-4 md:px-10 py-10">
         <div className="max-w-3xl mx-auto rounded-xl border border-white/10 bg-zinc-950/70 p-6">
@@ -169,11 +214,12 @@ export default function DonatePage() {
             <Button
               type="button"
               className="bg-red-600 hover:bg-red-700"
-              disabled={parsedAmount <= 0}
+              disabled={parsedAmount <= 0 || pending}
               onClick={go}
             >
-              {isMonthly ? "Start Monthly Support" : "Donate"} $
-              {displayAmount > 0 ? displayAmount : 0}
+              {pending
+                ? "Loading..."
+                : `${isMonthly ? "Start Monthly Support" : "Donate"} $${displayAmount > 0 ? displayAmount : 0}`}
             </Button>
             <Button
               type="button"
@@ -185,14 +231,55 @@ export default function DonatePage() {
             </Button>
           </div>
 
+          {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
           <p className="mt-5 text-xs text-white/60">
-            Set <code className="text-white/80">NEXT_PUBLIC_DONATE_URL</code> to your live
-            checkout (Stripe/PayPal/etc.). Payments are processed securely by your
-            provider.
+            Payments are processed securely by Stripe. You&apos;ll get an emailed receipt
+            for every payment{isMonthly ? ", each month" : ""}.
           </p>
         </div>
       </section>
 
+      {donations.length > 0 && (
+        <section className="px-4 md:px-10 pb-10">
+          <div className="max-w-3xl mx-auto rounded-xl border border-white/10 bg-zinc-950/50 p-6">
+            <h2 className="text-lg font-semibold">Your Donations</h2>
+            <ul className="mt-3 divide-y divide-white/10 text-sm">
+              {donations.map((d) => (
+                <li key={d.id} className="py-3 flex items-center justify-between gap-3 flex-wrap">
+                  <div>
+                    <div className="font-medium">
+                      {formatPlanPrice({ amount_cents: d.amount_cents, currency: d.currency })}
+                      {d.recurring && <span className="text-white/60"> · monthly</span>}
+                      {d.status === "refunded" && <span className="text-red-400"> · refunded</span>}
+                    </div>
+                    <div className="text-xs text-white/60">
+                      {new Date(d.paid_at).toLocaleDateString()} · {d.receipt_number}
+                    </div>
+                  </div>
+                  <div className="flex gap-3 text-xs">
+                    <a
+                      href={`/api/donations/${d.id}/receipt`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline text-white/80 hover:text-white"
+                    >
+                      View / print receipt
+                    </a>
+                    <a
+                      href={`/api/donations/${d.id}/receipt?download=1`}
+                      className="underline text-white/80 hover:text-white"
+                    >
+                      Download
+                    </a>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
       {/* Other ways / Contact */}
       <section className="px-4 md:px-10 pb-12">
         <div className="max-w-3xl mx-auto rounded-xl border border-white/10 bg-zinc-950/50 p-6">
@@ -214,3 +301,11 @@ export default function DonatePage() {
     </div>
   );
 }
+
+export default function DonatePage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-black" />}>
+      <DonateContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { formatPlanPrice } from '@/lib/plans'
+
+type GiftPrice = { months: number; amount: number; currency: string }
+
+type Gift = {
+  code: string
+  months: number
+  amount_cents: number
+  currency: string
+  recipient_email: string | null
+  status: 'pending' | 'paid' | 'redeemed' | 'void'
+  redeemed_at: string | null
+  created_at: string
+}
+
+function GiftContent() {
+  const searchParams = useSearchParams()
+  const purchased = searchParams.get('purchased')
+  const cancelled = searchParams.get('cancelled')
+
+  const [prices, setPrices] = useState<GiftPrice[]>([])
+  const [gifts, setGifts] = useState<Gift[]>([])
+  const [months, setMonths] = useState(3)
+  const [recipientEmail, setRecipientEmail] = useState('')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/gifts', { cache: 'no-store' })
+      .then(r => r.json())
+      .then(d => {
+        setPrices(d.prices ?? [])
+        setGifts(d.gifts ?? [])
+      })
+      .catch(() => {})
+  }, [])
+
+  async function buy() {
+    setLoading(true)
+    setError(null)
+    const res = await fetch('/api/gifts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ months, recipient_email: recipientEmail, message }),
+    })
+    const data = await res.json()
+    if (data.url) {
+      window.location.href = data.url
+    } else {
+      setError(res.status === 401 ? 'Please log in first, then come back to buy a gift.' : data.error || 'Something went wrong.')
+      setLoading(false)
+    }
+  }
+
+  async function copy(code: string) {
+    const url = `${window.location.origin}/gift/redeem?code=${encodeURIComponent(code)}`
+    await navigator.clipboard.writeText(url).catch(() => {})
+    setCopied(code)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const selected = prices.find(p => p.months === months)
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+        <Link href="/membership" className="text-yellow-400 text-sm hover:underline">← Membership</Link>
+        <Link href="/gift/redeem" className="text-xs text-gray-400 hover:text-yellow-400 underline">Have a code? Redeem it</Link>
+      </header>
+
+      <main className="max-w-xl mx-auto px-6 py-12">
+        {purchased && (
+          <div className="bg-green-900/30 border border-green-700 rounded-xl px-5 py-3 mb-8">
+            <span className="text-green-400 text-sm font-semibold">
+              🎁 Thank you! Your gift code is below and on its way to your inbox.
+            </span>
+          </div>
+        )}
+        {cancelled && (
+          <div className="bg-yellow-900/30 border border-yellow-700 rounded-xl px-5 py-3 mb-8">
+            <span className="text-yellow-400 text-sm">Checkout cancelled — nothing was charged.</span>
+          </div>
+        )}
+
+        <h1 className="text-3xl font-extrabold tracking-tight mb-2">Give a membership</h1>
+        <p className="text-gray-400 text-sm mb-8">
+          Pay once, no subscription. They get full access to every channel from the day they redeem the code.
+        </p>
+
+        <div className="bg-gray-900 border border-gray-700 rounded-2xl p-6 space-y-5">
+          <div>
+            <div className="text-xs uppercase tracking-wide text-gray-400 mb-2">Length</div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {prices.map(p => (
+                <button
+                  key={p.months}
+                  onClick={() => setMonths(p.months)}
+                  className={`rounded-xl border px-3 py-3 text-sm transition ${
+                    months === p.months
+                      ? 'border-yellow-400 bg-yellow-400/10 text-yellow-300'
+                      : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  <div className="font-bold">{p.months === 12 ? '1 year' : `${p.months} mo`}</div>
+                  <div className="text-xs text-gray-400">{formatPlanPrice({ amount_cents: p.amount, currency: p.currency })}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Recipient email (optional)</span>
+            <input
+              type="email"
+              value={recipientEmail}
+              onChange={e => setRecipientEmail(e.target.value)}
+              placeholder="We'll email them the code"
+              className="mt-1 w-full px-3 py-2 rounded-xl bg-black border border-gray-700 text-sm placeholder-gray-600 focus:border-yellow-500 outline-none"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Message (optional)</span>
+            <textarea
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              maxLength={500}
+              rows={3}
+              className="mt-1 w-full px-3 py-2 rounded-xl bg-black border border-gray-700 text-sm focus:border-yellow-500 outline-none"
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <button
+            onClick={buy}
+            disabled={loading || !selected}
+            className="w-full py-3 rounded-xl text-sm font-bold bg-yellow-400 text-black hover:bg-yellow-300 transition disabled:opacity-40"
+          >
+            {loading
+              ? 'Loading...'
+              : selected
+                ? `Buy gift — ${formatPlanPrice({ amount_cents: selected.amount, currency: selected.currency })}`
+                : 'Buy gift'}
+          </button>
+        </div>
+
+        {gifts.length > 0 && (
+          <div className="mt-10">
+            <h2 className="text-lg font-bold mb-3">Gifts you&apos;ve bought</h2>
+            <ul className="space-y-2">
+              {gifts.map(g => (
+                <li key={g.code || g.created_at} className="bg-gray-900 border border-gray-700 rounded-xl p-4 text-sm">
+                  <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <span className="font-mono text-yellow-300">{g.code || 'Awaiting payment…'}</span>
+                    <span className="text-xs text-gray-400">
+                      {g.months} month{g.months === 1 ? '' : 's'} · {g.status === 'redeemed' ? `redeemed ${new Date(g.redeemed_at!).toLocaleDateString()}` : g.status}
+                    </span>
+                  </div>
+                  {g.recipient_email && <div className="text-xs text-gray-500 mt-1">For {g.recipient_email}</div>}
+                  {g.status === 'paid' && (
+                    <button onClick={() => copy(g.code)} className="mt-2 text-xs text-yellow-400 hover:underline">
+                      {copied === g.code ? 'Copied!' : 'Copy redeem link'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function GiftPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-yellow-500/20 border-t-yellow-400 rounded-full animate-spin" />
+      </div>
+    }>
+      <GiftContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+
+function RedeemContent() {
+  const searchParams = useSearchParams()
+  const [code, setCode] = useState(searchParams.get('code') || '')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [needsLogin, setNeedsLogin] = useState(false)
+  const [endsAt, setEndsAt] = useState<string | null>(null)
+
+  async function redeem(e: React.FormEvent) {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+    setNeedsLogin(false)
+    const res = await fetch('/api/gifts/redeem', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (res.ok) {
+      setEndsAt(data.ends_at)
+    } else {
+      setNeedsLogin(res.status === 401)
+      setError(data.error || 'Something went wrong.')
+    }
+    setLoading(false)
+  }
+
+  const loginHref = `/login?redirect=${encodeURIComponent(`/gift/redeem?code=${code}`)}`
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="border-b border-gray-800 px-6 py-4">
+        <Link href="/browse" className="text-yellow-400 text-sm hover:underline">← Back to TV</Link>
+      </header>
+
+      <main className="max-w-md mx-auto px-6 py-16">
+        {endsAt ? (
+          <div className="text-center">
+            <div className="text-5xl mb-4">🎁</div>
+            <h1 className="text-2xl font-extrabold mb-2">Welcome, Member!</h1>
+            <p className="text-gray-300 text-sm mb-8">
+              Your gift membership is active until{' '}
+              <span className="text-yellow-300 font-semibold">{new Date(endsAt).toLocaleDateString()}</span>.
+            </p>
+            <Link href="/browse" className="inline-block px-6 py-3 rounded-xl text-sm font-bold bg-yellow-400 text-black hover:bg-yellow-300 transition">
+              Start watching
+            </Link>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-2xl font-extrabold mb-2">Redeem a gift</h1>
+            <p className="text-gray-400 text-sm mb-6">Enter the code from your gift email.</p>
+            <form onSubmit={redeem} className="space-y-3">
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                placeholder="GIFT-XXXX-XXXX-XXXX"
+                autoCapitalize="characters"
+                className="w-full px-3 py-3 rounded-xl bg-gray-900 border border-gray-700 font-mono tracking-wider text-center focus:border-yellow-500 outline-none"
+              />
+              {error && (
+                <p className="text-sm text-red-400">
+                  {error}{' '}
+                  {needsLogin && <Link href={loginHref} className="text-yellow-400 underline">Log in</Link>}
+                </p>
+              )}
+              <button
+                disabled={loading || !code.trim()}
+                className="w-full py-3 rounded-xl text-sm font-bold bg-yellow-400 text-black hover:bg-yellow-300 transition disabled:opacity-40"
+              >
+                {loading ? 'Redeeming…' : 'Redeem'}
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function RedeemGiftPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-yellow-500/20 border-t-yellow-400 rounded-full animate-spin" />
+      </div>
+    }>
+      <RedeemContent />
+    </Suspense>
+  )
+}
@@ -5,6 +5,14 @@ import Image from "next/image";
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabase";
 import { ChevronRight } from "lucide-react";
+import {
+  asSeconds,
+  findActiveProgram,
+  groupByChannel,
+  parseUtcishMs,
+  upcomingPrograms,
+} from "@/lib/schedule";
+import { fetchScheduleWindow } from "@/lib/now-next";
 
 /* ------- Types (match your schema) ------- */
 type Channel = {
@@ -23,9 +31,7 @@ type Program = {
 };
 
 const CH21_ID_NUMERIC = 21;
-const GRACE_MS = 120_000; // 2 min grace
 const LOOKAHEAD_HOURS = 24; // show all upcoming within 24h
-const LOOKBACK_HOURS = 6; // fetch a little earlier to correctly detect "Now"
 
 /* ---------- Helpers ---------- */
 function toId(v: number | string | null | undefined): number {
@@ -33,53 +39,6 @@ function toId(v: number | string | null | undefined): number {
   return Number.isFinite(n) ? n : NaN;
 }
 
-function asSeconds(v: unknown): number {
-  if (v == null) return 0;
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  const s = String(v).trim();
-  const m = /^(\d{1,3}):([0-5]?\d)(?::([0-5]?\d))?$/.exec(s);
-  if (m) {
-    const hh = m[3] ? Number(m[1]) : 0;
-    const mm = Number(m[3] ? m[2] : m[1]);
-    const ss = Number(m[3] ? m[3] : m[2]);
-    return hh * 3600 + mm * 60 + ss;
-  }
-  const num = Number(s.replace(/[^\d.]+/g, ""));
-  return Number.isFinite(num) && num > 0 ? Math.round(num) : 0;
-}
-
-function parseUtcishMs(val: unknown): number {
-  if (val == null) return NaN;
-  let s = String(val).trim();
-  if (!s) return NaN;
-
-  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/.test(s)) s = s.replace(" ", "T");
-  if (/[zZ]$/.test(s)) s = s.replace(/[zZ]$/, "Z");
-  else {
-    const m = /([+\-]\d{2})(:?)(\d{2})?$/.exec(s);
-    if (m) {
-      const hh = m[1];
-      const mm = m[3] ?? "00";
-      s = s.replace(/([+\-]\d{2})(:?)(\d{2})?$/, `${hh}:${mm}`);
-      if (/([+\-]00:00)$/.test(s)) s = s.replace(/([+\-]00:00)$/, "Z");
-    } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(s)) {
-      s += "Z";
-    } else if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?$/.test(s)) {
-      s = s.replace(" ", "T") + "Z";
-    }
-  }
-  const t = Date.parse(s);
-  return Number.isNaN(t) ? NaN : t;
-}
-
-function isActiveProgram(p: Program, nowMs: number): boolean {
-  const startMs = parseUtcishMs(p.start_time);
-  const durSec = asSeconds(p.duration);
-  if (!Number.isFinite(startMs) || durSec <= 0) return false;
-  const endMs = startMs + durSec * 1000;
-  return startMs - GRACE_MS <= nowMs && nowMs < endMs + GRACE_MS;
-}
-
 function fmtTimeLocal(ms: number) {
   return new Date(ms).toLocaleTimeString("en-US", {
     hour: "2-digit",
@@ -118,23 +77,19 @@ export default function GuidePage() {
           .order("id", { ascending: true });
         if (chErr) throw chErr;
 
-        // Programs: small lookback to catch "now", and 24h lookahead
-        const now = Date.now();
-        const from = new Date(now - LOOKBACK_HOURS * 3600 * 1000).toISOString();
-        const to = new Date(now + LOOKAHEAD_HOURS * 3600 * 1000).toISOString();
-
-        const { data: progs, error: pErr } = await supabase
-          .from("programs")
-          .select("channel_id, title, mp4_url, start_time, duration")
-          .gte("start_time", from)
-          .lt("start_time", to)
-          .order("start_time", { ascending: true });
-
-        if (pErr) throw pErr;
+        // Programs: now + everything upcoming within 24h, every channel in
+        // one windowed (edge-cached) request
+        const nowMs = Date.now();
+        const win = await fetchScheduleWindow(
+          (ch || []).map((c) => c.id),
+          { fromMs: nowMs, toMs: nowMs + LOOKAHEAD_HOURS * 3600 * 1000 },
+        );
+        if (win.truncated) console.warn("Guide window truncated; some programs are missing");
+        const progs: Program[] = win.programs;
 
         if (!cancelled) {
           setChannels((ch || []) as Channel[]);
-          setPrograms((progs || []) as Program[]);
+          setPrograms(progs);
         }
       } catch (e: any) {
         if (!cancelled) setErr(e?.message || "Failed to load guide");
@@ -151,22 +106,8 @@ export default function GuidePage() {
     const nowMs = Date.now();
     const cutoffNextMs = nowMs + LOOKAHEAD_HOURS * 3600 * 1000;
 
-    // Group by numeric channel id (critical)
-    const byChannel = new Map<number, Program[]>();
-    for (const p of programs) {
-      const key = toId(p.channel_id);
-      if (!Number.isFinite(key)) continue;
-      if (!byChannel.has(key)) byChannel.set(key, []);
-      byChannel.get(key)!.push(p);
-    }
-    // Sort each channel's programs by start
-    for (const arr of byChannel.values()) {
-      arr.sort(
-        (a, b) =>
-          (parseUtcishMs(a.start_time) || 0) -
-          (parseUtcishMs(b.start_time) || 0),
-      );
-    }
+    // Group by numeric channel id (critical), each sorted by start
+    const byChannel = groupByChannel(programs);
 
     // Channels sorted 1..30
     const chans = channels.slice().sort((a, b) => toId(a.id) - toId(b.id));
@@ -178,10 +119,7 @@ export default function GuidePage() {
 
       // CH21 Live override
       if (cid === CH21_ID_NUMERIC && ch.youtube_is_live) {
-        const upcoming = listForChannel.filter((p) => {
-          const t = parseUtcishMs(p.start_time);
-          return t > nowMs && t <= cutoffNextMs;
-        });
+        const upcoming = upcomingPrograms(listForChannel, nowMs, cutoffNextMs);
         const next = upcoming[0] || null;
         const later = upcoming.slice(1);
         list.push({
@@ -195,14 +133,9 @@ export default function GuidePage() {
         continue;
       }
 
-      let nowProg: Program | undefined;
+      const nowProg = findActiveProgram(listForChannel, nowMs);
       // gather all upcoming within window
-      const upcoming: Program[] = [];
-      for (const p of listForChannel) {
-        const t = parseUtcishMs(p.start_time);
-        if (!nowProg && isActiveProgram(p, nowMs)) nowProg = p;
-        if (t > nowMs && t <= cutoffNextMs) upcoming.push(p);
-      }
+      const upcoming = upcomingPrograms(listForChannel, nowMs, cutoffNextMs);
       const next = upcoming[0] || null;
       const later = upcoming.slice(1);
 
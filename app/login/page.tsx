@@ -92,14 +92,20 @@ export default function LoginPage() {
 
     const user = data.user;
 
+    // Signed up with an invite code before confirming their email: redeem
+    // it now, which creates the profile with the invite's role
+    if (user.user_metadata?.invite_code) {
+      await fetch("/api/invite/redeem", { method: "POST" }).catch(() => null);
+    }
+
     // IMPORTANT: Approval in your system means they were invited,
     // which means they should have a user_profiles row.
     const profile = await loadProfile(user.id, user.email);
 
     // If no profile exists, they are NOT approved (they're only in sign_up_requests).
     if (!profile) {
-      // prevent half-logged-in state
-      await supabase.auth.signOut();
+      // /pending shows their request status, then signs them out (no
+      // half-logged-in state)
       router.push("/pending");
       setLoading(false);
       return;
@@ -3,6 +3,13 @@
 import { useState, useEffect, Suspense } from 'react'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
+import { TRIAL_DAYS, formatPlanPrice, intervalLabel, type PublicPlan } from '@/lib/plans'
+
+function perDayNote(plan: PublicPlan) {
+  const days = plan.billing_interval === 'year' ? 365 : 30
+  const cents = Math.round(plan.amount_cents / days)
+  return `${formatPlanPrice(plan)}${intervalLabel(plan.billing_interval)} · ${cents}¢ a day`
+}
 
 function MembershipContent() {
   const searchParams = useSearchParams()
@@ -10,22 +17,34 @@ function MembershipContent() {
   const member = searchParams.get('member')
   const [loading, setLoading] = useState(false)
   const [profile, setProfile] = useState<any>(null)
+  const [plans, setPlans] = useState<PublicPlan[] | null>(null)
+  const [promoCode, setPromoCode] = useState('')
+  const [checkoutError, setCheckoutError] = useState<string | null>(null)
 
   useEffect(() => {
     fetch('/api/auth/me')
       .then(r => r.json())
       .then(d => setProfile(d.profile))
       .catch(() => {})
+    fetch('/api/plans')
+      .then(r => r.json())
+      .then(d => setPlans(d.plans ?? []))
+      .catch(() => setPlans([]))
   }, [])
 
-  async function checkout() {
+  async function checkout(planKey: string, trial = false) {
     setLoading(true)
-    const res = await fetch('/api/stripe/create-checkout', { method: 'POST' })
+    setCheckoutError(null)
+    const res = await fetch('/api/stripe/create-checkout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ plan: planKey, promo_code: promoCode.trim() || undefined, trial }),
+    })
     const data = await res.json()
     if (data.url) {
       window.location.href = data.url
     } else {
-      alert('Something went wrong. Please try again.')
+      setCheckoutError(data.error || 'Something went wrong. Please try again.')
       setLoading(false)
     }
   }
@@ -42,8 +61,13 @@ function MembershipContent() {
     }
   }
 
-  const isActive = profile?.membership_status === 'active'
+  const status = profile?.membership_status
+  const isTrial = status === 'trialing'
+  const isActive = status === 'active' || isTrial
+  const isGift = status === 'gift' && !!profile?.membership_ends_at && new Date(profile.membership_ends_at) > new Date()
   const isConstructiq = profile?.membership_tier === 'constructiq'
+  const canTrial = !!profile && !profile.trial_used_at && !isActive && !isGift && !isConstructiq
+  const endsOn = profile?.membership_ends_at ? new Date(profile.membership_ends_at).toLocaleDateString() : null
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -76,6 +100,18 @@ function MembershipContent() {
           </div>
         )}
 
+        {isTrial && endsOn && (
+          <div className="bg-green-900/30 border border-green-700 rounded-xl px-5 py-3 mb-8">
+            <span className="text-green-400 text-sm font-semibold">✓ Free trial — full access until {endsOn}, then your plan starts.</span>
+          </div>
+        )}
+
+        {isGift && (
+          <div className="bg-green-900/30 border border-green-700 rounded-xl px-5 py-3 mb-8">
+            <span className="text-green-400 text-sm font-semibold">🎁 Gift membership — full access until {endsOn}. Pick a plan below to keep watching after that.</span>
+          </div>
+        )}
+
         {isConstructiq && (
           <div className="bg-yellow-900/30 border border-yellow-700 rounded-xl px-5 py-3 mb-8">
             <span className="text-yellow-400 font-semibold">✓ Constructiq Family — Construction channels included with your family plan.</span>
@@ -130,66 +166,106 @@ function MembershipContent() {
             </div>
           </div>
 
-          {/* Member */}
-          <div className="bg-gray-900 border-2 border-yellow-500 rounded-2xl p-6 relative shadow-[0_0_50px_-15px_rgba(250,204,21,0.4)]">
-            <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-4 py-1 bg-yellow-400 text-black rounded-full text-xs font-bold uppercase tracking-widest">
-              Full Access
-            </div>
-            <div className="font-bold text-white text-lg mb-1">Member</div>
-            <div className="text-3xl font-bold text-yellow-400 mb-1">
-              $9.99<span className="text-base text-gray-400">/mo</span>
+          {/* Paid plans, from the plans catalog */}
+          {plans === null && (
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl p-6 flex items-center justify-center">
+              <div className="w-8 h-8 border-2 border-yellow-500/20 border-t-yellow-400 rounded-full animate-spin" />
             </div>
-            <div className="text-xs text-gray-500 mb-4">Cancel anytime · Secure checkout via Stripe</div>
-            <ul className="space-y-2 mb-6">
-              {[
-                'All 30+ live channels',
-                'Resistance TV + History channels',
-                'Black StoryTime + Sankofa Kids',
-                'Construction education channels',
-                'Freedom School Channel',
-                'Black Truth Music Experience',
-                'Politics Then &amp; Now',
-                'Teaching Truth TV',
-              ].map((f, i) => (
-                <li key={i} className="text-sm text-gray-300 flex items-center gap-2">
-                  <span className="text-yellow-400">✓</span>
-                  <span dangerouslySetInnerHTML={{ __html: f }} />
-                </li>
-              ))}
-            </ul>
+          )}
 
-            {/* Value reframe right above CTA */}
-            {!isActive && !isConstructiq && (
-              <p className="text-[11px] text-gray-400 leading-relaxed mb-3 text-center">
-                $9.99/mo · 33¢ a day · Less than one streaming service —
-                and unlike them, this content can&apos;t be taken down.
-              </p>
-            )}
-
-            {isActive && !isConstructiq ? (
-              <button
-                onClick={manageSubscription}
-                disabled={loading}
-                className="w-full py-3 rounded-xl text-sm font-bold bg-green-700 text-white disabled:opacity-40"
+          {plans?.map(plan => {
+            const isCurrent = isActive && profile?.membership_plan === plan.key
+            return (
+              <div
+                key={plan.key}
+                className={`bg-gray-900 rounded-2xl p-6 relative ${
+                  plan.highlight
+                    ? 'border-2 border-yellow-500 shadow-[0_0_50px_-15px_rgba(250,204,21,0.4)]'
+                    : 'border border-gray-700'
+                }`}
               >
-                {loading ? 'Loading...' : '✓ Active Member — Manage'}
-              </button>
-            ) : isConstructiq ? (
-              <div className="w-full py-3 text-center rounded-xl text-sm font-bold bg-yellow-400/10 text-yellow-400 border border-yellow-500/40">
-                Included with Constructiq
+                {plan.badge && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-4 py-1 bg-yellow-400 text-black rounded-full text-xs font-bold uppercase tracking-widest whitespace-nowrap">
+                    {plan.badge}
+                  </div>
+                )}
+                <div className="font-bold text-white text-lg mb-1">{plan.name}</div>
+                <div className="text-3xl font-bold text-yellow-400 mb-1">
+                  {formatPlanPrice(plan)}<span className="text-base text-gray-400">{intervalLabel(plan.billing_interval)}</span>
+                </div>
+                {plan.description && <div className="text-xs text-gray-500 mb-4">{plan.description}</div>}
+                <ul className="space-y-2 mb-6">
+                  {plan.features.map((f, i) => (
+                    <li key={i} className="text-sm text-gray-300 flex items-center gap-2">
+                      <span className="text-yellow-400">✓</span>
+                      <span>{f}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                {/* Value reframe right above CTA */}
+                {!isActive && !isConstructiq && (
+                  <p className="text-[11px] text-gray-400 leading-relaxed mb-3 text-center">
+                    {perDayNote(plan)} · Less than one streaming service —
+                    and unlike them, this content can&apos;t be taken down.
+                  </p>
+                )}
+
+                {isActive && !isConstructiq ? (
+                  <button
+                    onClick={manageSubscription}
+                    disabled={loading}
+                    className={`w-full py-3 rounded-xl text-sm font-bold disabled:opacity-40 ${
+                      isCurrent ? 'bg-green-700 text-white' : 'border border-gray-600 text-gray-300 hover:border-yellow-500/60'
+                    }`}
+                  >
+                    {loading ? 'Loading...' : isCurrent ? '✓ Your Plan — Manage' : 'Switch plan'}
+                  </button>
+                ) : isConstructiq ? (
+                  <div className="w-full py-3 text-center rounded-xl text-sm font-bold bg-yellow-400/10 text-yellow-400 border border-yellow-500/40">
+                    Included with Constructiq
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => checkout(plan.key)}
+                    disabled={loading}
+                    className={`w-full py-3 rounded-xl text-sm font-bold transition disabled:opacity-40 ${
+                      plan.highlight
+                        ? 'bg-yellow-400 text-black hover:bg-yellow-300'
+                        : 'border border-yellow-500/60 text-yellow-300 hover:bg-yellow-500/10'
+                    }`}
+                  >
+                    {loading ? 'Loading...' : `Choose ${plan.name} — ${formatPlanPrice(plan)}${intervalLabel(plan.billing_interval)}`}
+                  </button>
+                )}
+
+                {canTrial && plan.highlight && (
+                  <button
+                    onClick={() => checkout(plan.key, true)}
+                    disabled={loading}
+                    className="w-full mt-2 text-xs text-yellow-300 hover:underline disabled:opacity-40"
+                  >
+                    or start a {TRIAL_DAYS}-day free trial
+                  </button>
+                )}
               </div>
-            ) : (
-              <button
-                onClick={checkout}
-                disabled={loading}
-                className="w-full py-3 rounded-xl text-sm font-bold bg-yellow-400 text-black hover:bg-yellow-300 transition disabled:opacity-40"
-              >
-                {loading ? 'Loading...' : 'Become a Member — $9.99/mo'}
-              </button>
-            )}
-          </div>
+            )
+          })}
         </div>
 
+        {/* Promo code */}
+        {!isActive && !isConstructiq && !!plans?.length && (
+          <div className="mb-10 flex flex-col sm:flex-row items-center justify-center gap-2">
+            <input
+              value={promoCode}
+              onChange={e => setPromoCode(e.target.value)}
+              placeholder="Promo code (optional)"
+              className="w-full sm:w-64 px-3 py-2 rounded-xl bg-gray-900 border border-gray-700 text-sm text-white placeholder-gray-500 focus:border-yellow-500 outline-none"
+            />
+            {checkoutError && <span className="text-sm text-red-400">{checkoutError}</span>}
+          </div>
+        )}
+
         {/* ===== WHERE YOUR MEMBERSHIP GOES ===== */}
         {!isActive && !isConstructiq && (
           <div className="bg-gradient-to-br from-amber-950/40 via-gray-900 to-black border border-amber-500/20 rounded-2xl p-6 mb-8">
@@ -210,6 +286,18 @@ function MembershipContent() {
           </div>
         )}
 
+        {/* ===== GIFTS ===== */}
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-5 mb-8 flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <div className="text-yellow-400 font-semibold text-sm mb-1">🎁 Give Black Truth TV</div>
+            <p className="text-gray-400 text-sm">One payment, no subscription — 1 month to a full year.</p>
+          </div>
+          <div className="flex gap-3 text-sm">
+            <Link href="/gift" className="text-yellow-400 hover:underline">Buy a gift →</Link>
+            <Link href="/gift/redeem" className="text-gray-400 hover:text-yellow-400">Redeem a code</Link>
+          </div>
+        </div>
+
         {/* ===== CONSTRUCTIQ NOTE ===== */}
         <div className="bg-gray-900 border border-gray-700 rounded-xl p-5 mb-8">
           <div className="text-yellow-400 font-semibold text-sm mb-1">🏗️ Constructiq Family Members</div>
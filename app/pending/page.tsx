@@ -1,5 +1,150 @@
-import { redirect } from 'next/navigation'
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/utils/supabase/client'
+
+type RequestStatus = {
+  status: 'pending' | 'approved' | 'rejected' | 'needs_info'
+  message: string | null
+  submitted_at: string | null
+  reviewed_at: string | null
+}
+
+type StatusResponse = {
+  signed_in: boolean
+  approved: boolean
+  request: RequestStatus | null
+}
+
+const COPY: Record<RequestStatus['status'], { badge: string; tone: string; title: string; body: string }> = {
+  pending: {
+    badge: 'Under review',
+    tone: 'border-amber-500/50 bg-amber-500/10 text-amber-200',
+    title: 'Your request is in the queue',
+    body: "We review every request by hand. You'll get an email as soon as there's a decision.",
+  },
+  needs_info: {
+    badge: 'More info needed',
+    tone: 'border-sky-500/50 bg-sky-500/10 text-sky-200',
+    title: 'We need a little more from you',
+    body: "Reply to the email we sent you with the details below and we'll take another look.",
+  },
+  approved: {
+    badge: 'Approved',
+    tone: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200',
+    title: "You're approved",
+    body: 'Welcome to the network. Sign in to start watching.',
+  },
+  rejected: {
+    badge: 'Not approved',
+    tone: 'border-red-500/50 bg-red-500/10 text-red-200',
+    title: "We couldn't approve your request",
+    body: 'If you think this was a mistake, reply to our email and we will take another look.',
+  },
+}
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '—'
+}
 
 export default function PendingPage() {
-  redirect('/login')
+  const [data, setData] = useState<StatusResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    ;(async () => {
+      try {
+        const res = await fetch('/api/membership-requests/status', { cache: 'no-store' })
+        const body = await res.json()
+        if (!res.ok) throw new Error(body.error || 'Could not load your request.')
+        if (cancelled) return
+        setData(body)
+        // Not approved yet: don't leave a half-logged-in session behind
+        if (body.signed_in && !body.approved) await createClient().auth.signOut()
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || 'Could not load your request.')
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const req = data?.request
+  const status = data?.approved ? 'approved' : req?.status ?? 'pending'
+  const copy = COPY[status]
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center px-5 py-12">
+      <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[rgba(10,20,40,0.9)] p-6 md:p-7 shadow-[0_18px_45px_rgba(0,0,0,0.65)]">
+        <h1 className="text-xl font-bold text-center">Request status</h1>
+
+        {!data && !error && (
+          <div className="mt-8 flex justify-center">
+            <div className="w-8 h-8 border-2 border-amber-500/20 border-t-amber-400 rounded-full animate-spin" />
+          </div>
+        )}
+
+        {error && <p className="mt-6 text-sm text-red-300 text-center">{error}</p>}
+
+        {data && !data.signed_in && (
+          <div className="mt-6 text-center text-sm text-white/80">
+            <p>Sign in with the email and password you signed up with to see where your request stands.</p>
+            <Link
+              href="/login"
+              className="mt-5 inline-block rounded-full bg-amber-400 px-5 py-2 text-sm font-bold text-black hover:bg-amber-300"
+            >
+              Sign in
+            </Link>
+          </div>
+        )}
+
+        {data?.signed_in && (
+          <div className="mt-6">
+            <div className="flex justify-center">
+              <span className={`rounded-full border px-3 py-1 text-[11px] font-semibold uppercase tracking-wide ${copy.tone}`}>
+                {copy.badge}
+              </span>
+            </div>
+            <h2 className="mt-4 text-lg font-semibold text-center">{copy.title}</h2>
+            <p className="mt-2 text-sm text-white/75 text-center leading-relaxed">{copy.body}</p>
+
+            {req?.message && status !== 'pending' && (
+              <div className="mt-5 rounded-lg border border-white/10 bg-black/40 p-3">
+                <p className="text-[11px] uppercase tracking-wide text-amber-300 font-semibold mb-1">From our team</p>
+                <p className="text-sm text-white/85 whitespace-pre-line">{req.message}</p>
+              </div>
+            )}
+
+            {req && (
+              <dl className="mt-5 grid grid-cols-2 gap-3 text-xs text-white/60">
+                <div>
+                  <dt>Submitted</dt>
+                  <dd className="text-white/85">{fmt(req.submitted_at)}</dd>
+                </div>
+                <div>
+                  <dt>Last update</dt>
+                  <dd className="text-white/85">{fmt(req.reviewed_at)}</dd>
+                </div>
+              </dl>
+            )}
+
+            <div className="mt-6 text-center">
+              {data.approved ? (
+                <Link href="/app" className="inline-block rounded-full bg-amber-400 px-5 py-2 text-sm font-bold text-black hover:bg-amber-300">
+                  Start watching
+                </Link>
+              ) : (
+                <Link href="/" className="text-xs text-white/60 hover:text-amber-300 underline">
+                  Back to home
+                </Link>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
 }
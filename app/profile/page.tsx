@@ -4,7 +4,7 @@ import Link from "next/link"
 import { useEffect, useState } from "react"
 import { supabase } from "@/lib/supabase"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, User, Settings, Heart, Clock, LogOut } from "lucide-react"
+import { ArrowLeft, User, Settings, Heart, Clock, LogOut, Tv, Copy, RefreshCw } from "lucide-react"
 import { getFavorites } from "@/lib/favorites"
 import { getContinueWatching } from "@/lib/continue"
 import type { Channel, Program } from "@/types"
@@ -13,6 +13,43 @@ export default function ProfilePage() {
   const [favoriteChannels, setFavoriteChannels] = useState<Channel[]>([])
   const [history, setHistory] = useState<Program[]>([])
   const [user, setUser] = useState<any>(null)
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null)
+  const [playlistBusy, setPlaylistBusy] = useState(false)
+  const [playlistMsg, setPlaylistMsg] = useState<string | null>(null)
+  // A link was issued before; only a hash is kept, so it can't be shown again
+  const [playlistIssuedAt, setPlaylistIssuedAt] = useState<string | null>(null)
+
+  // Personal M3U link for VLC / IPTV apps (POST rotates the token). The
+  // link is shown once, when it's created.
+  async function loadPlaylist(rotate = false) {
+    if (rotate && !confirm("Get a new link? Apps using the old link will stop working.")) return
+    setPlaylistBusy(true)
+    setPlaylistMsg(null)
+    try {
+      const res = await fetch("/api/iptv-token", { method: rotate ? "POST" : "GET" })
+      const j = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(j?.error || "Could not load playlist link")
+      setPlaylistUrl(j.playlist_url)
+      setPlaylistIssuedAt(j.playlist_url ? null : j.created_at || "")
+      if (j.playlist_url) {
+        setPlaylistMsg(`${rotate ? "New link created. " : ""}Copy it now — it won't be shown again.`)
+      }
+    } catch (e: any) {
+      setPlaylistMsg(e?.message || "Could not load playlist link")
+    } finally {
+      setPlaylistBusy(false)
+    }
+  }
+
+  async function copyPlaylist() {
+    if (!playlistUrl) return
+    try {
+      await navigator.clipboard.writeText(playlistUrl)
+      setPlaylistMsg("Copied!")
+    } catch {
+      setPlaylistMsg("Copy failed — select the link and copy it manually.")
+    }
+  }
 
   useEffect(() => {
     async function loadData() {
@@ -125,6 +162,68 @@ export default function ProfilePage() {
           </div>
         </div>
 
+        {user && (
+          <div className="bg-gray-800 rounded-lg p-6 mb-8">
+            <h3 className="text-xl font-bold mb-2 flex items-center">
+              <Tv className="h-5 w-5 mr-2 text-amber-400" />
+              Watch in VLC &amp; IPTV Apps
+            </h3>
+            <p className="text-gray-400 text-sm mb-4">
+              Add this playlist link to VLC, TiviMate or any IPTV player. It includes every channel your
+              membership unlocks. Keep it private — anyone with the link can watch as you.
+            </p>
+            {playlistUrl ? (
+              <div className="space-y-3">
+                <input
+                  readOnly
+                  value={playlistUrl}
+                  onFocus={(e) => e.currentTarget.select()}
+                  className="w-full rounded bg-gray-900 border border-gray-700 px-3 py-2 text-xs text-gray-200"
+                />
+                <div className="flex flex-wrap gap-3">
+                  <Button size="sm" variant="outline" onClick={copyPlaylist} className="flex items-center gap-2">
+                    <Copy className="h-4 w-4" />
+                    Copy Link
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={playlistBusy}
+                    onClick={() => loadPlaylist(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    New Link
+                  </Button>
+                </div>
+              </div>
+            ) : playlistIssuedAt !== null ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-300">
+                  You already have a playlist link
+                  {playlistIssuedAt ? ` (created ${new Date(playlistIssuedAt).toLocaleDateString()})` : ""}. For
+                  your security it's only shown once. Lost it? Get a new one — the old link will stop working.
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={playlistBusy}
+                  onClick={() => loadPlaylist(true)}
+                  className="flex items-center gap-2"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  New Link
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" disabled={playlistBusy} onClick={() => loadPlaylist(false)}>
+                {playlistBusy ? "Loading…" : "Get My Playlist Link"}
+              </Button>
+            )}
+            {playlistMsg && <p className="text-xs text-gray-400 mt-3">{playlistMsg}</p>}
+          </div>
+        )}
+
         <div className="bg-gray-800 rounded-lg p-6 mb-8">
           <h3 className="text-xl font-bold mb-4">Account Actions</h3>
           <div className="space-y-3">
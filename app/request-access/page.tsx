@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, FormEvent } from "react";
+import { useEffect, useState, FormEvent } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/utils/supabase/client";
@@ -17,11 +17,18 @@ export default function RequestAccessPage() {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [agreed, setAgreed] = useState(false);
+  const [inviteCode, setInviteCode] = useState("");
 
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  // Invite links: /request-access?invite=CODE
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("invite");
+    if (code) setInviteCode(code);
+  }, []);
+
   async function handleSignup(e: FormEvent) {
     e.preventDefault();
     setErrorMsg(null);
@@ -55,7 +62,12 @@ export default function RequestAccessPage() {
       email: email.trim().toLowerCase(),
       password,
       options: {
-        data: { full_name: fullName.trim() },
+        // No session until the email is confirmed: the invite is redeemed
+        // on first sign-in (see /api/invite/redeem)
+        data: {
+          full_name: fullName.trim(),
+          ...(inviteCode.trim() ? { invite_code: inviteCode.trim() } : {}),
+        },
         emailRedirectTo: redirectTo,
       },
     });
@@ -98,6 +110,23 @@ export default function RequestAccessPage() {
         console.error("Profile upsert (non-blocking):", err);
       }
 
+      // Invited: assign the invite's role now instead of queueing
+      if (inviteCode.trim()) {
+        const res = await fetch("/api/invite/redeem", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code: inviteCode.trim() }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          setErrorMsg(
+            `Your account is ready, but the invite code didn't work: ${body.error || "please try again"}`
+          );
+          setLoading(false);
+          return;
+        }
+      }
+
       // Straight into the member hub
       router.push("/app");
       return;
@@ -279,6 +308,17 @@ export default function RequestAccessPage() {
                         />
                       </label>
 
+                      <label className="text-xs">
+                        <span className="block mb-1 text-white/80">Invite code (optional)</span>
+                        <input
+                          type="text"
+                          autoComplete="off"
+                          value={inviteCode}
+                          onChange={(e) => setInviteCode(e.target.value)}
+                          className="w-full rounded-lg border border-slate-400/70 bg-slate-900/90 px-3 py-2 text-sm text-white focus:outline-none focus:border-amber-400/80 focus:ring-1 focus:ring-amber-400/40"
+                        />
+                      </label>
+
                       <label className="flex items-start gap-2 text-[11px] text-white/75 mt-1 cursor-pointer">
                         <input
                           type="checkbox"
@@ -4,6 +4,8 @@ import { useParams, useRouter } from "next/navigation";
 import {
   useCallback,
   useEffect,
+  useMemo,
+  useRef,
   useState,
   type ReactNode,
   type FormEvent,
@@ -17,22 +19,34 @@ import {
   STANDBY_PLACEHOLDER_ID,
 } from "@/lib/supabase";
 import type { Channel, Program } from "@/types";
-import { ChevronLeft, Loader2, Heart } from "lucide-react";
+import { ChevronLeft, Loader2, Heart, Eye } from "lucide-react";
 import { isFavorited, toggleFavorite } from "@/lib/favorites";
-
-type ProgramWithSrc = Program & { _resolved_src?: string };
-
-type ChatMessage = {
-  id: string;
-  room_id: string;
-  sender_id: string;
-  message: string;
-  created_at: string;
+import { getServerNowMs, syncServerClock } from "@/lib/server-clock";
+import {
+  asSeconds,
+  findActiveProgram,
+  isActiveProgram,
+  parseUtcishMs,
+  upcomingPrograms as selectUpcoming,
+} from "@/lib/schedule";
+import { fetchNowNext, toProgram } from "@/lib/now-next";
+import { useChatRoom } from "@/hooks/use-chat-room";
+import { useChannelPresence } from "@/hooks/use-channel-presence";
+import { useWatchHeartbeat } from "@/hooks/use-watch-heartbeat";
+import ChatReportButton from "@/components/chat-report-button";
+
+type ProgramWithSrc = Program & {
+  _resolved_src?: string;
+  _signed_src?: string; // signed ahead of time for a preloaded program
+  _player_key?: number; // key of the hidden player it was preloaded into
 };
 
 const CH21_ID_NUMERIC = 21;
+const UPCOMING_COUNT = 6;
 const YT_CH21 = "UCMkW239dyAxDyOFDP0D6p2g";
-const GRACE_MS = 120_000; // 2 minutes grace around start/end
+const CLOCK_RESYNC_MS = 5 * 60_000; // re-measure server clock skew
+const PRELOAD_LEAD_MS = 90_000; // resolve + buffer the next program this early
+const HANDOFF_EARLY_MS = 3_000; // a file ending this close to the boundary hands off early
 
 // 🔒 Feature flag (client env)
 const USE_SIGNED_MEDIA =
@@ -93,57 +107,6 @@ const MobileHint = ({ show }: { show: boolean }) => {
 };
 /* --------------------------------------------- */
 
-/* ---------- Time & duration helpers ---------- */
-function asSeconds(v: unknown): number {
-  if (v == null) return 0;
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  const s = String(v).trim();
-  const m = /^(\d{1,3}):([0-5]?\d)(?::([0-5]?\d))?$/.exec(s); // HH:MM:SS or MM:SS
-  if (m) {
-    const hh = m[3] ? Number(m[1]) : 0;
-    const mm = Number(m[3] ? m[2] : m[1]);
-    const ss = Number(m[3] ? m[3] : m[2]);
-    return hh * 3600 + mm * 60 + ss;
-  }
-  const num = Number(s.replace(/[^\d.]+/g, ""));
-  return Number.isFinite(num) && num > 0 ? Math.round(num) : 0;
-}
-
-function parseUtcishMs(val: unknown): number {
-  if (val == null) return NaN;
-  let s = String(val).trim();
-  if (!s) return NaN;
-
-  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/.test(s)) s = s.replace(" ", "T");
-
-  if (/[zZ]$/.test(s)) {
-    s = s.replace(/[zZ]$/, "Z");
-  } else {
-    const m = /([+\-]\d{2})(:?)(\d{2})?$/.exec(s);
-    if (m) {
-      const hh = m[1];
-      const mm = m[3] ?? "00";
-      s = s.replace(/([+\-]\d{2})(:?)(\d{2})?$/, `${hh}:${mm}`);
-      if (/([+\-]00:00)$/.test(s)) s = s.replace(/([+\-]00:00)$/, "Z");
-    } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(s)) {
-      s += "Z";
-    } else if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?$/.test(s)) {
-      s = s.replace(" ", "T") + "Z";
-    }
-  }
-
-  const t = Date.parse(s);
-  return Number.isNaN(t) ? NaN : t;
-}
-
-function isActiveProgram(p: Program, nowMs: number): boolean {
-  const startMs = parseUtcishMs(p.start_time);
-  const durSec = asSeconds(p.duration);
-  if (!Number.isFinite(startMs) || durSec <= 0) return false;
-  const endMs = startMs + durSec * 1000;
-  return startMs - GRACE_MS <= nowMs && nowMs < endMs + GRACE_MS;
-}
-
 async function headOk(url: string, timeoutMs = 4500): Promise<boolean> {
   try {
     const ctrl = new AbortController();
@@ -219,6 +182,48 @@ async function resolvePlayableUrl(candidates: string[]): Promise<string | undefi
   return undefined;
 }
 
+/** Probe (once, cached) which candidate URL for a program actually plays. */
+async function resolveProgramSrc(program: Program): Promise<string | null> {
+  const cacheKey = `${program.channel_id}|${program.mp4_url}|${program.start_time}`;
+  const cached = urlProbeCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const candidates = getCandidateUrlsForProgram(program);
+  const resolved = USE_SIGNED_MEDIA
+    ? candidates[0] ?? null
+    : (await resolvePlayableUrl(candidates)) ?? candidates[0] ?? null;
+
+  urlProbeCache.set(cacheKey, resolved);
+  return resolved;
+}
+
+function sameSlot(a: Program | null | undefined, b: Program | null | undefined) {
+  return (
+    !!a &&
+    !!b &&
+    a.mp4_url === b.mp4_url &&
+    parseUtcishMs(a.start_time) === parseUtcishMs(b.start_time)
+  );
+}
+
+/** The channel's standby clip as a program, so standby plays through the normal path. */
+function makeStandbyProgram(
+  channelId: number,
+  nowMs: number,
+  opts: { title?: string; description: string; posterUrl?: string | null }
+): Program {
+  return {
+    id: STANDBY_PLACEHOLDER_ID,
+    title: opts.title ?? "Standby Programming",
+    description: opts.description,
+    channel_id: channelId,
+    mp4_url: `channel${channelId}/standby_blacktruthtv.mp4`,
+    duration: 300,
+    start_time: new Date(nowMs).toISOString(),
+    poster_url: opts.posterUrl ?? null,
+  };
+}
+
 /* ---------------- Signed URL helper ---------------- */
 function parseSupabaseStorageUrl(url: string): { bucket: string; path: string } | null {
   try {
@@ -281,9 +286,17 @@ export default function WatchPage() {
   const [signedVideoSrc, setSignedVideoSrc] = useState<string | null>(null);
 
   const [chatRoomId, setChatRoomId] = useState<string | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatLoading, setChatLoading] = useState<boolean>(false);
   const [chatError, setChatError] = useState<string | null>(null);
+  const {
+    messages: chatMessages,
+    loading: chatMessagesLoading,
+    error: chatMessagesError,
+    connection: chatConnection,
+    send: sendChatMessage,
+    viewerId: chatViewerId,
+  } = useChatRoom(chatRoomId);
+  const chatScrollRef = useRef<HTMLDivElement | null>(null);
   const [newMessage, setNewMessage] = useState("");
   const [sending, setSending] = useState(false);
 
@@ -314,7 +327,24 @@ export default function WatchPage() {
     }
   }
 
-  const getNowMs = useCallback(() => Date.now(), []);
+  // ---- Server-synced clock (true live position) ----
+  const [clockReady, setClockReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    syncServerClock().finally(() => {
+      if (!cancelled) setClockReady(true);
+    });
+    const id = setInterval(() => {
+      if (document.visibilityState === "visible") syncServerClock();
+    }, CLOCK_RESYNC_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, []);
+
+  const getNowMs = useCallback(() => getServerNowMs(), []);
 
   useEffect(() => {
     const n = Number.parseInt(channelIdString || "", 10);
@@ -351,13 +381,31 @@ export default function WatchPage() {
     };
   }, [channelId, supabase]);
 
+  // ---- Gapless handoff: next program resolved + buffered in a hidden player ----
+  const [preloaded, setPreloaded] = useState<ProgramWithSrc | null>(null);
+  const preloadedRef = useRef<ProgramWithSrc | null>(null);
+  preloadedRef.current = preloaded;
+  const preparingRef = useRef<string | null>(null);
+
+  // The hidden player's key becomes the active key, so React keeps that
+  // already-buffered <video> instead of mounting a fresh one.
+  const commitPreload = useCallback((p: ProgramWithSrc) => {
+    setCurrentProgram(p);
+    // Drop the outgoing program's signed URL in the same render, or the new
+    // player mounts on it for a frame before the effect below clears it
+    setSignedVideoSrc(null);
+    if (p._player_key != null) setVideoPlayerKey(p._player_key);
+    setPreloaded(null);
+    preparingRef.current = null;
+  }, []);
+
   const fetchCurrentProgram = useCallback(
     async (numericChannelId: number) => {
       const nowMs = getNowMs();
 
       if (
         currentProgram &&
-        isActiveProgram(currentProgram, nowMs) &&
+        isActiveProgram(currentProgram, nowMs, 0) &&
         currentProgram._resolved_src
       ) {
         return;
@@ -366,64 +414,39 @@ export default function WatchPage() {
       try {
         setIsResolvingSrc(true);
 
-        const { data, error: dbError } = await supabase
-          .from("programs")
-          .select("channel_id,title,mp4_url,start_time,duration")
-          .eq("channel_id", numericChannelId)
-          .order("start_time", { ascending: true });
+        // Bounded now/next window; re-pick with our synced clock since the
+        // endpoint answer may be a few seconds old (edge cache).
+        const nn = await fetchNowNext(numericChannelId, { count: UPCOMING_COUNT });
+        const rows = [...(nn.now ? [nn.now] : []), ...nn.next].map(toProgram);
+        const active = findActiveProgram(rows, nowMs);
 
-        if (dbError) throw new Error(`Database error: ${dbError.message}`);
-
-        const rows = (data || []) as Program[];
-        const active = rows.find((p) => isActiveProgram(p, nowMs));
+        // Already buffered in the hidden player: swap it in, no re-probe.
+        const ready = preloadedRef.current;
+        if (active && ready && sameSlot(active, ready)) {
+          commitPreload(ready);
+          return;
+        }
 
+        const posterUrl = channelDetails?.logo_url || null;
         let programToSet: Program = active
           ? { ...active, channel_id: numericChannelId }
-          : ({
-              id: STANDBY_PLACEHOLDER_ID as any,
-              title: "Standby Programming",
+          : makeStandbyProgram(numericChannelId, nowMs, {
               description: "Programming will resume shortly.",
-              channel_id: numericChannelId,
-              mp4_url: `channel${numericChannelId}/standby_blacktruthtv.mp4`,
-              duration: 300,
-              start_time: new Date().toISOString(),
-              poster_url: (channelDetails as any)?.logo_url || null,
-            } as unknown as Program);
-
-        const cacheKey = `${programToSet.channel_id}|${programToSet.mp4_url}|${programToSet.start_time}`;
-
-        let resolvedSrc = urlProbeCache.get(cacheKey) ?? undefined;
+              posterUrl,
+            });
 
-        if (resolvedSrc === undefined) {
-          const candidates = getCandidateUrlsForProgram(programToSet);
-
-          if (USE_SIGNED_MEDIA) {
-            resolvedSrc = candidates[0] ?? null;
-          } else {
-            resolvedSrc =
-              (await resolvePlayableUrl(candidates)) ?? candidates[0] ?? null;
-          }
-
-          urlProbeCache.set(cacheKey, resolvedSrc);
-        }
+        let resolvedSrc = await resolveProgramSrc(programToSet);
 
         if (!resolvedSrc) {
-          programToSet = {
-            id: STANDBY_PLACEHOLDER_ID as any,
-            title: "Standby Programming",
+          programToSet = makeStandbyProgram(numericChannelId, nowMs, {
             description: "File missing/unreachable. Playing standby.",
-            channel_id: numericChannelId,
-            mp4_url: `channel${numericChannelId}/standby_blacktruthtv.mp4`,
-            duration: 300,
-            start_time: new Date().toISOString(),
-            poster_url: (channelDetails as any)?.logo_url || null,
-          } as unknown as Program;
-
+            posterUrl,
+          });
           resolvedSrc = getVideoUrlForProgram(programToSet) || "";
         }
 
         const finalProgram: ProgramWithSrc = {
-          ...(programToSet as ProgramWithSrc),
+          ...programToSet,
           _resolved_src: resolvedSrc || "",
         };
 
@@ -437,46 +460,31 @@ export default function WatchPage() {
         });
       } catch (e: any) {
         setError(e?.message || "Error loading schedule.");
-        setCurrentProgram({
-          id: STANDBY_PLACEHOLDER_ID as any,
+        const standby = makeStandbyProgram(numericChannelId, nowMs, {
           title: "Standby Programming - Error",
           description: "Error loading schedule. Standby will play.",
-          channel_id: numericChannelId,
-          mp4_url: `channel${numericChannelId}/standby_blacktruthtv.mp4`,
-          duration: 300,
-          start_time: new Date().toISOString(),
-          poster_url: (channelDetails as any)?.logo_url || null,
-          _resolved_src:
-            getVideoUrlForProgram({
-              channel_id: numericChannelId,
-              mp4_url: `channel${numericChannelId}/standby_blacktruthtv.mp4`,
-            } as Program) || "",
-        } as ProgramWithSrc);
+          posterUrl: channelDetails?.logo_url || null,
+        });
+        setCurrentProgram({ ...standby, _resolved_src: getVideoUrlForProgram(standby) || "" });
       } finally {
         setIsResolvingSrc(false);
       }
     },
-    [channelDetails, currentProgram, getNowMs, supabase]
+    [channelDetails, commitPreload, currentProgram, getNowMs]
   );
 
   const fetchUpcoming = useCallback(
     async (numericChannelId: number) => {
       try {
-        const nowIso = new Date().toISOString();
-        const { data, error } = await supabase
-          .from("programs")
-          .select("channel_id,title,mp4_url,start_time,duration")
-          .eq("channel_id", numericChannelId)
-          .gt("start_time", nowIso)
-          .order("start_time", { ascending: true })
-          .limit(6);
-
-        if (!error && data) setUpcomingPrograms(data as ProgramWithSrc[]);
+        const nn = await fetchNowNext(numericChannelId, { count: UPCOMING_COUNT });
+        setUpcomingPrograms(
+          selectUpcoming(nn.next.map(toProgram), getNowMs())
+        );
       } catch (e) {
         console.warn("Error loading upcoming programs", e);
       }
     },
-    [supabase]
+    [getNowMs]
   );
 
   useEffect(() => {
@@ -485,6 +493,8 @@ export default function WatchPage() {
       setIsLoading(false);
       return;
     }
+    // Wait for the first clock sync so "what's on now" uses server time
+    if (!clockReady) return;
 
     let timer: NodeJS.Timeout | null = null;
 
@@ -503,7 +513,7 @@ export default function WatchPage() {
         const d = asSeconds(currentProgram.duration);
         if (Number.isFinite(s) && d > 0) {
           const endMs = s + d * 1000;
-          const wakeIn = Math.max(5_000, endMs - Date.now() - 5_000);
+          const wakeIn = Math.max(5_000, endMs - getNowMs() - 5_000);
           timer = setTimeout(() => {
             refetch();
             scheduleNext();
@@ -522,7 +532,15 @@ export default function WatchPage() {
     return () => {
       if (timer) clearTimeout(timer);
     };
-  }, [channelId, currentProgram, fetchCurrentProgram, fetchUpcoming, isResolvingSrc]);
+  }, [
+    channelId,
+    clockReady,
+    currentProgram,
+    fetchCurrentProgram,
+    fetchUpcoming,
+    getNowMs,
+    isResolvingSrc,
+  ]);
 
   useEffect(() => {
     let cancelled = false;
@@ -533,6 +551,7 @@ export default function WatchPage() {
 
       if (!publicUrl) return;
       if (!USE_SIGNED_MEDIA) return;
+      if (currentProgram?._signed_src) return; // signed when it was preloaded
 
       const signed = await getSignedUrlFromPublicUrl(publicUrl);
       if (!cancelled && signed) setSignedVideoSrc(signed);
@@ -541,7 +560,67 @@ export default function WatchPage() {
     return () => {
       cancelled = true;
     };
-  }, [currentProgram?._resolved_src]);
+  }, [currentProgram?._resolved_src, currentProgram?._signed_src]);
+
+  // Resolve + preload the next program PRELOAD_LEAD_MS before it starts.
+  // If anything fails we simply don't preload; the boundary then falls back
+  // to the normal fetch path (and standby if the file is unreachable).
+  useEffect(() => {
+    if (channelId == null || channelId === CH21_ID_NUMERIC || !clockReady) return;
+    const next = upcomingPrograms[0];
+    if (!next || sameSlot(next, preloadedRef.current)) return;
+
+    const startMs = parseUtcishMs(next.start_time);
+    if (!Number.isFinite(startMs) || startMs <= getNowMs()) return; // list is stale
+
+    let cancelled = false;
+    const slotKey = `${next.mp4_url}|${startMs}`;
+
+    const prepare = async () => {
+      if (preparingRef.current === slotKey) return;
+      preparingRef.current = slotKey;
+
+      const program = { ...next, channel_id: channelId } as Program;
+      const resolved = await resolveProgramSrc(program);
+      if (cancelled || !resolved) {
+        if (preparingRef.current === slotKey) preparingRef.current = null;
+        return;
+      }
+      const signed = USE_SIGNED_MEDIA ? await getSignedUrlFromPublicUrl(resolved) : null;
+      if (cancelled) {
+        if (preparingRef.current === slotKey) preparingRef.current = null;
+        return;
+      }
+
+      setPreloaded({
+        ...(program as ProgramWithSrc),
+        _resolved_src: resolved,
+        _signed_src: signed || undefined,
+        _player_key: Date.now(),
+      });
+    };
+
+    const wait = startMs - PRELOAD_LEAD_MS - getNowMs();
+    const timer = setTimeout(prepare, Math.max(0, wait));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (preparingRef.current === slotKey) preparingRef.current = null;
+    };
+  }, [channelId, clockReady, getNowMs, upcomingPrograms]);
+
+  // Swap the preloaded player in exactly at its start time.
+  useEffect(() => {
+    if (!preloaded) return;
+    const startMs = parseUtcishMs(preloaded.start_time);
+    if (!Number.isFinite(startMs)) return;
+    const timer = setTimeout(
+      () => commitPreload(preloaded),
+      Math.max(0, startMs - getNowMs())
+    );
+    return () => clearTimeout(timer);
+  }, [commitPreload, getNowMs, preloaded]);
 
   // ✅ FIXED: load chat room using logged-in supabase client
   useEffect(() => {
@@ -585,36 +664,11 @@ export default function WatchPage() {
     };
   }, [channelId, supabase]);
 
+  // Keep the newest message in view as messages arrive
   useEffect(() => {
-    if (!chatRoomId) return;
-    let cancelled = false;
-
-    const loadMessages = async () => {
-      try {
-        const { data, error } = await supabase
-          .from("chat_messages")
-          .select("id,room_id,sender_id,message,created_at")
-          .eq("room_id", chatRoomId)
-          .order("created_at", { ascending: true });
-
-        if (error) throw error;
-        if (!cancelled) setChatMessages((data || []) as ChatMessage[]);
-      } catch (e) {
-        if (!cancelled) {
-          console.error("Error loading chat messages:", e);
-          setChatError("Could not load chat messages.");
-        }
-      }
-    };
-
-    loadMessages();
-    const interval = setInterval(loadMessages, 5000);
-
-    return () => {
-      cancelled = true;
-      clearInterval(interval);
-    };
-  }, [chatRoomId, supabase]);
+    const el = chatScrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [chatMessages]);
 
   const handleSendMessage = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -624,28 +678,7 @@ export default function WatchPage() {
     setChatError(null);
 
     try {
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError || !user) {
-        throw new Error("You must be logged in to send a message.");
-      }
-
-      const { data, error } = await supabase
-        .from("chat_messages")
-        .insert({
-          room_id: chatRoomId,
-          sender_id: user.id,
-          message: newMessage.trim(),
-        })
-        .select("id,room_id,sender_id,message,created_at")
-        .single();
-
-      if (error) throw error;
-
-      setChatMessages((prev) => [...prev, data as ChatMessage]);
+      await sendChatMessage(newMessage);
       setNewMessage("");
     } catch (e: any) {
       console.error("Error sending chat message:", e);
@@ -656,17 +689,74 @@ export default function WatchPage() {
   };
 
   const videoSrc = currentProgram?._resolved_src;
-  const finalVideoSrc = signedVideoSrc || videoSrc;
+  const finalVideoSrc = currentProgram?._signed_src || signedVideoSrc || videoSrc;
+  const preloadSrc = preloaded?._signed_src || preloaded?._resolved_src;
   const posterSrc =
     (currentProgram as any)?.poster_url || (channelDetails as any)?.logo_url || undefined;
-  const isStandby = (currentProgram as any)?.id === STANDBY_PLACEHOLDER_ID;
+  const isStandby = currentProgram?.id === STANDBY_PLACEHOLDER_ID;
+
+  // ---- Live viewers (presence) ----
+  const presenceProgram = useMemo(() => {
+    if (!currentProgram || isStandby) return null;
+    const startMs = parseUtcishMs(currentProgram.start_time);
+    return {
+      title: currentProgram.title,
+      start_time: Number.isFinite(startMs) ? new Date(startMs).toISOString() : null,
+    };
+  }, [currentProgram, isStandby]);
+  const watchingCount = useChannelPresence(channelId, presenceProgram);
+
+  // Seconds into the current program right now (now - start_time), on the
+  // server clock, so every viewer of the channel sees the same moment.
+  const getLivePosition = useCallback((): number | null => {
+    if (!currentProgram || isStandby) return null;
+    const startMs = parseUtcishMs(currentProgram.start_time);
+    if (!Number.isFinite(startMs)) return null;
+    const offsetSec = (getNowMs() - startMs) / 1000;
+    const durSec = asSeconds(currentProgram.duration);
+    if (durSec > 0 && offsetSec >= durSec) return durSec;
+    return Math.max(0, offsetSec);
+  }, [currentProgram, getNowMs, isStandby]);
+
+  // ---- Viewership heartbeats (program analytics) ----
+  const playerRef = useRef<HTMLVideoElement | null>(null);
+  useWatchHeartbeat(channelId, playerRef);
 
   const handleEnded = useCallback(() => {
+    // File ran out right at the boundary: take the buffered next program now.
+    const ready = preloadedRef.current;
+    if (ready && parseUtcishMs(ready.start_time) - getNowMs() <= HANDOFF_EARLY_MS) {
+      commitPreload(ready);
+      return;
+    }
     if (channelId != null && channelId !== CH21_ID_NUMERIC) {
       fetchCurrentProgram(channelId);
       fetchUpcoming(channelId);
     }
-  }, [channelId, fetchCurrentProgram, fetchUpcoming]);
+  }, [channelId, commitPreload, fetchCurrentProgram, fetchUpcoming, getNowMs]);
+
+  // The hidden player couldn't load the next file: drop it so the boundary
+  // goes through the normal path instead of swapping in a dead player.
+  const handlePreloadError = useCallback((e?: any) => {
+    console.warn("Preload failed; will resolve at the boundary", e);
+    setPreloaded(null);
+  }, []);
+
+  // Fatal playback error (e.g. HLS manifest/segments unreachable): swap to
+  // standby rather than leaving a dead player. Standby itself failing stays put.
+  const handlePlaybackError = useCallback(
+    (e?: any) => {
+      if (channelId == null || isStandby) return;
+      console.warn("Playback error, switching to standby", e);
+      const standby = makeStandbyProgram(channelId, getNowMs(), {
+        description: "Stream unavailable. Playing standby.",
+        posterUrl: channelDetails?.logo_url || null,
+      });
+      setCurrentProgram({ ...standby, _resolved_src: getVideoUrlForProgram(standby) || "" });
+      setVideoPlayerKey(Date.now());
+    },
+    [channelDetails, channelId, getNowMs, isStandby]
+  );
 
   const isCh21 = channelId === CH21_ID_NUMERIC;
 
@@ -702,14 +792,36 @@ export default function WatchPage() {
     );
   } else if (currentProgram && finalVideoSrc) {
     content = (
-      <VideoPlayer
-        key={videoPlayerKey}
-        src={finalVideoSrc}
-        poster={posterSrc}
-        isStandby={isStandby}
-        programTitle={currentProgram?.title}
-        onVideoEnded={handleEnded}
-      />
+      <div className="relative w-full h-full">
+        <div key={videoPlayerKey} className="absolute inset-0">
+          <VideoPlayer
+            ref={playerRef}
+            src={finalVideoSrc}
+            poster={posterSrc}
+            isStandby={isStandby}
+            programTitle={currentProgram?.title}
+            getLivePosition={getLivePosition}
+            onVideoEnded={handleEnded}
+            onError={handlePlaybackError}
+          />
+        </div>
+        {preloaded && preloadSrc && (
+          <div
+            key={preloaded._player_key}
+            className="absolute inset-0 opacity-0 pointer-events-none"
+            aria-hidden="true"
+          >
+            <VideoPlayer
+              src={preloadSrc}
+              isStandby={preloaded.id === STANDBY_PLACEHOLDER_ID}
+              programTitle={preloaded.title}
+              autoPlay={false}
+              preload="auto"
+              onError={handlePreloadError}
+            />
+          </div>
+        )}
+      </div>
     );
   } else if (isResolvingSrc) {
     content = (
@@ -787,7 +899,18 @@ export default function WatchPage() {
         {channelId !== CH21_ID_NUMERIC && currentProgram && !isLoading && (
           <>
             <div>
-              <h2 className="text-2xl font-bold">{currentProgram.title}</h2>
+              <div className="flex flex-wrap items-center gap-3">
+                <h2 className="text-2xl font-bold">{currentProgram.title}</h2>
+                {watchingCount != null && watchingCount > 0 && (
+                  <span
+                    className="inline-flex items-center gap-1.5 rounded-full border border-red-500/50 bg-red-600/20 px-2.5 py-0.5 text-xs font-semibold text-red-100"
+                    title="People on this channel right now"
+                  >
+                    <Eye className="h-3.5 w-3.5" />
+                    {watchingCount.toLocaleString()} watching
+                  </span>
+                )}
+              </div>
               <p className="text-sm text-gray-400">
                 Channel: {channelDetails?.name || (channelId != null ? `Channel ${channelId}` : "")}
               </p>
@@ -839,7 +962,9 @@ export default function WatchPage() {
             )}
           </div>
 
-          {chatError && <p className="text-xs text-red-400 mb-2">{chatError}</p>}
+          {(chatError || chatMessagesError) && (
+            <p className="text-xs text-red-400 mb-2">{chatError || chatMessagesError}</p>
+          )}
 
           {!chatRoomId && !chatError && !chatLoading && (
             <p className="text-xs text-gray-400">Chat is not enabled for this channel yet.</p>
@@ -847,22 +972,33 @@ export default function WatchPage() {
 
           {chatRoomId && (
             <>
-              <div className="h-56 max-h-72 mb-3 rounded-lg border border-gray-800 bg-black/60 p-2 overflow-y-auto text-xs">
-                {chatLoading && !chatMessages.length ? (
+              <div
+                ref={chatScrollRef}
+                className="h-56 max-h-72 mb-3 rounded-lg border border-gray-800 bg-black/60 p-2 overflow-y-auto text-xs"
+              >
+                {(chatLoading || chatMessagesLoading) && !chatMessages.length ? (
                   <p className="text-gray-400">Loading chat…</p>
                 ) : chatMessages.length === 0 ? (
                   <p className="text-gray-400">No messages yet. Be the first to add a comment.</p>
                 ) : (
                   chatMessages.map((m) => (
-                    <div key={m.id} className="mb-1.5">
+                    <div key={m.id} className="group mb-1.5">
                       <span className="text-[10px] text-gray-500 mr-1">
                         {new Date(m.created_at).toLocaleTimeString("en-US", {
                           hour: "2-digit",
                           minute: "2-digit",
                         })}
                       </span>
-                      <span className="font-semibold text-amber-300 mr-1">Member</span>
+                      <span className="font-semibold text-amber-300 mr-1">
+                        {m.sender_name || "Member"}
+                      </span>
                       <span className="text-gray-100 break-words">{m.message}</span>
+                      {chatViewerId && m.sender_id !== chatViewerId && (
+                        <ChatReportButton
+                          messageId={m.id}
+                          className="ml-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+                        />
+                      )}
                     </div>
                   ))
                 )}
@@ -887,6 +1023,9 @@ export default function WatchPage() {
 
               <p className="mt-1 text-[10px] text-gray-500">
                 Chat is moderated. Please keep comments respectful.
+                {chatConnection === "reconnecting" && (
+                  <span className="ml-2 text-amber-400">Reconnecting…</span>
+                )}
               </p>
             </>
           )}
@@ -4,6 +4,8 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { createClient } from "@supabase/supabase-js";
+import { normalizeProgram, toUtcDate } from "@/lib/schedule";
+import { fetchNowNext, type NowNextProgram } from "@/lib/now-next";
 
 /* ---------- types (match YOUR schema) ---------- */
 type ChannelRow = {
@@ -15,51 +17,13 @@ type ChannelRow = {
   youtube_is_live?: boolean | null;
 };
 
-type ProgramRow = {
-  id?: number;
-  channel_id: number;        // FK to channels.id
-  title: string | null;
-  start_time: string;        // UTC string or DB text
-  duration: number | string; // seconds
-};
-
-/* ---------- time helpers (STRICT UTC) ---------- */
-const addSeconds = (d: Date, secs: number) => new Date(d.getTime() + secs * 1000);
-
-function toUtcDate(val?: string | Date | null): Date | null {
-  if (!val) return null;
-  if (val instanceof Date) return Number.isNaN(val.getTime()) ? null : val;
-  const s = String(val).trim();
-
-  // If already has timezone (Z or ±HH[:MM]) → normalize and use native.
-  if (/[zZ]$/.test(s) || /[+\-]\d{2}:?\d{2}$/.test(s)) {
-    const norm = s
-      .replace(" ", "T")
-      .replace(/([+\-]\d{2})(\d{2})$/, "$1:$2") // +0500 -> +05:00
-      .replace(/[zZ]$/, "Z");
-    const d = new Date(norm);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
+type ProgramRow = NowNextProgram;
 
-  // NAIVE timestamp (no TZ) → interpret as **UTC** explicitly.
-  const m = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(s);
-  if (m) {
-    const [, yy, MM, dd, hh, mm, ss] = m;
-    const d = new Date(Date.UTC(+yy, +MM - 1, +dd, +hh, +mm, +ss));
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
+type ChannelSlots = { now: ProgramRow | null; next: ProgramRow[] };
 
-  return null;
-}
-
-function parseDurationSec(v: number | string | null | undefined): number {
-  if (typeof v === "number") return Number.isFinite(v) && v > 0 ? v : 0;
-  if (v == null) return 0;
-  const m = String(v).match(/^\s*(\d+)/);
-  if (!m) return 0;
-  const n = Number(m[1]);
-  return Number.isFinite(n) && n > 0 ? n : 0;
-}
+/* ---------- time helpers (STRICT UTC, see lib/schedule) ---------- */
+const DEFAULT_DURATION_SEC = 1800; // unknown duration → assume a 30 min slot
+const LATER_COUNT = 3; // Next + up to 2 "Later" cards
 
 function fmtTimeLocal(isoish?: string) {
   const d = toUtcDate(isoish);
@@ -72,10 +36,8 @@ function fmtTimeLocal(isoish?: string) {
 /* ---------- component ---------- */
 export default function TVGuideGrid({
   lookAheadHours = 6,
-  lookBackHours = 6,
 }: {
   lookAheadHours?: number;
-  lookBackHours?: number;
 }) {
   const supabase = useMemo(
     () => createClient(
@@ -86,33 +48,10 @@ export default function TVGuideGrid({
   );
 
   const [channels, setChannels] = useState<ChannelRow[]>([]);
-  const [byChannel, setByChannel] = useState<Map<number, ProgramRow[]>>(new Map());
+  const [byChannel, setByChannel] = useState<Map<number, ChannelSlots>>(new Map());
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
-  // Window bounds (UTC ISO)
-  const windowStartISO = useMemo(() => {
-    const d = new Date();
-    d.setUTCMinutes(0, 0, 0);
-    d.setUTCHours(d.getUTCHours() - lookBackHours);
-    return d.toISOString();
-  }, [lookBackHours]);
-
-  const windowEndISO = useMemo(() => {
-    const d = new Date();
-    d.setUTCMinutes(0, 0, 0);
-    d.setUTCHours(d.getUTCHours() + lookAheadHours);
-    return d.toISOString();
-  }, [lookAheadHours]);
-
-  // Fallback DB-text bounds ("YYYY-MM-DD HH:mm:ss") for text columns
-  const toDbText = (d: Date) => {
-    const pad = (n: number) => String(n).padStart(2, "0");
-    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
-  };
-  const windowStartDB = useMemo(() => toDbText(new Date(windowStartISO)), [windowStartISO]);
-  const windowEndDB   = useMemo(() => toDbText(new Date(windowEndISO)),   [windowEndISO]);
-
   useEffect(() => {
     let cancelled = false;
     (async () => {
@@ -131,63 +70,20 @@ export default function TVGuideGrid({
         if (cancelled) return;
         setChannels(sorted);
 
-        // 2) programs per channel (RLS-safe, strict UTC parsing)
-        const map = new Map<number, ProgramRow[]>();
-        for (const ch of sorted) {
-          // try direct window
-          let rows: ProgramRow[] = [];
-          const q1 = await supabase
-            .from("programs")
-            .select("channel_id, title, start_time, duration")
-            .eq("channel_id", ch.id)
-            .gte("start_time", windowStartISO)
-            .lte("start_time", windowEndISO)
-            .order("start_time", { ascending: true });
-
-          if (!q1.error && q1.data && q1.data.length) {
-            rows = q1.data as ProgramRow[];
-          } else {
-            // fallback: DB-text comparison (if column is text)
-            const q2 = await supabase
-              .from("programs")
-              .select("channel_id, title, start_time, duration")
-              .eq("channel_id", ch.id)
-              .gte("start_time", windowStartDB)
-              .lte("start_time", windowEndDB)
-              .order("start_time", { ascending: true });
-
-            if (!q2.error && q2.data && q2.data.length) {
-              rows = q2.data as ProgramRow[];
-            } else {
-              // last resort: pull a slice for that channel and filter client-side
-              const q3 = await supabase
-                .from("programs")
-                .select("channel_id, title, start_time, duration")
-                .eq("channel_id", ch.id)
-                .order("start_time", { ascending: true })
-                .limit(1000);
-
-              if (!q3.error && q3.data) {
-                const all = q3.data as ProgramRow[];
-                const ws = new Date(windowStartISO).getTime();
-                const we = new Date(windowEndISO).getTime();
-                rows = all.filter((p) => {
-                  const t = toUtcDate(p.start_time)?.getTime() ?? 0;
-                  return t >= ws && t <= we;
-                });
-              }
-            }
-          }
-
-          // ensure sorted by actual time
-          rows.sort((a, b) => {
-            const da = toUtcDate(a.start_time)?.getTime() ?? 0;
-            const db = toUtcDate(b.start_time)?.getTime() ?? 0;
-            return da - db;
-          });
-
-          map.set(ch.id, rows);
-        }
+        // 2) now/next per channel from the bounded, edge-cached endpoint
+        const results = await Promise.all(
+          sorted.map((ch) =>
+            fetchNowNext(ch.id, { count: LATER_COUNT, aheadHours: lookAheadHours }).catch(
+              () => null
+            )
+          )
+        );
+
+        const map = new Map<number, ChannelSlots>();
+        sorted.forEach((ch, i) => {
+          const r = results[i];
+          if (r) map.set(ch.id, { now: r.now, next: r.next });
+        });
 
         if (cancelled) return;
         setByChannel(map);
@@ -198,16 +94,16 @@ export default function TVGuideGrid({
       }
     })();
     return () => { cancelled = true; };
-  }, [supabase, windowStartISO, windowEndISO, windowStartDB, windowEndDB]);
+  }, [supabase, lookAheadHours]);
 
-  const now = new Date();
+  const nowMs = Date.now();
 
   return (
     <section className="mb-6">
       <div className="flex items-center justify-between mb-2">
         <h2 className="text-xl font-semibold text-white">📺 What’s On (Now &amp; Next)</h2>
         <div className="text-xs text-slate-400">
-          Window: {lookBackHours}h back → {lookAheadHours}h ahead
+          Window: next {lookAheadHours}h
         </div>
       </div>
 
@@ -221,19 +117,18 @@ export default function TVGuideGrid({
         <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-900">
           <div className="min-w-[720px] divide-y divide-slate-800">
             {channels.map((ch) => {
-              const list = byChannel.get(ch.id) || [];
+              const slots = byChannel.get(ch.id);
 
-              // find current & upcoming strictly
+              // the endpoint answer may be a few seconds stale; re-check with our clock
+              const list = slots ? [...(slots.now ? [slots.now] : []), ...slots.next] : [];
               let current: ProgramRow | undefined;
               const upcoming: ProgramRow[] = [];
 
               for (const p of list) {
-                const st = toUtcDate(p.start_time);
-                if (!st) continue;
-                const dur = parseDurationSec(p.duration) || 1800;
-                const en = addSeconds(st, dur);
-                if (!current && now >= st && now < en) current = p;
-                if (st > now) upcoming.push(p);
+                const { startMs, endMs } = normalizeProgram(p, DEFAULT_DURATION_SEC);
+                if (!Number.isFinite(startMs)) continue;
+                if (!current && nowMs >= startMs && nowMs < endMs) current = p;
+                if (startMs > nowMs) upcoming.push(p);
               }
 
               return (
@@ -270,11 +165,9 @@ export default function TVGuideGrid({
                             <div className="text-xs text-slate-400">
                               {fmtTimeLocal(current.start_time)}
                               {(() => {
-                                const st = toUtcDate(current.start_time);
-                                const dur = parseDurationSec(current.duration) || 1800;
-                                if (!st) return "";
-                                const en = addSeconds(st, dur);
-                                return ` – ${en.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+                                const { endMs } = normalizeProgram(current, DEFAULT_DURATION_SEC);
+                                if (!Number.isFinite(endMs)) return "";
+                                return ` – ${new Date(endMs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
                               })()}
                             </div>
                           </>
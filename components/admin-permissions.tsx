@@ -0,0 +1,22 @@
+// components/admin-permissions.tsx
+"use client"
+
+import { createContext, useContext } from "react"
+import { NO_ACCESS, type StaffAccess } from "@/lib/permissions"
+
+const Ctx = createContext<StaffAccess>(NO_ACCESS)
+
+/** Staff access for the signed-in user, loaded once by app/admin/layout.tsx. */
+export function AdminPermissionsProvider({
+  access,
+  children,
+}: {
+  access: StaffAccess
+  children: React.ReactNode
+}) {
+  return <Ctx.Provider value={access}>{children}</Ctx.Provider>
+}
+
+export function useAdminPermissions(): StaffAccess {
+  return useContext(Ctx)
+}
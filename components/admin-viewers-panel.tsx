@@ -0,0 +1,228 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+} from "recharts"
+import type { ViewerStats } from "@/lib/viewer-stats"
+
+const WINDOWS = [
+  { hours: 6, label: "6h" },
+  { hours: 24, label: "24h" },
+  { hours: 168, label: "7d" },
+]
+const REFRESH_MS = 60_000
+const MAX_LINES = 8 // busiest channels only, or the chart is unreadable
+const COLORS = ["#facc15", "#38bdf8", "#4ade80", "#f472b6", "#fb923c", "#a78bfa", "#f87171", "#2dd4bf"]
+
+const panel = {
+  borderRadius: "18px",
+  padding: "16px 18px",
+  background: "radial-gradient(circle at top left, rgba(56,189,248,0.14), transparent 55%) #020617",
+  border: "1px solid rgba(148,163,184,0.35)",
+  boxShadow: "0 12px 30px rgba(15,23,42,0.9)",
+}
+
+function channelLabel(id: number, name: string | null) {
+  return name || `Channel ${id}`
+}
+
+function fmtBucket(iso: string, hours: number) {
+  const d = new Date(iso)
+  return hours > 24
+    ? d.toLocaleString([], { weekday: "short", hour: "numeric" })
+    : d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+}
+
+/**
+ * Concurrent viewers for the admin dashboard: who's watching now, peak
+ * viewers per channel over time, and the busiest program airings. Data from
+ * /api/admin/viewers (per-viewer pings from hooks/use-channel-presence.ts).
+ */
+export default function AdminViewersPanel() {
+  const [hours, setHours] = useState(24)
+  const [stats, setStats] = useState<ViewerStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/viewers?hours=${hours}`, { cache: "no-store" })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Could not load viewers")
+      setStats(json as ViewerStats)
+      setError(null)
+    } catch (e: any) {
+      setError(e?.message || "Could not load viewers")
+    }
+  }, [hours])
+
+  useEffect(() => {
+    load()
+    const t = setInterval(load, REFRESH_MS)
+    return () => clearInterval(t)
+  }, [load])
+
+  const charted = useMemo(() => (stats?.channels ?? []).slice(0, MAX_LINES), [stats])
+
+  // One row per bucket, one peak_viewers column per charted channel
+  const chartData = useMemo(() => {
+    if (!stats) return []
+    const ids = new Set(charted.map((c) => c.channel_id))
+    const rows = new Map<string, Record<string, number | string>>()
+    for (const p of stats.series) {
+      if (!ids.has(p.channel_id)) continue
+      const row = rows.get(p.bucket) ?? { at: fmtBucket(p.bucket, hours) }
+      row[`ch${p.channel_id}`] = p.peak_viewers
+      rows.set(p.bucket, row)
+    }
+    return [...rows.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row)
+  }, [stats, charted, hours])
+
+  const watchingNow = (stats?.channels ?? []).reduce((sum, c) => sum + c.watching_now, 0)
+
+  return (
+    <section style={{ marginBottom: "32px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          gap: "12px",
+          alignItems: "baseline",
+          marginBottom: "12px",
+        }}
+      >
+        <h2 style={{ fontSize: "20px", fontWeight: 600 }}>
+          Live Viewers{" "}
+          <span style={{ fontSize: "14px", color: "#facc15", marginLeft: "6px" }}>
+            {watchingNow.toLocaleString()} watching now
+          </span>
+        </h2>
+        <div style={{ display: "flex", gap: "6px" }}>
+          {WINDOWS.map((w) => (
+            <button
+              key={w.hours}
+              onClick={() => setHours(w.hours)}
+              style={{
+                fontSize: "12px",
+                padding: "4px 10px",
+                borderRadius: "999px",
+                cursor: "pointer",
+                border: "1px solid rgba(148,163,184,0.6)",
+                background: hours === w.hours ? "rgba(250,204,21,0.85)" : "transparent",
+                color: hours === w.hours ? "#020617" : "rgba(241,245,249,0.95)",
+                fontWeight: 600,
+              }}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p style={{ fontSize: "13px", color: "#f87171", marginBottom: "10px" }}>{error}</p>}
+
+      {stats && stats.channels.length === 0 ? (
+        <div style={panel}>
+          <p style={{ fontSize: "13px", color: "rgba(209,213,219,0.85)", margin: 0 }}>
+            No viewers recorded in this window yet. Counts appear once signed-in viewers have a watch page open.
+          </p>
+        </div>
+      ) : (
+        <div style={{ display: "grid", gap: "16px" }}>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(170px, 1fr))",
+              gap: "10px",
+            }}
+          >
+            {(stats?.channels ?? []).map((c) => (
+              <div key={c.channel_id} style={{ ...panel, padding: "10px 14px", borderRadius: "14px" }}>
+                <div style={{ fontSize: "12px", color: "rgba(148,163,184,0.95)" }}>
+                  {channelLabel(c.channel_id, c.channel_name)}
+                </div>
+                <div style={{ fontSize: "22px", fontWeight: 700, color: c.watching_now ? "#facc15" : "#6b7280" }}>
+                  {c.watching_now.toLocaleString()}
+                </div>
+                <div style={{ fontSize: "11px", color: "rgba(209,213,219,0.8)" }}>
+                  peak {c.peak_viewers.toLocaleString()}
+                  {c.watching_now > 0 && c.program_title ? ` · ${c.program_title}` : ""}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={panel}>
+            <div style={{ fontSize: "13px", color: "rgba(249,250,251,0.9)", marginBottom: "8px" }}>
+              Peak concurrent viewers per channel ({stats?.bucket_minutes ?? "–"} min buckets)
+            </div>
+            <div style={{ height: "240px" }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid stroke="#1f2937" />
+                  <XAxis dataKey="at" tick={{ fill: "#9ca3af", fontSize: 10 }} />
+                  <YAxis allowDecimals={false} tick={{ fill: "#9ca3af", fontSize: 10 }} />
+                  <Tooltip contentStyle={{ background: "#111827", border: "1px solid #374151" }} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  {charted.map((c, i) => (
+                    <Line
+                      key={c.channel_id}
+                      type="monotone"
+                      dataKey={`ch${c.channel_id}`}
+                      name={channelLabel(c.channel_id, c.channel_name)}
+                      stroke={COLORS[i % COLORS.length]}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div style={panel}>
+            <div style={{ fontSize: "13px", color: "rgba(249,250,251,0.9)", marginBottom: "8px" }}>
+              Busiest programs
+            </div>
+            <table style={{ width: "100%", fontSize: "12px", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: "rgba(148,163,184,0.95)" }}>
+                  <th style={{ padding: "4px 6px" }}>Program</th>
+                  <th style={{ padding: "4px 6px" }}>Channel</th>
+                  <th style={{ padding: "4px 6px" }}>Aired</th>
+                  <th style={{ padding: "4px 6px", textAlign: "right" }}>Peak</th>
+                  <th style={{ padding: "4px 6px", textAlign: "right" }}>Avg</th>
+                  <th style={{ padding: "4px 6px", textAlign: "right" }}>Minutes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(stats?.programs ?? []).slice(0, 15).map((p) => (
+                  <tr
+                    key={`${p.channel_id}-${p.program_title}-${p.program_start}`}
+                    style={{ borderTop: "1px solid rgba(30,41,59,0.9)" }}
+                  >
+                    <td style={{ padding: "5px 6px", color: "#f9fafb" }}>{p.program_title}</td>
+                    <td style={{ padding: "5px 6px" }}>{channelLabel(p.channel_id, p.channel_name)}</td>
+                    <td style={{ padding: "5px 6px", opacity: 0.8 }}>
+                      {p.program_start ? new Date(p.program_start).toLocaleString() : "—"}
+                    </td>
+                    <td style={{ padding: "5px 6px", textAlign: "right", color: "#facc15" }}>{p.peak_viewers}</td>
+                    <td style={{ padding: "5px 6px", textAlign: "right" }}>{p.avg_viewers}</td>
+                    <td style={{ padding: "5px 6px", textAlign: "right", opacity: 0.8 }}>{p.minutes_sampled}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -4,7 +4,12 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import type { Channel } from "@/types";
 import { cleanChannelName } from "@/lib/utils";
-import { FREE_CHANNELS, MEMBER_ONLY_CHANNELS } from "@/lib/protected-channels";
+import {
+  canAccessWithRules,
+  getChannelAccessRules,
+  ruleFor,
+  type ChannelAccessRules,
+} from "@/lib/protected-channels";
 import { Lock, Heart } from "lucide-react";
 import { isFavorited, toggleFavorite } from "@/lib/favorites";
 
@@ -27,13 +32,27 @@ export function ChannelCard({
   const imageUrl =
     channel.logo_url ||
     `https://placehold.co/400x225?text=${encodeURIComponent(cleanedName)}`;
-  const isFree = FREE_CHANNELS.has(idNum);
-  const needsMembership = MEMBER_ONLY_CHANNELS.has(idNum);
+  // Rules are cached module-wide, so a grid of cards shares one fetch.
+  const [rules, setRules] = useState<ChannelAccessRules | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    getChannelAccessRules().then((r) => {
+      if (!cancelled) setRules(r);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const accessTier =
+    channel.access_tier ?? (rules ? ruleFor(rules, idNum).accessTier : null);
+  const isFree = accessTier === "free";
+  const needsMembership = accessTier === "member";
   const isUnlocked =
+    isFree ||
     userTier === "admin" ||
     userTier === "member" ||
-    isFree ||
-    (userTier === "constructiq" && !needsMembership);
+    (!!rules && canAccessWithRules(rules, idNum, userTier));
 
   const href =
     needsMembership && !isUnlocked ? "/membership" : `/watch/${channel.id}`;
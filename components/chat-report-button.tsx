@@ -0,0 +1,85 @@
+// components/chat-report-button.tsx
+"use client"
+
+import { useState } from "react"
+import { Flag } from "lucide-react"
+import { createClient } from "@/utils/supabase/client"
+import { REPORT_REASONS, REPORT_REASON_LABEL, fileReport, type ReportReason } from "@/lib/chat-reports-client"
+
+/** "Report" link for one chat message, with a small reason picker. */
+export default function ChatReportButton({ messageId, className = "" }: { messageId: string; className?: string }) {
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<ReportReason>("spam")
+  const [details, setDetails] = useState("")
+  const [state, setState] = useState<"idle" | "sending" | "done">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  async function submit() {
+    setState("sending")
+    setError(null)
+    try {
+      await fileReport(createClient(), messageId, reason, details)
+      setState("done")
+      setOpen(false)
+    } catch (e: any) {
+      setError(e?.message || "Could not send report.")
+      setState("idle")
+    }
+  }
+
+  if (state === "done") {
+    return <span className={`text-[10px] text-gray-500 ${className}`}>Reported</span>
+  }
+
+  return (
+    <span className={`relative inline-block ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="inline-flex items-center gap-0.5 text-[10px] text-gray-500 hover:text-red-300"
+        aria-label="Report message"
+        title="Report message"
+      >
+        <Flag className="h-3 w-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-56 rounded-lg border border-gray-700 bg-gray-950 p-2 text-xs shadow-xl">
+          <p className="mb-1 font-semibold text-gray-200">Report this message</p>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as ReportReason)}
+            className="mb-1 w-full rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-100"
+          >
+            {REPORT_REASONS.map((r) => (
+              <option key={r} value={r}>
+                {REPORT_REASON_LABEL[r]}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Anything moderators should know? (optional)"
+            className="mb-1 w-full resize-none rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-100"
+          />
+          {error && <p className="mb-1 text-red-400">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-200">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={submit}
+              disabled={state === "sending"}
+              className="rounded bg-red-600 px-2 py-1 font-semibold text-white hover:bg-red-500 disabled:opacity-60"
+            >
+              {state === "sending" ? "Sending…" : "Report"}
+            </button>
+          </div>
+        </div>
+      )}
+    </span>
+  )
+}
@@ -1,13 +1,22 @@
+"use client"
+
 import type { ReactNode } from "react"
-import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
+import { useDonationCheckout } from "@/hooks/use-donation-checkout"
 
 interface DonationCardProps {
   title: string
   description: string
   icon: ReactNode
+  /** Whole dollars; when set the card gets a button that starts checkout */
+  amount?: number
+  monthly?: boolean
 }
 
-export function DonationCard({ title, description, icon }: DonationCardProps) {
+export function DonationCard({ title, description, icon, amount, monthly = false }: DonationCardProps) {
+  const { donate, pending, error } = useDonationCheckout()
+
   return (
     <Card className="bg-gray-800 border-gray-700 hover:border-red-500 transition-all duration-300">
       <CardHeader className="flex items-center justify-center pt-6">
@@ -17,6 +26,18 @@ export function DonationCard({ title, description, icon }: DonationCardProps) {
       <CardContent className="text-center text-gray-300">
         <p>{description}</p>
       </CardContent>
+      {amount ? (
+        <CardFooter className="flex flex-col gap-2">
+          <Button
+            className="w-full bg-red-600 hover:bg-red-700"
+            disabled={pending}
+            onClick={() => donate({ amount, monthly })}
+          >
+            {pending ? "Loading…" : `Give $${amount}${monthly ? "/mo" : ""}`}
+          </Button>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </CardFooter>
+      ) : null}
     </Card>
   )
 }
@@ -0,0 +1,47 @@
+import { Progress } from "@/components/ui/progress"
+import { formatPlanPrice } from "@/lib/plans"
+
+export interface DonationGoalData {
+  title: string
+  description: string | null
+  target_cents: number
+  raised_cents: number
+  donor_count: number
+  currency: string
+  ends_at: string | null
+}
+
+export function DonationGoal({ goal }: { goal: DonationGoalData }) {
+  const money = (cents: number) => formatPlanPrice({ amount_cents: cents, currency: goal.currency })
+  const pct = Math.min(100, Math.round((goal.raised_cents / goal.target_cents) * 100))
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-zinc-950/70 p-6">
+      <div className="flex items-baseline justify-between gap-4 flex-wrap">
+        <h2 className="text-lg font-semibold">{goal.title}</h2>
+        {goal.ends_at && (
+          <span className="text-xs text-white/60">
+            Ends {new Date(goal.ends_at).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+      {goal.description && <p className="mt-1 text-sm text-white/70">{goal.description}</p>}
+
+      <Progress
+        value={pct}
+        className="mt-4 h-3 bg-white/10 [&>div]:bg-red-600"
+        aria-label={`${pct}% of the goal raised`}
+      />
+
+      <div className="mt-3 flex items-center justify-between text-sm">
+        <span>
+          <span className="font-semibold">{money(goal.raised_cents)}</span>
+          <span className="text-white/60"> raised of {money(goal.target_cents)}</span>
+        </span>
+        <span className="text-white/60">
+          {goal.donor_count} donor{goal.donor_count === 1 ? "" : "s"}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,20 @@
+"use client"
+
 import { Button } from "@/components/ui/button"
+import { useDonationCheckout } from "@/hooks/use-donation-checkout"
 
 interface DonationTiersProps {
-  stripeUrl: string
+  monthly?: boolean
+  coverFees?: boolean
+  /** Custom-amount link target (e.g. the /donate form) */
+  customHref?: string
 }
 
-export function DonationTiers({ stripeUrl }: DonationTiersProps) {
+export function DonationTiers({ monthly = false, coverFees = false, customHref = "/donate" }: DonationTiersProps) {
+  const { donate, pending, error } = useDonationCheckout()
+  const period = monthly ? " monthly" : " one-time"
+  const give = (amount: number) => donate({ amount, monthly, coverFees })
+
   return (
     <div className="my-16">
       <h2 className="text-3xl font-bold text-center mb-8">Choose Your Donation Amount</h2>
@@ -12,16 +22,16 @@ export function DonationTiers({ stripeUrl }: DonationTiersProps) {
         <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 hover:border-red-500 transition-all duration-300">
           <h3 className="text-xl font-bold mb-2">Supporter</h3>
           <div className="text-3xl font-bold text-red-500 mb-4">
-            $10<span className="text-lg text-gray-400"> one-time</span>
+            $10<span className="text-lg text-gray-400">{period}</span>
           </div>
           <ul className="space-y-2 mb-6 text-gray-300">
             <li>• Support our basic operations</li>
             <li>• Recognition on our website</li>
             <li>• Monthly newsletter</li>
           </ul>
-          <a href={`${stripeUrl}?amount=1000`} target="_blank" rel="noopener noreferrer" className="block w-full">
-            <Button className="w-full bg-gray-700 hover:bg-gray-600">Donate $10</Button>
-          </a>
+          <Button className="w-full bg-gray-700 hover:bg-gray-600" disabled={pending} onClick={() => give(10)}>
+            Donate $10
+          </Button>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6 border-2 border-red-500 transform scale-105 shadow-lg relative">
@@ -30,7 +40,7 @@ export function DonationTiers({ stripeUrl }: DonationTiersProps) {
           </div>
           <h3 className="text-xl font-bold mb-2">Champion</h3>
           <div className="text-3xl font-bold text-red-500 mb-4">
-            $25<span className="text-lg text-gray-400"> one-time</span>
+            $25<span className="text-lg text-gray-400">{period}</span>
           </div>
           <ul className="space-y-2 mb-6 text-gray-300">
             <li>• Fund new content creation</li>
@@ -38,15 +48,15 @@ export function DonationTiers({ stripeUrl }: DonationTiersProps) {
             <li>• Quarterly virtual meetups</li>
             <li>• All Supporter benefits</li>
           </ul>
-          <a href={`${stripeUrl}?amount=2500`} target="_blank" rel="noopener noreferrer" className="block w-full">
-            <Button className="w-full bg-red-600 hover:bg-red-700">Donate $25</Button>
-          </a>
+          <Button className="w-full bg-red-600 hover:bg-red-700" disabled={pending} onClick={() => give(25)}>
+            Donate $25
+          </Button>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 hover:border-red-500 transition-all duration-300">
           <h3 className="text-xl font-bold mb-2">Visionary</h3>
           <div className="text-3xl font-bold text-red-500 mb-4">
-            $50<span className="text-lg text-gray-400"> one-time</span>
+            $50<span className="text-lg text-gray-400">{period}</span>
           </div>
           <ul className="space-y-2 mb-6 text-gray-300">
             <li>• Help expand to new channels</li>
@@ -54,15 +64,17 @@ export function DonationTiers({ stripeUrl }: DonationTiersProps) {
             <li>• Special recognition in credits</li>
             <li>• All Champion benefits</li>
           </ul>
-          <a href={`${stripeUrl}?amount=5000`} target="_blank" rel="noopener noreferrer" className="block w-full">
-            <Button className="w-full bg-gray-700 hover:bg-gray-600">Donate $50</Button>
-          </a>
+          <Button className="w-full bg-gray-700 hover:bg-gray-600" disabled={pending} onClick={() => give(50)}>
+            Donate $50
+          </Button>
         </div>
       </div>
 
+      {error && <p className="text-center text-sm text-red-400 mt-6">{error}</p>}
+
       <div className="text-center mt-8">
-        <p className="text-gray-300 mb-3">Stripe default is set to $10, but you can donate any amount you choose</p>
-        <a href={stripeUrl} target="_blank" rel="noopener noreferrer">
+        <p className="text-gray-300 mb-3">You can also donate any amount you choose</p>
+        <a href={customHref}>
           <Button variant="link" className="text-red-400 hover:text-red-300">
             Make a custom donation amount
           </Button>
@@ -8,6 +8,21 @@ import React, {
   useState,
   useEffect,
 } from "react";
+import type Hls from "hls.js";
+import { getVideoTypeFromUrl } from "@/lib/url-utils";
+
+const DRIFT_CHECK_MS = 15_000;
+const DRIFT_TOLERANCE_SEC = 6; // only re-seek when clearly out of step
+
+type QualityLevel = { index: number; label: string };
+
+const AUTO_LEVEL = -1;
+
+function levelLabel(l: { height?: number; bitrate?: number }, i: number) {
+  if (l.height) return `${l.height}p`;
+  if (l.bitrate) return `${Math.round(l.bitrate / 1000)} kbps`;
+  return `Level ${i + 1}`;
+}
 
 type Props = {
   src: string;
@@ -18,6 +33,7 @@ type Props = {
   muted?: boolean;                    // default: true (safe autoplay)
   playsInline?: boolean;              // default: true (iOS)
   preload?: "auto" | "metadata" | "none";
+  getLivePosition?: () => number | null; // live position (s); enables drift correction
   onVideoEnded?: () => void;
   onError?: (e?: any) => void;
 };
@@ -32,6 +48,7 @@ const VideoPlayer = forwardRef<HTMLVideoElement, Props>(function VideoPlayer(
     muted = true,
     playsInline = true,
     preload = "auto",
+    getLivePosition,
     onVideoEnded,
     onError,
   },
@@ -41,8 +58,133 @@ const VideoPlayer = forwardRef<HTMLVideoElement, Props>(function VideoPlayer(
   const [isMuted, setIsMuted] = useState<boolean>(!!muted);
   const [showSoundPrompt, setShowSoundPrompt] = useState<boolean>(!!muted);
 
+  // HLS (.m3u8): hls.js on MSE browsers, native playback on Safari/iOS
+  const isHls = getVideoTypeFromUrl(src) === "hls";
+  const hlsRef = useRef<Hls | null>(null);
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState<number>(AUTO_LEVEL);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  // Read at manifest time so flipping autoPlay (preloaded player going live)
+  // doesn't tear down and re-attach the stream.
+  const autoPlayRef = useRef(autoPlay);
+  autoPlayRef.current = autoPlay;
+
   useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement);
 
+  // Latest callback without re-arming the drift timer on every render
+  const livePositionRef = useRef(getLivePosition);
+  livePositionRef.current = getLivePosition;
+
+  const seekTo = (v: HTMLVideoElement, sec: number) => {
+    if (!Number.isFinite(sec) || sec < 0) return;
+    // Never seek past the file; a short upload just ends early.
+    const max = Number.isFinite(v.duration) ? Math.max(0, v.duration - 1) : sec;
+    try {
+      v.currentTime = Math.min(sec, max);
+    } catch {}
+  };
+
+  // Join at the live position instead of 0:00
+  const handleLoadedMetadata = () => {
+    const v = videoRef.current;
+    if (!v) return;
+    const target = livePositionRef.current?.();
+    if (target != null && target > 0) seekTo(v, target);
+  };
+
+  // Periodically pull playback back to the broadcast position (stalls,
+  // buffering and backgrounded tabs all let a viewer fall behind).
+  useEffect(() => {
+    if (!getLivePosition) return;
+    // Already-loaded media (a preloaded player going live) won't fire
+    // loadedmetadata again, so align once right away.
+    const v0 = videoRef.current;
+    if (v0 && v0.readyState >= 1) {
+      const target = livePositionRef.current?.();
+      if (target != null && Math.abs(v0.currentTime - target) > DRIFT_TOLERANCE_SEC) {
+        seekTo(v0, target);
+      }
+    }
+    const id = setInterval(() => {
+      const v = videoRef.current;
+      if (!v || v.paused || v.seeking || v.readyState < 1) return;
+      const target = livePositionRef.current?.();
+      if (target == null) return;
+      if (Math.abs(v.currentTime - target) > DRIFT_TOLERANCE_SEC) seekTo(v, target);
+    }, DRIFT_CHECK_MS);
+    return () => clearInterval(id);
+  }, [src, Boolean(getLivePosition)]);
+
+  // Attach hls.js for HLS sources; fatal errors go to onError so the
+  // page can fall back to standby like it does for a broken MP4.
+  useEffect(() => {
+    const v = videoRef.current;
+    setLevels([]);
+    setSelectedLevel(AUTO_LEVEL);
+    if (!v || !isHls) return;
+
+    if (v.canPlayType("application/vnd.apple.mpegurl")) {
+      v.src = src;
+      return () => {
+        v.removeAttribute("src");
+        v.load();
+      };
+    }
+
+    let cancelled = false;
+    let hls: Hls | null = null;
+
+    (async () => {
+      const { default: HlsCtor } = await import("hls.js");
+      if (cancelled) return;
+      if (!HlsCtor.isSupported()) {
+        onErrorRef.current?.(new Error("HLS is not supported in this browser"));
+        return;
+      }
+
+      hls = new HlsCtor({ enableWorker: true });
+      hlsRef.current = hls;
+      let mediaRecoveries = 0;
+
+      hls.on(HlsCtor.Events.MANIFEST_PARSED, (_evt, data) => {
+        setLevels(data.levels.map((l, i) => ({ index: i, label: levelLabel(l, i) })));
+        if (autoPlayRef.current) v.play().catch(() => {});
+      });
+
+      hls.on(HlsCtor.Events.ERROR, (_evt, data) => {
+        if (!data.fatal) return;
+        // One in-place recovery for decode hiccups; anything else is terminal.
+        if (data.type === HlsCtor.ErrorTypes.MEDIA_ERROR && mediaRecoveries < 1) {
+          mediaRecoveries += 1;
+          hls?.recoverMediaError();
+          return;
+        }
+        hls?.destroy();
+        if (hlsRef.current === hls) hlsRef.current = null;
+        onErrorRef.current?.(data);
+      });
+
+      hls.loadSource(src);
+      hls.attachMedia(v);
+    })().catch((e) => {
+      if (!cancelled) onErrorRef.current?.(e);
+    });
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+      if (hlsRef.current === hls) hlsRef.current = null;
+    };
+  }, [src, isHls]);
+
+  const changeLevel = (level: number) => {
+    setSelectedLevel(level);
+    const hls = hlsRef.current;
+    // nextLevel switches at the next fragment instead of flushing the buffer
+    if (hls) hls.nextLevel = level;
+  };
+
   // Keep DOM muted in sync with state
   useEffect(() => {
     const v = videoRef.current;
@@ -109,11 +251,12 @@ const VideoPlayer = forwardRef<HTMLVideoElement, Props>(function VideoPlayer(
         ref={videoRef}
         className="w-full h-full"
         poster={poster}
-        src={src}
+        src={isHls ? undefined : src}
         autoPlay={autoPlay}
         muted={isMuted}
         playsInline={playsInline}
         preload={preload}
+        onLoadedMetadata={handleLoadedMetadata}
         onEnded={() => onVideoEnded?.()}
         onError={(e) => onError?.(e)}
         controls
@@ -124,6 +267,23 @@ const VideoPlayer = forwardRef<HTMLVideoElement, Props>(function VideoPlayer(
         {titleBadge}
       </div>
 
+      {/* HLS quality picker (top-right), only when there is a choice */}
+      {levels.length > 1 && (
+        <select
+          value={selectedLevel}
+          onChange={(e) => changeLevel(Number(e.target.value))}
+          className="absolute right-2 top-2 text-xs px-2 py-1 rounded bg-black/60 text-white"
+          aria-label="Video quality"
+        >
+          <option value={AUTO_LEVEL}>Auto</option>
+          {levels.map((l) => (
+            <option key={l.index} value={l.index}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Mute/Unmute toggle (bottom-right) */}
       <button
         type="button"
@@ -0,0 +1,81 @@
+"use client"
+
+import * as React from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { createClient } from "@/utils/supabase/client"
+
+export type PresenceProgram = { title?: string | null; start_time?: string | null } | null
+
+const SAMPLE_MS = 60_000
+
+/**
+ * Live viewer count for one channel via Supabase Realtime presence. Signed-in
+ * viewers share one presence key across tabs, so a person counts once.
+ *
+ * Signed-in viewers also ping record_viewer_ping (scripts/018-viewer-presence.sql)
+ * once a minute with the program on air. The database counts those pings for
+ * the admin dashboard, so the recorded numbers don't depend on what any one
+ * browser reports.
+ */
+export function useChannelPresence(channelId: number | null, program: PresenceProgram) {
+  const supabase = React.useMemo(() => createClient(), [])
+  const [viewers, setViewers] = React.useState<number | null>(null)
+  const programRef = React.useRef(program)
+
+  React.useEffect(() => {
+    programRef.current = program
+  }, [program])
+
+  React.useEffect(() => {
+    if (channelId == null) return
+    let cancelled = false
+    let channel: RealtimeChannel | null = null
+    let sampleTimer: ReturnType<typeof setInterval> | null = null
+
+    const start = async () => {
+      const { data } = await supabase.auth.getUser()
+      if (cancelled) return
+      const userId = data.user?.id ?? null
+      const key = userId ?? `anon-${Math.random().toString(36).slice(2)}`
+
+      const ch = supabase.channel(`presence:channel:${channelId}`, {
+        config: { presence: { key } },
+      })
+      channel = ch
+      ch.on("presence", { event: "sync" }, () => {
+        if (!cancelled) setViewers(Object.keys(ch.presenceState()).length)
+      }).subscribe((status) => {
+        // Fires again after Realtime rejoins, so we're re-tracked too
+        if (status === "SUBSCRIBED") ch.track({})
+      })
+
+      // Anonymous viewers can't ping
+      if (!userId) return
+      const ping = () => {
+        const p = programRef.current
+        supabase
+          .rpc("record_viewer_ping", {
+            p_channel_id: channelId,
+            p_program_title: p?.title ?? null,
+            p_program_start: p?.start_time ?? null,
+          })
+          .then(({ error }) => {
+            if (error) console.error("record_viewer_ping failed:", error.message)
+          })
+      }
+      ping()
+      sampleTimer = setInterval(ping, SAMPLE_MS)
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      if (sampleTimer) clearInterval(sampleTimer)
+      if (channel) supabase.removeChannel(channel)
+      setViewers(null)
+    }
+  }, [channelId, supabase])
+
+  return viewers
+}
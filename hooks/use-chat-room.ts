@@ -0,0 +1,193 @@
+"use client"
+
+import * as React from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { createClient } from "@/utils/supabase/client"
+
+export type ChatMessage = {
+  id: string
+  room_id: string
+  sender_id: string
+  sender_name: string | null
+  message: string
+  created_at: string
+  deleted_at?: string | null
+  hidden_at?: string | null
+}
+
+/** connecting: first subscribe; live: receiving; reconnecting: lost, retrying */
+export type ChatConnection = "connecting" | "live" | "reconnecting"
+
+const MESSAGE_COLUMNS = "id,room_id,sender_id,sender_name,message,created_at"
+const BACKFILL = 100 // history loaded on join
+const MAX_KEPT = 500 // older messages drop off the top
+const MAX_RETRY_MS = 30_000
+
+/** Merge by id, oldest first, capped at MAX_KEPT. */
+function merge(prev: ChatMessage[], incoming: ChatMessage[]) {
+  if (!incoming.length) return prev
+  const byId = new Map(prev.map((m) => [m.id, m]))
+  for (const m of incoming) byId.set(m.id, m)
+  const all = [...byId.values()].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  return all.length > MAX_KEPT ? all.slice(all.length - MAX_KEPT) : all
+}
+
+/**
+ * Live chat for one room: backfills recent history, then appends INSERTs
+ * from Supabase Realtime (scripts/015-realtime-chat.sql). When the channel
+ * drops it resubscribes with backoff and fetches whatever arrived while it
+ * was away, so nothing is missed.
+ */
+export function useChatRoom(roomId: string | null) {
+  const supabase = React.useMemo(() => createClient(), [])
+  const [messages, setMessages] = React.useState<ChatMessage[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [connection, setConnection] = React.useState<ChatConnection>("connecting")
+  const [viewerId, setViewerId] = React.useState<string | null>(null)
+  const latestRef = React.useRef<string | null>(null)
+
+  React.useEffect(() => {
+    latestRef.current = messages.length ? messages[messages.length - 1].created_at : null
+  }, [messages])
+
+  // Who's reading, so the UI can leave "report" off their own messages
+  React.useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setViewerId(data.user?.id ?? null))
+  }, [supabase])
+
+  React.useEffect(() => {
+    if (!roomId) return
+    let cancelled = false
+    let channel: RealtimeChannel | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let attempt = 0
+
+    setMessages([])
+    setConnection("connecting")
+    latestRef.current = null
+
+    // Recent history on join; after a reconnect, only what we missed
+    const backfill = async () => {
+      const since = latestRef.current
+      let query = supabase
+        .from("chat_messages")
+        .select(MESSAGE_COLUMNS)
+        .eq("room_id", roomId)
+        .is("deleted_at", null)
+        .is("hidden_at", null)
+        .order("created_at", { ascending: false })
+        .limit(since ? MAX_KEPT : BACKFILL)
+      if (since) query = query.gte("created_at", since)
+
+      const { data, error } = await query
+      if (cancelled) return
+      if (error) {
+        console.error("Error loading chat messages:", error)
+        setError("Could not load chat messages.")
+        return
+      }
+      setError(null)
+      setMessages((prev) => merge(prev, ((data || []) as ChatMessage[]).reverse()))
+    }
+
+    const subscribe = () => {
+      const ch = supabase.channel(`realtime:chat:${roomId}`)
+      channel = ch
+      ch
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "chat_messages", filter: `room_id=eq.${roomId}` },
+          (payload) => setMessages((prev) => merge(prev, [payload.new as ChatMessage]))
+        )
+        // Moderator soft deletes and report auto-hides (scripts/016, 017)
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "chat_messages", filter: `room_id=eq.${roomId}` },
+          (payload) => {
+            const m = payload.new as ChatMessage
+            setMessages((prev) =>
+              m.deleted_at || m.hidden_at ? prev.filter((p) => p.id !== m.id) : merge(prev, [m])
+            )
+          }
+        )
+        .subscribe((status) => {
+          // Ignore the CLOSED we cause by removing a channel we've replaced
+          if (cancelled || ch !== channel) return
+          if (status === "SUBSCRIBED") {
+            attempt = 0
+            setConnection("live")
+            // Subscribing first, then backfilling, leaves no gap
+            backfill()
+          } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+            setConnection("reconnecting")
+            scheduleRetry()
+          }
+        })
+    }
+
+    const dropChannel = () => {
+      const old = channel
+      channel = null
+      if (old) supabase.removeChannel(old)
+    }
+
+    const scheduleRetry = () => {
+      if (retryTimer || cancelled) return
+      const delay = Math.min(MAX_RETRY_MS, 1000 * 2 ** attempt++)
+      retryTimer = setTimeout(() => {
+        retryTimer = null
+        dropChannel()
+        if (!cancelled) subscribe()
+      }, delay)
+    }
+
+    // Back online: don't wait out the backoff
+    const onOnline = () => {
+      if (retryTimer) {
+        clearTimeout(retryTimer)
+        retryTimer = null
+        attempt = 0
+        dropChannel()
+        subscribe()
+      }
+    }
+
+    setLoading(true)
+    subscribe()
+    backfill().finally(() => {
+      if (!cancelled) setLoading(false)
+    })
+    window.addEventListener("online", onOnline)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener("online", onOnline)
+      if (retryTimer) clearTimeout(retryTimer)
+      dropChannel()
+    }
+  }, [roomId, supabase])
+
+  /** Insert a message as the signed-in user; it's shown without waiting for the echo. */
+  const send = React.useCallback(
+    async (text: string) => {
+      const message = text.trim()
+      if (!roomId || !message) return
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (!user) throw new Error("You must be logged in to send a message.")
+
+      const { data, error } = await supabase
+        .from("chat_messages")
+        .insert({ room_id: roomId, sender_id: user.id, message })
+        .select(MESSAGE_COLUMNS)
+        .single()
+      if (error) throw error
+      setMessages((prev) => merge(prev, [data as ChatMessage]))
+    },
+    [roomId, supabase]
+  )
+
+  return { messages, loading, error, connection, send, viewerId }
+}
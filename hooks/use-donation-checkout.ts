@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+
+export type DonationRequest = {
+  /** Whole dollars, before any fee cover */
+  amount: number
+  monthly?: boolean
+  coverFees?: boolean
+}
+
+/** Starts a Stripe Checkout donation via /api/donations and redirects to it. */
+export function useDonationCheckout() {
+  const [pending, setPending] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const donate = React.useCallback(async ({ amount, monthly = false, coverFees = false }: DonationRequest) => {
+    setPending(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/donations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount_cents: Math.round(amount * 100),
+          recurring: monthly,
+          cover_fees: coverFees,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (data.url) {
+        window.location.href = data.url
+        return
+      }
+      setError(data.error || "Could not start checkout.")
+    } catch {
+      setError("Could not start checkout.")
+    }
+    setPending(false)
+  }, [])
+
+  return { donate, pending, error }
+}
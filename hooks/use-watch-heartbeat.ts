@@ -0,0 +1,69 @@
+"use client"
+
+import * as React from "react"
+
+const HEARTBEAT_MS = 30_000 // keep in step with lib/watch-analytics.ts
+const TICK_MS = 5_000
+
+function newSessionId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Viewership heartbeats for program analytics (/api/analytics/heartbeat).
+ * Counts the seconds the player is actually playing and reports them every
+ * 30s; the server works out which program that was. Unsent seconds go out
+ * with sendBeacon when the page is hidden, unless the last heartbeat was too
+ * recent for the server to take another (they wait for the next one).
+ */
+export function useWatchHeartbeat(channelId: number | null, videoRef: React.RefObject<HTMLVideoElement | null>) {
+  const sessionId = React.useMemo(newSessionId, [])
+  // Outlives channel changes: the server throttles per session, not per channel
+  const lastSentRef = React.useRef(0)
+
+  React.useEffect(() => {
+    if (channelId == null) return
+    let watched = 0
+
+    const send = (beacon: boolean) => {
+      if (watched <= 0 || Date.now() - lastSentRef.current < HEARTBEAT_MS) return
+      const body = JSON.stringify({
+        session_id: sessionId,
+        channel_id: channelId,
+        seconds: Math.round(watched),
+      })
+      watched = 0
+      lastSentRef.current = Date.now()
+      if (beacon && typeof navigator !== "undefined" && navigator.sendBeacon) {
+        navigator.sendBeacon("/api/analytics/heartbeat", body)
+        return
+      }
+      fetch("/api/analytics/heartbeat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        keepalive: true,
+      }).catch(() => {})
+    }
+
+    const tick = setInterval(() => {
+      const v = videoRef.current
+      if (v && !v.paused && !v.ended && v.readyState >= 2) watched += TICK_MS / 1000
+      send(false)
+    }, TICK_MS)
+
+    const onHide = () => {
+      if (document.visibilityState === "hidden") send(true)
+    }
+    const onPageHide = () => send(true)
+    document.addEventListener("visibilitychange", onHide)
+    window.addEventListener("pagehide", onPageHide)
+
+    return () => {
+      clearInterval(tick)
+      document.removeEventListener("visibilitychange", onHide)
+      window.removeEventListener("pagehide", onPageHide)
+      send(true)
+    }
+  }, [channelId, sessionId, videoRef])
+}
@@ -0,0 +1,105 @@
+// lib/audit.ts
+// Admin audit log (scripts/013-audit-log.sql). Database triggers record
+// direct table writes; recordAudit() is for server routes that act with the
+// service role, where the trigger can't see which admin asked. The types
+// and AUDITED_TABLES are also used by the admin page.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/** Tables with audit triggers, for the admin filter. */
+export const AUDITED_TABLES = [
+  "programs",
+  "channels",
+  "user_profiles",
+  "invite_codes",
+  "news_ticker",
+  "breaking_news",
+] as const;
+
+export type AuditEntry = {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  actor_email?: string | null;
+  action: string;
+  target_table: string;
+  row_keys: string[];
+  row_count: number;
+  before: unknown[] | Record<string, unknown> | null;
+  after: unknown[] | Record<string, unknown> | null;
+  source: "trigger" | "api";
+  details: Record<string, unknown> | null;
+};
+
+export type AuditFilters = {
+  table?: string | null;
+  action?: string | null;
+  actorId?: string | null;
+  rowKey?: string | null;
+  since?: string | null;
+  until?: string | null;
+  before?: number | null; // id cursor: entries older than this
+  limit: number;
+};
+
+/**
+ * Add an 'api' entry. actorRole is the actor's app role as the route's gate
+ * saw it (gate.access.role). Never throws: a failed log write must not fail
+ * the action.
+ */
+export async function recordAudit(
+  admin: SupabaseClient,
+  entry: {
+    actorId: string | null;
+    actorRole: string | null;
+    action: string;
+    table: string;
+    rowKeys?: string[];
+    details?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { error } = await admin.from("audit_log").insert({
+    actor_id: entry.actorId,
+    actor_role: entry.actorRole,
+    action: entry.action,
+    target_table: entry.table,
+    row_keys: entry.rowKeys ?? [],
+    row_count: entry.rowKeys?.length ?? 0,
+    source: "api",
+    details: entry.details ?? null,
+  });
+  if (error) console.error("audit_log insert failed:", error.message);
+}
+
+/**
+ * Newest first. Snapshots are included; an entry for a bulk delete can
+ * hold hundreds of rows, so callers should keep `limit` modest.
+ */
+export async function listAuditLog(admin: SupabaseClient, f: AuditFilters): Promise<AuditEntry[]> {
+  let query = admin
+    .from("audit_log")
+    .select(
+      "id, created_at, actor_id, actor_role, action, target_table, row_keys, row_count, before, after, source, details"
+    )
+    .order("id", { ascending: false })
+    .limit(f.limit);
+  if (f.table) query = query.eq("target_table", f.table);
+  if (f.action) query = query.eq("action", f.action);
+  if (f.actorId) query = query.eq("actor_id", f.actorId);
+  if (f.rowKey) query = query.contains("row_keys", [f.rowKey]);
+  if (f.since) query = query.gte("created_at", f.since);
+  if (f.until) query = query.lt("created_at", f.until);
+  if (f.before) query = query.lt("id", f.before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const entries = (data ?? []) as AuditEntry[];
+
+  const actorIds = [...new Set(entries.map((e) => e.actor_id).filter((id): id is string => !!id))];
+  if (actorIds.length) {
+    const { data: profiles } = await admin.from("user_profiles").select("id, email").in("id", actorIds);
+    const emails = new Map((profiles ?? []).map((p) => [p.id as string, (p.email as string | null) ?? null]));
+    for (const e of entries) e.actor_email = e.actor_id ? emails.get(e.actor_id) ?? null : null;
+  }
+  return entries;
+}
@@ -0,0 +1,324 @@
+// lib/chat-moderation.ts
+// Moderator actions for chat (scripts/016-chat-moderation.sql). The rules
+// themselves (sanctions, slow mode, members-only, word filter) are enforced
+// by the chat_messages insert trigger; this is the admin side: soft delete,
+// mutes/bans, room settings and the word list, each logged to
+// chat_moderation_actions. Server-only; pass the service-role client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const SANCTION_KINDS = ["mute", "ban"] as const;
+export type SanctionKind = (typeof SANCTION_KINDS)[number];
+
+export const WORD_ACTIONS = ["block", "flag"] as const;
+export type WordAction = (typeof WORD_ACTIONS)[number];
+
+export const MAX_SLOW_MODE_SECONDS = 3600;
+
+export type ModerationMessage = {
+  id: string;
+  room_id: string;
+  sender_id: string;
+  sender_name: string | null;
+  message: string;
+  created_at: string;
+  flagged_at: string | null;
+  flag_reason: string | null;
+};
+
+export type ChatSanction = {
+  id: number;
+  user_id: string;
+  user_name?: string | null;
+  room_id: string | null;
+  kind: SanctionKind;
+  reason: string | null;
+  expires_at: string | null;
+  created_at: string;
+};
+
+export type ModerationRoom = {
+  id: string;
+  name: string;
+  channel_id: string | null;
+  slow_mode_seconds: number;
+  members_only: boolean;
+  report_hide_threshold: number; // scripts/017-chat-reports.sql
+};
+
+export type BlockedWord = { word: string; action: WordAction; created_at: string };
+
+export type ModerationAction = {
+  id: number;
+  action: string;
+  room_id: string | null;
+  message_id: string | null;
+  user_id: string | null;
+  original_text: string | null;
+  reason: string | null;
+  actor_id: string | null;
+  created_at: string;
+};
+
+export type ModerationQueue = {
+  flagged: ModerationMessage[];
+  recent: ModerationMessage[];
+  sanctions: ChatSanction[];
+  rooms: ModerationRoom[];
+  words: BlockedWord[];
+  actions: ModerationAction[];
+};
+
+const MESSAGE_COLUMNS = "id, room_id, sender_id, sender_name, message, created_at, flagged_at, flag_reason";
+
+export function isSanctionKind(v: unknown): v is SanctionKind {
+  return SANCTION_KINDS.includes(v as SanctionKind);
+}
+
+export function isWordAction(v: unknown): v is WordAction {
+  return WORD_ACTIONS.includes(v as WordAction);
+}
+
+async function logAction(
+  admin: SupabaseClient,
+  actorId: string,
+  entry: Omit<Partial<ModerationAction>, "id" | "actor_id" | "created_at"> & {
+    action: string;
+    details?: Record<string, unknown>;
+  }
+) {
+  const { error } = await admin.from("chat_moderation_actions").insert({ ...entry, actor_id: actorId });
+  if (error) console.error("chat_moderation_actions insert failed:", error.message);
+}
+
+/** Everything the moderation page shows, newest first. */
+export async function getModerationQueue(admin: SupabaseClient, roomId?: string | null): Promise<ModerationQueue> {
+  const nowIso = new Date().toISOString();
+  let flaggedQ = admin
+    .from("chat_messages")
+    .select(MESSAGE_COLUMNS)
+    .not("flagged_at", "is", null)
+    .is("deleted_at", null)
+    .order("flagged_at", { ascending: false })
+    .limit(100);
+  let recentQ = admin
+    .from("chat_messages")
+    .select(MESSAGE_COLUMNS)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (roomId) {
+    flaggedQ = flaggedQ.eq("room_id", roomId);
+    recentQ = recentQ.eq("room_id", roomId);
+  }
+
+  const [flagged, recent, sanctions, rooms, words, actions] = await Promise.all([
+    flaggedQ,
+    recentQ,
+    admin
+      .from("chat_sanctions")
+      .select("id, user_id, room_id, kind, reason, expires_at, created_at")
+      .is("lifted_at", null)
+      .or(`expires_at.is.null,expires_at.gt.${nowIso}`)
+      .order("created_at", { ascending: false }),
+    admin
+      .from("chat_rooms")
+      .select("id, name, channel_id, slow_mode_seconds, members_only, report_hide_threshold")
+      .order("name", { ascending: true }),
+    admin.from("chat_blocked_words").select("word, action, created_at").order("word", { ascending: true }),
+    admin
+      .from("chat_moderation_actions")
+      .select("id, action, room_id, message_id, user_id, original_text, reason, actor_id, created_at")
+      .order("created_at", { ascending: false })
+      .limit(50),
+  ]);
+
+  for (const res of [flagged, recent, sanctions, rooms, words, actions]) {
+    if (res.error) throw res.error;
+  }
+
+  const activeSanctions = (sanctions.data ?? []) as ChatSanction[];
+  const userIds = [...new Set(activeSanctions.map((s) => s.user_id))];
+  if (userIds.length) {
+    const { data: profiles } = await admin.from("user_profiles").select("id, full_name, email").in("id", userIds);
+    const names = new Map((profiles ?? []).map((p) => [p.id as string, (p.full_name || p.email || null) as string | null]));
+    for (const s of activeSanctions) s.user_name = names.get(s.user_id) ?? null;
+  }
+
+  return {
+    flagged: (flagged.data ?? []) as ModerationMessage[],
+    recent: (recent.data ?? []) as ModerationMessage[],
+    sanctions: activeSanctions,
+    rooms: (rooms.data ?? []) as ModerationRoom[],
+    words: (words.data ?? []) as BlockedWord[],
+    actions: (actions.data ?? []) as ModerationAction[],
+  };
+}
+
+/** Soft delete: blank the text for everyone, keep the original in the action log. */
+export async function deleteMessage(admin: SupabaseClient, actorId: string, messageId: string, reason: string | null) {
+  const { data: msg, error } = await admin
+    .from("chat_messages")
+    .select("id, room_id, sender_id, message, deleted_at, hidden_at")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!msg) throw new Error("Message not found");
+  if (msg.deleted_at) return;
+
+  // A report-hidden message's text is stashed (scripts/017-chat-reports.sql)
+  let text: string = msg.message;
+  if (msg.hidden_at) {
+    const { data: hidden, error: hiddenErr } = await admin
+      .from("chat_hidden_messages")
+      .select("message")
+      .eq("message_id", messageId)
+      .maybeSingle();
+    if (hiddenErr) throw hiddenErr;
+    text = hidden?.message ?? text;
+  }
+
+  await logAction(admin, actorId, {
+    action: "delete",
+    room_id: msg.room_id,
+    message_id: msg.id,
+    user_id: msg.sender_id,
+    original_text: text,
+    reason,
+  });
+
+  const { error: updErr } = await admin
+    .from("chat_messages")
+    .update({ deleted_at: new Date().toISOString(), deleted_by: actorId, message: "" })
+    .eq("id", messageId);
+  if (updErr) throw updErr;
+}
+
+/** Undo a delete, using the text saved when it was deleted. */
+export async function restoreMessage(admin: SupabaseClient, actorId: string, messageId: string) {
+  const { data: del, error } = await admin
+    .from("chat_moderation_actions")
+    .select("original_text, room_id, user_id")
+    .eq("action", "delete")
+    .eq("message_id", messageId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!del) throw new Error("No deleted text to restore");
+
+  const { error: updErr } = await admin
+    .from("chat_messages")
+    .update({ deleted_at: null, deleted_by: null, message: del.original_text ?? "" })
+    .eq("id", messageId);
+  if (updErr) throw updErr;
+
+  await logAction(admin, actorId, {
+    action: "restore",
+    room_id: del.room_id,
+    message_id: messageId,
+    user_id: del.user_id,
+  });
+}
+
+/** Leave a flagged message up and take it out of the queue. */
+export async function dismissFlag(admin: SupabaseClient, actorId: string, messageId: string) {
+  const { data, error } = await admin
+    .from("chat_messages")
+    .update({ flagged_at: null, flag_reason: null })
+    .eq("id", messageId)
+    .select("room_id, sender_id")
+    .maybeSingle();
+  if (error) throw error;
+  await logAction(admin, actorId, {
+    action: "dismiss_flag",
+    room_id: data?.room_id ?? null,
+    message_id: messageId,
+    user_id: data?.sender_id ?? null,
+  });
+}
+
+/** Mute or ban; roomId null = every room, minutes null = until lifted. */
+export async function sanctionUser(
+  admin: SupabaseClient,
+  actorId: string,
+  opts: { userId: string; roomId: string | null; kind: SanctionKind; reason: string | null; minutes: number | null }
+) {
+  const expiresAt = opts.minutes ? new Date(Date.now() + opts.minutes * 60_000).toISOString() : null;
+  const { data, error } = await admin
+    .from("chat_sanctions")
+    .insert({
+      user_id: opts.userId,
+      room_id: opts.roomId,
+      kind: opts.kind,
+      reason: opts.reason,
+      expires_at: expiresAt,
+      created_by: actorId,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  await logAction(admin, actorId, {
+    action: opts.kind,
+    room_id: opts.roomId,
+    user_id: opts.userId,
+    reason: opts.reason,
+    details: { sanction_id: data.id, expires_at: expiresAt },
+  });
+}
+
+export async function liftSanction(admin: SupabaseClient, actorId: string, sanctionId: number) {
+  const { data, error } = await admin
+    .from("chat_sanctions")
+    .update({ lifted_at: new Date().toISOString(), lifted_by: actorId })
+    .eq("id", sanctionId)
+    .is("lifted_at", null)
+    .select("user_id, room_id, kind")
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error("Sanction not found or already lifted");
+
+  await logAction(admin, actorId, {
+    action: "lift",
+    room_id: data.room_id,
+    user_id: data.user_id,
+    details: { sanction_id: sanctionId, kind: data.kind },
+  });
+}
+
+export async function updateRoomSettings(
+  admin: SupabaseClient,
+  actorId: string,
+  roomId: string,
+  settings: { slow_mode_seconds?: number; members_only?: boolean; report_hide_threshold?: number }
+) {
+  const patch: { slow_mode_seconds?: number; members_only?: boolean; report_hide_threshold?: number } = {};
+  if (settings.slow_mode_seconds !== undefined) {
+    patch.slow_mode_seconds = Math.min(MAX_SLOW_MODE_SECONDS, Math.max(0, Math.floor(settings.slow_mode_seconds)));
+  }
+  if (settings.members_only !== undefined) patch.members_only = settings.members_only;
+  if (settings.report_hide_threshold !== undefined) {
+    patch.report_hide_threshold = Math.max(1, Math.floor(settings.report_hide_threshold));
+  }
+  if (!Object.keys(patch).length) return;
+
+  const { error } = await admin.from("chat_rooms").update(patch).eq("id", roomId);
+  if (error) throw error;
+  await logAction(admin, actorId, { action: "room_settings", room_id: roomId, details: patch });
+}
+
+export async function addBlockedWord(admin: SupabaseClient, actorId: string, word: string, action: WordAction) {
+  const clean = word.toLowerCase().trim();
+  if (!clean) throw new Error("Word is required");
+  const { error } = await admin
+    .from("chat_blocked_words")
+    .upsert({ word: clean, action, created_by: actorId }, { onConflict: "word" });
+  if (error) throw error;
+  await logAction(admin, actorId, { action: "word_add", details: { word: clean, mode: action } });
+}
+
+export async function removeBlockedWord(admin: SupabaseClient, actorId: string, word: string) {
+  const { error } = await admin.from("chat_blocked_words").delete().eq("word", word);
+  if (error) throw error;
+  await logAction(admin, actorId, { action: "word_remove", details: { word } });
+}
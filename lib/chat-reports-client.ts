@@ -0,0 +1,53 @@
+// lib/chat-reports-client.ts
+// The viewer side of chat reports (scripts/017-chat-reports.sql): the reason
+// list and fileReport(), which files a report with the browser client. Safe
+// for client components; the moderator helpers in lib/chat-reports.ts are
+// server-only.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const REPORT_REASONS = [
+  "spam",
+  "harassment",
+  "hate",
+  "sexual",
+  "violence",
+  "misinformation",
+  "other",
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_REASON_LABEL: Record<ReportReason, string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or bullying",
+  hate: "Hate speech",
+  sexual: "Sexual content",
+  violence: "Violence or threats",
+  misinformation: "Misinformation",
+  other: "Something else",
+};
+
+export function isReportReason(v: unknown): v is ReportReason {
+  return REPORT_REASONS.includes(v as ReportReason);
+}
+
+/** Browser side: report a message as the signed-in viewer. */
+export async function fileReport(
+  client: SupabaseClient,
+  messageId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<void> {
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+  if (!user) throw new Error("Sign in to report a message.");
+
+  const { error } = await client.from("chat_reports").insert({
+    message_id: messageId,
+    reporter_id: user.id,
+    reason,
+    details: details?.trim().slice(0, 500) || null,
+  });
+  // Unique (message_id, reporter_id): reporting twice is a no-op
+  if (error && error.code !== "23505") throw error;
+}
@@ -0,0 +1,185 @@
+// lib/chat-reports.ts
+// Viewer reports on chat messages (scripts/017-chat-reports.sql). Viewers
+// file reports from lib/chat-reports-client.ts; moderators review them
+// grouped by message with the service-role helpers below, reusing the
+// moderation actions from lib/chat-moderation.ts. Server-only.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { deleteMessage, sanctionUser, type SanctionKind } from "@/lib/chat-moderation";
+import type { ReportReason } from "@/lib/chat-reports-client";
+
+export type ReportStatus = "open" | "dismissed" | "actioned";
+
+export type ReportedMessage = {
+  message_id: string;
+  room_id: string | null;
+  room_name: string | null;
+  sender_id: string | null;
+  sender_name: string | null;
+  message: string | null;
+  created_at: string | null;
+  hidden_at: string | null;
+  deleted: boolean;
+  report_count: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+};
+
+type ReportRow = {
+  message_id: string;
+  room_id: string | null;
+  reason: ReportReason;
+  details: string | null;
+  created_at: string;
+};
+
+/** Reports in one status, grouped by message, most-reported first. */
+export async function listReportedMessages(
+  admin: SupabaseClient,
+  status: ReportStatus = "open"
+): Promise<ReportedMessage[]> {
+  const { data, error } = await admin
+    .from("chat_reports")
+    .select("message_id, room_id, reason, details, created_at")
+    .eq("status", status)
+    .order("created_at", { ascending: false })
+    .limit(1000);
+  if (error) throw error;
+
+  const groups = new Map<string, ReportedMessage>();
+  for (const r of (data ?? []) as ReportRow[]) {
+    let g = groups.get(r.message_id);
+    if (!g) {
+      g = {
+        message_id: r.message_id,
+        room_id: r.room_id,
+        room_name: null,
+        sender_id: null,
+        sender_name: null,
+        message: null,
+        created_at: null,
+        hidden_at: null,
+        deleted: false,
+        report_count: 0,
+        reasons: {},
+        details: [],
+        first_reported_at: r.created_at,
+        last_reported_at: r.created_at,
+      };
+      groups.set(r.message_id, g);
+    }
+    g.report_count++;
+    g.reasons[r.reason] = (g.reasons[r.reason] ?? 0) + 1;
+    if (r.details) g.details.push(r.details);
+    if (r.created_at < g.first_reported_at) g.first_reported_at = r.created_at;
+  }
+  if (!groups.size) return [];
+
+  const ids = [...groups.keys()];
+  const roomIds = [...new Set([...groups.values()].map((g) => g.room_id).filter((id): id is string => !!id))];
+  const [messages, hidden, rooms] = await Promise.all([
+    admin
+      .from("chat_messages")
+      .select("id, sender_id, sender_name, message, created_at, hidden_at, deleted_at")
+      .in("id", ids),
+    // Hidden messages are blanked in chat_messages; moderators see the original
+    admin.from("chat_hidden_messages").select("message_id, message").in("message_id", ids),
+    roomIds.length
+      ? admin.from("chat_rooms").select("id, name").in("id", roomIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (messages.error) throw messages.error;
+  if (hidden.error) throw hidden.error;
+
+  const hiddenText = new Map(((hidden.data ?? []) as { message_id: string; message: string }[]).map((h) => [h.message_id, h.message]));
+  const roomNames = new Map(((rooms.data ?? []) as { id: string; name: string }[]).map((r) => [r.id, r.name]));
+  for (const m of messages.data ?? []) {
+    const g = groups.get(m.id as string);
+    if (!g) continue;
+    g.sender_id = m.sender_id;
+    g.sender_name = m.sender_name;
+    g.message = m.hidden_at ? hiddenText.get(m.id as string) ?? m.message : m.message;
+    g.created_at = m.created_at;
+    g.hidden_at = m.hidden_at;
+    g.deleted = !!m.deleted_at;
+  }
+  for (const g of groups.values()) g.room_name = g.room_id ? roomNames.get(g.room_id) ?? null : null;
+
+  return [...groups.values()].sort(
+    (a, b) => b.report_count - a.report_count || b.last_reported_at.localeCompare(a.last_reported_at)
+  );
+}
+
+async function closeReports(admin: SupabaseClient, actorId: string, messageId: string, status: ReportStatus) {
+  const { error } = await admin
+    .from("chat_reports")
+    .update({ status, resolved_by: actorId, resolved_at: new Date().toISOString() })
+    .eq("message_id", messageId)
+    .eq("status", "open");
+  if (error) throw error;
+}
+
+/** Reports were unfounded: close them and show the message again. */
+export async function dismissReports(admin: SupabaseClient, actorId: string, messageId: string) {
+  await closeReports(admin, actorId, messageId, "dismissed");
+  const { error } = await admin.from("chat_messages").update({ hidden_at: null }).eq("id", messageId);
+  if (error) throw error;
+}
+
+export type ReportAction = {
+  deleteMessage: boolean;
+  warn: boolean;
+  warning?: string | null; // extra words for the sender
+  sanction?: { kind: SanctionKind; minutes: number | null } | null;
+};
+
+const WARNING_TITLE = "A message of yours was removed from chat";
+const WARNING_BODY =
+  "Other viewers reported a chat message you posted and a moderator agreed it breaks the community guidelines. Please keep chat respectful.";
+
+/** Reports were right: delete, warn and/or sanction, then close them. */
+export async function actOnReports(admin: SupabaseClient, actorId: string, messageId: string, action: ReportAction) {
+  const { data: msg, error } = await admin
+    .from("chat_messages")
+    .select("id, room_id, sender_id")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!msg) throw new Error("Message not found");
+
+  if (action.deleteMessage) {
+    await deleteMessage(admin, actorId, messageId, "Upheld viewer reports");
+  } else {
+    // Moderator let it stand: an auto-hidden message comes back
+    const { error: showErr } = await admin.from("chat_messages").update({ hidden_at: null }).eq("id", messageId);
+    if (showErr) throw showErr;
+  }
+
+  if (action.sanction) {
+    await sanctionUser(admin, actorId, {
+      userId: msg.sender_id,
+      roomId: msg.room_id,
+      kind: action.sanction.kind,
+      reason: "Upheld viewer reports",
+      minutes: action.sanction.minutes,
+    });
+  }
+
+  let warned = false;
+  if (action.warn) {
+    const extra = action.warning?.trim();
+    const { error: notifyErr } = await admin.from("user_notifications").insert({
+      user_id: msg.sender_id,
+      type: "chat_warning",
+      title: action.deleteMessage ? WARNING_TITLE : "About a message you posted in chat",
+      body: extra ? `${WARNING_BODY} ${extra}` : WARNING_BODY,
+      link: null,
+    });
+    if (notifyErr) console.error("user_notifications insert failed:", notifyErr.message);
+    warned = !notifyErr;
+  }
+
+  await closeReports(admin, actorId, messageId, "actioned");
+  return { warned };
+}
@@ -0,0 +1,370 @@
+// lib/donations.ts
+// Donations: Stripe Checkout in "payment" mode (one-time) or "subscription"
+// mode (monthly), recorded in public.donations by the webhook — one row per
+// successful charge — with a printable receipt for each. See
+// scripts/009-donations.sql. Server-only.
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appUrl } from "@/lib/epg";
+import { sendEmail } from "@/lib/email";
+import { formatPlanPrice } from "@/lib/plans";
+
+export const DONATION_MIN_CENTS = 100;
+export const DONATION_MAX_CENTS = 1_000_000;
+// The processing-fee estimate shown on /donate, rounded up to whole dollars
+const FEE_COVER_PERCENT = 3;
+const CURRENCY = "usd";
+
+const ORG_NAME = process.env.DONATION_ORG_NAME || "Black Truth TV";
+const ORG_EIN = process.env.DONATION_ORG_EIN || "";
+const ORG_ADDRESS = process.env.DONATION_ORG_ADDRESS || "";
+const ORG_EMAIL = process.env.DONATION_ORG_EMAIL || "director@sfjfamilyservices.org";
+
+const DONATION_COLUMNS =
+  "id, receipt_number, receipt_token, donor_id, donor_email, donor_name, amount_cents, fee_cover_cents, refunded_cents, currency, recurring, status, paid_at";
+
+export type Donation = {
+  id: string;
+  receipt_number: string;
+  receipt_token: string;
+  donor_id: string | null;
+  donor_email: string | null;
+  donor_name: string | null;
+  amount_cents: number;
+  fee_cover_cents: number;
+  refunded_cents: number;
+  currency: string;
+  recurring: boolean;
+  status: "paid" | "refunded";
+  paid_at: string;
+};
+
+/** What a donor sees in their history (no receipt token: they're logged in). */
+export type DonationSummary = Omit<Donation, "receipt_token" | "donor_id">;
+
+export type DonationGoal = {
+  id: string;
+  title: string;
+  description: string | null;
+  target_cents: number;
+  currency: string;
+  starts_at: string;
+  ends_at: string | null;
+  raised_cents: number;
+  donation_count: number;
+  donor_count: number;
+};
+
+export type DonationOutcome = {
+  status: "processed" | "skipped";
+  userId: string | null;
+  note: string | null;
+};
+
+export function feeCoverCents(baseCents: number) {
+  return Math.ceil((baseCents * FEE_COVER_PERCENT) / 10_000) * 100;
+}
+
+function idOf(v: string | { id: string } | null | undefined) {
+  if (!v) return null;
+  return typeof v === "string" ? v : v.id;
+}
+
+export function receiptUrl(d: Pick<Donation, "id" | "receipt_token">) {
+  return `${appUrl()}/api/donations/${d.id}/receipt?token=${d.receipt_token}`;
+}
+
+/** Checkout session for a one-time or monthly donation. Login is optional. */
+export async function createDonationCheckout(
+  stripe: Stripe,
+  opts: {
+    baseCents: number;
+    recurring: boolean;
+    coverFees: boolean;
+    donorId: string | null;
+    donorEmail: string | null;
+    customerId: string | null;
+  }
+): Promise<string> {
+  const feeCents = opts.coverFees ? feeCoverCents(opts.baseCents) : 0;
+  const amount = opts.baseCents + feeCents;
+  const metadata = {
+    donation: "1",
+    fee_cover_cents: String(feeCents),
+    ...(opts.donorId ? { supabase_user_id: opts.donorId } : {}),
+  };
+
+  const site = appUrl();
+  const session = await stripe.checkout.sessions.create({
+    mode: opts.recurring ? "subscription" : "payment",
+    ...(opts.customerId
+      ? { customer: opts.customerId }
+      : opts.donorEmail
+        ? { customer_email: opts.donorEmail }
+        : {}),
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: CURRENCY,
+          unit_amount: amount,
+          product_data: { name: `Donation to ${ORG_NAME}${opts.recurring ? " (monthly)" : ""}` },
+          ...(opts.recurring ? { recurring: { interval: "month" as const } } : {}),
+        },
+      },
+    ],
+    // The subscription carries the flag too, so its invoices (and its
+    // subscription events) are told apart from memberships.
+    ...(opts.recurring
+      ? { subscription_data: { metadata } }
+      : { payment_intent_data: { metadata }, submit_type: "donate" as const }),
+    metadata,
+    success_url: `${site}/donate?thanks=1`,
+    cancel_url: `${site}/donate?cancelled=1`,
+  });
+
+  if (!session.url) throw new Error("Stripe did not return a checkout URL");
+  return session.url;
+}
+
+function receiptEmailText(d: Donation) {
+  const amount = formatPlanPrice({ amount_cents: d.amount_cents, currency: d.currency });
+  return [
+    `Thank you for your ${d.recurring ? "monthly " : ""}donation of ${amount} to ${ORG_NAME}.`,
+    "",
+    `Receipt number: ${d.receipt_number}`,
+    `Date: ${new Date(d.paid_at).toLocaleDateString("en-US", { dateStyle: "long" })}`,
+    "",
+    `Your receipt, for your tax records: ${receiptUrl(d)}`,
+    "",
+    "No goods or services were provided in exchange for this contribution.",
+    ...(d.recurring ? ["", `To change or stop your monthly gift, reply to this email or write to ${ORG_EMAIL}.`] : []),
+  ].join("\n");
+}
+
+/**
+ * Insert a donation once per charge (the unique Stripe id makes redelivery
+ * a no-op) and email the receipt on first insert only.
+ */
+async function recordDonation(
+  admin: SupabaseClient,
+  row: Record<string, unknown>,
+  onConflict: "stripe_checkout_session_id" | "stripe_invoice_id"
+): Promise<DonationOutcome> {
+  const userId = (row.donor_id as string | null) ?? null;
+  const { data, error } = await admin
+    .from("donations")
+    .upsert(row, { onConflict, ignoreDuplicates: true })
+    .select(DONATION_COLUMNS);
+  if (error) throw error;
+
+  const donation = data?.[0] as Donation | undefined;
+  if (!donation) return { status: "skipped", userId, note: "Donation already recorded" };
+
+  if (donation.donor_email) {
+    await sendEmail({
+      to: donation.donor_email,
+      subject: `Your donation receipt (${donation.receipt_number})`,
+      text: receiptEmailText(donation),
+      replyTo: ORG_EMAIL,
+    });
+  }
+  return { status: "processed", userId, note: null };
+}
+
+/** checkout.session.completed for a one-time donation. */
+export async function recordDonationCheckout(
+  admin: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  eventId: string
+): Promise<DonationOutcome> {
+  const userId = session.metadata?.supabase_user_id ?? null;
+  if (session.payment_status !== "paid") {
+    return { status: "skipped", userId, note: `Donation payment ${session.payment_status}` };
+  }
+  return recordDonation(
+    admin,
+    {
+      donor_id: userId,
+      donor_email: session.customer_details?.email ?? session.customer_email ?? null,
+      donor_name: session.customer_details?.name ?? null,
+      amount_cents: session.amount_total ?? 0,
+      fee_cover_cents: Number(session.metadata?.fee_cover_cents) || 0,
+      currency: session.currency ?? CURRENCY,
+      recurring: false,
+      stripe_checkout_session_id: session.id,
+      stripe_payment_intent_id: idOf(session.payment_intent),
+      stripe_event_id: eventId,
+      paid_at: new Date(session.created * 1000).toISOString(),
+    },
+    "stripe_checkout_session_id"
+  );
+}
+
+/** invoice.payment_succeeded for a monthly donation: one row per invoice. */
+export async function recordDonationInvoice(
+  admin: SupabaseClient,
+  invoice: Stripe.Invoice,
+  sub: Stripe.Subscription,
+  eventId: string
+): Promise<DonationOutcome> {
+  const userId = sub.metadata?.supabase_user_id ?? null;
+  if (!invoice.amount_paid) {
+    return { status: "skipped", userId, note: "Nothing paid on invoice" };
+  }
+  const paidAt = invoice.status_transitions?.paid_at ?? invoice.created;
+  return recordDonation(
+    admin,
+    {
+      donor_id: userId,
+      donor_email: invoice.customer_email ?? null,
+      donor_name: invoice.customer_name ?? null,
+      amount_cents: invoice.amount_paid,
+      fee_cover_cents: Number(sub.metadata?.fee_cover_cents) || 0,
+      currency: invoice.currency ?? CURRENCY,
+      recurring: true,
+      stripe_invoice_id: invoice.id,
+      stripe_subscription_id: sub.id,
+      stripe_payment_intent_id: idOf(invoice.payment_intent),
+      stripe_event_id: eventId,
+      paid_at: new Date(paidAt * 1000).toISOString(),
+    },
+    "stripe_invoice_id"
+  );
+}
+
+/** charge.refunded: net the refund out of the donation (and the goal). */
+export async function markDonationRefunded(
+  admin: SupabaseClient,
+  charge: Stripe.Charge
+): Promise<DonationOutcome> {
+  const paymentIntent = idOf(charge.payment_intent);
+  if (!paymentIntent) return { status: "skipped", userId: null, note: "Charge has no payment intent" };
+
+  const { data, error } = await admin
+    .from("donations")
+    .update({
+      refunded_cents: charge.amount_refunded,
+      status: charge.refunded ? "refunded" : "paid",
+    })
+    .eq("stripe_payment_intent_id", paymentIntent)
+    .select("donor_id");
+  if (error) throw error;
+  if (!data?.length) return { status: "skipped", userId: null, note: "Not a donation charge" };
+  return { status: "processed", userId: data[0].donor_id ?? null, note: null };
+}
+
+/** The active goal (latest started) with its net total so far, or null. */
+export async function getActiveGoal(client: SupabaseClient): Promise<DonationGoal | null> {
+  const now = new Date().toISOString();
+  const { data: goal, error } = await client
+    .from("donation_goals")
+    .select("id, title, description, target_cents, currency, starts_at, ends_at")
+    .eq("active", true)
+    .lte("starts_at", now)
+    .or(`ends_at.is.null,ends_at.gt.${now}`)
+    .order("starts_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!goal) return null;
+
+  const { data: totals, error: totalsErr } = await client.rpc("donation_totals", {
+    p_since: goal.starts_at,
+    p_until: goal.ends_at,
+  });
+  if (totalsErr) throw totalsErr;
+  const t = (Array.isArray(totals) ? totals[0] : totals) ?? {};
+
+  return {
+    ...goal,
+    raised_cents: Number(t.raised_cents ?? 0),
+    donation_count: Number(t.donation_count ?? 0),
+    donor_count: Number(t.donor_count ?? 0),
+  };
+}
+
+/** A donor's own donations, newest first. */
+export async function listDonations(admin: SupabaseClient, donorId: string): Promise<DonationSummary[]> {
+  const { data, error } = await admin
+    .from("donations")
+    .select(DONATION_COLUMNS)
+    .eq("donor_id", donorId)
+    .order("paid_at", { ascending: false })
+    .limit(100);
+  if (error) throw error;
+  return ((data ?? []) as Donation[]).map(({ receipt_token: _t, donor_id: _d, ...d }) => d);
+}
+
+export async function getDonation(admin: SupabaseClient, id: string): Promise<Donation | null> {
+  const { data, error } = await admin.from("donations").select(DONATION_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return (data as Donation | null) ?? null;
+}
+
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Standalone receipt page. Print styles keep it to one clean page, so the
+ * browser's "Save as PDF" gives the donor a PDF copy.
+ */
+export function renderReceiptHtml(d: Donation): string {
+  const money = (cents: number) => escapeHtml(formatPlanPrice({ amount_cents: cents, currency: d.currency }));
+  const date = new Date(d.paid_at).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" });
+  const net = d.amount_cents - d.refunded_cents;
+  const rows: [string, string][] = [
+    ["Receipt number", escapeHtml(d.receipt_number)],
+    ["Date received", escapeHtml(date)],
+    ["Donor", escapeHtml(d.donor_name || d.donor_email || "Anonymous donor")],
+    ...(d.donor_name && d.donor_email ? [["Email", escapeHtml(d.donor_email)] as [string, string]] : []),
+    ["Type", d.recurring ? "Monthly recurring gift (this payment)" : "One-time gift"],
+    ["Amount", money(d.amount_cents)],
+    ...(d.fee_cover_cents ? [["Of which processing-fee cover", money(d.fee_cover_cents)] as [string, string]] : []),
+    ...(d.refunded_cents ? [["Refunded", money(d.refunded_cents)] as [string, string]] : []),
+    ["Contribution", money(net)],
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Donation receipt ${escapeHtml(d.receipt_number)}</title>
+<style>
+  body { font-family: Georgia, "Times New Roman", serif; color: #111; max-width: 640px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .org { color: #555; font-size: 14px; margin-bottom: 32px; }
+  table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+  td { padding: 8px 0; border-bottom: 1px solid #ddd; vertical-align: top; }
+  td:first-child { color: #555; width: 45%; }
+  .total td { font-weight: bold; border-bottom: 2px solid #111; }
+  .note { font-size: 14px; line-height: 1.5; }
+  .refunded { color: #b91c1c; font-weight: bold; }
+  .actions { margin-top: 32px; }
+  .actions button { font: inherit; padding: 8px 16px; cursor: pointer; }
+  @media print { .actions { display: none; } body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<h1>Donation receipt</h1>
+<div class="org">
+  ${escapeHtml(ORG_NAME)}${ORG_ADDRESS ? `<br>${escapeHtml(ORG_ADDRESS)}` : ""}${ORG_EIN ? `<br>EIN ${escapeHtml(ORG_EIN)}` : ""}<br>${escapeHtml(ORG_EMAIL)}
+</div>
+${d.status === "refunded" ? `<p class="refunded">This donation was refunded and is not a deductible contribution.</p>` : ""}
+<table>
+${rows.map(([k, v], i) => `  <tr${i === rows.length - 1 ? ` class="total"` : ""}><td>${k}</td><td>${v}</td></tr>`).join("\n")}
+</table>
+<p class="note">Thank you for supporting ${escapeHtml(ORG_NAME)}. No goods or services were provided in exchange for this contribution. Please keep this receipt for your tax records.</p>
+<div class="actions"><button type="button" onclick="window.print()">Print / Save as PDF</button></div>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,48 @@
+// lib/email.ts
+// Transactional email via Resend's HTTP API (no SDK). Without
+// RESEND_API_KEY sends are skipped with a warning, as in /api/contact.
+
+// Use Resend's onboarding sender until the domain is verified
+const FROM = process.env.EMAIL_FROM || "Black Truth TV <onboarding@resend.dev>";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+};
+
+/** Returns true when Resend accepted the message. Never throws. */
+export async function sendEmail(msg: EmailMessage): Promise<boolean> {
+  const key = process.env.RESEND_API_KEY || "";
+  if (!key) {
+    console.warn("RESEND_API_KEY missing; skipping email send.");
+    return false;
+  }
+
+  try {
+    const res = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${key}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: FROM,
+        to: msg.to,
+        subject: msg.subject,
+        text: msg.text,
+        ...(msg.replyTo ? { reply_to: msg.replyTo } : {}),
+      }),
+    });
+    if (!res.ok) {
+      const errText = await res.text().catch(() => "");
+      console.error("Resend HTTP error:", res.status, errText);
+      return false;
+    }
+    return true;
+  } catch (e: any) {
+    console.error("Resend request failed:", e?.message || e);
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ANONYMOUS, RENEWAL_SLACK_MS, resolveEntitlements, type EntitlementProfile } from "@/lib/entitlements";
+
+const NOW = Date.UTC(2024, 0, 15, 12, 0, 0); // 2024-01-15T12:00:00Z
+const HOUR = 3600_000;
+const SLACK_END = NOW - RENEWAL_SLACK_MS;
+
+function iso(ms: number) {
+  return new Date(ms).toISOString();
+}
+
+function resolve(profile: EntitlementProfile | null) {
+  return resolveEntitlements("u1", profile, NOW);
+}
+
+describe("resolveEntitlements", () => {
+  it("is anonymous without a user", () => {
+    expect(resolveEntitlements(null, { membership_status: "active" }, NOW)).toBe(ANONYMOUS);
+  });
+
+  it("treats a missing profile as a free account", () => {
+    const ent = resolve(null);
+    expect(ent).toMatchObject({ userId: "u1", status: "free", tier: "free", paid: false, basis: null });
+  });
+
+  it("gives admins paid access whatever their membership says", () => {
+    const ent = resolve({ role: " Admin ", membership_status: "canceled" });
+    expect(ent).toMatchObject({ isAdmin: true, tier: "admin", paid: true, basis: "admin" });
+  });
+
+  it("keeps a subscriber inside the renewal slack, and drops them after it", () => {
+    const justLapsed = resolve({ membership_status: "active", membership_ends_at: iso(SLACK_END + HOUR) });
+    expect(justLapsed).toMatchObject({ paid: true, basis: "subscription", tier: "member" });
+
+    const pastSlack = resolve({ membership_status: "active", membership_ends_at: iso(SLACK_END - HOUR) });
+    expect(pastSlack).toMatchObject({ paid: false, basis: null, tier: "free" });
+  });
+
+  it("counts an active subscription with no end date", () => {
+    const ent = resolve({ membership_status: "ACTIVE" });
+    expect(ent).toMatchObject({ status: "active", paid: true, basis: "subscription" });
+  });
+
+  it("reports trials as their own basis", () => {
+    const ent = resolve({ membership_status: "trialing", membership_ends_at: iso(NOW + 24 * HOUR) });
+    expect(ent).toMatchObject({ paid: true, basis: "trial", tier: "member" });
+  });
+
+  it("ends a gift exactly at membership_ends_at, with no slack", () => {
+    const live = resolve({ membership_status: "gift", membership_ends_at: iso(NOW + HOUR) });
+    expect(live).toMatchObject({ paid: true, basis: "gift" });
+
+    const ended = resolve({ membership_status: "gift", membership_ends_at: iso(NOW - HOUR) });
+    expect(ended).toMatchObject({ paid: false, basis: null });
+
+    const open = resolve({ membership_status: "gift" });
+    expect(open.paid).toBe(false);
+  });
+
+  it("keeps a lapsed member paid while grace lasts", () => {
+    const inGrace = resolve({
+      membership_status: "past_due",
+      membership_tier: "constructiq",
+      grace_until: iso(NOW + HOUR),
+    });
+    expect(inGrace).toMatchObject({ paid: true, basis: "grace", inGrace: true, tier: "constructiq" });
+
+    const graceOver = resolve({ membership_status: "past_due", grace_until: iso(NOW - HOUR) });
+    expect(graceOver).toMatchObject({ paid: false, inGrace: false, tier: "free" });
+  });
+
+  it("doesn't report grace for someone who is paid anyway", () => {
+    const ent = resolve({ membership_status: "active", grace_until: iso(NOW + HOUR) });
+    expect(ent).toMatchObject({ basis: "subscription", inGrace: false });
+  });
+
+  it("gives partner plans their own tier only while paid", () => {
+    const paid = resolve({ membership_status: "active", membership_tier: "ConstructIQ" });
+    expect(paid.tier).toBe("constructiq");
+
+    const unpaid = resolve({ membership_status: "canceled", membership_tier: "constructiq" });
+    expect(unpaid.tier).toBe("free");
+  });
+});
@@ -0,0 +1,125 @@
+// lib/entitlements.ts
+// One answer to "what is this user entitled to?", shared by every gate:
+// /api/channel-access, /api/media/signed-url, IPTV tokens and middleware.
+// Edge-safe (no next/headers) so middleware can import it.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  canAccessWithRules,
+  getChannelAccessRules,
+  type ViewerTier,
+} from "@/lib/protected-channels";
+
+export type EntitlementTier = Exclude<ViewerTier, null>;
+
+export const ENTITLEMENT_PROFILE_COLUMNS =
+  "role, membership_tier, membership_status, membership_ends_at, grace_until";
+
+export type EntitlementProfile = {
+  role?: string | null;
+  membership_tier?: string | null;
+  membership_status?: string | null;
+  membership_ends_at?: string | null;
+  grace_until?: string | null;
+};
+
+// Why the user currently has paid access (null = they don't)
+export type EntitlementBasis = "admin" | "subscription" | "trial" | "gift" | "grace" | null;
+
+export type Entitlements = {
+  userId: string | null;
+  isAdmin: boolean;
+  status: string; // membership_status, lower-cased; "free" when unset
+  tier: EntitlementTier; // what channel gates see
+  paid: boolean; // active/trialing/gift, or lapsed but still inside grace
+  basis: EntitlementBasis;
+  inGrace: boolean;
+  graceUntil: string | null;
+  expiresAt: string | null; // membership_ends_at: billing period, trial or gift end
+};
+
+// Renewals (and trial conversions) land via webhook after the period ends;
+// don't cut a subscriber off while Stripe is still retrying the charge.
+// Gifts have no renewal, so they end exactly at membership_ends_at.
+export const RENEWAL_SLACK_MS = 3 * 24 * 3600_000;
+
+function futureMs(iso: string | null | undefined, nowMs: number) {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? ms - nowMs : null;
+}
+
+export const ANONYMOUS: Entitlements = {
+  userId: null,
+  isAdmin: false,
+  status: "free",
+  tier: "free",
+  paid: false,
+  basis: null,
+  inGrace: false,
+  graceUntil: null,
+  expiresAt: null,
+};
+
+/** Pure decision from a user_profiles row. */
+export function resolveEntitlements(
+  userId: string | null,
+  profile: EntitlementProfile | null,
+  nowMs = Date.now()
+): Entitlements {
+  if (!userId) return ANONYMOUS;
+
+  const role = String(profile?.role ?? "").toLowerCase().trim();
+  const status = String(profile?.membership_status || "free").toLowerCase().trim();
+  const graceUntil = profile?.grace_until ?? null;
+  const expiresAt = profile?.membership_ends_at ?? null;
+  const base = { userId, status, graceUntil, expiresAt };
+
+  if (role === "admin") {
+    return { ...base, isAdmin: true, tier: "admin", paid: true, basis: "admin", inGrace: false };
+  }
+
+  const untilExpiry = futureMs(expiresAt, nowMs);
+  const subscribed =
+    (status === "active" || status === "trialing") &&
+    (untilExpiry === null || untilExpiry > -RENEWAL_SLACK_MS);
+  const gifted = status === "gift" && untilExpiry !== null && untilExpiry > 0;
+  const active = subscribed || gifted;
+  const inGrace = !active && (futureMs(graceUntil, nowMs) ?? 0) > 0;
+  const paid = active || inGrace;
+  const basis: EntitlementBasis = gifted
+    ? "gift"
+    : subscribed
+      ? status === "trialing" ? "trial" : "subscription"
+      : inGrace ? "grace" : null;
+
+  const plan = String(profile?.membership_tier ?? "").toLowerCase().trim();
+  const tier: EntitlementTier = !paid ? "free" : plan === "constructiq" ? "constructiq" : "member";
+
+  return { ...base, isAdmin: false, tier, paid, basis, inGrace };
+}
+
+/** Read the profile and resolve. A failed read resolves as a free account. */
+export async function loadEntitlements(
+  client: SupabaseClient,
+  userId: string | null
+): Promise<Entitlements> {
+  if (!userId) return ANONYMOUS;
+  const { data, error } = await client
+    .from("user_profiles")
+    .select(ENTITLEMENT_PROFILE_COLUMNS)
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) console.error("loadEntitlements:", error.message);
+  return resolveEntitlements(userId, (data as EntitlementProfile | null) ?? null);
+}
+
+/** The signed-in user's entitlements for a session-bound client. */
+export async function loadSessionEntitlements(client: SupabaseClient): Promise<Entitlements> {
+  const { data } = await client.auth.getUser();
+  return loadEntitlements(client, data?.user?.id ?? null);
+}
+
+export async function canWatchChannel(ent: Entitlements, channelId: number): Promise<boolean> {
+  if (ent.isAdmin) return true;
+  return canAccessWithRules(await getChannelAccessRules(), channelId, ent.tier);
+}
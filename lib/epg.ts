@@ -0,0 +1,211 @@
+// lib/epg.ts
+// Electronic program guide export (XMLTV + JSON) built from `channels` and
+// `programs`. Member-only channels are listed but flagged so third-party
+// guides can show them as locked.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getChannelAccessRules, ruleFor } from "@/lib/protected-channels";
+import {
+  isRealProgram,
+  normalizeProgram,
+  programsInWindow,
+  type ScheduleProgram,
+} from "@/lib/schedule";
+
+export const EPG_DEFAULT_HOURS = 24;
+export const EPG_MAX_HOURS = 168; // one week
+const LOOKBACK_HOURS = 6;         // pick up programs already airing at window start
+const PAGE_SIZE = 1000;           // Supabase's silent per-select cap
+const MAX_PAGES = 30;
+
+export const EPG_CACHE_CONTROL = "public, s-maxage=300, stale-while-revalidate=600";
+
+type ChannelRow = {
+  id: number | string;
+  name: string | null;
+  description?: string | null;
+  logo_url: string | null;
+};
+
+type ProgramRow = ScheduleProgram & {
+  channel_id: number;
+  title: string | null;
+  mp4_url: string | null;
+  start_time: string;
+  duration: number | string | null;
+};
+
+export type EpgChannel = {
+  id: number;
+  xmltv_id: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  watch_url: string;
+  requires_membership: boolean;
+};
+
+export type EpgProgram = {
+  channel_id: number;
+  title: string;
+  start: string; // ISO UTC
+  stop: string;  // ISO UTC
+  duration: number; // seconds
+};
+
+export type Epg = {
+  generated_at: string;
+  window: { from: string; to: string };
+  channels: EpgChannel[];
+  programs: EpgProgram[];
+};
+
+export function appUrl() {
+  return (process.env.NEXT_PUBLIC_APP_URL || "https://www.blacktruthtv.org").replace(/\/+$/, "");
+}
+
+export function xmltvChannelId(channelId: number) {
+  return `channel${channelId}.blacktruthtv`;
+}
+
+/** Parse ?hours= into a sane window length. */
+export function parseEpgHours(raw: string | null): number {
+  const n = Number(raw);
+  if (!raw || !Number.isFinite(n) || n <= 0) return EPG_DEFAULT_HOURS;
+  return Math.min(EPG_MAX_HOURS, Math.ceil(n));
+}
+
+async function loadPrograms(client: SupabaseClient, fromIso: string, toIso: string) {
+  const rows: ProgramRow[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, error } = await client
+      .from("programs")
+      .select("channel_id, title, mp4_url, start_time, duration")
+      .gte("start_time", fromIso)
+      .lt("start_time", toIso)
+      .order("channel_id", { ascending: true })
+      .order("start_time", { ascending: true })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as ProgramRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Channels + real (non-standby) programs overlapping [fromMs, fromMs + hours). */
+export async function buildEpg(
+  client: SupabaseClient,
+  opts: { fromMs?: number; hours?: number } = {}
+): Promise<Epg> {
+  const fromMs = opts.fromMs ?? Date.now();
+  const toMs = fromMs + (opts.hours ?? EPG_DEFAULT_HOURS) * 3600_000;
+  const site = appUrl();
+
+  const { data: chRows, error: chErr } = await client
+    .from("channels")
+    .select("id, name, description, logo_url")
+    .order("id", { ascending: true });
+  if (chErr) throw chErr;
+  const rules = await getChannelAccessRules();
+
+  const channels: EpgChannel[] = ((chRows ?? []) as ChannelRow[])
+    .map((c) => {
+      const id = Number(c.id);
+      return {
+        id,
+        xmltv_id: xmltvChannelId(id),
+        name: c.name || `Channel ${id}`,
+        description: c.description ?? null,
+        logo_url: c.logo_url ?? null,
+        watch_url: `${site}/watch/${id}`,
+        requires_membership: ruleFor(rules, id).accessTier === "member",
+      };
+    })
+    .filter((c) => Number.isFinite(c.id))
+    .sort((a, b) => a.id - b.id);
+
+  const rows = await loadPrograms(
+    client,
+    new Date(fromMs - LOOKBACK_HOURS * 3600_000).toISOString(),
+    new Date(toMs).toISOString()
+  );
+
+  const known = new Set(channels.map((c) => c.id));
+  const programs: EpgProgram[] = programsInWindow(rows.filter(isRealProgram), fromMs, toMs)
+    .filter((p) => known.has(Number(p.channel_id)))
+    .map((p) => {
+      const t = normalizeProgram(p);
+      return {
+        channel_id: Number(p.channel_id),
+        title: p.title || "Untitled",
+        start: new Date(t.startMs).toISOString(),
+        stop: new Date(t.endMs).toISOString(),
+        duration: t.durationSec,
+      };
+    })
+    .sort((a, b) => a.channel_id - b.channel_id || a.start.localeCompare(b.start));
+
+  return {
+    generated_at: new Date().toISOString(),
+    window: { from: new Date(fromMs).toISOString(), to: new Date(toMs).toISOString() },
+    channels,
+    programs,
+  };
+}
+
+/* ---------- XMLTV ---------- */
+
+function xmlEscape(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** XMLTV timestamps: "YYYYMMDDHHMMSS +0000" */
+function xmltvTime(iso: string) {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())} +0000`
+  );
+}
+
+export function epgToXmltv(epg: Epg): string {
+  const byId = new Map(epg.channels.map((c) => [c.id, c]));
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE tv SYSTEM "xmltv.dtd">',
+    `<tv generator-info-name="Black Truth TV" source-info-url="${xmlEscape(appUrl())}">`,
+  ];
+
+  for (const c of epg.channels) {
+    out.push(`  <channel id="${xmlEscape(c.xmltv_id)}">`);
+    out.push(`    <display-name lang="en">${xmlEscape(c.name)}</display-name>`);
+    out.push(`    <display-name>${c.id}</display-name>`);
+    if (c.logo_url) out.push(`    <icon src="${xmlEscape(c.logo_url)}" />`);
+    out.push(`    <url>${xmlEscape(c.watch_url)}</url>`);
+    out.push("  </channel>");
+  }
+
+  for (const p of epg.programs) {
+    const c = byId.get(p.channel_id);
+    if (!c) continue;
+    out.push(
+      `  <programme start="${xmltvTime(p.start)}" stop="${xmltvTime(p.stop)}" channel="${xmlEscape(c.xmltv_id)}">`
+    );
+    out.push(`    <title lang="en">${xmlEscape(p.title)}</title>`);
+    if (c.requires_membership) {
+      out.push('    <desc lang="en">Members only — requires a Black Truth TV membership.</desc>');
+      out.push('    <category lang="en">Members Only</category>');
+    }
+    out.push("  </programme>");
+  }
+
+  out.push("</tv>");
+  return out.join("\n") + "\n";
+}
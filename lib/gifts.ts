@@ -0,0 +1,275 @@
+// lib/gifts.ts
+// Gift memberships: a purchaser pays once (Stripe Checkout, mode "payment")
+// for N months, receives a code, and whoever redeems it gets
+// membership_status = 'gift' until membership_ends_at. Server-only.
+import { randomBytes } from "crypto";
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appUrl } from "@/lib/epg";
+import { sendEmail } from "@/lib/email";
+import { DEFAULT_PLAN_KEY, getPlan, formatPlanPrice } from "@/lib/plans";
+
+export const GIFT_MONTHS = [1, 3, 6, 12] as const;
+export type GiftMonths = (typeof GIFT_MONTHS)[number];
+
+const ANNUAL_PLAN_KEY = "membership_annual";
+// No 0/O/1/I: codes get read aloud and typed from printed cards
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Statuses backed by a live Stripe subscription; a gift can't stack on these
+const SUBSCRIBED_STATUSES = new Set(["active", "trialing", "past_due"]);
+
+export type GiftRow = {
+  code: string;
+  months: number;
+  amount_cents: number;
+  currency: string;
+  recipient_email: string | null;
+  message: string | null;
+  status: "pending" | "paid" | "redeemed" | "void";
+  redeemed_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+};
+
+export type RedeemResult =
+  | { ok: true; endsAt: string; months: number }
+  | { ok: false; status: number; error: string };
+
+export function isGiftMonths(n: unknown): n is GiftMonths {
+  return GIFT_MONTHS.includes(Number(n) as GiftMonths);
+}
+
+export function generateGiftCode() {
+  const bytes = randomBytes(12);
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]);
+  return `GIFT-${chars.slice(0, 4).join("")}-${chars.slice(4, 8).join("")}-${chars.slice(8).join("")}`;
+}
+
+export function normalizeGiftCode(raw: string) {
+  return raw.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+function addMonths(fromMs: number, months: number) {
+  const d = new Date(fromMs);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+/** Gift price in cents: the annual plan for 12 months, else monthly × months. */
+export async function giftPriceCents(admin: SupabaseClient, months: GiftMonths) {
+  const monthly = await getPlan(admin, DEFAULT_PLAN_KEY);
+  if (!monthly) throw new Error("Monthly plan missing from plans catalog");
+  if (months === 12) {
+    const annual = await getPlan(admin, ANNUAL_PLAN_KEY);
+    if (annual?.active) return { amount: annual.amount_cents, currency: annual.currency };
+  }
+  return { amount: monthly.amount_cents * months, currency: monthly.currency };
+}
+
+/** Create the pending gift row and its Checkout session. */
+export async function createGiftCheckout(
+  admin: SupabaseClient,
+  stripe: Stripe,
+  opts: {
+    purchaserId: string;
+    purchaserEmail: string | null;
+    customerId: string | null;
+    months: GiftMonths;
+    recipientEmail: string | null;
+    message: string | null;
+  }
+): Promise<string> {
+  const { amount, currency } = await giftPriceCents(admin, opts.months);
+  const code = generateGiftCode();
+
+  const { error } = await admin.from("gift_codes").insert({
+    code,
+    months: opts.months,
+    amount_cents: amount,
+    currency,
+    purchaser_id: opts.purchaserId,
+    purchaser_email: opts.purchaserEmail,
+    recipient_email: opts.recipientEmail,
+    message: opts.message,
+  });
+  if (error) throw error;
+
+  const site = appUrl();
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    ...(opts.customerId
+      ? { customer: opts.customerId }
+      : opts.purchaserEmail
+        ? { customer_email: opts.purchaserEmail }
+        : {}),
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency,
+          unit_amount: amount,
+          product_data: {
+            name: `Black Truth TV gift membership — ${opts.months} month${opts.months === 1 ? "" : "s"}`,
+          },
+        },
+      },
+    ],
+    metadata: { gift_code: code, supabase_user_id: opts.purchaserId },
+    success_url: `${site}/gift?purchased=1`,
+    cancel_url: `${site}/gift?cancelled=1`,
+  });
+
+  await admin.from("gift_codes").update({ stripe_checkout_session_id: session.id }).eq("code", code);
+  if (!session.url) throw new Error("Stripe did not return a checkout URL");
+  return session.url;
+}
+
+function giftEmailText(gift: GiftRow, forRecipient: boolean) {
+  const redeem = `${appUrl()}/gift/redeem?code=${encodeURIComponent(gift.code)}`;
+  const length = `${gift.months} month${gift.months === 1 ? "" : "s"}`;
+  return [
+    forRecipient
+      ? `Someone gave you ${length} of Black Truth TV membership.`
+      : `Thank you for giving ${length} of Black Truth TV membership (${formatPlanPrice({ amount_cents: gift.amount_cents, currency: gift.currency })}).`,
+    gift.message ? `\nMessage: ${gift.message}\n` : "",
+    `Gift code: ${gift.code}`,
+    `Redeem it here: ${redeem}`,
+    "",
+    "The membership starts when the code is redeemed.",
+  ].join("\n");
+}
+
+/**
+ * checkout.session.completed for a gift: mark it paid (once) and email the
+ * code to the purchaser and, if given, the recipient.
+ */
+export async function markGiftPaid(
+  admin: SupabaseClient,
+  session: Stripe.Checkout.Session
+): Promise<{ status: "processed" | "skipped"; userId: string | null; note: string | null }> {
+  const code = session.metadata?.gift_code;
+  const userId = session.metadata?.supabase_user_id ?? null;
+  if (!code) return { status: "skipped", userId, note: "Not a gift checkout" };
+  if (session.payment_status !== "paid") {
+    return { status: "skipped", userId, note: `Gift ${code} payment ${session.payment_status}` };
+  }
+
+  const { data, error } = await admin
+    .from("gift_codes")
+    .update({ status: "paid", paid_at: new Date().toISOString() })
+    .eq("code", code)
+    .eq("status", "pending")
+    .select("code, months, amount_cents, currency, recipient_email, message, status, redeemed_at, paid_at, created_at, purchaser_email");
+  if (error) throw error;
+
+  const gift = data?.[0] as (GiftRow & { purchaser_email: string | null }) | undefined;
+  if (!gift) return { status: "skipped", userId, note: `Gift ${code} already paid` };
+
+  const purchaserEmail = gift.purchaser_email || session.customer_details?.email || null;
+  if (purchaserEmail) {
+    await sendEmail({
+      to: purchaserEmail,
+      subject: "Your Black Truth TV gift code",
+      text: giftEmailText(gift, false),
+    });
+  }
+  if (gift.recipient_email) {
+    await sendEmail({
+      to: gift.recipient_email,
+      subject: "You've been given a Black Truth TV membership",
+      text: giftEmailText(gift, true),
+    });
+  }
+
+  return { status: "processed", userId, note: null };
+}
+
+/** Gifts bought by this user, newest first (codes of unpaid gifts hidden). */
+export async function listPurchasedGifts(admin: SupabaseClient, userId: string): Promise<GiftRow[]> {
+  const { data, error } = await admin
+    .from("gift_codes")
+    .select("code, months, amount_cents, currency, recipient_email, message, status, redeemed_at, paid_at, created_at")
+    .eq("purchaser_id", userId)
+    .neq("status", "void")
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (error) throw error;
+  return ((data ?? []) as GiftRow[]).map((g) => (g.status === "pending" ? { ...g, code: "" } : g));
+}
+
+/**
+ * Claim a paid gift for userId. A gift on top of an unexpired gift extends
+ * it; a member with a live subscription can't redeem (nothing to extend).
+ */
+export async function redeemGift(
+  admin: SupabaseClient,
+  userId: string,
+  rawCode: string
+): Promise<RedeemResult> {
+  const code = normalizeGiftCode(rawCode);
+  if (!code) return { ok: false, status: 400, error: "Enter a gift code." };
+
+  const { data: profile, error: profErr } = await admin
+    .from("user_profiles")
+    .select("membership_status, membership_ends_at")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profErr) throw profErr;
+  if (!profile) return { ok: false, status: 404, error: "Profile not found." };
+
+  const status = String(profile.membership_status || "").toLowerCase();
+  if (SUBSCRIBED_STATUSES.has(status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: "You already have an active membership. Keep this code, or pass it on to someone else.",
+    };
+  }
+
+  const { data: claimed, error: claimErr } = await admin
+    .from("gift_codes")
+    .update({ status: "redeemed", redeemed_by: userId, redeemed_at: new Date().toISOString() })
+    .eq("code", code)
+    .eq("status", "paid")
+    .select("months");
+  if (claimErr) throw claimErr;
+
+  if (!claimed?.length) {
+    const { data: existing } = await admin.from("gift_codes").select("status").eq("code", code).maybeSingle();
+    if (!existing || existing.status === "void") return { ok: false, status: 404, error: "That gift code doesn't exist." };
+    if (existing.status === "redeemed") return { ok: false, status: 409, error: "That gift code has already been redeemed." };
+    return { ok: false, status: 409, error: "That gift hasn't been paid for yet. Try again in a few minutes." };
+  }
+
+  const months = Number(claimed[0].months);
+  const now = Date.now();
+  const currentEnd = profile.membership_ends_at ? Date.parse(profile.membership_ends_at) : NaN;
+  const base = status === "gift" && currentEnd > now ? currentEnd : now;
+  const endsAt = addMonths(base, months).toISOString();
+
+  const { error: updErr } = await admin
+    .from("user_profiles")
+    .update({
+      membership_status: "gift",
+      membership_tier: "member",
+      membership_plan: "gift",
+      membership_ends_at: endsAt,
+      grace_until: null,
+    })
+    .eq("id", userId);
+  if (updErr) {
+    // give the code back so it isn't lost
+    await admin.from("gift_codes").update({ status: "paid", redeemed_by: null, redeemed_at: null }).eq("code", code);
+    throw updErr;
+  }
+
+  await admin.from("membership_events").insert({
+    user_id: userId,
+    event_type: "gift.redeemed",
+    tier: "member",
+    status: "gift",
+  });
+
+  return { ok: true, endsAt, months };
+}
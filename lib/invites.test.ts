@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { hashInviteCode, redeemInviteCode } from "@/lib/invites";
+
+const USER = { id: "user-1", email: "viewer@example.com", user_metadata: { full_name: "A Viewer" } };
+
+function rpcClient(result: unknown) {
+  const rpc = vi.fn(async () => ({ data: result, error: null }));
+  return { admin: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+describe("hashInviteCode", () => {
+  it("is the SHA-256 hex of the code, as the admin page stores it", () => {
+    expect(hashInviteCode("STUDENT-2025-ALPHA")).toBe(
+      createHash("sha256").update("STUDENT-2025-ALPHA").digest("hex")
+    );
+  });
+
+  it("ignores surrounding whitespace but not case", () => {
+    expect(hashInviteCode("  STUDENT-2025-ALPHA\n")).toBe(hashInviteCode("STUDENT-2025-ALPHA"));
+    expect(hashInviteCode("student-2025-alpha")).not.toBe(hashInviteCode("STUDENT-2025-ALPHA"));
+  });
+});
+
+describe("redeemInviteCode", () => {
+  it("sends only the hash to the RPC", async () => {
+    const { admin, rpc } = rpcClient({ ok: true, role: "student" });
+    await expect(redeemInviteCode(admin, USER, " ALPHA ")).resolves.toEqual({ ok: true, role: "student" });
+    expect(rpc).toHaveBeenCalledWith("redeem_invite_code", {
+      p_code_hash: hashInviteCode("ALPHA"),
+      p_user_id: "user-1",
+      p_email: "viewer@example.com",
+      p_full_name: "A Viewer",
+    });
+  });
+
+  it("refuses a blank code without calling the RPC", async () => {
+    const { admin, rpc } = rpcClient({ ok: true, role: "student" });
+    await expect(redeemInviteCode(admin, USER, "  ")).resolves.toMatchObject({ ok: false, status: 400 });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["locked", 429],
+    ["invalid", 404],
+    ["admin_code", 403],
+    ["expired", 410],
+    ["used_up", 409],
+    ["already_redeemed", 409],
+  ])("maps the %s refusal to HTTP %i", async (reason, status) => {
+    const { admin } = rpcClient({ ok: false, reason });
+    await expect(redeemInviteCode(admin, USER, "ALPHA")).resolves.toMatchObject({ ok: false, status });
+  });
+
+  it("treats an unknown refusal as an invalid code", async () => {
+    const { admin } = rpcClient({ ok: false, reason: "something_new" });
+    await expect(redeemInviteCode(admin, USER, "ALPHA")).resolves.toMatchObject({ ok: false, status: 404 });
+  });
+});
@@ -0,0 +1,60 @@
+// lib/invites.ts
+// Invite code redemption. Codes are stored as SHA-256 hex of the trimmed
+// plaintext (hashed in the browser by /admin/invite-codes); redemption runs
+// in the redeem_invite_code() RPC so the usage check and the increment are
+// one transaction. See scripts/010-invite-redemption.sql. Server-only.
+import { createHash } from "crypto";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+// Signup stashes the code here when email confirmation means there's no
+// session yet; it's redeemed on first sign-in.
+export const PENDING_INVITE_KEY = "invite_code";
+
+export type InviteRedeemResult =
+  | { ok: true; role: string }
+  | { ok: false; status: number; error: string };
+
+const FAILURES: Record<string, { status: number; error: string }> = {
+  locked: { status: 429, error: "Too many invalid invite codes. Try again in 15 minutes." },
+  invalid: { status: 404, error: "That invite code isn't valid." },
+  admin_code: { status: 403, error: "Admin access can't be granted with an invite code. Ask an admin to set your role." },
+  expired: { status: 410, error: "That invite code has expired." },
+  used_up: { status: 409, error: "That invite code has already been used the maximum number of times." },
+  already_redeemed: { status: 409, error: "You've already redeemed that invite code." },
+};
+
+/** Same hash the admin page stores: SHA-256 hex of the trimmed code. */
+export function hashInviteCode(raw: string) {
+  return createHash("sha256").update(raw.trim()).digest("hex");
+}
+
+export async function redeemInviteCode(
+  admin: SupabaseClient,
+  user: Pick<User, "id" | "email" | "user_metadata">,
+  rawCode: string
+): Promise<InviteRedeemResult> {
+  if (!rawCode.trim()) return { ok: false, status: 400, error: "Enter an invite code." };
+
+  const { data, error } = await admin.rpc("redeem_invite_code", {
+    p_code_hash: hashInviteCode(rawCode),
+    p_user_id: user.id,
+    p_email: user.email ?? null,
+    p_full_name: user.user_metadata?.full_name ?? null,
+  });
+  if (error) throw error;
+
+  const result = (data ?? {}) as { ok?: boolean; role?: string; reason?: string };
+  if (!result.ok) {
+    return { ok: false, ...(FAILURES[result.reason ?? ""] ?? FAILURES.invalid) };
+  }
+  return { ok: true, role: String(result.role) };
+}
+
+/** Drop a stashed signup code once it's been dealt with (either way). */
+export async function clearPendingInvite(admin: SupabaseClient, user: Pick<User, "id" | "user_metadata">) {
+  if (!user.user_metadata?.[PENDING_INVITE_KEY]) return;
+  const { error } = await admin.auth.admin.updateUserById(user.id, {
+    user_metadata: { ...user.user_metadata, [PENDING_INVITE_KEY]: null },
+  });
+  if (error) console.error("clear pending invite failed:", error.message);
+}
@@ -0,0 +1,170 @@
+// lib/iptv.ts
+// IPTV support: per-user stream tokens, the M3U playlist, and resolving the
+// file a channel is airing right now. Server-only (uses the service role).
+
+import { createHash, randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadEntitlements, type EntitlementTier } from "@/lib/entitlements";
+import { canAccessWithRules, getChannelAccessRules, ruleFor } from "@/lib/protected-channels";
+import { queryNowNext } from "@/lib/now-next";
+import { asSeconds, parseUtcishMs } from "@/lib/schedule";
+import { getCandidateUrlsForProgram, type Program } from "@/lib/supabase";
+import { getStandbyUrlForChannel } from "@/lib/standby";
+import { appUrl, xmltvChannelId } from "@/lib/epg";
+
+export type AccessTier = EntitlementTier;
+
+const HEAD_TIMEOUT_MS = 4000;
+const MIN_SIGNED_TTL_SEC = 5 * 60;
+const MAX_SIGNED_TTL_SEC = 6 * 60 * 60;
+
+function signedMediaEnabled() {
+  return String(process.env.NEXT_PUBLIC_USE_SIGNED_MEDIA || "").toLowerCase().trim() === "true";
+}
+
+export function generateStreamToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+/** What iptv_tokens stores: SHA-256 hex of the token, never the token itself. */
+export function hashStreamToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Token → the owning user's effective tier, or null if unknown. */
+export async function resolveStreamToken(
+  admin: SupabaseClient,
+  token: string | null
+): Promise<{ userId: string; tier: AccessTier } | null> {
+  if (!token || token.length < 16) return null;
+
+  const { data: row } = await admin
+    .from("iptv_tokens")
+    .select("user_id")
+    .eq("token_hash", hashStreamToken(token))
+    .maybeSingle();
+  if (!row?.user_id) return null;
+
+  const { tier } = await loadEntitlements(admin, row.user_id);
+
+  // best-effort usage stamp
+  await admin
+    .from("iptv_tokens")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("user_id", row.user_id);
+
+  return { userId: row.user_id as string, tier };
+}
+
+export function streamUrl(channelId: number, token?: string | null) {
+  const base = `${appUrl()}/api/stream/${channelId}`;
+  return token ? `${base}?token=${encodeURIComponent(token)}` : base;
+}
+
+export function playlistUrl(token?: string | null) {
+  const base = `${appUrl()}/api/playlist.m3u`;
+  return token ? `${base}?token=${encodeURIComponent(token)}` : base;
+}
+
+function m3uAttr(s: string) {
+  return s.replace(/"/g, "'").replace(/[\r\n]+/g, " ");
+}
+
+/** Every channel the holder can watch; without a token, free channels only. */
+export async function buildPlaylist(
+  client: SupabaseClient,
+  tier: AccessTier | null,
+  token: string | null
+): Promise<string> {
+  const { data, error } = await client
+    .from("channels")
+    .select("id, name, logo_url")
+    .order("id", { ascending: true });
+  if (error) throw error;
+
+  const lines = [`#EXTM3U url-tvg="${appUrl()}/api/epg.xml"`];
+  const channels = (data ?? [])
+    .map((c: any) => ({ ...c, id: Number(c.id) }))
+    .filter((c) => Number.isFinite(c.id))
+    .sort((a, b) => a.id - b.id);
+
+  const rules = await getChannelAccessRules();
+  for (const c of channels) {
+    if (!canAccessWithRules(rules, c.id, tier)) continue;
+    const free = ruleFor(rules, c.id).accessTier === "free";
+    const name = c.name || `Channel ${c.id}`;
+    const attrs = [
+      `tvg-id="${xmltvChannelId(c.id)}"`,
+      `tvg-name="${m3uAttr(name)}"`,
+      `tvg-chno="${c.id}"`,
+      c.logo_url ? `tvg-logo="${m3uAttr(c.logo_url)}"` : "",
+      `group-title="${free ? "Free" : "Members"}"`,
+    ].filter(Boolean);
+    lines.push(`#EXTINF:-1 ${attrs.join(" ")},${name}`);
+    lines.push(streamUrl(c.id, free ? null : token));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+async function headOk(url: string) {
+  try {
+    const res = await fetch(url, {
+      method: "HEAD",
+      cache: "no-store",
+      signal: AbortSignal.timeout(HEAD_TIMEOUT_MS),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function signStorageUrl(admin: SupabaseClient, publicUrl: string, ttlSec: number) {
+  const m = /\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/.exec(publicUrl.split("?")[0]);
+  if (!m) return null;
+  const { data } = await admin.storage
+    .from(m[1])
+    .createSignedUrl(decodeURIComponent(m[2]), ttlSec);
+  return data?.signedUrl ?? null;
+}
+
+/**
+ * URL of what the channel is airing right now: the first candidate for the
+ * current program that answers, else the channel's standby clip.
+ */
+export async function resolveLiveStream(
+  admin: SupabaseClient,
+  channelId: number,
+  nowMs = Date.now()
+): Promise<{ url: string; title: string | null; standby: boolean }> {
+  const { now } = await queryNowNext(admin, channelId, { nowMs, count: 1 });
+
+  let url: string | null = null;
+  let remainingSec = 0;
+  if (now) {
+    const candidates = getCandidateUrlsForProgram(now as unknown as Program);
+    if (signedMediaEnabled()) {
+      url = candidates[0] ?? null; // private buckets: public HEAD would fail
+    } else {
+      for (const candidate of candidates) {
+        if (await headOk(candidate)) {
+          url = candidate;
+          break;
+        }
+      }
+    }
+    const endMs = parseUtcishMs(now.start_time) + asSeconds(now.duration) * 1000;
+    remainingSec = Math.ceil((endMs - nowMs) / 1000);
+  }
+
+  const standby = !url;
+  if (!url) url = getStandbyUrlForChannel(channelId);
+
+  if (signedMediaEnabled()) {
+    const ttl = Math.min(MAX_SIGNED_TTL_SEC, Math.max(MIN_SIGNED_TTL_SEC, remainingSec + 60));
+    url = (await signStorageUrl(admin, url, ttl)) ?? url;
+  }
+
+  return { url, title: standby ? "Standby" : now?.title ?? null, standby };
+}
@@ -0,0 +1,233 @@
+// lib/membership-expiry.ts
+// Backstop for missed webhooks: finds profiles whose membership, trial, gift
+// or grace period has run out, and downgrades them to free. The "has it run
+// out?" decision is resolveEntitlements — the same one every gate uses — so
+// the sweep only writes down what gates already enforce. Server-only.
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { RENEWAL_SLACK_MS, resolveEntitlements } from "@/lib/entitlements";
+import { getStripe, membershipFromSubscription } from "@/lib/stripe-ledger";
+import { loadPlansByPrice } from "@/lib/plans";
+
+const PAGE = 1000;
+
+const PROFILE_COLUMNS =
+  "id, role, membership_tier, membership_status, membership_ends_at, grace_until, stripe_subscription_id";
+
+type Candidate = {
+  id: string;
+  role: string | null;
+  membership_tier: string | null;
+  membership_status: string | null;
+  membership_ends_at: string | null;
+  grace_until: string | null;
+  stripe_subscription_id: string | null;
+};
+
+export type ExpiryAction = {
+  user_id: string;
+  from_status: string;
+  action: "expired" | "resynced" | "skipped";
+  reason: string;
+};
+
+export type ExpirySweep = {
+  checked_at: string;
+  candidates: number;
+  expired: number;
+  resynced: number;
+  actions: ExpiryAction[];
+};
+
+// What happened, in the member's words
+const NOTICE: Record<string, { event: string; title: string; body: string }> = {
+  gift: {
+    event: "gift.expired",
+    title: "Your gift membership has ended",
+    body: "We hope you enjoyed it! Member channels are locked again — pick a plan any time to keep watching.",
+  },
+  trialing: {
+    event: "trial.expired",
+    title: "Your free trial has ended",
+    body: "Your trial didn't convert to a paid membership, so member channels are locked again. You can join any time.",
+  },
+  past_due: {
+    event: "membership.grace_lapsed",
+    title: "Your membership has lapsed",
+    body: "We couldn't collect your last payment and the grace period is over. Update your card to get member channels back.",
+  },
+  active: {
+    event: "membership.expired",
+    title: "Your membership has expired",
+    body: "Your membership period ended without a renewal, so member channels are locked again. Renew any time to pick up where you left off.",
+  },
+};
+
+async function pageThrough(
+  build: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>
+): Promise<Candidate[]> {
+  const rows: Candidate[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await build(from, from + PAGE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as Candidate[]));
+    if (!data || data.length < PAGE) break;
+  }
+  return rows;
+}
+
+async function findCandidates(admin: SupabaseClient, nowMs: number) {
+  const now = new Date(nowMs).toISOString();
+  const renewalCutoff = new Date(nowMs - RENEWAL_SLACK_MS).toISOString();
+
+  const [subscribed, gifts, lapsed] = await Promise.all([
+    pageThrough((from, to) =>
+      admin
+        .from("user_profiles")
+        .select(PROFILE_COLUMNS)
+        .in("membership_status", ["active", "trialing"])
+        .lt("membership_ends_at", renewalCutoff)
+        .order("id")
+        .range(from, to)
+    ),
+    pageThrough((from, to) =>
+      admin
+        .from("user_profiles")
+        .select(PROFILE_COLUMNS)
+        .eq("membership_status", "gift")
+        .lt("membership_ends_at", now)
+        .order("id")
+        .range(from, to)
+    ),
+    pageThrough((from, to) =>
+      admin
+        .from("user_profiles")
+        .select(PROFILE_COLUMNS)
+        .eq("membership_status", "past_due")
+        // No grace_until means no grace was ever recorded, so none is left
+        .or(`grace_until.is.null,grace_until.lt.${now}`)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+  return [...subscribed, ...gifts, ...lapsed];
+}
+
+/**
+ * A subscriber past their period end may just have a missed renewal
+ * webhook: ask Stripe first. "resynced" when the profile was updated to a
+ * still-live subscription, "superseded" when a webhook applied newer state
+ * while we asked; either way it must not be downgraded. Null when the
+ * subscription really has ended.
+ */
+async function resyncIfRenewed(
+  admin: SupabaseClient,
+  stripe: Stripe,
+  p: Candidate,
+  nowMs: number
+): Promise<"resynced" | "superseded" | null> {
+  if (!p.stripe_subscription_id) return null;
+  // Stripe's answer is current as of the request, so it's stamped like an
+  // event created then and loses to any webhook from after it
+  const syncedAt = new Date().toISOString();
+  const sub = await stripe.subscriptions.retrieve(p.stripe_subscription_id);
+  const fields = membershipFromSubscription(sub, await loadPlansByPrice(admin));
+  const stillPaid = resolveEntitlements(p.id, { ...p, ...fields }, nowMs).paid;
+  if (!stillPaid) return null;
+
+  const { data, error } = await admin
+    .from("user_profiles")
+    .update({ ...fields, stripe_synced_at: syncedAt })
+    .eq("id", p.id)
+    .or(`stripe_synced_at.is.null,stripe_synced_at.lte.${syncedAt}`)
+    .select("id");
+  if (error) throw error;
+  return data?.length ? "resynced" : "superseded";
+}
+
+async function downgrade(admin: SupabaseClient, p: Candidate, fromStatus: string) {
+  // Conditional on the status we read, so a webhook landing mid-sweep wins
+  const { data, error } = await admin
+    .from("user_profiles")
+    .update({
+      membership_status: "expired",
+      membership_tier: "free",
+      membership_plan: null,
+      grace_until: null,
+    })
+    .eq("id", p.id)
+    .eq("membership_status", fromStatus)
+    .select("id");
+  if (error) throw error;
+  if (!data?.length) return false;
+
+  const notice = NOTICE[fromStatus] ?? NOTICE.active;
+  const [ev, note] = await Promise.all([
+    admin.from("membership_events").insert({
+      user_id: p.id,
+      event_type: notice.event,
+      tier: "free",
+      status: "expired",
+    }),
+    admin.from("user_notifications").insert({
+      user_id: p.id,
+      type: "membership",
+      title: notice.title,
+      body: notice.body,
+      link: "/membership",
+    }),
+  ]);
+  if (ev.error) console.error("membership_events insert failed:", ev.error.message);
+  if (note.error) console.error("user_notifications insert failed:", note.error.message);
+  return true;
+}
+
+export async function sweepExpiredMemberships(
+  admin: SupabaseClient,
+  opts: { nowMs?: number; stripe?: Stripe } = {}
+): Promise<ExpirySweep> {
+  const nowMs = opts.nowMs ?? Date.now();
+  const candidates = await findCandidates(admin, nowMs);
+  const actions: ExpiryAction[] = [];
+
+  for (const p of candidates) {
+    const fromStatus = String(p.membership_status || "").toLowerCase();
+    const base = { user_id: p.id, from_status: fromStatus };
+
+    // Admins and anyone still inside grace/slack keep access
+    if (resolveEntitlements(p.id, p, nowMs).paid) {
+      actions.push({ ...base, action: "skipped", reason: "Still entitled" });
+      continue;
+    }
+
+    try {
+      const resync =
+        fromStatus === "gift" ? null : await resyncIfRenewed(admin, opts.stripe ?? getStripe(), p, nowMs);
+      if (resync === "resynced") {
+        actions.push({ ...base, action: "resynced", reason: "Stripe subscription still live" });
+        continue;
+      }
+      if (resync === "superseded") {
+        actions.push({ ...base, action: "skipped", reason: "Newer Stripe state already applied" });
+        continue;
+      }
+      const changed = await downgrade(admin, p, fromStatus);
+      actions.push(
+        changed
+          ? { ...base, action: "expired", reason: NOTICE[fromStatus]?.event ?? "membership.expired" }
+          : { ...base, action: "skipped", reason: "Changed during sweep" }
+      );
+    } catch (e: any) {
+      // Never downgrade on an error (e.g. Stripe unreachable); retry next run
+      actions.push({ ...base, action: "skipped", reason: `Error: ${e?.message || e}` });
+    }
+  }
+
+  return {
+    checked_at: new Date(nowMs).toISOString(),
+    candidates: candidates.length,
+    expired: actions.filter((a) => a.action === "expired").length,
+    resynced: actions.filter((a) => a.action === "resynced").length,
+    actions,
+  };
+}
@@ -0,0 +1,233 @@
+// lib/now-next.ts
+// "What's on now and next" for a single channel, using bounded time-window
+// queries only. Never select a channel's whole history: Supabase silently
+// caps unpaginated selects at 1000 rows and the table only grows.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Program } from "@/types";
+import {
+  asSeconds,
+  findActiveProgram,
+  isActiveProgram,
+  upcomingPrograms,
+  type ScheduleProgram,
+} from "@/lib/schedule";
+
+export const NOW_NEXT_DEFAULT_COUNT = 5;
+export const NOW_NEXT_MAX_COUNT = 50;
+export const NOW_NEXT_DEFAULT_AHEAD_HOURS = 24;
+export const NOW_NEXT_MAX_AHEAD_HOURS = 72;
+
+export const SCHEDULE_WINDOW_MAX_HOURS = 72;
+
+const LOOKBACK_HOURS = 6; // covers anything plausibly still airing
+const WINDOW_ROW_CAP = 500;
+const PAGE_SIZE = 1000; // Supabase's per-request row cap
+const MAX_WINDOW_PAGES = 20;
+
+export type NowNextProgram = ScheduleProgram & {
+  id?: number | string;
+  title: string | null;
+  mp4_url: string | null;
+  start_time: string;
+  duration: number | string | null;
+};
+
+export type NowNextResponse = {
+  channel_id: number;
+  now: NowNextProgram | null;
+  next: NowNextProgram[];
+  generated_at: number; // server epoch ms the answer was computed for
+};
+
+export type ScheduleWindowResponse = {
+  from: string;
+  to: string;
+  programs: NowNextProgram[];
+  truncated: boolean; // hit MAX_WINDOW_PAGES; narrow the window
+  generated_at: number;
+};
+
+const PROGRAM_COLUMNS = "id, channel_id, title, mp4_url, start_time, duration";
+
+/** A now/next row as the player's Program: nulls become "" and durations seconds. */
+export function toProgram(p: NowNextProgram): Program {
+  return {
+    id: p.id ?? `${p.channel_id}-${p.start_time}`,
+    channel_id: Number(p.channel_id),
+    title: p.title ?? "",
+    mp4_url: p.mp4_url ?? "",
+    start_time: p.start_time,
+    duration: asSeconds(p.duration),
+  };
+}
+
+/**
+ * Current program plus the next `count` starting within `aheadHours`.
+ * Two bounded queries: the window [now - lookback, now + ahead), and the
+ * single latest row starting before the window (a long program that began
+ * earlier may still be airing).
+ */
+export async function queryNowNext(
+  client: SupabaseClient,
+  channelId: number,
+  opts: { nowMs?: number; count?: number; aheadHours?: number } = {}
+): Promise<NowNextResponse> {
+  const nowMs = opts.nowMs ?? Date.now();
+  const count = clamp(opts.count ?? NOW_NEXT_DEFAULT_COUNT, 1, NOW_NEXT_MAX_COUNT);
+  const aheadHours = clamp(
+    opts.aheadHours ?? NOW_NEXT_DEFAULT_AHEAD_HOURS,
+    1,
+    NOW_NEXT_MAX_AHEAD_HOURS
+  );
+
+  const fromIso = new Date(nowMs - LOOKBACK_HOURS * 3600_000).toISOString();
+  const toIso = new Date(nowMs + aheadHours * 3600_000).toISOString();
+
+  const [windowRes, priorRes] = await Promise.all([
+    client
+      .from("programs")
+      .select(PROGRAM_COLUMNS)
+      .eq("channel_id", channelId)
+      .gte("start_time", fromIso)
+      .lt("start_time", toIso)
+      .order("start_time", { ascending: true })
+      .limit(WINDOW_ROW_CAP),
+    client
+      .from("programs")
+      .select(PROGRAM_COLUMNS)
+      .eq("channel_id", channelId)
+      .lt("start_time", fromIso)
+      .order("start_time", { ascending: false })
+      .limit(1),
+  ]);
+
+  if (windowRes.error) throw windowRes.error;
+  if (priorRes.error) throw priorRes.error;
+
+  const rows = [
+    ...((priorRes.data ?? []) as NowNextProgram[]),
+    ...((windowRes.data ?? []) as NowNextProgram[]),
+  ];
+
+  return {
+    channel_id: channelId,
+    now: findActiveProgram(rows, nowMs),
+    next: upcomingPrograms(rows, nowMs).slice(0, count),
+    generated_at: nowMs,
+  };
+}
+
+/**
+ * Every program of the given channels airing in [fromMs, toMs), for grids
+ * that need a full window rather than the next N. Pages past Supabase's
+ * 1000-row cap instead of truncating. A program that began before the
+ * lookback and is still airing at fromMs is fetched per channel, only for
+ * channels the window doesn't already cover.
+ */
+export async function queryScheduleWindow(
+  client: SupabaseClient,
+  channelIds: number[],
+  fromMs: number,
+  toMs: number
+): Promise<ScheduleWindowResponse> {
+  const to = Math.min(toMs, fromMs + SCHEDULE_WINDOW_MAX_HOURS * 3600_000);
+  const lookbackIso = new Date(fromMs - LOOKBACK_HOURS * 3600_000).toISOString();
+  const toIso = new Date(to).toISOString();
+  const ids = [...new Set(channelIds)].filter((n) => Number.isInteger(n) && n > 0);
+
+  const rows: NowNextProgram[] = [];
+  let truncated = false;
+  for (let page = 0; ids.length > 0; page++) {
+    if (page === MAX_WINDOW_PAGES) {
+      truncated = true;
+      break;
+    }
+    const { data, error } = await client
+      .from("programs")
+      .select(PROGRAM_COLUMNS)
+      .in("channel_id", ids)
+      .gte("start_time", lookbackIso)
+      .lt("start_time", toIso)
+      .order("start_time", { ascending: true })
+      .order("channel_id", { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as NowNextProgram[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const covered = new Set(
+    rows.filter((p) => isActiveProgram(p, fromMs, 0)).map((p) => Number(p.channel_id))
+  );
+  const priors = await Promise.all(
+    ids
+      .filter((id) => !covered.has(id))
+      .map(async (id) => {
+        const { data, error } = await client
+          .from("programs")
+          .select(PROGRAM_COLUMNS)
+          .eq("channel_id", id)
+          .lt("start_time", lookbackIso)
+          .order("start_time", { ascending: false })
+          .limit(1);
+        if (error) throw error;
+        return ((data ?? []) as NowNextProgram[]).filter((p) => isActiveProgram(p, fromMs, 0));
+      })
+  );
+
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: toIso,
+    programs: [...priors.flat(), ...rows],
+    truncated,
+    generated_at: Date.now(),
+  };
+}
+
+/**
+ * Browser helper for /api/channels/[id]/now-next. Responses are cached at the
+ * edge for a few seconds, so callers that care about the exact boundary
+ * should re-run findActiveProgram on [now, ...next] with their own clock.
+ */
+export async function fetchNowNext(
+  channelId: number | string,
+  opts: { count?: number; aheadHours?: number; signal?: AbortSignal } = {}
+): Promise<NowNextResponse> {
+  const qs = new URLSearchParams();
+  if (opts.count != null) qs.set("n", String(opts.count));
+  if (opts.aheadHours != null) qs.set("hours", String(opts.aheadHours));
+  const suffix = qs.toString() ? `?${qs}` : "";
+
+  const res = await fetch(
+    `/api/channels/${encodeURIComponent(String(channelId))}/now-next${suffix}`,
+    { signal: opts.signal }
+  );
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(j?.error || `Schedule request failed (${res.status})`);
+  return j as NowNextResponse;
+}
+
+/**
+ * Browser helper for /api/channels/schedule. The window is widened to whole
+ * minutes so viewers opening the guide together share one edge-cached answer.
+ */
+export async function fetchScheduleWindow(
+  channelIds: (number | string)[],
+  opts: { fromMs: number; toMs: number; signal?: AbortSignal }
+): Promise<ScheduleWindowResponse> {
+  const qs = new URLSearchParams({
+    channels: channelIds.map(String).join(","),
+    from: new Date(Math.floor(opts.fromMs / 60_000) * 60_000).toISOString(),
+    to: new Date(Math.ceil(opts.toMs / 60_000) * 60_000).toISOString(),
+  });
+  const res = await fetch(`/api/channels/schedule?${qs}`, { signal: opts.signal });
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(j?.error || `Schedule request failed (${res.status})`);
+  return j as ScheduleWindowResponse;
+}
+
+function clamp(n: number, min: number, max: number) {
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
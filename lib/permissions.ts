@@ -0,0 +1,115 @@
+// lib/permissions.ts
+// Staff permissions (public.permissions / role_permissions, see
+// scripts/012-roles-and-permissions.sql). 'admin' has every permission;
+// other roles get what role_permissions grants them. Edge-safe: used by
+// middleware as well as route handlers and the admin layout.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const PERMISSIONS = [
+  "channels:write",
+  "schedule:write",
+  "library:write",
+  "news:write",
+  "chat:moderate",
+  "members:manage",
+  "billing:read",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type StaffAccess = {
+  role: string | null;
+  isAdmin: boolean;
+  permissions: Permission[];
+};
+
+export const NO_ACCESS: StaffAccess = { role: null, isAdmin: false, permissions: [] };
+
+export function isPermission(v: unknown): v is Permission {
+  return PERMISSIONS.includes(v as Permission);
+}
+
+/**
+ * What each admin area needs. null = admin only (tools that can grant
+ * roles or reach raw data). Longest prefix wins; unlisted paths under
+ * /admin are admin only too.
+ */
+const ADMIN_PATHS: [string, Permission | null][] = [
+  ["/admin/channel-manager", "channels:write"],
+  ["/admin/add-channel", "channels:write"],
+  ["/admin/channel-live", "channels:write"],
+  ["/admin/categories", "channels:write"],
+  ["/admin/programs", "schedule:write"],
+  ["/admin/program-titles", "schedule:write"],
+  ["/admin/program-order", "schedule:write"],
+  ["/admin/schedule", "schedule:write"],
+  ["/admin/scheduler", "schedule:write"],
+  ["/admin/schedule-health", "schedule:write"],
+  ["/admin/auto-schedule", "schedule:write"],
+  ["/admin/loop-schedule", "schedule:write"],
+  ["/admin/refresh-programs", "schedule:write"],
+  ["/admin/cleanup-programs", "schedule:write"],
+  ["/admin/reset-programs", "schedule:write"],
+  ["/admin/continue", "schedule:write"],
+  ["/admin/schedule-history", "schedule:write"],
+  ["/admin/news", "news:write"],
+  ["/admin/news-ticker", "news:write"],
+  ["/admin/breaking-news", "news:write"],
+  ["/admin/library-manager", "library:write"],
+  ["/admin/freedom-school-library", "library:write"],
+  ["/admin/membership-requests", "members:manage"],
+  ["/admin/chat-moderation", "chat:moderate"],
+  ["/admin/chat-reports", "chat:moderate"],
+  ["/admin/stripe-events", "billing:read"],
+  ["/admin/users", null],
+  ["/admin/invite-codes", null],
+  ["/admin/database-inspector", null],
+  ["/admin/audit-log", null],
+  ["/admin/analytics", null],
+];
+
+function matches(pathname: string, prefix: string) {
+  return pathname === prefix || pathname.startsWith(prefix + "/");
+}
+
+/** The permission an admin path needs (null = admin only). */
+export function permissionForPath(pathname: string): Permission | null {
+  let best: [string, Permission | null] | null = null;
+  for (const entry of ADMIN_PATHS) {
+    if (matches(pathname, entry[0]) && (!best || entry[0].length > best[0].length)) best = entry;
+  }
+  return best ? best[1] : null;
+}
+
+export function hasPermission(access: StaffAccess, permission: Permission | null) {
+  if (access.isAdmin) return true;
+  return permission !== null && access.permissions.includes(permission);
+}
+
+/** Staff = can open at least one admin tool. */
+export function isStaff(access: StaffAccess) {
+  return access.isAdmin || access.permissions.length > 0;
+}
+
+export function canOpenPath(access: StaffAccess, pathname: string) {
+  if (pathname === "/admin" || pathname === "/admin/") return isStaff(access);
+  return hasPermission(access, permissionForPath(pathname));
+}
+
+export async function loadStaffAccess(client: SupabaseClient, userId: string | null): Promise<StaffAccess> {
+  if (!userId) return NO_ACCESS;
+
+  const { data: profile } = await client.from("user_profiles").select("role").eq("id", userId).maybeSingle();
+  const role = String(profile?.role ?? "").toLowerCase().trim() || null;
+  if (!role) return NO_ACCESS;
+  if (role === "admin") return { role, isAdmin: true, permissions: [...PERMISSIONS] };
+
+  const { data, error } = await client.from("role_permissions").select("permission").eq("role", role);
+  // Fail closed: no table yet, or unreadable, means no staff access
+  if (error) return { role, isAdmin: false, permissions: [] };
+  return {
+    role,
+    isAdmin: false,
+    permissions: (data ?? []).map((r) => r.permission).filter(isPermission),
+  };
+}
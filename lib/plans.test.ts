@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  findPromotionCode,
+  formatPlanPrice,
+  listPlans,
+  loadPlansByPrice,
+  planPriceId,
+  toPublicPlan,
+  type Plan,
+} from "@/lib/plans";
+
+function plan(overrides: Partial<Plan> = {}): Plan {
+  return {
+    key: "membership_monthly",
+    name: "Monthly",
+    description: null,
+    tier: "member",
+    billing_interval: "month",
+    amount_cents: 999,
+    currency: "usd",
+    stripe_price_id: "price_monthly",
+    features: [],
+    badge: null,
+    highlight: false,
+    sort_order: 0,
+    active: true,
+    ...overrides,
+  };
+}
+
+/** A client whose every query on plans resolves to `rows`. */
+function plansClient(rows: unknown[]) {
+  const builder: any = new Proxy(
+    {},
+    {
+      get(_, method: string) {
+        if (method === "then") {
+          return (ok: (v: unknown) => unknown) => Promise.resolve({ data: rows, error: null }).then(ok);
+        }
+        return () => builder;
+      },
+    }
+  );
+  return { from: () => builder } as unknown as SupabaseClient;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("planPriceId", () => {
+  it("prefers the plan's own price", () => {
+    vi.stubEnv("STRIPE_PRICE_MEMBERSHIP_MONTHLY", "price_env");
+    expect(planPriceId(plan())).toBe("price_monthly");
+  });
+
+  it("falls back to STRIPE_PRICE_<KEY>, with the key upper-cased and punctuation made underscores", () => {
+    vi.stubEnv("STRIPE_PRICE_CONSTRUCTIQ_ANNUAL_2025", "price_env");
+    expect(planPriceId({ key: "constructiq-annual.2025", stripe_price_id: null })).toBe("price_env");
+  });
+
+  it("is null when neither is set", () => {
+    expect(planPriceId({ key: "no_such_plan", stripe_price_id: null })).toBeNull();
+  });
+});
+
+describe("listPlans", () => {
+  it("leaves out plans with no Stripe price and normalises rows", async () => {
+    const rows = [
+      { ...plan(), features: ["HD", 4], billing_interval: "weekly" },
+      plan({ key: "unpriced", stripe_price_id: null }),
+    ];
+    const plans = await listPlans(plansClient(rows));
+    expect(plans.map((p) => p.key)).toEqual(["membership_monthly"]);
+    expect(plans[0].features).toEqual(["HD", "4"]);
+    expect(plans[0].billing_interval).toBe("month");
+  });
+});
+
+describe("loadPlansByPrice", () => {
+  it("keeps retired plans, so existing subscribers keep their tier", async () => {
+    const rows = [plan(), plan({ key: "founders", tier: "constructiq", stripe_price_id: "price_old", active: false })];
+    const byPrice = await loadPlansByPrice(plansClient(rows));
+    expect(byPrice.get("price_old")?.tier).toBe("constructiq");
+    expect(byPrice.get("price_monthly")?.key).toBe("membership_monthly");
+  });
+});
+
+describe("toPublicPlan", () => {
+  it("drops the price id and the active flag", () => {
+    const out = toPublicPlan(plan());
+    expect(out).not.toHaveProperty("stripe_price_id");
+    expect(out).not.toHaveProperty("active");
+    expect(out.key).toBe("membership_monthly");
+  });
+});
+
+describe("formatPlanPrice", () => {
+  it("shows cents only when there are any", () => {
+    expect(formatPlanPrice({ amount_cents: 999, currency: "usd" })).toBe("$9.99");
+    expect(formatPlanPrice({ amount_cents: 10000, currency: "usd" })).toBe("$100");
+  });
+});
+
+describe("findPromotionCode", () => {
+  function stripeWith(codes: { id: string }[]) {
+    const list = vi.fn(async () => ({ data: codes }));
+    return { stripe: { promotionCodes: { list } } as unknown as Stripe, list };
+  }
+
+  it("looks up the trimmed code among active promotion codes", async () => {
+    const { stripe, list } = stripeWith([{ id: "promo_1" }]);
+    await expect(findPromotionCode(stripe, "  SPRING25 ")).resolves.toBe("promo_1");
+    expect(list).toHaveBeenCalledWith({ code: "SPRING25", active: true, limit: 1 });
+  });
+
+  it("is null for an unknown or inactive code", async () => {
+    const { stripe } = stripeWith([]);
+    await expect(findPromotionCode(stripe, "EXPIRED")).resolves.toBeNull();
+  });
+
+  it("doesn't ask Stripe about a blank code", async () => {
+    const { stripe, list } = stripeWith([{ id: "promo_1" }]);
+    await expect(findPromotionCode(stripe, "   ")).resolves.toBeNull();
+    expect(list).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+// lib/plans.ts
+// Membership plan catalog (public.plans, see scripts/007-membership-plans.sql).
+// Server code resolves Stripe prices ↔ plans; the formatting helpers are
+// safe to import from client components.
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type BillingInterval = "month" | "year";
+
+export type Plan = {
+  key: string;
+  name: string;
+  description: string | null;
+  tier: string;
+  billing_interval: BillingInterval;
+  amount_cents: number;
+  currency: string;
+  stripe_price_id: string | null;
+  features: string[];
+  badge: string | null;
+  highlight: boolean;
+  sort_order: number;
+  active: boolean;
+};
+
+/** What /api/plans exposes to the browser. */
+export type PublicPlan = Omit<Plan, "stripe_price_id" | "active">;
+
+export const DEFAULT_PLAN_KEY = "membership_monthly";
+// Free trial offered once per profile (user_profiles.trial_used_at)
+export const TRIAL_DAYS = 7;
+
+const PLAN_COLUMNS =
+  "key, name, description, tier, billing_interval, amount_cents, currency, stripe_price_id, features, badge, highlight, sort_order, active";
+
+function envPriceVar(key: string) {
+  return `STRIPE_PRICE_${key.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/** The plan's Stripe price: its column, else STRIPE_PRICE_<KEY>. */
+export function planPriceId(plan: Pick<Plan, "key" | "stripe_price_id">): string | null {
+  return plan.stripe_price_id || process.env[envPriceVar(plan.key)] || null;
+}
+
+function toPlan(row: any): Plan {
+  return {
+    ...row,
+    features: Array.isArray(row.features) ? row.features.map(String) : [],
+    billing_interval: row.billing_interval === "year" ? "year" : "month",
+  };
+}
+
+/** Active plans that can actually be bought, in display order. */
+export async function listPlans(client: SupabaseClient): Promise<Plan[]> {
+  const { data, error } = await client
+    .from("plans")
+    .select(PLAN_COLUMNS)
+    .eq("active", true)
+    .order("sort_order", { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(toPlan).filter((p) => planPriceId(p));
+}
+
+export async function getPlan(client: SupabaseClient, key: string): Promise<Plan | null> {
+  const { data, error } = await client.from("plans").select(PLAN_COLUMNS).eq("key", key).maybeSingle();
+  if (error) throw error;
+  return data ? toPlan(data) : null;
+}
+
+/**
+ * Price id → plan for every plan (active or retired: existing subscribers
+ * keep their tier after a plan stops being sold).
+ */
+export async function loadPlansByPrice(client: SupabaseClient): Promise<Map<string, Plan>> {
+  const { data, error } = await client.from("plans").select(PLAN_COLUMNS);
+  if (error) throw error;
+  const byPrice = new Map<string, Plan>();
+  for (const row of data ?? []) {
+    const plan = toPlan(row);
+    const price = planPriceId(plan);
+    if (price) byPrice.set(price, plan);
+  }
+  return byPrice;
+}
+
+/** The id of the active promotion code a customer typed, or null if there's none. */
+export async function findPromotionCode(stripe: Stripe, code: string): Promise<string | null> {
+  const typed = code.trim();
+  if (!typed) return null;
+  const { data } = await stripe.promotionCodes.list({ code: typed, active: true, limit: 1 });
+  return data[0]?.id ?? null;
+}
+
+export function toPublicPlan({ stripe_price_id: _p, active: _a, ...plan }: Plan): PublicPlan {
+  return plan;
+}
+
+export function formatPlanPrice(plan: Pick<Plan, "amount_cents" | "currency">) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: plan.currency.toUpperCase(),
+    minimumFractionDigits: plan.amount_cents % 100 ? 2 : 0,
+  }).format(plan.amount_cents / 100);
+}
+
+export function intervalLabel(interval: BillingInterval) {
+  return interval === "year" ? "/yr" : "/mo";
+}
@@ -0,0 +1,79 @@
+// lib/program-urls.ts
+// Public storage URLs for program files. No Supabase client here, so server
+// code (the schedule-health probe) and client code can both import it.
+import type { Program } from "@/lib/supabase";
+
+const ROOT = (process.env.NEXT_PUBLIC_SUPABASE_URL || "").replace(/\/+$/, "");
+const cleanKey = (k: string) =>
+  (k || "")
+    .trim()
+    .replace(/^\.?\//, "")
+    .replace(/\\/g, "/")
+    .replace(/\/{2,}/g, "/");
+
+function safeEncodePath(path: string) {
+  return cleanKey(path)
+    .split("/")
+    .map((seg) => {
+      try {
+        return encodeURIComponent(decodeURIComponent(seg));
+      } catch {
+        return encodeURIComponent(seg);
+      }
+    })
+    .join("/");
+}
+
+function buildPublicUrl(bucket: string, objectPath: string): string {
+  return `${ROOT}/storage/v1/object/public/${bucket}/${safeEncodePath(objectPath)}`;
+}
+
+function bucketNameForChannelId(channel_id: number | string): string {
+  const s = String(channel_id).trim().toLowerCase();
+  return /^\d+$/.test(s) ? `channel${s}` : `channel${s}`;
+}
+
+/* ---------- URL candidates: ONLY this channel’s bucket ---------- */
+/** Candidate URLs for a program (tries the channel bucket; small defensive variant) */
+export function getCandidateUrlsForProgram(p: Program): string[] {
+  const raw = String(p?.mp4_url || "").trim();
+  if (!raw) return [];
+
+  // Absolute or root-relative given → use as-is
+  if (/^https?:\/\//i.test(raw) || raw.startsWith("/")) return [raw];
+
+  // storage://bucket/key
+  let m = /^storage:\/\/([^/]+)\/(.+)$/.exec(raw);
+  if (m) return [buildPublicUrl(m[1], m[2])];
+
+  // bucket:key
+  m = /^([a-z0-9_\-]+):(.+)$/i.exec(raw);
+  if (m) return [buildPublicUrl(m[1], m[2])];
+
+  // bucket/key
+  m = /^([a-z0-9_\-]+)\/(.+)$/.exec(raw);
+  if (m) return [buildPublicUrl(m[1], m[2])];
+
+  // Bare filename → look ONLY in this channel’s bucket
+  const cleaned = cleanKey(raw); // e.g. "show.mp4"
+  const chanBucket = bucketNameForChannelId(p.channel_id); // "channelN"
+  const stripped = cleaned.replace(/^channel[^/]+\/+/i, ""); // remove accidental "channelX/" prefix
+
+  // 1) channelN/file.mp4
+  // 2) channelN/channelN/file.mp4 (defensive: nested folder)
+  const urls = new Set<string>([
+    buildPublicUrl(chanBucket, stripped),
+    buildPublicUrl(
+      chanBucket,
+      `channel${String(p.channel_id).toLowerCase()}/${stripped}`
+    ),
+  ]);
+
+  return Array.from(urls);
+}
+
+/** Legacy helper: first candidate */
+export function getVideoUrlForProgram(p: Program): string | undefined {
+  const list = getCandidateUrlsForProgram(p);
+  return list.length ? list[0] : undefined;
+}
@@ -1,89 +1,134 @@
 // lib/protected-channels.ts
-// Tier-based channel access system
-
-// FREE channels — available to all visitors (no login required)
-export const FREE_CHANNELS = new Set<number>([
-  1,  // Resistance TV
-  2,  // Black History Uncut
-  3,  // Black PBS
-  6,  // Culture & Revolution
-  11, // Black StoryTime
-  13, // Sankofa Kids
-  16, // Nature & Discovery
-  17, // The Black Music Vault
-  21, // Black Truth LIVE
-  22, // The Family Channel
-])
-
-// MEMBER channels — require $9.99/mo membership
-export const MEMBER_ONLY_CHANNELS = new Set<number>([
-  4,  // Voices of the Movement
-  5,  // The People's Archive
-  7,  // Teaching Truth TV
-  8,  // 1619 & Beyond
-  9,  // Freedom Fighters Network
-  10, // Being Black in 50 States
-  12, // HerStory & HisStory
-  14, // Family History Night
-  15, // Construction Queen TV
-  18, // Politics Then & Now
-  19, // Apprentice Academy
-  20, // Trades of Our Ancestors
-  23, // Electrical Mastery
-  24, // Plumbing Mastery
-  25, // HVAC Mastery
-  26, // Concrete & Earthworks
-  27, // Framing & Drywall Mastery
-  28, // Roofing Mastery
-  29, // Painting & Coatings
-  30, // Freedom School Channel
-  31, // Black Truth Music Experience
-])
-
-// CONSTRUCTIQ channels — free for Constructiq family accounts
-export const CONSTRUCTIQ_FREE_CHANNELS = new Set<number>([
-  15, // Construction Queen TV
-  19, // Apprentice Academy
-  20, // Trades of Our Ancestors
-  23, // Electrical Mastery
-  24, // Plumbing Mastery
-  25, // HVAC Mastery
-  26, // Concrete & Earthworks
-  27, // Framing & Drywall Mastery
-  28, // Roofing Mastery
-  29, // Painting & Coatings
-])
-
-// Keep for backward compatibility
-export const PROTECTED_CHANNELS = MEMBER_ONLY_CHANNELS
-export const PROTECTED_CHANNEL_KEYS = Array.from(MEMBER_ONLY_CHANNELS).map(String)
-
-export function isProtectedChannelKey(key: string): boolean {
-  return MEMBER_ONLY_CHANNELS.has(parseInt(key))
+// Tier-based channel access, read from the database:
+//   channels.access_tier   'free' | 'member'
+//   channel_plan_access    partner plans (e.g. 'constructiq') that unlock
+//                          specific member channels
+// See scripts/005-channel-access-tiers.sql. Works on server and client;
+// rules are cached in memory for RULES_TTL_MS.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+export type ChannelAccessTier = 'free' | 'member'
+export type ViewerTier = 'free' | 'member' | 'constructiq' | 'admin' | null
+
+export type ChannelAccessRule = {
+  channelId: number
+  accessTier: ChannelAccessTier
+  plans: string[] // partner plans that unlock this channel
 }
 
-export function isFreeChannel(channelId: number): boolean {
-  return FREE_CHANNELS.has(channelId)
+export type ChannelAccessRules = Map<number, ChannelAccessRule>
+
+const RULES_TTL_MS = 60_000
+
+// A channel nobody configured is a member channel: watchable by members,
+// never silently locked to everyone.
+const DEFAULT_RULE: Omit<ChannelAccessRule, 'channelId'> = { accessTier: 'member', plans: [] }
+
+let cached: { rules: ChannelAccessRules; at: number } | null = null
+let inflight: Promise<ChannelAccessRules> | null = null
+let defaultClient: SupabaseClient | null = null
+
+function anonClient() {
+  if (!defaultClient) {
+    defaultClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: false } }
+    )
+  }
+  return defaultClient
 }
 
-export function isMemberChannel(channelId: number): boolean {
-  return MEMBER_ONLY_CHANNELS.has(channelId)
+async function fetchRules(client: SupabaseClient): Promise<ChannelAccessRules> {
+  const [chRes, planRes] = await Promise.all([
+    client.from('channels').select('id, access_tier'),
+    client.from('channel_plan_access').select('channel_id, plan'),
+  ])
+  if (chRes.error) throw chRes.error
+  if (planRes.error) throw planRes.error
+
+  const rules: ChannelAccessRules = new Map()
+  for (const row of chRes.data ?? []) {
+    const id = Number(row.id)
+    if (!Number.isFinite(id)) continue
+    rules.set(id, {
+      channelId: id,
+      accessTier: row.access_tier === 'free' ? 'free' : 'member',
+      plans: [],
+    })
+  }
+  for (const row of planRes.data ?? []) {
+    const id = Number(row.channel_id)
+    const rule = rules.get(id)
+    if (rule && row.plan) rule.plans.push(String(row.plan))
+  }
+  return rules
 }
 
-export function isConstructiqFreeChannel(channelId: number): boolean {
-  return CONSTRUCTIQ_FREE_CHANNELS.has(channelId)
+/**
+ * All channel access rules, cached. On a failed refresh the last good rules
+ * keep being served; with nothing cached every channel is treated as
+ * member-only (fail closed).
+ */
+export async function getChannelAccessRules(
+  opts: { client?: SupabaseClient; fresh?: boolean } = {}
+): Promise<ChannelAccessRules> {
+  if (!opts.fresh && cached && Date.now() - cached.at < RULES_TTL_MS) return cached.rules
+  if (inflight) return inflight
+
+  inflight = fetchRules(opts.client ?? anonClient())
+    .then((rules) => {
+      cached = { rules, at: Date.now() }
+      return rules
+    })
+    .catch((err) => {
+      console.error('Channel access rules unavailable:', err?.message || err)
+      return cached?.rules ?? new Map()
+    })
+    .finally(() => {
+      inflight = null
+    })
+
+  return inflight
 }
 
-export function canAccessChannel(
+/** Drop the cache (call after editing tiers). */
+export function invalidateChannelAccessRules() {
+  cached = null
+}
+
+export function ruleFor(rules: ChannelAccessRules, channelId: number): ChannelAccessRule {
+  return rules.get(channelId) ?? { channelId, ...DEFAULT_RULE }
+}
+
+/** Pure check against already-loaded rules (for lists of channels). */
+export function canAccessWithRules(
+  rules: ChannelAccessRules,
   channelId: number,
-  tier: 'free' | 'member' | 'constructiq' | 'admin' | null
+  tier: ViewerTier
 ): boolean {
   if (tier === 'admin') return true
-  if (FREE_CHANNELS.has(channelId)) return true
-  if (MEMBER_ONLY_CHANNELS.has(channelId)) {
-    if (tier === 'member') return true
-    if (tier === 'constructiq' && CONSTRUCTIQ_FREE_CHANNELS.has(channelId)) return true
-    return false
-  }
+  const rule = ruleFor(rules, channelId)
+  if (rule.accessTier === 'free') return true
+  if (tier === 'member') return true
+  if (tier && rule.plans.includes(tier)) return true
   return false
 }
+
+export async function isFreeChannel(channelId: number): Promise<boolean> {
+  return ruleFor(await getChannelAccessRules(), channelId).accessTier === 'free'
+}
+
+export async function isMemberChannel(channelId: number): Promise<boolean> {
+  return ruleFor(await getChannelAccessRules(), channelId).accessTier === 'member'
+}
+
+export async function isConstructiqFreeChannel(channelId: number): Promise<boolean> {
+  return ruleFor(await getChannelAccessRules(), channelId).plans.includes('constructiq')
+}
+
+export async function canAccessChannel(channelId: number, tier: ViewerTier): Promise<boolean> {
+  if (tier === 'admin') return true
+  return canAccessWithRules(await getChannelAccessRules(), channelId, tier)
+}
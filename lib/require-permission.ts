@@ -0,0 +1,30 @@
+// lib/require-permission.ts
+import { createClient } from "@/utils/supabase/server";
+import { hasPermission, loadStaffAccess, type Permission, type StaffAccess } from "@/lib/permissions";
+
+type PermissionGate =
+  | { ok: true; userId: string; access: StaffAccess }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Verifies the caller is logged in and their role grants `permission`
+ * (admins have every permission). Same shape as requireAdmin():
+ *
+ *   const gate = await requirePermission("schedule:write");
+ *   if (!gate.ok) return NextResponse.json({ error: gate.error }, { status: gate.status });
+ */
+export async function requirePermission(permission: Permission): Promise<PermissionGate> {
+  const supabase = await createClient();
+
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth?.user) {
+    return { ok: false, status: 401, error: "Not authenticated" };
+  }
+
+  const access = await loadStaffAccess(supabase, auth.user.id);
+  if (!hasPermission(access, permission)) {
+    return { ok: false, status: 403, error: "Forbidden" };
+  }
+
+  return { ok: true, userId: auth.user.id, access };
+}
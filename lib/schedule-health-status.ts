@@ -0,0 +1,49 @@
+// lib/schedule-health-status.ts
+// Result shapes of the schedule-health audit (lib/schedule-health.ts) and
+// the "Needs attention" rule, shared by the cron route and the dashboard.
+// No imports with side effects: client pages can use it.
+
+export type HealthStatus =
+  | "great"       // 7+ days ahead
+  | "good"        // 2–7 days
+  | "warning"     // 24–48 hours
+  | "critical"    // under 24 hours
+  | "expired"     // schedule already ended
+  | "no_content"  // no programs at all
+  | "error";
+
+export type IssueSample = { start: string; end: string; seconds: number; after: string | null };
+
+export interface ChannelHealth {
+  channelId: number;
+  channelName: string;
+  status: HealthStatus;
+  endTime: string | null;
+  hoursRemaining: number;   // until the last scheduled program ends
+  coveredHours: number;     // real (non-standby) programming inside that span
+  programCount: number;     // rows audited (current + upcoming)
+  gaps: { count: number; totalSec: number; samples: IssueSample[] };
+  overlaps: { count: number; totalSec: number; samples: IssueSample[] };
+  standbyStretches: { start: string; end: string; hours: number }[];
+  badDurations: { count: number; samples: { start_time: string | null; title: string | null }[] };
+  unreachable: { url: string; status: number | string }[];
+  urlsChecked: number;
+  message?: string;
+}
+
+export interface HealthRunSummary {
+  kind: "audit";
+  channels: ChannelHealth[];
+}
+
+/** Statuses that should show up under "Needs attention". */
+export function needsAttention(h: ChannelHealth): boolean {
+  return (
+    ["warning", "critical", "expired", "no_content", "error"].includes(h.status) ||
+    h.gaps.count > 0 ||
+    h.overlaps.count > 0 ||
+    h.standbyStretches.length > 0 ||
+    h.badDurations.count > 0 ||
+    h.unreachable.length > 0
+  );
+}
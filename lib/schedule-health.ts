@@ -0,0 +1,255 @@
+// lib/schedule-health.ts
+// Read-only schedule auditor used by /api/cron/schedule-health. It never
+// writes to `programs` — extending schedules is auto-extend's job. Server
+// only (it probes file URLs); the result types live in
+// lib/schedule-health-status.ts for the dashboard.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  asSeconds,
+  findGapsAndOverlaps,
+  isRealProgram,
+  parseUtcishMs,
+  scheduleEndMs,
+  sortByStart,
+  type ScheduleIssue,
+  type ScheduleProgram,
+} from "@/lib/schedule";
+import { getCandidateUrlsForProgram } from "@/lib/program-urls";
+import type { Program } from "@/lib/supabase";
+import type { ChannelHealth, HealthStatus, IssueSample } from "@/lib/schedule-health-status";
+
+const HOUR_MS = 60 * 60 * 1000;
+const LOOKBACK_HOURS = 6;            // catch whatever is airing right now
+const PAGE_SIZE = 1000;              // Supabase's silent per-select cap
+const MAX_PAGES = 10;
+const GAP_TOLERANCE_SEC = 5;
+const STANDBY_STRETCH_MIN_MINUTES = 60;
+const URL_CHECK_HORIZON_HOURS = 48;  // only probe what will air soon
+const MAX_URL_CHECKS_PER_CHANNEL = 40;
+const URL_CHECK_CONCURRENCY = 5;
+const URL_CHECK_TIMEOUT_MS = 8000;
+const SAMPLE_LIMIT = 5;
+
+type ProgramRow = {
+  channel_id: number;
+  title: string | null;
+  mp4_url: string | null;
+  start_time: string | null;
+  duration: number | string | null;
+};
+
+function statusForHours(hours: number): HealthStatus {
+  if (hours <= 0) return "expired";
+  if (hours < 24) return "critical";
+  if (hours < 48) return "warning";
+  if (hours < 24 * 7) return "good";
+  return "great";
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+function sample(issue: ScheduleIssue): IssueSample {
+  return {
+    start: new Date(issue.startMs).toISOString(),
+    end: new Date(issue.endMs).toISOString(),
+    seconds: Math.round(issue.seconds),
+    after: (issue.after as ProgramRow).title ?? null,
+  };
+}
+
+function isStandbyRow(p: ProgramRow) {
+  const u = String(p.mp4_url || "");
+  return u.length === 0 || /standby/i.test(u);
+}
+
+/** Current + upcoming rows for one channel, paginated past the 1000-row cap. */
+async function loadWindow(client: SupabaseClient, channelId: number, fromIso: string) {
+  const rows: ProgramRow[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, error } = await client
+      .from("programs")
+      .select("channel_id, title, mp4_url, start_time, duration")
+      .eq("channel_id", channelId)
+      .gte("start_time", fromIso)
+      .order("start_time", { ascending: true })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as ProgramRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function probeUrl(url: string): Promise<number | string> {
+  try {
+    const res = await fetch(url, {
+      method: "HEAD",
+      cache: "no-store",
+      signal: AbortSignal.timeout(URL_CHECK_TIMEOUT_MS),
+    });
+    return res.status;
+  } catch (e: any) {
+    return e?.name === "TimeoutError" ? "timeout" : "network";
+  }
+}
+
+/** HEAD-probe each distinct upcoming file; a row is fine if any candidate answers 2xx. */
+async function findUnreachable(rows: ProgramRow[], nowMs: number) {
+  const horizon = nowMs + URL_CHECK_HORIZON_HOURS * HOUR_MS;
+  const byKey = new Map<string, ProgramRow>();
+  for (const p of rows) {
+    if (!isRealProgram(p)) continue;
+    const t = parseUtcishMs(p.start_time);
+    if (!Number.isFinite(t) || t > horizon) continue;
+    const key = String(p.mp4_url).trim();
+    if (!byKey.has(key)) byKey.set(key, p);
+    if (byKey.size >= MAX_URL_CHECKS_PER_CHANNEL) break;
+  }
+
+  const entries = Array.from(byKey.entries());
+  const unreachable: { url: string; status: number | string }[] = [];
+
+  for (let i = 0; i < entries.length; i += URL_CHECK_CONCURRENCY) {
+    const batch = entries.slice(i, i + URL_CHECK_CONCURRENCY);
+    await Promise.all(
+      batch.map(async ([key, p]) => {
+        const candidates = getCandidateUrlsForProgram(p as unknown as Program);
+        let last: number | string = "no_url";
+        for (const url of candidates) {
+          last = await probeUrl(url);
+          if (typeof last === "number" && last >= 200 && last < 300) return;
+        }
+        unreachable.push({ url: key, status: last });
+      })
+    );
+  }
+
+  return { unreachable, checked: entries.length };
+}
+
+/** Audit one channel's schedule from "now" to its end. Never throws. */
+export async function auditChannel(
+  client: SupabaseClient,
+  channel: { id: number | string; name?: string | null },
+  nowMs: number,
+  opts: { checkUrls?: boolean } = {}
+): Promise<ChannelHealth> {
+  const channelId = parseInt(String(channel.id), 10);
+  const channelName = channel.name || `Channel ${channelId}`;
+
+  const base: ChannelHealth = {
+    channelId,
+    channelName,
+    status: "no_content",
+    endTime: null,
+    hoursRemaining: 0,
+    coveredHours: 0,
+    programCount: 0,
+    gaps: { count: 0, totalSec: 0, samples: [] },
+    overlaps: { count: 0, totalSec: 0, samples: [] },
+    standbyStretches: [],
+    badDurations: { count: 0, samples: [] },
+    unreachable: [],
+    urlsChecked: 0,
+  };
+
+  try {
+    const fromIso = new Date(nowMs - LOOKBACK_HOURS * HOUR_MS).toISOString();
+    const rows = sortByStart(await loadWindow(client, channelId, fromIso));
+
+    if (rows.length === 0) {
+      // Distinguish "never had content" from "ran out"
+      const { data: last } = await client
+        .from("programs")
+        .select("start_time")
+        .eq("channel_id", channelId)
+        .order("start_time", { ascending: false })
+        .limit(1);
+      if (!last || last.length === 0) return { ...base, message: "No programs found" };
+      return { ...base, status: "expired", message: "Schedule has ended" };
+    }
+
+    const endMs = scheduleEndMs(rows as ScheduleProgram[]);
+    const hoursRemaining = endMs > 0 ? (endMs - nowMs) / HOUR_MS : 0;
+
+    // Bad rows: zero/unparseable duration or unparseable start
+    const bad = rows.filter(
+      (p) => asSeconds(p.duration) <= 0 || !Number.isFinite(parseUtcishMs(p.start_time))
+    );
+
+    // Gaps/overlaps that still matter (ending after now)
+    const issues = findGapsAndOverlaps(rows as ScheduleProgram[], GAP_TOLERANCE_SEC).filter(
+      (i) => i.endMs > nowMs
+    );
+    const gaps = issues.filter((i) => i.kind === "gap");
+    const overlaps = issues.filter((i) => i.kind === "overlap");
+
+    // Standby-only stretches and real coverage from now on
+    const standbyStretches: ChannelHealth["standbyStretches"] = [];
+    let coveredMs = 0;
+    let runStart = NaN;
+    let runEnd = NaN;
+    const closeRun = () => {
+      if (Number.isFinite(runStart) && runEnd - runStart >= STANDBY_STRETCH_MIN_MINUTES * 60_000) {
+        standbyStretches.push({
+          start: new Date(runStart).toISOString(),
+          end: new Date(runEnd).toISOString(),
+          hours: round1((runEnd - runStart) / HOUR_MS),
+        });
+      }
+      runStart = runEnd = NaN;
+    };
+
+    for (const p of rows) {
+      const startMs = parseUtcishMs(p.start_time);
+      const durSec = asSeconds(p.duration);
+      if (!Number.isFinite(startMs) || durSec <= 0) continue;
+      const pEnd = startMs + durSec * 1000;
+      if (pEnd <= nowMs) continue;
+
+      if (isStandbyRow(p)) {
+        if (!Number.isFinite(runStart)) runStart = Math.max(startMs, nowMs);
+        runEnd = pEnd;
+      } else {
+        closeRun();
+        coveredMs += pEnd - Math.max(startMs, nowMs);
+      }
+    }
+    closeRun();
+
+    const urlCheck = opts.checkUrls === false
+      ? { unreachable: [], checked: 0 }
+      : await findUnreachable(rows, nowMs);
+
+    return {
+      ...base,
+      status: statusForHours(hoursRemaining),
+      endTime: endMs > 0 ? new Date(endMs).toISOString() : null,
+      hoursRemaining: Math.max(0, round1(hoursRemaining)),
+      coveredHours: round1(coveredMs / HOUR_MS),
+      programCount: rows.length,
+      gaps: {
+        count: gaps.length,
+        totalSec: Math.round(gaps.reduce((s, i) => s + i.seconds, 0)),
+        samples: gaps.slice(0, SAMPLE_LIMIT).map(sample),
+      },
+      overlaps: {
+        count: overlaps.length,
+        totalSec: Math.round(overlaps.reduce((s, i) => s + i.seconds, 0)),
+        samples: overlaps.slice(0, SAMPLE_LIMIT).map(sample),
+      },
+      standbyStretches,
+      badDurations: {
+        count: bad.length,
+        samples: bad.slice(0, SAMPLE_LIMIT).map((p) => ({ start_time: p.start_time, title: p.title })),
+      },
+      unreachable: urlCheck.unreachable,
+      urlsChecked: urlCheck.checked,
+    };
+  } catch (err: any) {
+    return { ...base, status: "error", message: err?.message || "Unknown error" };
+  }
+}
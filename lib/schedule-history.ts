@@ -0,0 +1,68 @@
+// lib/schedule-history.ts
+// Schedule changesets (scripts/014-schedule-changesets.sql). Bulk schedule
+// tools call snapshotSchedule() before writing so the admin "Schedule
+// history" page can put a channel back. Works with the browser or server
+// client; RLS limits both to admins and schedule:write staff.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ScheduleChangeset = {
+  id: number;
+  channel_id: number;
+  operation: string;
+  label: string | null;
+  row_count: number;
+  created_by: string | null;
+  created_at: string;
+  restored_at: string | null;
+  restored_by: string | null;
+};
+
+/** Everything but the snapshot rows, which can be large. */
+const CHANGESET_COLUMNS =
+  "id, channel_id, operation, label, row_count, created_by, created_at, restored_at, restored_by";
+
+/**
+ * Snapshot every program of the given channels (all channels when null).
+ * Throws on failure: callers should not go ahead without an undo point.
+ */
+export async function snapshotSchedule(
+  client: SupabaseClient,
+  channelIds: number[] | null,
+  operation: string,
+  label?: string
+): Promise<{ id: number; channel_id: number; row_count: number }[]> {
+  const { data, error } = await client.rpc("snapshot_schedule", {
+    p_channel_ids: channelIds ? [...new Set(channelIds)] : null,
+    p_operation: operation,
+    p_label: label ?? null,
+  });
+  if (error) throw new Error(`Could not save an undo snapshot: ${error.message}`);
+  return data ?? [];
+}
+
+export async function listChangesets(
+  client: SupabaseClient,
+  channelId?: number | null,
+  limit = 100
+): Promise<ScheduleChangeset[]> {
+  let query = client
+    .from("schedule_changesets")
+    .select(CHANGESET_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (channelId != null) query = query.eq("channel_id", channelId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as ScheduleChangeset[];
+}
+
+/**
+ * Replace the channel's programs with the changeset's rows. The current
+ * schedule is snapshotted first, so a restore can itself be undone.
+ * Returns the number of programs restored.
+ */
+export async function restoreChangeset(client: SupabaseClient, id: number): Promise<number> {
+  const { data, error } = await client.rpc("restore_schedule_changeset", { p_id: id });
+  if (error) throw error;
+  return Number(data ?? 0);
+}
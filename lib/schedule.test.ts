@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import {
+  GRACE_MS,
+  asSeconds,
+  chainSequential,
+  findActiveProgram,
+  findGapsAndOverlaps,
+  parseUtcishMs,
+} from "@/lib/schedule";
+
+const T0 = Date.UTC(2024, 0, 15, 12, 0, 0); // 2024-01-15T12:00:00Z
+
+function at(iso: string) {
+  return Date.parse(iso);
+}
+
+describe("parseUtcishMs", () => {
+  it("treats naive timestamps as UTC, with T or a space", () => {
+    expect(parseUtcishMs("2024-01-15T12:00:00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15 12:00:00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T12:00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T12:00:00.500")).toBe(T0 + 500);
+  });
+
+  it("honours Z and every offset form", () => {
+    expect(parseUtcishMs("2024-01-15T12:00:00Z")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T12:00:00z")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15 12:00:00+00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T14:00:00+02")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T14:00:00+0200")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T14:00:00+02:00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15T07:00:00-05:00")).toBe(T0);
+    expect(parseUtcishMs("2024-01-15 17:30:00+05:30")).toBe(T0);
+  });
+
+  it("passes Dates through and rejects junk", () => {
+    expect(parseUtcishMs(new Date(T0))).toBe(T0);
+    expect(parseUtcishMs(null)).toBeNaN();
+    expect(parseUtcishMs(undefined)).toBeNaN();
+    expect(parseUtcishMs("")).toBeNaN();
+    expect(parseUtcishMs("not a date")).toBeNaN();
+  });
+});
+
+describe("asSeconds", () => {
+  it("parses HH:MM:SS and MM:SS", () => {
+    expect(asSeconds("01:02:03")).toBe(3723);
+    expect(asSeconds("00:30:00")).toBe(1800);
+    expect(asSeconds("100:00:00")).toBe(360000);
+    expect(asSeconds("02:03")).toBe(123);
+    expect(asSeconds("45:00")).toBe(2700);
+  });
+
+  it("takes numbers and numeric strings", () => {
+    expect(asSeconds(90)).toBe(90);
+    expect(asSeconds(1.5)).toBe(1.5);
+    expect(asSeconds("1800")).toBe(1800);
+    expect(asSeconds("123s")).toBe(123);
+  });
+
+  it("returns 0 for unusable values", () => {
+    expect(asSeconds(null)).toBe(0);
+    expect(asSeconds(undefined)).toBe(0);
+    expect(asSeconds(0)).toBe(0);
+    expect(asSeconds(-5)).toBe(0);
+    expect(asSeconds(NaN)).toBe(0);
+    expect(asSeconds("")).toBe(0);
+    expect(asSeconds("abc")).toBe(0);
+  });
+});
+
+describe("findActiveProgram", () => {
+  const a = { channel_id: 1, title: "A", start_time: "2024-01-15T12:00:00Z", duration: 1800 };
+  const b = { channel_id: 1, title: "B", start_time: "2024-01-15T12:30:00Z", duration: "00:30:00" };
+
+  it("finds the program whose [start, end) contains now", () => {
+    expect(findActiveProgram([a, b], at("2024-01-15T12:10:00Z"))).toBe(a);
+    expect(findActiveProgram([a, b], at("2024-01-15T12:45:00Z"))).toBe(b);
+  });
+
+  it("prefers the real airing over a grace match at a boundary", () => {
+    // 30s into B is also inside A's end grace; B must win whatever the order
+    const now = at("2024-01-15T12:30:30Z");
+    expect(findActiveProgram([a, b], now)).toBe(b);
+    expect(findActiveProgram([b, a], now)).toBe(b);
+    // 30s before B starts is still A
+    expect(findActiveProgram([a, b], at("2024-01-15T12:29:30Z"))).toBe(a);
+  });
+
+  it("falls back to a grace match just outside the schedule", () => {
+    const justBefore = at("2024-01-15T12:00:00Z") - GRACE_MS / 2;
+    expect(findActiveProgram([a, b], justBefore)).toBe(a);
+    const justAfter = at("2024-01-15T13:00:00Z") + GRACE_MS / 2;
+    expect(findActiveProgram([a, b], justAfter)).toBe(b);
+  });
+
+  it("returns null outside the grace window", () => {
+    expect(findActiveProgram([a, b], at("2024-01-15T11:00:00Z"))).toBeNull();
+    expect(findActiveProgram([a, b], at("2024-01-15T13:00:00Z") + GRACE_MS)).toBeNull();
+    expect(findActiveProgram([a, b], at("2024-01-15T12:10:00Z"), 0)).toBe(a);
+  });
+
+  it("matches naive and offset start times alike", () => {
+    const naive = { channel_id: 1, start_time: "2024-01-15 14:00:00", duration: 600 };
+    const offset = { channel_id: 1, start_time: "2024-01-15T16:10:00+02:00", duration: 600 };
+    expect(findActiveProgram([naive, offset], at("2024-01-15T14:05:00Z"))).toBe(naive);
+    expect(findActiveProgram([naive, offset], at("2024-01-15T14:15:00Z"))).toBe(offset);
+  });
+});
+
+describe("findGapsAndOverlaps", () => {
+  const p = (start: string, duration: number | string) => ({ channel_id: 1, start_time: start, duration });
+
+  it("reports nothing for a back-to-back schedule, in any input order", () => {
+    const list = [p("2024-01-15T12:30:00Z", 1800), p("2024-01-15T12:00:00Z", 1800)];
+    expect(findGapsAndOverlaps(list)).toEqual([]);
+  });
+
+  it("reports a gap between programs", () => {
+    const first = p("2024-01-15T12:00:00Z", 1800);
+    const second = p("2024-01-15T12:40:00Z", 600);
+    const [issue, ...rest] = findGapsAndOverlaps([first, second]);
+    expect(rest).toEqual([]);
+    expect(issue).toMatchObject({
+      kind: "gap",
+      startMs: at("2024-01-15T12:30:00Z"),
+      endMs: at("2024-01-15T12:40:00Z"),
+      seconds: 600,
+      before: first,
+      after: second,
+    });
+  });
+
+  it("reports an overlap, across mixed timestamp formats", () => {
+    const first = p("2024-01-15 12:00:00", "00:30:00");
+    const second = p("2024-01-15T14:20:00+02:00", 1800);
+    const [issue] = findGapsAndOverlaps([first, second]);
+    expect(issue).toMatchObject({
+      kind: "overlap",
+      startMs: at("2024-01-15T12:20:00Z"),
+      endMs: at("2024-01-15T12:30:00Z"),
+      seconds: 600,
+    });
+  });
+
+  it("ignores differences within the tolerance", () => {
+    const list = [p("2024-01-15T12:00:00Z", 1800), p("2024-01-15T12:30:01Z", 600)];
+    expect(findGapsAndOverlaps(list)).toEqual([]);
+    expect(findGapsAndOverlaps(list, 0)).toHaveLength(1);
+  });
+
+  it("measures against the longest-running earlier program", () => {
+    // A long program swallows a short one; the next gap starts after the long one ends
+    const list = [
+      p("2024-01-15T12:00:00Z", 3600),
+      p("2024-01-15T12:10:00Z", 600),
+      p("2024-01-15T13:10:00Z", 600),
+    ];
+    const issues = findGapsAndOverlaps(list);
+    expect(issues.map((i) => i.kind)).toEqual(["overlap", "gap"]);
+    expect(issues[1].startMs).toBe(at("2024-01-15T13:00:00Z"));
+  });
+
+  it("skips programs without a start or duration", () => {
+    const list = [p("2024-01-15T12:00:00Z", 1800), p("garbage", 600), p("2024-01-15T12:30:00Z", 0)];
+    expect(findGapsAndOverlaps(list)).toEqual([]);
+  });
+});
+
+describe("chainSequential", () => {
+  const items = [
+    { title: "One", mp4_url: "one.mp4", duration: "00:10:00" },
+    { title: "Two", mp4_url: "two.mp4", duration: 300 },
+  ];
+
+  it("lays items back to back from the start time", () => {
+    const { rows, endMs } = chainSequential(items, 7, T0);
+    expect(rows).toEqual([
+      { channel_id: 7, start_time: "2024-01-15T12:00:00.000Z", title: "One", mp4_url: "one.mp4", duration: 600 },
+      { channel_id: 7, start_time: "2024-01-15T12:10:00.000Z", title: "Two", mp4_url: "two.mp4", duration: 300 },
+    ]);
+    expect(endMs).toBe(T0 + 900_000);
+    expect(findGapsAndOverlaps(rows)).toEqual([]);
+  });
+
+  it("repeats the list", () => {
+    const { rows, endMs } = chainSequential(items, 7, T0, { repeat: 2 });
+    expect(rows.map((r) => r.title)).toEqual(["One", "Two", "One", "Two"]);
+    expect(rows[2].start_time).toBe("2024-01-15T12:15:00.000Z");
+    expect(endMs).toBe(T0 + 1_800_000);
+  });
+
+  it("skips items with no duration unless there is a fallback", () => {
+    const withMissing = [...items, { title: "Unknown", mp4_url: "x.mp4", duration: null }];
+    expect(chainSequential(withMissing, 7, T0).rows).toHaveLength(2);
+
+    const { rows, endMs } = chainSequential(withMissing, 7, T0, { fallbackDurationSec: 60 });
+    expect(rows[2]).toMatchObject({ title: "Unknown", duration: 60, start_time: "2024-01-15T12:15:00.000Z" });
+    expect(endMs).toBe(T0 + 960_000);
+  });
+
+  it("keeps zero-length slots with keepEmpty, one row per item", () => {
+    const withEmpty = [items[0], { title: "Empty", mp4_url: "e.mp4", duration: 0 }, items[1]];
+    const { rows, endMs } = chainSequential(withEmpty, 7, T0, { keepEmpty: true });
+    expect(rows.map((r) => [r.title, r.start_time, r.duration])).toEqual([
+      ["One", "2024-01-15T12:00:00.000Z", 600],
+      ["Empty", "2024-01-15T12:10:00.000Z", 0],
+      ["Two", "2024-01-15T12:10:00.000Z", 300],
+    ]);
+    expect(endMs).toBe(T0 + 900_000);
+  });
+
+  it("returns the start time as the end for an empty list", () => {
+    expect(chainSequential([], 7, T0)).toEqual({ rows: [], endMs: T0 });
+  });
+});
@@ -0,0 +1,311 @@
+// lib/schedule.ts
+// Shared schedule engine: time/duration parsing, "what's on now", window
+// queries, gap/overlap detection and sequential chaining. Everything that
+// reasons about programs.start_time / programs.duration should go through
+// here so a timezone fix lands everywhere at once.
+
+/** Grace window around start/end when deciding what is "on now". */
+export const GRACE_MS = 120_000;
+
+/** Minimal program shape every schedule helper understands. */
+export type ScheduleProgram = {
+  channel_id: number | string;
+  title?: string | null;
+  mp4_url?: string | null;
+  duration?: number | string | null; // seconds or "HH:MM:SS" / "MM:SS"
+  start_time?: string | null; // timestamptz-ish; naive values are UTC
+};
+
+/** A program with its parsed start/end resolved once. */
+export type TimedProgram<P extends ScheduleProgram = ScheduleProgram> = P & {
+  startMs: number;
+  durationSec: number;
+  endMs: number;
+};
+
+export type ScheduleIssue = {
+  kind: "gap" | "overlap";
+  startMs: number; // where the gap/overlap begins
+  endMs: number; // where it ends
+  seconds: number;
+  before: ScheduleProgram; // program ending at (or running past) startMs
+  after: ScheduleProgram; // program starting at endMs (gap) or startMs (overlap)
+};
+
+/* ---------- Parsing ---------- */
+
+/** Duration in seconds from a number, "HH:MM:SS", "MM:SS" or "123s". 0 if unusable. */
+export function asSeconds(v: unknown): number {
+  if (v == null) return 0;
+  if (typeof v === "number") return Number.isFinite(v) && v > 0 ? v : 0;
+  const s = String(v).trim();
+  const m = /^(\d{1,3}):([0-5]?\d)(?::([0-5]?\d))?$/.exec(s); // HH:MM:SS or MM:SS
+  if (m) {
+    const hh = m[3] ? Number(m[1]) : 0;
+    const mm = Number(m[3] ? m[2] : m[1]);
+    const ss = Number(m[3] ? m[3] : m[2]);
+    return hh * 3600 + mm * 60 + ss;
+  }
+  const num = Number(s.replace(/[^\d.]+/g, ""));
+  return Number.isFinite(num) && num > 0 ? Math.round(num) : 0;
+}
+
+/**
+ * Epoch ms for a DB timestamp. Accepts "Z", "+HH", "+HHMM" and "+HH:MM"
+ * offsets, a space instead of "T", and treats naive timestamps as UTC.
+ * NaN if unparseable.
+ */
+export function parseUtcishMs(val: unknown): number {
+  if (val == null) return NaN;
+  if (val instanceof Date) return val.getTime();
+  let s = String(val).trim();
+  if (!s) return NaN;
+
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/.test(s)) s = s.replace(" ", "T");
+
+  if (/[zZ]$/.test(s)) {
+    s = s.replace(/[zZ]$/, "Z");
+  } else {
+    const m = /([+\-]\d{2})(:?)(\d{2})?$/.exec(s);
+    if (m && /T\d{2}:\d{2}/.test(s)) {
+      const hh = m[1];
+      const mm = m[3] ?? "00";
+      s = s.replace(/([+\-]\d{2})(:?)(\d{2})?$/, `${hh}:${mm}`);
+      if (/([+\-]00:00)$/.test(s)) s = s.replace(/([+\-]00:00)$/, "Z");
+    } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(s)) {
+      s += "Z";
+    }
+  }
+
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? NaN : t;
+}
+
+/** Same as parseUtcishMs but as a Date (null if unparseable). */
+export function toUtcDate(val: unknown): Date | null {
+  const t = parseUtcishMs(val);
+  return Number.isFinite(t) ? new Date(t) : null;
+}
+
+/* ---------- Normalization ---------- */
+
+/** Resolve start/duration/end once. Unparseable start → NaN, bad duration → 0. */
+export function normalizeProgram<P extends ScheduleProgram>(
+  p: P,
+  fallbackDurationSec = 0
+): TimedProgram<P> {
+  const startMs = parseUtcishMs(p.start_time);
+  const durationSec = asSeconds(p.duration) || fallbackDurationSec;
+  return { ...p, startMs, durationSec, endMs: startMs + durationSec * 1000 };
+}
+
+/** End of a program in epoch ms (NaN if start is unparseable). */
+export function programEndMs(p: ScheduleProgram): number {
+  return parseUtcishMs(p.start_time) + asSeconds(p.duration) * 1000;
+}
+
+/** New array sorted by parsed start time; unparseable starts sort first. */
+export function sortByStart<P extends ScheduleProgram>(list: readonly P[]): P[] {
+  return list
+    .slice()
+    .sort((a, b) => (parseUtcishMs(a.start_time) || 0) - (parseUtcishMs(b.start_time) || 0));
+}
+
+/** Group programs by numeric channel id, each group sorted by start. */
+export function groupByChannel<P extends ScheduleProgram>(list: readonly P[]): Map<number, P[]> {
+  const map = new Map<number, P[]>();
+  for (const p of list) {
+    const key = Number(p.channel_id);
+    if (!Number.isFinite(key)) continue;
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(p);
+  }
+  for (const [k, arr] of map) map.set(k, sortByStart(arr));
+  return map;
+}
+
+/**
+ * A "real" program has a video URL that is not the standby clip and a
+ * positive duration. Standby clips must never be chained forward.
+ */
+export function isRealProgram(p: ScheduleProgram): boolean {
+  const u = String(p.mp4_url || "");
+  return u.length > 0 && !/standby/i.test(u) && asSeconds(p.duration) > 0;
+}
+
+/* ---------- Active-program lookup ---------- */
+
+export function isActiveProgram(p: ScheduleProgram, nowMs: number, graceMs = GRACE_MS): boolean {
+  const startMs = parseUtcishMs(p.start_time);
+  const durSec = asSeconds(p.duration);
+  if (!Number.isFinite(startMs) || durSec <= 0) return false;
+  const endMs = startMs + durSec * 1000;
+  return startMs - graceMs <= nowMs && nowMs < endMs + graceMs;
+}
+
+/**
+ * The program airing at nowMs. When grace windows make two programs match
+ * (the tail of one and the head of the next), the one whose real
+ * [start, end) contains nowMs wins.
+ */
+export function findActiveProgram<P extends ScheduleProgram>(
+  list: readonly P[],
+  nowMs: number,
+  graceMs = GRACE_MS
+): P | null {
+  let graceMatch: P | null = null;
+  for (const p of list) {
+    if (!isActiveProgram(p, nowMs, graceMs)) continue;
+    const startMs = parseUtcishMs(p.start_time);
+    if (startMs <= nowMs && nowMs < programEndMs(p)) return p;
+    if (!graceMatch) graceMatch = p;
+  }
+  return graceMatch;
+}
+
+/* ---------- Window queries ---------- */
+
+/** Programs starting strictly after nowMs (and at or before untilMs), in start order. */
+export function upcomingPrograms<P extends ScheduleProgram>(
+  list: readonly P[],
+  nowMs: number,
+  untilMs = Infinity
+): P[] {
+  return sortByStart(list).filter((p) => {
+    const t = parseUtcishMs(p.start_time);
+    return t > nowMs && t <= untilMs;
+  });
+}
+
+/** Programs overlapping [fromMs, toMs), in start order. */
+export function programsInWindow<P extends ScheduleProgram>(
+  list: readonly P[],
+  fromMs: number,
+  toMs: number
+): P[] {
+  return sortByStart(list).filter((p) => {
+    const startMs = parseUtcishMs(p.start_time);
+    if (!Number.isFinite(startMs)) return false;
+    const endMs = startMs + asSeconds(p.duration) * 1000;
+    return startMs < toMs && endMs > fromMs;
+  });
+}
+
+/** Latest end time across programs (0 for an empty list). */
+export function scheduleEndMs(list: readonly ScheduleProgram[]): number {
+  let end = 0;
+  for (const p of list) {
+    const e = programEndMs(p);
+    if (Number.isFinite(e) && e > end) end = e;
+  }
+  return end;
+}
+
+/** Sum of durations in seconds. */
+export function totalDurationSec(list: readonly ScheduleProgram[]): number {
+  return list.reduce((sum, p) => sum + asSeconds(p.duration), 0);
+}
+
+/* ---------- Gap / overlap detection ---------- */
+
+/**
+ * Walk a single channel's programs in start order and report gaps and
+ * overlaps between consecutive programs. Differences under toleranceSec
+ * (rounding in stored durations) are ignored.
+ */
+export function findGapsAndOverlaps(
+  list: readonly ScheduleProgram[],
+  toleranceSec = 1
+): ScheduleIssue[] {
+  const timed = sortByStart(list)
+    .map((p) => ({ p, startMs: parseUtcishMs(p.start_time), durSec: asSeconds(p.duration) }))
+    .filter((t) => Number.isFinite(t.startMs) && t.durSec > 0);
+
+  const issues: ScheduleIssue[] = [];
+  let prev = timed[0];
+  let prevEndMs = prev ? prev.startMs + prev.durSec * 1000 : 0;
+
+  for (let i = 1; i < timed.length; i++) {
+    const cur = timed[i];
+    const diffSec = (cur.startMs - prevEndMs) / 1000;
+
+    if (diffSec > toleranceSec) {
+      issues.push({
+        kind: "gap",
+        startMs: prevEndMs,
+        endMs: cur.startMs,
+        seconds: diffSec,
+        before: prev.p,
+        after: cur.p,
+      });
+    } else if (diffSec < -toleranceSec) {
+      const curEndMs = cur.startMs + cur.durSec * 1000;
+      issues.push({
+        kind: "overlap",
+        startMs: cur.startMs,
+        endMs: Math.min(prevEndMs, curEndMs),
+        seconds: (Math.min(prevEndMs, curEndMs) - cur.startMs) / 1000,
+        before: prev.p,
+        after: cur.p,
+      });
+    }
+
+    const curEndMs = cur.startMs + cur.durSec * 1000;
+    if (curEndMs >= prevEndMs) {
+      prev = cur;
+      prevEndMs = curEndMs;
+    }
+  }
+  return issues;
+}
+
+/* ---------- Sequential chaining ---------- */
+
+export type ChainItem = {
+  title?: string | null;
+  mp4_url: string | null;
+  duration?: number | string | null;
+};
+
+export type ChainedRow = {
+  channel_id: number;
+  start_time: string; // UTC ISO
+  title: string | null;
+  mp4_url: string | null;
+  duration: number; // seconds
+};
+
+/**
+ * Lay items back to back starting at startMs — no gaps, no overlaps.
+ * Items with no usable duration use fallbackDurationSec, or are skipped
+ * when it is 0 — unless keepEmpty, which gives them a zero-length slot so
+ * rows line up one-to-one with items. Returns the rows and where the chain
+ * ends.
+ */
+export function chainSequential(
+  items: readonly ChainItem[],
+  channelId: number,
+  startMs: number,
+  opts: { repeat?: number; fallbackDurationSec?: number; keepEmpty?: boolean } = {}
+): { rows: ChainedRow[]; endMs: number } {
+  const repeat = Math.max(1, Math.floor(opts.repeat ?? 1));
+  const fallback = opts.fallbackDurationSec ?? 0;
+  const rows: ChainedRow[] = [];
+  let cursorMs = startMs;
+
+  for (let r = 0; r < repeat; r++) {
+    for (const item of items) {
+      const durSec = asSeconds(item.duration) || fallback;
+      if (durSec <= 0 && !opts.keepEmpty) continue;
+      rows.push({
+        channel_id: channelId,
+        start_time: new Date(cursorMs).toISOString(),
+        title: item.title ?? null,
+        mp4_url: item.mp4_url,
+        duration: durSec,
+      });
+      cursorMs += durSec * 1000;
+    }
+  }
+  return { rows, endMs: cursorMs };
+}
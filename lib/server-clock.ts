@@ -0,0 +1,60 @@
+// lib/server-clock.ts
+// Client-side clock that agrees with the server. Every viewer of a channel
+// computes "where the broadcast is" from this instead of the device clock,
+// so a phone that is 40 seconds fast still joins at the same moment as
+// everyone else.
+
+const SAMPLES = 3;
+const MAX_RTT_MS = 5_000; // samples slower than this are too noisy to trust
+
+let offsetMs = 0; // serverNow - Date.now()
+let inflight: Promise<number> | null = null;
+
+async function sampleOnce(): Promise<{ offset: number; rtt: number } | null> {
+  try {
+    const t0 = Date.now();
+    const res = await fetch("/api/now", { cache: "no-store" });
+    const t1 = Date.now();
+    if (!res.ok) return null;
+
+    const j = await res.json().catch(() => ({}));
+    const serverMs = Number(j?.epochMs);
+    if (!Number.isFinite(serverMs)) return null;
+
+    // Assume the server stamped the response halfway through the round trip.
+    const rtt = t1 - t0;
+    return { offset: serverMs + rtt / 2 - t1, rtt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Measures the offset between this device and the server via /api/now.
+ * Takes a few samples and keeps the one with the shortest round trip.
+ * Resolves to the offset in ms; on failure keeps the previous offset.
+ */
+export function syncServerClock(): Promise<number> {
+  if (inflight) return inflight;
+
+  inflight = (async () => {
+    let best: { offset: number; rtt: number } | null = null;
+    for (let i = 0; i < SAMPLES; i++) {
+      const s = await sampleOnce();
+      if (s && s.rtt <= MAX_RTT_MS && (!best || s.rtt < best.rtt)) best = s;
+    }
+    if (best) {
+      offsetMs = Math.round(best.offset);
+    }
+    return offsetMs;
+  })().finally(() => {
+    inflight = null;
+  });
+
+  return inflight;
+}
+
+/** Current time in epoch ms, corrected by the last server sync. */
+export function getServerNowMs(): number {
+  return Date.now() + offsetMs;
+}
@@ -0,0 +1,225 @@
+// lib/signup-requests.ts
+// Review decisions on signup_requests (scripts/011-signup-request-review.sql).
+// Approving creates the requester's profile when they already have an
+// account, which is what login treats as "approved". Every decision tells
+// the requester: a user_notifications row (if they have an account) and an
+// email. Server-only.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appUrl } from "@/lib/epg";
+import { sendEmail } from "@/lib/email";
+
+export const REVIEW_DECISIONS = ["approved", "rejected", "needs_info"] as const;
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+export type RequestStatus = "pending" | ReviewDecision;
+
+// Reviewers can always reach requesters by replying
+const REPLY_TO = process.env.CONTACT_TO || "director@sfjfamilyservices.org";
+
+export type ReviewOutcome = {
+  id: string;
+  ok: boolean;
+  error?: string;
+  notified?: boolean;
+  emailed?: boolean;
+};
+
+type RequestRow = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  status: RequestStatus;
+};
+
+export function isReviewDecision(v: unknown): v is ReviewDecision {
+  return REVIEW_DECISIONS.includes(v as ReviewDecision);
+}
+
+const NOTICE: Record<ReviewDecision, { title: string; body: string; subject: string; link: string }> = {
+  approved: {
+    title: "You're in!",
+    body: "Your request to join Black Truth TV was approved. Welcome to the network.",
+    subject: "Your Black Truth TV access is approved",
+    link: "/app",
+  },
+  rejected: {
+    title: "About your request to join",
+    body: "We weren't able to approve your request to join Black Truth TV at this time.",
+    subject: "About your Black Truth TV access request",
+    link: "/pending",
+  },
+  needs_info: {
+    title: "We need a little more information",
+    body: "Before we can approve your request, we need a bit more from you.",
+    subject: "Your Black Truth TV request: we need a little more information",
+    link: "/pending",
+  },
+};
+
+function emailText(decision: ReviewDecision, name: string | null, message: string | null) {
+  const site = appUrl();
+  return [
+    `Hi ${name?.trim() || "there"},`,
+    "",
+    NOTICE[decision].body,
+    message ? `\n${message}\n` : "",
+    decision === "approved"
+      ? `Sign in here: ${site}/login`
+      : decision === "needs_info"
+        ? "Just reply to this email with the details and we'll take another look."
+        : "If you think this was a mistake, reply to this email.",
+    `You can check your request status any time at ${site}/pending`,
+    "",
+    "— Black Truth TV",
+  ].join("\n");
+}
+
+async function ensureProfile(admin: SupabaseClient, userId: string, req: RequestRow) {
+  // ignoreDuplicates: an existing profile (and its role) is left alone
+  const { error } = await admin.from("user_profiles").upsert(
+    {
+      id: userId,
+      email: req.email,
+      full_name: req.name,
+      role: "member",
+      membership_status: "free",
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+async function reviewOne(
+  admin: SupabaseClient,
+  req: RequestRow,
+  decision: ReviewDecision,
+  opts: { reviewerId: string; note: string | null; message: string | null }
+): Promise<ReviewOutcome> {
+  let userId: string | null = null;
+  if (req.email) {
+    const { data, error } = await admin.rpc("auth_user_id_by_email", { p_email: req.email });
+    if (error) throw error;
+    userId = (data as string | null) ?? null;
+  }
+
+  // Once approved, the profile is their access; taking it back is a role or
+  // account change on /admin/users, not a request decision
+  if (req.status === "approved" && decision !== "approved" && userId) {
+    const { data: profile, error } = await admin
+      .from("user_profiles")
+      .select("id")
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (profile) {
+      return {
+        id: req.id,
+        ok: false,
+        error: `${req.email} is already approved and has an account; change their access from /admin/users`,
+      };
+    }
+  }
+
+  if (decision === "approved" && userId) await ensureProfile(admin, userId, req);
+
+  const { error: updErr } = await admin
+    .from("signup_requests")
+    .update({
+      status: decision,
+      review_note: opts.note,
+      decision_message: opts.message,
+      reviewed_by: opts.reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", req.id);
+  if (updErr) throw updErr;
+
+  // Same decision again (e.g. a bulk re-run): don't message twice
+  if (req.status === decision) return { id: req.id, ok: true, notified: false, emailed: false };
+
+  const notice = NOTICE[decision];
+  let notified = false;
+  if (userId) {
+    const { error } = await admin.from("user_notifications").insert({
+      user_id: userId,
+      type: "membership_request",
+      title: notice.title,
+      body: opts.message ? `${notice.body} ${opts.message}` : notice.body,
+      link: notice.link,
+    });
+    if (error) console.error("user_notifications insert failed:", error.message);
+    notified = !error;
+  }
+
+  const emailed = req.email
+    ? await sendEmail({
+        to: req.email,
+        subject: notice.subject,
+        text: emailText(decision, req.name, opts.message),
+        replyTo: REPLY_TO,
+      })
+    : false;
+
+  return { id: req.id, ok: true, notified, emailed };
+}
+
+/** Apply one decision to many requests. Each request succeeds or fails alone. */
+export async function reviewSignupRequests(
+  admin: SupabaseClient,
+  ids: string[],
+  decision: ReviewDecision,
+  opts: { reviewerId: string; note?: string | null; message?: string | null }
+): Promise<ReviewOutcome[]> {
+  const { data, error } = await admin
+    .from("signup_requests")
+    .select("id, name, email, status")
+    .in("id", ids);
+  if (error) throw error;
+
+  const byId = new Map(((data ?? []) as RequestRow[]).map((r) => [String(r.id), r]));
+  const outcomes: ReviewOutcome[] = [];
+  for (const id of ids) {
+    const req = byId.get(String(id));
+    if (!req) {
+      outcomes.push({ id, ok: false, error: "Request not found" });
+      continue;
+    }
+    try {
+      outcomes.push(
+        await reviewOne(admin, req, decision, {
+          reviewerId: opts.reviewerId,
+          note: opts.note?.trim() || null,
+          message: opts.message?.trim() || null,
+        })
+      );
+    } catch (e: any) {
+      outcomes.push({ id, ok: false, error: e?.message || String(e) });
+    }
+  }
+  return outcomes;
+}
+
+export type RequesterStatus = {
+  status: RequestStatus;
+  message: string | null;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+};
+
+/** The latest request for this email, as the requester may see it. */
+export async function getRequestStatus(admin: SupabaseClient, email: string): Promise<RequesterStatus | null> {
+  const { data, error } = await admin
+    .from("signup_requests")
+    .select("status, decision_message, created_at, reviewed_at")
+    .ilike("email", email.replace(/[\\%_]/g, "\\$&"))
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    status: (data.status as RequestStatus) || "pending",
+    message: data.decision_message ?? null,
+    submitted_at: data.created_at ?? null,
+    reviewed_at: data.reviewed_at ?? null,
+  };
+}
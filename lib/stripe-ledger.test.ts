@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { processStripeEvent } from "@/lib/stripe-ledger";
+
+const EVENT_SEC = Date.UTC(2024, 0, 15, 12, 0, 0) / 1000;
+const EVENT_AT = new Date(EVENT_SEC * 1000).toISOString();
+
+type Profile = {
+  id: string;
+  stripe_subscription_id: string | null;
+  membership_status: string | null;
+  stripe_synced_at: string | null;
+};
+
+type Op = { method: string; args: any[] };
+type Query = { table: string; ops: Op[] };
+
+/**
+ * Just enough of the supabase-js query builder for the ledger: every chain
+ * is recorded, and user_profiles updates honour the .or() watermark filter
+ * the way PostgREST would.
+ */
+function fakeAdmin(profile: Profile, ledgerStatus = "received") {
+  const queries: Query[] = [];
+
+  const resolve = ({ table, ops }: Query) => {
+    const has = (m: string) => ops.some((o) => o.method === m);
+    if (table === "stripe_events" && !has("update")) {
+      return { data: { status: ledgerStatus, attempts: 0 }, error: null };
+    }
+    if (table === "plans") return { data: [], error: null };
+    if (table === "user_profiles" && has("update")) {
+      const or = ops.find((o) => o.method === "or")?.args[0] as string;
+      const bound = /stripe_synced_at\.lte\.(.+)$/.exec(or)?.[1];
+      const fresh = !profile.stripe_synced_at || (!!bound && profile.stripe_synced_at <= bound);
+      return { data: fresh ? [{ id: profile.id }] : [], error: null };
+    }
+    if (table === "user_profiles") return { data: profile, error: null };
+    return { data: null, error: null };
+  };
+
+  const admin = {
+    from(table: string) {
+      const query: Query = { table, ops: [] };
+      queries.push(query);
+      const builder: any = new Proxy(
+        {},
+        {
+          get(_, method: string) {
+            if (method === "then") {
+              return (ok: (v: unknown) => unknown, fail: (e: unknown) => unknown) =>
+                Promise.resolve(resolve(query)).then(ok, fail);
+            }
+            return (...args: any[]) => {
+              query.ops.push({ method, args });
+              return builder;
+            };
+          },
+        }
+      );
+      return builder;
+    },
+  };
+
+  const updatesTo = (table: string) =>
+    queries
+      .filter((q) => q.table === table)
+      .flatMap((q) => q.ops.filter((o) => o.method === "update").map((o) => o.args[0]));
+
+  return { admin: admin as unknown as SupabaseClient, updatesTo };
+}
+
+function subscription(overrides: Partial<Stripe.Subscription> = {}) {
+  return {
+    id: "sub_new",
+    status: "active",
+    customer: "cus_1",
+    metadata: { supabase_user_id: "user-1" },
+    items: { data: [{ price: { id: "price_monthly" } }] },
+    current_period_end: EVENT_SEC + 30 * 24 * 3600,
+    trial_start: null,
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+function fakeStripe(sub: Stripe.Subscription) {
+  const retrieve = vi.fn(async () => sub);
+  return { stripe: { subscriptions: { retrieve } } as unknown as Stripe, retrieve };
+}
+
+function event(type: string, subscriptionId = "sub_new") {
+  const object = type.startsWith("customer.subscription.")
+    ? { id: subscriptionId, customer: "cus_1" }
+    : { id: "in_1", subscription: subscriptionId, customer: "cus_1", amount_paid: 999 };
+  return { id: "evt_1", type, created: EVENT_SEC, livemode: false, data: { object } } as unknown as Stripe.Event;
+}
+
+const PROFILE: Profile = {
+  id: "user-1",
+  stripe_subscription_id: "sub_new",
+  membership_status: "active",
+  stripe_synced_at: null,
+};
+
+describe("processStripeEvent", () => {
+  it("applies the subscription's current state and advances the watermark", async () => {
+    const { admin, updatesTo } = fakeAdmin(PROFILE);
+    const { stripe } = fakeStripe(subscription({ status: "trialing", trial_start: EVENT_SEC - 3600 }));
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.updated"), { stripe });
+
+    expect(outcome).toMatchObject({ status: "processed", userId: "user-1" });
+    expect(updatesTo("user_profiles")[0]).toMatchObject({
+      membership_status: "trialing",
+      membership_tier: "member",
+      stripe_subscription_id: "sub_new",
+      stripe_synced_at: EVENT_AT,
+      trial_used_at: new Date((EVENT_SEC - 3600) * 1000).toISOString(),
+    });
+    expect(updatesTo("stripe_events")[0]).toMatchObject({ status: "processed", attempts: 1 });
+  });
+
+  it("skips an event older than the state already applied", async () => {
+    const later = new Date((EVENT_SEC + 60) * 1000).toISOString();
+    const { admin } = fakeAdmin({ ...PROFILE, stripe_synced_at: later });
+    const { stripe } = fakeStripe(subscription());
+
+    const outcome = await processStripeEvent(admin, event("invoice.payment_succeeded"), { stripe });
+
+    expect(outcome.status).toBe("skipped");
+    expect(outcome.note).toMatch(/^Stale/);
+  });
+
+  it("applies an event at exactly the watermark (a redelivery or replay)", async () => {
+    const { admin } = fakeAdmin({ ...PROFILE, stripe_synced_at: EVENT_AT });
+    const { stripe } = fakeStripe(subscription());
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.updated"), { stripe });
+
+    expect(outcome.status).toBe("processed");
+  });
+
+  it("doesn't let an ended old subscription downgrade a newer one", async () => {
+    const { admin, updatesTo } = fakeAdmin(PROFILE);
+    const { stripe } = fakeStripe(subscription({ id: "sub_old", status: "canceled" }));
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.deleted", "sub_old"), { stripe });
+
+    expect(outcome).toMatchObject({ status: "skipped", note: "Superseded by sub_new" });
+    expect(updatesTo("user_profiles")).toEqual([]);
+  });
+
+  it("switches to a different subscription that is live", async () => {
+    const { admin, updatesTo } = fakeAdmin({ ...PROFILE, stripe_subscription_id: "sub_old" });
+    const { stripe } = fakeStripe(subscription());
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.created"), { stripe });
+
+    expect(outcome.status).toBe("processed");
+    expect(updatesTo("user_profiles")[0]).toMatchObject({ stripe_subscription_id: "sub_new" });
+  });
+
+  it("doesn't let an ended subscription cut short a gift", async () => {
+    const { admin, updatesTo } = fakeAdmin({ ...PROFILE, membership_status: "gift" });
+    const { stripe } = fakeStripe(subscription({ status: "canceled" }));
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.deleted"), { stripe });
+
+    expect(outcome).toMatchObject({ status: "skipped", note: "Gift membership in effect" });
+    expect(updatesTo("user_profiles")).toEqual([]);
+  });
+
+  it("leaves an already-processed event alone unless forced", async () => {
+    const { admin } = fakeAdmin(PROFILE, "processed");
+    const { stripe, retrieve } = fakeStripe(subscription());
+
+    const outcome = await processStripeEvent(admin, event("customer.subscription.updated"), { stripe });
+    expect(outcome).toMatchObject({ status: "processed", duplicate: true });
+    expect(retrieve).not.toHaveBeenCalled();
+
+    const forced = await processStripeEvent(admin, event("customer.subscription.updated"), { stripe, force: true });
+    expect(forced.duplicate).toBeUndefined();
+    expect(retrieve).toHaveBeenCalledOnce();
+  });
+
+  it("skips event types it doesn't handle", async () => {
+    const { admin } = fakeAdmin(PROFILE);
+    const { stripe, retrieve } = fakeStripe(subscription());
+
+    const outcome = await processStripeEvent(admin, event("customer.created"), { stripe });
+
+    expect(outcome).toMatchObject({ status: "skipped", note: "Unhandled event type customer.created" });
+    expect(retrieve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,364 @@
+// lib/stripe-ledger.ts
+// Stripe webhook ledger. Every verified event is stored raw in stripe_events,
+// then applied idempotently: membership state always comes from the
+// subscription as Stripe reports it *now*, and a per-profile watermark
+// (user_profiles.stripe_synced_at) stops a late, older event from
+// overwriting newer state. Server-only (service role + Stripe secret key).
+import Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadPlansByPrice, type Plan } from "@/lib/plans";
+import { markGiftPaid } from "@/lib/gifts";
+import { markDonationRefunded, recordDonationCheckout, recordDonationInvoice } from "@/lib/donations";
+
+export type LedgerStatus = "received" | "processed" | "skipped" | "failed";
+
+export type LedgerOutcome = {
+  status: LedgerStatus;
+  userId: string | null;
+  note: string | null;
+};
+
+export type MembershipFields = {
+  membership_tier: string;
+  membership_plan: string | null;
+  membership_status: string;
+  stripe_subscription_id: string;
+  stripe_price_id: string | null;
+  membership_ends_at: string | null;
+};
+
+const HANDLED_EVENTS = new Set([
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.payment_succeeded",
+  "invoice.payment_failed",
+  "checkout.session.completed",
+  "charge.refunded",
+]);
+
+// Stripe subscription status → user_profiles.membership_status
+const STATUS_FROM_STRIPE: Partial<Record<Stripe.Subscription.Status, string>> = {
+  active: "active",
+  trialing: "trialing",
+  past_due: "past_due",
+  unpaid: "past_due",
+  canceled: "cancelled",
+  incomplete_expired: "cancelled",
+};
+
+// Subscription states that still represent a member (possibly behind on payment)
+const LIVE_STATUSES = new Set<Stripe.Subscription.Status>(["active", "trialing", "past_due", "unpaid"]);
+
+let stripeClient: Stripe | null = null;
+
+export function getStripe() {
+  if (!stripeClient) {
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: "2024-06-20" });
+  }
+  return stripeClient;
+}
+
+function idOf(v: string | { id: string } | null | undefined) {
+  if (!v) return null;
+  return typeof v === "string" ? v : v.id;
+}
+
+function isoFromUnix(sec: number | null | undefined) {
+  return sec ? new Date(sec * 1000).toISOString() : null;
+}
+
+/**
+ * Profile fields implied by a subscription's current state. The tier comes
+ * from the plan that owns the price; an unknown price is a plain member.
+ */
+export function membershipFromSubscription(
+  sub: Stripe.Subscription,
+  plansByPrice: Map<string, Plan> = new Map()
+): MembershipFields {
+  const membership_status = STATUS_FROM_STRIPE[sub.status] ?? "inactive";
+
+  const priceId = sub.items.data[0]?.price.id ?? null;
+  const plan = priceId ? plansByPrice.get(priceId) : undefined;
+
+  return {
+    membership_tier: membership_status === "cancelled" ? "free" : plan?.tier ?? "member",
+    membership_plan: plan?.key ?? null,
+    membership_status,
+    stripe_subscription_id: sub.id,
+    stripe_price_id: priceId,
+    membership_ends_at: isoFromUnix(sub.current_period_end),
+  };
+}
+
+/** Subscription and customer ids referenced by an event, when it has them. */
+export function eventRefs(event: Stripe.Event) {
+  const obj = event.data.object as any;
+  if (event.type.startsWith("customer.subscription.")) {
+    return { subscriptionId: obj.id as string, customerId: idOf(obj.customer) };
+  }
+  return { subscriptionId: idOf(obj?.subscription), customerId: idOf(obj?.customer) };
+}
+
+/** Store the raw event (first delivery wins). Returns the ledger row's status. */
+export async function recordStripeEvent(
+  admin: SupabaseClient,
+  event: Stripe.Event
+): Promise<LedgerStatus> {
+  const { subscriptionId, customerId } = eventRefs(event);
+  const { error } = await admin.from("stripe_events").upsert(
+    {
+      id: event.id,
+      type: event.type,
+      event_created: new Date(event.created * 1000).toISOString(),
+      livemode: event.livemode,
+      payload: event,
+      subscription_id: subscriptionId,
+      customer_id: customerId,
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+
+  const { data, error: readErr } = await admin
+    .from("stripe_events")
+    .select("status")
+    .eq("id", event.id)
+    .single();
+  if (readErr) throw readErr;
+  return data.status as LedgerStatus;
+}
+
+async function findProfileId(admin: SupabaseClient, sub: Stripe.Subscription) {
+  const fromMeta = sub.metadata?.supabase_user_id;
+  if (fromMeta) return fromMeta;
+
+  const customerId = idOf(sub.customer);
+  if (!customerId) return null;
+  const { data } = await admin
+    .from("user_profiles")
+    .select("id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+async function applyEvent(
+  admin: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<LedgerOutcome> {
+  if (!HANDLED_EVENTS.has(event.type)) {
+    return { status: "skipped", userId: null, note: `Unhandled event type ${event.type}` };
+  }
+
+  const obj = event.data.object as any;
+  if (event.type === "charge.refunded") {
+    return markDonationRefunded(admin, obj as Stripe.Charge);
+  }
+  if (event.type === "checkout.session.completed" && obj.metadata?.donation) {
+    return obj.mode === "payment"
+      ? recordDonationCheckout(admin, obj as Stripe.Checkout.Session, event.id)
+      : { status: "skipped", userId: null, note: "Monthly donation: recorded per invoice" };
+  }
+  if (event.type === "checkout.session.completed" && obj.mode === "payment") {
+    return markGiftPaid(admin, obj as Stripe.Checkout.Session);
+  }
+
+  const { subscriptionId } = eventRefs(event);
+  if (!subscriptionId) return { status: "skipped", userId: null, note: "No subscription on event" };
+
+  // Current state, not the event snapshot: delivery order stops mattering.
+  const sub = await stripe.subscriptions.retrieve(subscriptionId);
+
+  // Monthly donations are subscriptions too, but never membership state
+  if (sub.metadata?.donation) {
+    return event.type === "invoice.payment_succeeded"
+      ? recordDonationInvoice(admin, obj as Stripe.Invoice, sub, event.id)
+      : { status: "skipped", userId: sub.metadata.supabase_user_id ?? null, note: "Donation subscription" };
+  }
+
+  const userId = await findProfileId(admin, sub);
+  if (!userId) return { status: "skipped", userId: null, note: "No matching profile" };
+
+  const { data: profile, error: profErr } = await admin
+    .from("user_profiles")
+    .select("stripe_subscription_id, membership_status")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profErr) throw profErr;
+
+  // A finished old subscription must not downgrade a member who has since
+  // started a new one.
+  const current = profile?.stripe_subscription_id;
+  if (current && current !== sub.id && !LIVE_STATUSES.has(sub.status)) {
+    return { status: "skipped", userId, note: `Superseded by ${current}` };
+  }
+  // Likewise an ended subscription doesn't cut short a redeemed gift.
+  if (profile?.membership_status === "gift" && !LIVE_STATUSES.has(sub.status)) {
+    return { status: "skipped", userId, note: "Gift membership in effect" };
+  }
+
+  const fields = membershipFromSubscription(sub, await loadPlansByPrice(admin));
+  const eventAt = new Date(event.created * 1000).toISOString();
+  const { data: applied, error: updErr } = await admin
+    .from("user_profiles")
+    .update({
+      ...fields,
+      stripe_synced_at: eventAt,
+      // one trial per profile: remember that this one had it
+      ...(sub.trial_start ? { trial_used_at: isoFromUnix(sub.trial_start) } : {}),
+    })
+    .eq("id", userId)
+    .or(`stripe_synced_at.is.null,stripe_synced_at.lte.${eventAt}`)
+    .select("id");
+  if (updErr) throw updErr;
+
+  const { error: logErr } = await admin.from("membership_events").upsert(
+    {
+      user_id: userId,
+      stripe_event_id: event.id,
+      event_type: event.type,
+      tier: fields.membership_tier,
+      status: event.type === "invoice.payment_failed" ? "payment_failed" : sub.status,
+      amount_cents: event.type === "invoice.payment_succeeded" ? obj.amount_paid ?? null : null,
+    },
+    { onConflict: "stripe_event_id", ignoreDuplicates: true }
+  );
+  if (logErr) console.error("membership_events insert failed:", logErr.message);
+
+  return applied?.length
+    ? { status: "processed", userId, note: null }
+    : { status: "skipped", userId, note: "Stale: newer Stripe state already applied" };
+}
+
+/**
+ * Apply a recorded event and update its ledger row. Already-processed events
+ * are left alone unless `force` (admin replay).
+ */
+export async function processStripeEvent(
+  admin: SupabaseClient,
+  event: Stripe.Event,
+  opts: { force?: boolean; stripe?: Stripe } = {}
+): Promise<LedgerOutcome & { duplicate?: boolean }> {
+  const { data: row, error } = await admin
+    .from("stripe_events")
+    .select("status, attempts")
+    .eq("id", event.id)
+    .single();
+  if (error) throw error;
+  if (row.status === "processed" && !opts.force) {
+    return { status: "processed", userId: null, note: null, duplicate: true };
+  }
+
+  let outcome: LedgerOutcome;
+  try {
+    outcome = await applyEvent(admin, opts.stripe ?? getStripe(), event);
+  } catch (e: any) {
+    outcome = { status: "failed", userId: null, note: e?.message || String(e) };
+  }
+
+  const { error: updErr } = await admin
+    .from("stripe_events")
+    .update({
+      status: outcome.status,
+      error: outcome.note,
+      user_id: outcome.userId,
+      attempts: (row.attempts ?? 0) + 1,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("id", event.id);
+  if (updErr) console.error("stripe_events update failed:", updErr.message);
+
+  return outcome;
+}
+
+/* ---------------- reconciliation ---------------- */
+
+export type MembershipDrift = {
+  user_id: string;
+  email: string | null;
+  subscription_id: string;
+  stripe_status: string | null;
+  fields: Record<string, { profile: string | null; stripe: string | null }>;
+  error?: string;
+};
+
+export type ReconciliationReport = {
+  run_at: string;
+  profiles_checked: number;
+  drift_count: number;
+  errors_count: number;
+  drift: MembershipDrift[];
+};
+
+const PAGE = 1000;
+const COMPARED: (keyof MembershipFields)[] = ["membership_status", "membership_tier", "membership_ends_at"];
+
+function sameValue(field: keyof MembershipFields, a: string | null, b: string | null) {
+  if (field !== "membership_ends_at") return (a ?? null) === (b ?? null);
+  if (!a || !b) return !a && !b;
+  return Math.abs(Date.parse(a) - Date.parse(b)) < 60_000;
+}
+
+/**
+ * Compare every profile that has a Stripe subscription against that
+ * subscription's live state. Reports drift; never writes to profiles.
+ */
+export async function reconcileMemberships(
+  admin: SupabaseClient,
+  stripe: Stripe = getStripe()
+): Promise<ReconciliationReport> {
+  const profiles: any[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin
+      .from("user_profiles")
+      .select("id, email, stripe_subscription_id, membership_status, membership_tier, membership_ends_at")
+      .not("stripe_subscription_id", "is", null)
+      .neq("membership_status", "gift") // gift time isn't Stripe state
+      .order("id")
+      .range(from, from + PAGE - 1);
+    if (error) throw error;
+    profiles.push(...(data ?? []));
+    if (!data || data.length < PAGE) break;
+  }
+
+  const plansByPrice = await loadPlansByPrice(admin);
+  const drift: MembershipDrift[] = [];
+  let errors = 0;
+  for (const p of profiles) {
+    const base = { user_id: p.id, email: p.email ?? null, subscription_id: p.stripe_subscription_id };
+    try {
+      const sub = await stripe.subscriptions.retrieve(p.stripe_subscription_id);
+      const expected = membershipFromSubscription(sub, plansByPrice);
+      // The expiry sweep already downgraded this one; only a live
+      // subscription disagrees with that.
+      if (p.membership_status === "expired" && !["active", "trialing"].includes(expected.membership_status)) {
+        continue;
+      }
+      const fields: MembershipDrift["fields"] = {};
+      for (const f of COMPARED) {
+        if (!sameValue(f, p[f] ?? null, expected[f] ?? null)) {
+          fields[f] = { profile: p[f] ?? null, stripe: expected[f] ?? null };
+        }
+      }
+      if (Object.keys(fields).length) drift.push({ ...base, stripe_status: sub.status, fields });
+    } catch (e: any) {
+      errors++;
+      drift.push({ ...base, stripe_status: null, fields: {}, error: e?.message || String(e) });
+    }
+  }
+
+  const report: ReconciliationReport = {
+    run_at: new Date().toISOString(),
+    profiles_checked: profiles.length,
+    drift_count: drift.filter((d) => !d.error).length,
+    errors_count: errors,
+    drift,
+  };
+
+  const { error: logErr } = await admin.from("stripe_reconciliation_runs").insert(report);
+  if (logErr) console.error("stripe_reconciliation_runs insert failed:", logErr.message);
+
+  return report;
+}
@@ -20,7 +20,8 @@ export function getFullUrl(mp4Path: string): string {
  */
 export function getVideoTypeFromUrl(url: string): "mp4" | "hls" | "unknown" {
   if (!url) return "unknown"
-  const lower = url.toLowerCase()
+  // ignore ?query / #hash (signed URLs carry tokens after the extension)
+  const lower = url.split(/[?#]/)[0].toLowerCase()
 
   if (lower.endsWith(".m3u8")) return "hls"
   if (lower.endsWith(".mp4")) return "mp4"
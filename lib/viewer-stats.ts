@@ -0,0 +1,112 @@
+// lib/viewer-stats.ts
+// Concurrent viewers (scripts/018-viewer-presence.sql): every signed-in viewer
+// pings once a minute from hooks/use-channel-presence.ts and the database
+// counts the pings per channel per minute. Server-only: the admin dashboard
+// reads these through /api/admin/viewers.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ViewerPoint = {
+  bucket: string;
+  channel_id: number;
+  peak_viewers: number;
+  avg_viewers: number;
+};
+
+export type ProgramViewers = {
+  channel_id: number;
+  channel_name: string | null;
+  program_title: string;
+  program_start: string | null;
+  peak_viewers: number;
+  avg_viewers: number;
+  minutes_sampled: number;
+};
+
+export type ChannelViewers = {
+  channel_id: number;
+  channel_name: string | null;
+  /** Viewers in the last complete minute, else 0 (nobody pinged) */
+  watching_now: number;
+  program_title: string | null;
+  peak_viewers: number;
+};
+
+export type ViewerStats = {
+  since: string;
+  bucket_minutes: number;
+  channels: ChannelViewers[];
+  series: ViewerPoint[];
+  programs: ProgramViewers[];
+};
+
+/** Pings in the minute under way are still arriving; "now" is the minute before. */
+const MINUTE_MS = 60_000;
+const PAGE = 1000;
+
+/** Roughly 100 points per channel whatever the window. */
+export function bucketMinutesFor(hours: number) {
+  const steps = [5, 15, 30, 60, 180, 360, 720, 1440];
+  return steps.find((m) => (hours * 60) / m <= 100) ?? 1440;
+}
+
+async function timeseries(admin: SupabaseClient, since: string, bucketMinutes: number) {
+  // Set-returning RPCs are capped by PostgREST's max rows too, so page through
+  const rows: ViewerPoint[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin
+      .rpc("viewer_timeseries", { p_since: since, p_bucket_minutes: bucketMinutes })
+      .range(from, from + PAGE - 1);
+    if (error) throw error;
+    const page = (data ?? []) as ViewerPoint[];
+    rows.push(...page.map((r) => ({ ...r, avg_viewers: Number(r.avg_viewers) })));
+    if (page.length < PAGE) return rows;
+  }
+}
+
+export async function getViewerStats(admin: SupabaseClient, hours: number): Promise<ViewerStats> {
+  const bucketMinutes = bucketMinutesFor(hours);
+  const since = new Date(Date.now() - hours * 3600_000).toISOString();
+  const thisMinute = Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS;
+  const lastMinute = new Date(thisMinute - MINUTE_MS).toISOString();
+
+  const [series, programsRes, latestRes, channelsRes] = await Promise.all([
+    timeseries(admin, since, bucketMinutes),
+    admin.rpc("viewer_program_stats", { p_since: since, p_limit: 50 }),
+    admin
+      .from("channel_viewer_minutes")
+      .select("channel_id, viewers, program_title")
+      .eq("sampled_at", lastMinute),
+    admin.from("channels").select("id, name"),
+  ]);
+  if (programsRes.error) throw programsRes.error;
+  if (latestRes.error) throw latestRes.error;
+
+  const names = new Map<number, string>();
+  for (const c of channelsRes.data ?? []) names.set(Number(c.id), c.name ?? null);
+
+  const latest = new Map<number, { viewers: number; program_title: string | null }>();
+  for (const r of latestRes.data ?? []) {
+    latest.set(r.channel_id, { viewers: r.viewers, program_title: r.program_title });
+  }
+
+  const peaks = new Map<number, number>();
+  for (const p of series) peaks.set(p.channel_id, Math.max(peaks.get(p.channel_id) ?? 0, p.peak_viewers));
+
+  const channels: ChannelViewers[] = [...new Set([...peaks.keys(), ...latest.keys()])]
+    .map((id) => ({
+      channel_id: id,
+      channel_name: names.get(id) ?? null,
+      watching_now: latest.get(id)?.viewers ?? 0,
+      program_title: latest.get(id)?.program_title ?? null,
+      peak_viewers: Math.max(peaks.get(id) ?? 0, latest.get(id)?.viewers ?? 0),
+    }))
+    .sort((a, b) => b.watching_now - a.watching_now || b.peak_viewers - a.peak_viewers);
+
+  const programs = ((programsRes.data ?? []) as Omit<ProgramViewers, "channel_name">[]).map((p) => ({
+    ...p,
+    channel_name: names.get(p.channel_id) ?? null,
+    avg_viewers: Number(p.avg_viewers),
+  }));
+
+  return { since, bucket_minutes: bucketMinutes, channels, series, programs };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  HEARTBEAT_MS,
+  MAX_HEARTBEAT_SECONDS,
+  MIN_HEARTBEAT_GAP_MS,
+  creditedSeconds,
+  deviceClass,
+  parseHeartbeat,
+} from "@/lib/watch-analytics";
+
+const T0 = Date.UTC(2024, 0, 15, 12, 0, 0); // 2024-01-15T12:00:00Z
+
+describe("parseHeartbeat", () => {
+  it("keeps only the session, channel and claimed seconds", () => {
+    const beat = parseHeartbeat({
+      session_id: " abc-123 ",
+      channel_id: "7",
+      seconds: 29.6,
+      program_title: "Anything the client likes",
+      mp4_url: "https://example.com/x.mp4",
+      position: 12,
+    });
+    expect(beat).toEqual({ session_id: "abc-123", channel_id: 7, seconds: 29 });
+  });
+
+  it("caps the claimed seconds", () => {
+    expect(parseHeartbeat({ session_id: "s", channel_id: 1, seconds: 10_000 })?.seconds).toBe(MAX_HEARTBEAT_SECONDS);
+  });
+
+  it("truncates long session ids", () => {
+    expect(parseHeartbeat({ session_id: "x".repeat(100), channel_id: 1, seconds: 5 })?.session_id).toHaveLength(64);
+  });
+
+  it.each([
+    ["no session", { channel_id: 1, seconds: 5 }],
+    ["a blank session", { session_id: "  ", channel_id: 1, seconds: 5 }],
+    ["a fractional channel", { session_id: "s", channel_id: 1.5, seconds: 5 }],
+    ["channel 0", { session_id: "s", channel_id: 0, seconds: 5 }],
+    ["negative seconds", { session_id: "s", channel_id: 1, seconds: -1 }],
+    ["missing seconds", { session_id: "s", channel_id: 1 }],
+    ["non-numeric seconds", { session_id: "s", channel_id: 1, seconds: "lots" }],
+  ])("rejects %s", (_, body) => {
+    expect(parseHeartbeat(body)).toBeNull();
+  });
+
+  it("rejects a body that isn't an object", () => {
+    expect(parseHeartbeat(null)).toBeNull();
+    expect(parseHeartbeat("beat")).toBeNull();
+  });
+});
+
+describe("creditedSeconds", () => {
+  it("credits a session's first heartbeat at most one interval", () => {
+    expect(creditedSeconds(20, null, T0)).toBe(20);
+    expect(creditedSeconds(MAX_HEARTBEAT_SECONDS, null, T0)).toBe(HEARTBEAT_MS / 1000);
+  });
+
+  it("refuses a heartbeat that follows the last one too closely", () => {
+    expect(creditedSeconds(30, T0, T0 + MIN_HEARTBEAT_GAP_MS - 1)).toBeNull();
+    expect(creditedSeconds(30, T0, T0 + 1_000)).toBeNull();
+  });
+
+  it("accepts one a little early, for timer jitter", () => {
+    expect(creditedSeconds(30, T0, T0 + MIN_HEARTBEAT_GAP_MS)).toBe(MIN_HEARTBEAT_GAP_MS / 1000);
+  });
+
+  it("never credits more than the time since the last heartbeat", () => {
+    expect(creditedSeconds(30, T0, T0 + HEARTBEAT_MS)).toBe(30);
+    expect(creditedSeconds(90, T0, T0 + 40_000)).toBe(40);
+  });
+
+  it("credits what was claimed after a long gap, up to the cap", () => {
+    expect(creditedSeconds(30, T0, T0 + 3600_000)).toBe(30);
+    expect(creditedSeconds(MAX_HEARTBEAT_SECONDS, T0, T0 + 3600_000)).toBe(MAX_HEARTBEAT_SECONDS);
+  });
+
+  it("credits nothing when nothing was watched", () => {
+    expect(creditedSeconds(0, T0, T0 + HEARTBEAT_MS)).toBe(0);
+  });
+});
+
+describe("deviceClass", () => {
+  it.each([
+    ["Mozilla/5.0 (SMART-TV; Linux; Tizen 6.0) AppleWebKit/537.36", "tv"],
+    ["Mozilla/5.0 (Linux; Android 9; AFTMM Build/PS7233) AppleWebKit/537.36", "tv"],
+    ["Roku/DVP-12.0 (12.0.0.4182-88)", "tv"],
+    ["Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15", "tablet"],
+    ["Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 Safari/537.36", "tablet"],
+    ["Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Mobile Safari/537.36", "mobile"],
+    ["Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148", "mobile"],
+    ["Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36", "desktop"],
+  ])("classifies %s", (ua, expected) => {
+    expect(deviceClass(ua)).toBe(expected);
+  });
+
+  it("calls an unknown or missing user agent a desktop", () => {
+    expect(deviceClass(null)).toBe("desktop");
+    expect(deviceClass("")).toBe("desktop");
+  });
+});
@@ -0,0 +1,226 @@
+// lib/watch-analytics.ts
+// Program viewership analytics (scripts/019-watch-analytics.sql): heartbeat
+// ingest for /api/analytics/heartbeat, the rollup the analytics cron runs,
+// and the reports behind /admin/analytics. Server-only.
+//
+// The ingest is open to anonymous viewers, so the body is trusted for very
+// little: which session and channel, and how many seconds it claims. The
+// program is whatever the channel is airing, and the seconds credited never
+// exceed the time since the session's previous heartbeat.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EntitlementTier } from "@/lib/entitlements";
+import { queryNowNext } from "@/lib/now-next";
+import { asSeconds, parseUtcishMs } from "@/lib/schedule";
+
+export const HEARTBEAT_MS = 30_000;
+/** Shortest gap accepted between one session's heartbeats (allows for timer jitter). */
+export const MIN_HEARTBEAT_GAP_MS = HEARTBEAT_MS - 5_000;
+/** Most seconds one heartbeat may claim: the interval plus slack for throttled timers. */
+export const MAX_HEARTBEAT_SECONDS = 120;
+
+export type DeviceClass = "mobile" | "tablet" | "tv" | "desktop";
+
+/** What the player sends; the program, tier, device and user are worked out server-side. */
+export type HeartbeatInput = {
+  session_id: string;
+  channel_id: number;
+  seconds: number;
+};
+
+/** recorded, or why not: too_soon (throttled), idle (nothing to credit), off_air (nothing scheduled) */
+export type HeartbeatResult = "recorded" | "too_soon" | "idle" | "off_air";
+
+export function deviceClass(userAgent: string | null): DeviceClass {
+  const ua = (userAgent || "").toLowerCase();
+  if (/smart-?tv|tizen|webos|roku|\baft|crkey|bravia|googletv|appletv|hbbtv/.test(ua)) return "tv";
+  if (/ipad|tablet|kindle|silk/.test(ua) || (/android/.test(ua) && !/mobi/.test(ua))) return "tablet";
+  if (/mobi|iphone|ipod|android/.test(ua)) return "mobile";
+  return "desktop";
+}
+
+function text(v: unknown, max: number) {
+  return typeof v === "string" ? v.trim().slice(0, max) : "";
+}
+
+function wholeOrNull(v: unknown) {
+  const n = Number(v);
+  return v != null && Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
+}
+
+/** Validate a heartbeat body; null if it isn't one. */
+export function parseHeartbeat(body: any): HeartbeatInput | null {
+  const sessionId = text(body?.session_id, 64);
+  const channelId = Number(body?.channel_id);
+  const seconds = wholeOrNull(body?.seconds);
+  if (!sessionId || !Number.isInteger(channelId) || channelId <= 0 || seconds === null) return null;
+
+  return {
+    session_id: sessionId,
+    channel_id: channelId,
+    seconds: Math.min(seconds, MAX_HEARTBEAT_SECONDS),
+  };
+}
+
+/**
+ * Seconds to credit a heartbeat, given when the session's previous one was
+ * received (null = first of the session). null = too soon after the last.
+ */
+export function creditedSeconds(claimed: number, lastReceivedMs: number | null, nowMs: number): number | null {
+  if (lastReceivedMs === null) return Math.min(claimed, HEARTBEAT_MS / 1000);
+  const gapMs = nowMs - lastReceivedMs;
+  if (gapMs < MIN_HEARTBEAT_GAP_MS) return null;
+  return Math.min(claimed, Math.floor(gapMs / 1000), MAX_HEARTBEAT_SECONDS);
+}
+
+export async function recordHeartbeat(
+  admin: SupabaseClient,
+  beat: HeartbeatInput,
+  viewer: { userId: string | null; tier: EntitlementTier; device: DeviceClass },
+  nowMs = Date.now()
+): Promise<HeartbeatResult> {
+  const { data: last, error: lastErr } = await admin
+    .from("watch_heartbeats")
+    .select("received_at")
+    .eq("session_id", beat.session_id)
+    .order("received_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastErr) throw lastErr;
+
+  const seconds = creditedSeconds(beat.seconds, last ? parseUtcishMs(last.received_at) : null, nowMs);
+  if (seconds === null) return "too_soon";
+  if (seconds === 0) return "idle";
+
+  const { now } = await queryNowNext(admin, beat.channel_id, { nowMs, count: 1 });
+  if (!now) return "off_air";
+
+  const startMs = parseUtcishMs(now.start_time);
+  const duration = Math.round(asSeconds(now.duration));
+  const position = Number.isFinite(startMs) ? Math.max(0, Math.floor((nowMs - startMs) / 1000)) : null;
+  const { error } = await admin.from("watch_heartbeats").insert({
+    received_at: new Date(nowMs).toISOString(),
+    session_id: beat.session_id,
+    channel_id: beat.channel_id,
+    program_title: (now.title ?? "").slice(0, 300),
+    mp4_url: (now.mp4_url ?? "").slice(0, 1000),
+    program_start: Number.isFinite(startMs) ? new Date(startMs).toISOString() : null,
+    program_duration: duration > 0 ? duration : null,
+    seconds,
+    position: position !== null && duration > 0 ? Math.min(position, duration) : position,
+    user_id: viewer.userId,
+    tier: viewer.tier,
+    device: viewer.device,
+  });
+  if (error) throw error;
+  return "recorded";
+}
+
+/** Rebuild today's and yesterday's aggregates (late heartbeats land near midnight) and prune raw rows. */
+export async function rollupRecentDays(admin: SupabaseClient) {
+  const today = new Date().toISOString().slice(0, 10);
+  const yesterday = new Date(Date.now() - 24 * 3600_000).toISOString().slice(0, 10);
+  for (const day of [yesterday, today]) {
+    const { error } = await admin.rpc("rollup_watch_analytics", { p_day: day });
+    if (error) throw new Error(`Rollup for ${day} failed: ${error.message}`);
+  }
+  const { data: pruned, error } = await admin.rpc("prune_watch_heartbeats");
+  if (error) throw error;
+  return { days: [yesterday, today], pruned: (pruned as number | null) ?? 0 };
+}
+
+export type ProgramRow = {
+  channel_id: number;
+  channel_name: string | null;
+  program_title: string;
+  mp4_url: string;
+  sessions: number;
+  viewers: number;
+  seconds_watched: number;
+  avg_seconds: number;
+};
+
+export type ChannelRow = {
+  channel_id: number;
+  channel_name: string | null;
+  sessions: number;
+  seconds_watched: number;
+  avg_seconds: number;
+  member_seconds: number;
+  conversions: number;
+};
+
+export type BreakdownRow = {
+  dimension: "tier" | "device";
+  value: string;
+  sessions: number;
+  seconds_watched: number;
+};
+
+export type AnalyticsReport = {
+  since: string;
+  programs: ProgramRow[];
+  channels: ChannelRow[];
+  breakdown: BreakdownRow[];
+};
+
+/** Sessions by how far into the program they got, in tenths (0 = first 10%). */
+export type DropoffPoint = { decile: number; sessions: number };
+
+function sinceDay(days: number) {
+  return new Date(Date.now() - (days - 1) * 24 * 3600_000).toISOString().slice(0, 10);
+}
+
+// BIGINT/NUMERIC columns come back as strings
+function numbers<T>(rows: any[] | null, keys: string[]): T[] {
+  return (rows ?? []).map((r) => {
+    const out = { ...r };
+    for (const k of keys) out[k] = Number(r[k] ?? 0);
+    return out as T;
+  });
+}
+
+export async function getAnalyticsReport(admin: SupabaseClient, days: number): Promise<AnalyticsReport> {
+  const since = sinceDay(days);
+  const [programs, channels, breakdown, names] = await Promise.all([
+    admin.rpc("analytics_top_programs", { p_since: since, p_limit: 50 }),
+    admin.rpc("analytics_channels", { p_since: since }),
+    admin.rpc("analytics_breakdown", { p_since: since }),
+    admin.from("channels").select("id, name"),
+  ]);
+  if (programs.error) throw programs.error;
+  if (channels.error) throw channels.error;
+  if (breakdown.error) throw breakdown.error;
+
+  const nameOf = new Map<number, string>();
+  for (const c of names.data ?? []) nameOf.set(Number(c.id), c.name ?? null);
+  const named = <T extends { channel_id: number }>(r: T) => ({ ...r, channel_name: nameOf.get(r.channel_id) ?? null });
+
+  return {
+    since,
+    programs: numbers<ProgramRow>(programs.data, ["sessions", "viewers", "seconds_watched", "avg_seconds"]).map(named),
+    channels: numbers<ChannelRow>(channels.data, [
+      "sessions",
+      "seconds_watched",
+      "avg_seconds",
+      "member_seconds",
+      "conversions",
+    ]).map(named),
+    breakdown: numbers<BreakdownRow>(breakdown.data, ["sessions", "seconds_watched"]),
+  };
+}
+
+export async function getDropoff(
+  admin: SupabaseClient,
+  days: number,
+  program: { channel_id: number; program_title: string; mp4_url: string }
+): Promise<DropoffPoint[]> {
+  const { data, error } = await admin.rpc("analytics_dropoff", {
+    p_since: sinceDay(days),
+    p_channel_id: program.channel_id,
+    p_program_title: program.program_title,
+    p_mp4_url: program.mp4_url,
+  });
+  if (error) throw error;
+  const byDecile = new Map(numbers<DropoffPoint>(data, ["decile", "sessions"]).map((d) => [d.decile, d.sessions]));
+  return Array.from({ length: 10 }, (_, decile) => ({ decile, sessions: byDecile.get(decile) ?? 0 }));
+}
@@ -1,5 +1,59 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { updateSession } from "@/utils/supabase/middleware";
+import { updateSession, type SessionGate } from "@/utils/supabase/middleware";
+import { isFreeChannel } from "@/lib/protected-channels";
+import { canWatchChannel, loadEntitlements } from "@/lib/entitlements";
+import { canOpenPath, isStaff, loadStaffAccess } from "@/lib/permissions";
+
+const WATCH_PATH = /^\/watch\/(\d+)\/?$/;
+const ADMIN_PATH = /^\/admin(\/|$)/;
+
+// Member channels: send signed-out visitors to log in and everyone else
+// without the entitlement to /membership, before the player page loads.
+function watchGate(request: NextRequest, channelId: number): SessionGate {
+  return async ({ supabase, user }) => {
+    if (await isFreeChannel(channelId)) return null;
+
+    const url = request.nextUrl.clone();
+    url.search = "";
+    if (!user) {
+      url.pathname = "/login";
+      url.searchParams.set("redirect", request.nextUrl.pathname);
+      return NextResponse.redirect(url);
+    }
+
+    const ent = await loadEntitlements(supabase, user.id);
+    if (await canWatchChannel(ent, channelId)) return null;
+
+    url.pathname = "/membership";
+    url.searchParams.set("channel", String(channelId));
+    return NextResponse.redirect(url);
+  };
+}
+
+// Admin tools: only staff whose role grants the tool's permission. Staff
+// without it land back on the dashboard (which lists only their tools).
+function adminGate(request: NextRequest): SessionGate {
+  return async ({ supabase, user }) => {
+    const { pathname } = request.nextUrl;
+    const url = request.nextUrl.clone();
+    url.search = "";
+    if (!user) {
+      url.pathname = "/login";
+      url.searchParams.set("redirect", pathname);
+      return NextResponse.redirect(url);
+    }
+
+    const access = await loadStaffAccess(supabase, user.id);
+    if (canOpenPath(access, pathname)) return null;
+
+    // Route handlers under /admin (scheduler draft/publish) get a status, not a page
+    if (request.method !== "GET") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    url.pathname = isStaff(access) ? "/admin" : "/app";
+    return NextResponse.redirect(url);
+  };
+}
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -13,7 +67,13 @@ export async function middleware(request: NextRequest) {
     return new NextResponse(null, { status: 404 });
   }
 
-  return await updateSession(request);
+  const watch = WATCH_PATH.exec(pathname);
+  const gate = watch
+    ? watchGate(request, Number(watch[1]))
+    : ADMIN_PATH.test(pathname)
+      ? adminGate(request)
+      : undefined;
+  return await updateSession(request, gate);
 }
 
 export const config = {
@@ -0,0 +1,15 @@
+-- Per-user tokens for the IPTV playlist (/api/playlist.m3u) and the
+-- per-channel stream endpoint (/api/stream/[channelId]). One active token per
+-- user; rotating it replaces the row and kills every old playlist URL.
+-- Only a SHA-256 hex of the token is stored (like invite_codes.code_hash):
+-- the plaintext is shown to the user once, when it's created.
+
+CREATE TABLE IF NOT EXISTS public.iptv_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+-- Only the service role reads/writes tokens (API routes); no client policies.
+ALTER TABLE public.iptv_tokens ENABLE ROW LEVEL SECURITY;
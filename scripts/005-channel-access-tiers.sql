@@ -0,0 +1,49 @@
+-- Channel access tiers live in the database instead of hardcoded sets in
+-- lib/protected-channels.ts.
+--   channels.access_tier      'free' (anyone) or 'member' (paid membership)
+--   channel_plan_access       partner plans (e.g. Constructiq) that unlock a
+--                             member channel without a full membership
+-- New channels default to 'member', so a channel nobody configured is still
+-- watchable by members instead of locked to everyone.
+
+ALTER TABLE public.channels
+  ADD COLUMN IF NOT EXISTS access_tier TEXT NOT NULL DEFAULT 'member';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'channels_access_tier_check'
+  ) THEN
+    ALTER TABLE public.channels
+      ADD CONSTRAINT channels_access_tier_check CHECK (access_tier IN ('free', 'member'));
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.channel_plan_access (
+  channel_id BIGINT NOT NULL,
+  plan TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (channel_id, plan)
+);
+
+-- Backfill from the old hardcoded lists
+UPDATE public.channels SET access_tier = 'free'
+WHERE id::text IN ('1', '2', '3', '6', '11', '13', '16', '17', '21', '22');
+
+INSERT INTO public.channel_plan_access (channel_id, plan)
+SELECT c, 'constructiq' FROM unnest(ARRAY[15, 19, 20, 23, 24, 25, 26, 27, 28, 29]) AS c
+ON CONFLICT DO NOTHING;
+
+-- Tiers are public information; only admins change them.
+ALTER TABLE public.channel_plan_access ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "channel_plan_access read" ON public.channel_plan_access;
+CREATE POLICY "channel_plan_access read" ON public.channel_plan_access
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "channel_plan_access admin write" ON public.channel_plan_access;
+CREATE POLICY "channel_plan_access admin write" ON public.channel_plan_access
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'));
@@ -0,0 +1,49 @@
+-- Stripe webhook ledger: every verified event is stored raw before it is
+-- applied, so processing is idempotent (by event id), ordered per profile,
+-- and replayable from /admin/stripe-events.
+
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+  id TEXT PRIMARY KEY,                      -- Stripe event id (evt_…)
+  type TEXT NOT NULL,
+  event_created TIMESTAMPTZ NOT NULL,       -- event.created
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  subscription_id TEXT,
+  customer_id TEXT,
+  user_id UUID,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'skipped', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS stripe_events_status_idx ON public.stripe_events (status, received_at DESC);
+CREATE INDEX IF NOT EXISTS stripe_events_subscription_idx ON public.stripe_events (subscription_id, event_created DESC);
+
+-- Ordering watermark: event.created of the newest Stripe state applied to the
+-- profile. Older events that arrive late are recorded but not applied.
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMPTZ;
+
+-- membership_events gets one row per processed event
+CREATE UNIQUE INDEX IF NOT EXISTS membership_events_stripe_event_id_key
+  ON public.membership_events (stripe_event_id);
+
+-- Nightly reconciliation results (drift between profiles and Stripe)
+CREATE TABLE IF NOT EXISTS public.stripe_reconciliation_runs (
+  id BIGSERIAL PRIMARY KEY,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  profiles_checked INTEGER NOT NULL DEFAULT 0,
+  drift_count INTEGER NOT NULL DEFAULT 0,
+  errors_count INTEGER NOT NULL DEFAULT 0,
+  drift JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS stripe_reconciliation_runs_run_at_idx
+  ON public.stripe_reconciliation_runs (run_at DESC);
+
+-- Service role only
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stripe_reconciliation_runs ENABLE ROW LEVEL SECURITY;
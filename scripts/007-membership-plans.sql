@@ -0,0 +1,47 @@
+-- Membership plan catalog: maps Stripe prices to the tier a subscriber gets.
+-- Checkout takes a plan key, the webhook derives membership_tier from the
+-- subscription's price, and /membership renders the active plans.
+--
+-- stripe_price_id may stay NULL when the price lives in an env var named
+-- STRIPE_PRICE_<KEY> (e.g. STRIPE_PRICE_MEMBERSHIP_MONTHLY). A plan with no
+-- price either way is not offered.
+
+CREATE TABLE IF NOT EXISTS public.plans (
+  key TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  tier TEXT NOT NULL DEFAULT 'member',          -- user_profiles.membership_tier
+  billing_interval TEXT NOT NULL DEFAULT 'month'
+    CHECK (billing_interval IN ('month', 'year')),
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  stripe_price_id TEXT UNIQUE,
+  features JSONB NOT NULL DEFAULT '[]'::jsonb,  -- bullet list for /membership
+  badge TEXT,                                   -- e.g. 'Best value'
+  highlight BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS membership_plan TEXT;
+
+INSERT INTO public.plans (key, name, description, tier, billing_interval, amount_cents, features, badge, highlight, sort_order, active)
+VALUES
+  ('membership_monthly', 'Member', 'Cancel anytime · Secure checkout via Stripe', 'member', 'month', 999,
+   '["All 30+ live channels", "Resistance TV + History channels", "Black StoryTime + Sankofa Kids", "Construction education channels", "Freedom School Channel", "Black Truth Music Experience", "Politics Then & Now", "Teaching Truth TV"]',
+   'Full Access', true, 10, true),
+  ('membership_annual', 'Member — Annual', 'Two months free · Billed yearly', 'member', 'year', 9999,
+   '["Everything in Member", "Two months free vs. monthly", "One payment a year"]',
+   'Best value', false, 20, true),
+  ('student_monthly', 'Student', 'Full access at a student rate', 'member', 'month', 499,
+   '["Everything in Member", "Discounted for students"]',
+   NULL, false, 30, false)
+ON CONFLICT (key) DO NOTHING;
+
+-- Catalog is public; only the service role writes it.
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "plans read" ON public.plans;
+CREATE POLICY "plans read" ON public.plans FOR SELECT USING (true);
@@ -0,0 +1,32 @@
+-- Free trials and gift memberships.
+--   user_profiles.trial_used_at  set once a Stripe subscription has trialed;
+--                                a profile only ever gets one trial
+--   gift_codes                   one-time purchases that grant a time-boxed
+--                                membership (membership_status = 'gift',
+--                                membership_ends_at = end of the gift)
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS trial_used_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.gift_codes (
+  code TEXT PRIMARY KEY,
+  months INTEGER NOT NULL CHECK (months > 0),
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  purchaser_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  purchaser_email TEXT,
+  recipient_email TEXT,
+  message TEXT,
+  stripe_checkout_session_id TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'redeemed', 'void')),
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS gift_codes_purchaser_idx ON public.gift_codes (purchaser_id, created_at DESC);
+
+-- Service role only (purchase and redemption go through API routes)
+ALTER TABLE public.gift_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,77 @@
+-- Donations through Stripe Checkout (one-time: mode "payment"; monthly:
+-- mode "subscription"). Rows are written by the Stripe webhook only.
+--   donations        one row per successful charge: the checkout session for
+--                    a one-time gift, each paid invoice for a monthly one
+--   donation_goals   fundraising goals; the donate page shows the active one
+--   donation_totals  net raised between two instants (refunds subtracted)
+
+CREATE SEQUENCE IF NOT EXISTS public.donation_receipt_seq;
+
+CREATE TABLE IF NOT EXISTS public.donations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number TEXT NOT NULL UNIQUE
+    DEFAULT 'BTTV-' || to_char(NOW(), 'YYYY') || '-' || lpad(nextval('public.donation_receipt_seq')::text, 6, '0'),
+  -- lets a donor without an account open their receipt from the email link
+  receipt_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  donor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  donor_email TEXT,
+  donor_name TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  fee_cover_cents INTEGER NOT NULL DEFAULT 0,
+  refunded_cents INTEGER NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  recurring BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'paid'
+    CHECK (status IN ('paid', 'refunded')),
+  stripe_checkout_session_id TEXT UNIQUE,
+  stripe_invoice_id TEXT UNIQUE,
+  stripe_subscription_id TEXT,
+  stripe_payment_intent_id TEXT,
+  stripe_event_id TEXT,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS donations_donor_idx ON public.donations (donor_id, paid_at DESC);
+CREATE INDEX IF NOT EXISTS donations_paid_at_idx ON public.donations (paid_at);
+CREATE INDEX IF NOT EXISTS donations_payment_intent_idx ON public.donations (stripe_payment_intent_id);
+
+-- Service role only (checkout, receipts and totals go through API routes)
+ALTER TABLE public.donations ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.donation_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  target_cents INTEGER NOT NULL CHECK (target_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.donation_goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "donation_goals_public_read" ON public.donation_goals;
+CREATE POLICY "donation_goals_public_read" ON public.donation_goals
+  FOR SELECT USING (active);
+
+-- Example:
+--   INSERT INTO public.donation_goals (title, target_cents, starts_at, ends_at)
+--   VALUES ('Keep the lights on in 2027', 5000000, '2027-01-01', '2028-01-01');
+
+CREATE OR REPLACE FUNCTION public.donation_totals(p_since TIMESTAMPTZ, p_until TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (raised_cents BIGINT, donation_count BIGINT, donor_count BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(amount_cents - refunded_cents), 0)::BIGINT,
+    COUNT(*) FILTER (WHERE status = 'paid')::BIGINT,
+    COUNT(DISTINCT COALESCE(donor_id::text, lower(donor_email))) FILTER (WHERE status = 'paid')::BIGINT
+  FROM public.donations
+  WHERE paid_at >= p_since
+    AND (p_until IS NULL OR paid_at < p_until);
+$$;
+
+REVOKE ALL ON FUNCTION public.donation_totals(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
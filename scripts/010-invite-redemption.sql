@@ -0,0 +1,150 @@
+-- Invite code redemption.
+--   invite_codes          created from /admin/invite-codes (SHA-256 of the
+--                         code only; the plaintext never reaches the DB)
+--   invite_redemptions    who redeemed which code, and the role it granted
+--   redeem_invite_code()  the whole redemption in one transaction: row lock
+--                         on the code, expiry/usage checks, profile role,
+--                         used_count, and the signup_requests queue entry
+--                         (invite_settle_signup_request())
+--   invite_failed_attempts  wrong codes per user; 5 in 15 minutes locks that
+--                         user out of redeeming until the window passes
+--   user_profiles.invited_via / invited_at  the code that admitted them
+--
+-- Admin access is never granted by redeeming a code: admin-role codes are
+-- refused here and an admin sets the role from /admin/users instead.
+
+CREATE TABLE IF NOT EXISTS public.invite_codes (
+  code_hash TEXT PRIMARY KEY,
+  role TEXT NOT NULL DEFAULT 'student' CHECK (role IN ('member', 'student', 'admin')),
+  label TEXT,
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  used_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.invite_redemptions (
+  code_hash TEXT NOT NULL REFERENCES public.invite_codes(code_hash) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role_granted TEXT NOT NULL,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (code_hash, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS invite_redemptions_recent_idx ON public.invite_redemptions (redeemed_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.invite_failed_attempts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS invite_failed_attempts_user_idx
+  ON public.invite_failed_attempts (user_id, attempted_at DESC);
+
+-- Only redeem_invite_code() touches it; no client policies
+ALTER TABLE public.invite_failed_attempts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS invited_via TEXT,
+  ADD COLUMN IF NOT EXISTS invited_at TIMESTAMPTZ;
+
+ALTER TABLE public.invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "invite_redemptions admin read" ON public.invite_redemptions;
+CREATE POLICY "invite_redemptions admin read" ON public.invite_redemptions
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'));
+
+-- What redemption does to the redeemer's signup request, if they filed one.
+-- Kept separate so the review workflow (011) can change it without
+-- redefining redeem_invite_code().
+CREATE OR REPLACE FUNCTION public.invite_settle_signup_request(p_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF to_regclass('public.signup_requests') IS NOT NULL THEN
+    DELETE FROM public.signup_requests WHERE lower(email) = lower(p_email);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.invite_settle_signup_request(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Returns {ok: true, role} or {ok: false, reason} with reason one of
+-- locked | invalid | admin_code | expired | used_up | already_redeemed.
+CREATE OR REPLACE FUNCTION public.redeem_invite_code(
+  p_code_hash TEXT,
+  p_user_id UUID,
+  p_email TEXT,
+  p_full_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code public.invite_codes%ROWTYPE;
+  v_role TEXT;
+BEGIN
+  -- Guessing codes: too many wrong ones recently and every try is refused
+  IF (
+    SELECT count(*) FROM public.invite_failed_attempts
+    WHERE user_id = p_user_id AND attempted_at > NOW() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'locked');
+  END IF;
+
+  -- Lock the code so concurrent redemptions can't both take the last use
+  SELECT * INTO v_code FROM public.invite_codes WHERE code_hash = p_code_hash FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.invite_failed_attempts (user_id) VALUES (p_user_id);
+    DELETE FROM public.invite_failed_attempts
+    WHERE user_id = p_user_id AND attempted_at < NOW() - INTERVAL '1 day';
+    RETURN jsonb_build_object('ok', false, 'reason', 'invalid');
+  END IF;
+  IF v_code.role = 'admin' THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'admin_code');
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.invite_redemptions WHERE code_hash = p_code_hash AND user_id = p_user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'already_redeemed');
+  END IF;
+  IF v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'expired');
+  END IF;
+  IF v_code.max_uses IS NOT NULL AND v_code.used_count >= v_code.max_uses THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'used_up');
+  END IF;
+
+  UPDATE public.invite_codes SET used_count = used_count + 1 WHERE code_hash = p_code_hash;
+
+  -- An invite only ever upgrades a member: students, staff roles and
+  -- admins keep what they have
+  INSERT INTO public.user_profiles AS up (id, email, full_name, role, membership_status, invited_via, invited_at)
+  VALUES (p_user_id, p_email, p_full_name, v_code.role, 'free', p_code_hash, NOW())
+  ON CONFLICT (id) DO UPDATE SET
+    role = CASE
+      WHEN up.role IS NULL OR up.role = 'member' THEN EXCLUDED.role
+      ELSE up.role
+    END,
+    invited_via = EXCLUDED.invited_via,
+    invited_at = EXCLUDED.invited_at
+  RETURNING up.role INTO v_role;
+
+  INSERT INTO public.invite_redemptions (code_hash, user_id, email, role_granted)
+  VALUES (p_code_hash, p_user_id, p_email, v_role);
+
+  -- Invited users don't wait in the request queue
+  IF p_email IS NOT NULL THEN
+    PERFORM public.invite_settle_signup_request(p_email);
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'role', v_role);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_invite_code(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,50 @@
+-- Review workflow for signup_requests (/admin/membership-requests).
+--   status            pending → approved | rejected | needs_info
+--                     (needs_info can go back to any decision)
+--   review_note       internal, admins only
+--   decision_message  shown to the requester on /pending and in the email
+--   reviewed_by/_at   the latest decision
+-- Also: auth_user_id_by_email() for approvals, and invite redemption now
+-- marks an invited user's request approved instead of deleting it.
+
+ALTER TABLE public.signup_requests
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS review_note TEXT,
+  ADD COLUMN IF NOT EXISTS decision_message TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE public.signup_requests DROP CONSTRAINT IF EXISTS signup_requests_status_check;
+ALTER TABLE public.signup_requests ADD CONSTRAINT signup_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'needs_info'));
+
+CREATE INDEX IF NOT EXISTS signup_requests_status_idx ON public.signup_requests (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS signup_requests_email_idx ON public.signup_requests (lower(email));
+
+-- Service role only: approvals look up the requester's auth account
+CREATE OR REPLACE FUNCTION public.auth_user_id_by_email(p_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(p_email) LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.auth_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- An invited user's request is marked approved, not deleted, so it stays
+-- in the review history
+CREATE OR REPLACE FUNCTION public.invite_settle_signup_request(p_email TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.signup_requests
+  SET status = 'approved', review_note = 'Redeemed an invite code', reviewed_at = NOW()
+  WHERE lower(email) = lower(p_email) AND status <> 'approved';
+$$;
+
+REVOKE ALL ON FUNCTION public.invite_settle_signup_request(TEXT) FROM PUBLIC, anon, authenticated;
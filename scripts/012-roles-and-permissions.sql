@@ -0,0 +1,139 @@
+-- Staff roles and permissions beyond admin/member/student.
+--   permissions        the capabilities code checks (lib/permissions.ts)
+--   roles              every value user_profiles.role may take
+--   role_permissions   what each staff role can do; 'admin' implicitly has
+--                      every permission and needs no rows here
+--   has_permission()   for RLS: lets staff roles write the tables their
+--                      admin tools use, alongside the existing admin policies
+
+CREATE TABLE IF NOT EXISTS public.permissions (
+  key TEXT PRIMARY KEY,
+  description TEXT NOT NULL
+);
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('channels:write', 'Create and edit channels, branding, live status and access tiers'),
+  ('schedule:write', 'Edit programs and schedules, run schedule repair'),
+  ('library:write', 'Upload and organize library and Freedom School media'),
+  ('news:write', 'Edit the news ticker and Breaking News'),
+  ('chat:moderate', 'Moderate live chat'),
+  ('members:manage', 'Review membership requests'),
+  ('billing:read', 'View Stripe events and reconciliation reports')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+CREATE TABLE IF NOT EXISTS public.roles (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  staff BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.roles (key, label, description, staff, sort_order) VALUES
+  ('member', 'Member', 'Viewer account', FALSE, 10),
+  ('student', 'Student', 'Freedom School student', FALSE, 20),
+  ('scheduler', 'Scheduler', 'Builds channel lineups and schedules', TRUE, 30),
+  ('uploader', 'Content uploader', 'Uploads and organizes library media', TRUE, 40),
+  ('moderator', 'Chat moderator', 'Keeps live chat civil', TRUE, 50),
+  ('admin', 'Admin', 'Full access', TRUE, 100)
+ON CONFLICT (key) DO UPDATE SET
+  label = EXCLUDED.label,
+  description = EXCLUDED.description,
+  staff = EXCLUDED.staff,
+  sort_order = EXCLUDED.sort_order;
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL REFERENCES public.roles(key) ON DELETE CASCADE,
+  permission TEXT NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('scheduler', 'schedule:write'),
+  ('scheduler', 'channels:write'),
+  ('scheduler', 'news:write'),
+  ('uploader', 'library:write'),
+  ('moderator', 'chat:moderate')
+ON CONFLICT DO NOTHING;
+
+-- The role list now lives in public.roles, enforced by a foreign key.
+-- Values the old check constraint didn't catch become plain members.
+ALTER TABLE public.user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+
+UPDATE public.user_profiles
+  SET role = 'member'
+  WHERE role IS NOT NULL AND role NOT IN (SELECT key FROM public.roles);
+
+ALTER TABLE public.user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_fkey;
+ALTER TABLE public.user_profiles
+  ADD CONSTRAINT user_profiles_role_fkey
+  FOREIGN KEY (role) REFERENCES public.roles(key) ON UPDATE CASCADE;
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "permissions read" ON public.permissions;
+CREATE POLICY "permissions read" ON public.permissions FOR SELECT USING (true);
+DROP POLICY IF EXISTS "roles read" ON public.roles;
+CREATE POLICY "roles read" ON public.roles FOR SELECT USING (true);
+DROP POLICY IF EXISTS "role_permissions read" ON public.role_permissions;
+CREATE POLICY "role_permissions read" ON public.role_permissions FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "role_permissions admin write" ON public.role_permissions;
+CREATE POLICY "role_permissions admin write" ON public.role_permissions
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'));
+
+-- SECURITY DEFINER so policies on user_profiles itself can't recurse
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role = 'admin'
+        OR EXISTS (
+          SELECT 1 FROM public.role_permissions rp
+          WHERE rp.role = p.role AND rp.permission = p_permission
+        )
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+
+-- Staff write access to the tables behind each admin tool. Policies are
+-- permissive, so these add to (never replace) the existing admin ones.
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN
+    SELECT * FROM (VALUES
+      ('channels', 'channels:write'),
+      ('channel_plan_access', 'channels:write'),
+      ('programs', 'schedule:write'),
+      ('programs_draft', 'schedule:write'),
+      ('news_ticker', 'news:write'),
+      ('breaking_news', 'news:write'),
+      ('freedom_school_library', 'library:write'),
+      ('signup_requests', 'members:manage')
+    ) AS v(tbl, perm)
+  LOOP
+    IF to_regclass('public.' || t.tbl) IS NOT NULL THEN
+      EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', t.tbl || ' staff write', t.tbl);
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR ALL USING (public.has_permission(%L)) WITH CHECK (public.has_permission(%L))',
+        t.tbl || ' staff write', t.tbl, t.perm, t.perm
+      );
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,186 @@
+-- Admin audit log. Most admin tools write straight from the browser
+-- (cleanup-programs, reset-programs, database-inspector...), so logging
+-- happens in the database: statement-level triggers record one entry per
+-- INSERT/UPDATE/DELETE with the actor (auth.uid()), the affected row keys
+-- and before/after snapshots. Server routes that act with the service role
+-- can add their own entry via lib/audit.ts so the admin behind them is known.
+--
+--   audit_log.source   'trigger' (written here) or 'api' (lib/audit.ts)
+--   actor_id           NULL for service-role / cron writes
+--   actor_role         the actor's user_profiles.role; without an actor,
+--                      the database role (service_role, postgres...)
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor_id UUID,
+  actor_role TEXT,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  row_keys TEXT[] NOT NULL DEFAULT '{}',
+  row_count INTEGER NOT NULL DEFAULT 0,
+  before JSONB,
+  after JSONB,
+  source TEXT NOT NULL DEFAULT 'trigger' CHECK (source IN ('trigger', 'api')),
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_idx ON public.audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_idx ON public.audit_log (target_table, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON public.audit_log (actor_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Admins read; nobody writes through the API (triggers run as definer,
+-- lib/audit.ts uses the service role)
+DROP POLICY IF EXISTS "audit_log admin read" ON public.audit_log;
+CREATE POLICY "audit_log admin read" ON public.audit_log
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'));
+
+CREATE OR REPLACE FUNCTION public.audit_actor_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT role FROM public.user_profiles WHERE id = auth.uid()),
+    auth.role(),
+    current_user
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_actor_role() FROM PUBLIC, anon, authenticated;
+
+-- TG_ARGV[0] = key column. Transition tables are exposed as old_rows /
+-- new_rows; a statement that touched nothing is not logged.
+CREATE OR REPLACE FUNCTION public.audit_statement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key TEXT := TG_ARGV[0];
+  v_keys TEXT[];
+  v_count INTEGER;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT array_agg(to_jsonb(n) ->> v_key), count(*), jsonb_agg(to_jsonb(n))
+      INTO v_keys, v_count, v_after
+      FROM new_rows n;
+  ELSIF TG_OP = 'DELETE' THEN
+    SELECT array_agg(to_jsonb(o) ->> v_key), count(*), jsonb_agg(to_jsonb(o))
+      INTO v_keys, v_count, v_before
+      FROM old_rows o;
+  ELSE
+    SELECT array_agg(to_jsonb(o) ->> v_key), count(*), jsonb_agg(to_jsonb(o))
+      INTO v_keys, v_count, v_before
+      FROM old_rows o;
+    SELECT jsonb_agg(to_jsonb(n)) INTO v_after FROM new_rows n;
+  END IF;
+
+  IF coalesce(v_count, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, actor_role, action, target_table, row_keys, row_count, before, after)
+  VALUES (
+    auth.uid(),
+    public.audit_actor_role(),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    v_keys,
+    v_count,
+    v_before,
+    v_after
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Role changes only: user_profiles also takes membership and last-seen
+-- updates that aren't admin actions. Inserts are logged when they start a
+-- profile on anything but the default role (an invite, a staff account
+-- created directly).
+CREATE OR REPLACE FUNCTION public.audit_user_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_before := jsonb_build_object('id', OLD.id, 'email', OLD.email, 'role', OLD.role);
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, actor_role, action, target_table, row_keys, row_count, before, after)
+  VALUES (
+    auth.uid(),
+    -- Changing your own role: the profile already holds the new one
+    CASE WHEN TG_OP = 'UPDATE' AND NEW.id = auth.uid() THEN OLD.role ELSE public.audit_actor_role() END,
+    'role_change',
+    'user_profiles',
+    ARRAY[NEW.id::TEXT],
+    1,
+    v_before,
+    jsonb_build_object('id', NEW.id, 'email', NEW.email, 'role', NEW.role)
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Transition tables allow one event per trigger, hence three per table
+DO $$
+DECLARE
+  t RECORD;
+  op TEXT;
+BEGIN
+  FOR t IN
+    SELECT * FROM (VALUES
+      ('programs', 'id'),
+      ('channels', 'id'),
+      ('invite_codes', 'code_hash'),
+      ('news_ticker', 'id'),
+      ('breaking_news', 'id')
+    ) AS v(tbl, key_col)
+  LOOP
+    IF to_regclass('public.' || t.tbl) IS NOT NULL THEN
+      FOREACH op IN ARRAY ARRAY['insert', 'update', 'delete'] LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', 'audit_' || op, t.tbl);
+        EXECUTE format(
+          'CREATE TRIGGER %I AFTER %s ON public.%I REFERENCING %s FOR EACH STATEMENT EXECUTE FUNCTION public.audit_statement(%L)',
+          'audit_' || op,
+          upper(op),
+          t.tbl,
+          CASE op
+            WHEN 'insert' THEN 'NEW TABLE AS new_rows'
+            WHEN 'delete' THEN 'OLD TABLE AS old_rows'
+            ELSE 'OLD TABLE AS old_rows NEW TABLE AS new_rows'
+          END,
+          t.key_col
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+END $$;
+
+DROP TRIGGER IF EXISTS audit_role_change ON public.user_profiles;
+CREATE TRIGGER audit_role_change
+  AFTER UPDATE OF role ON public.user_profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION public.audit_user_role();
+
+DROP TRIGGER IF EXISTS audit_role_insert ON public.user_profiles;
+CREATE TRIGGER audit_role_insert
+  AFTER INSERT ON public.user_profiles
+  FOR EACH ROW
+  WHEN (NEW.role IS DISTINCT FROM 'member')
+  EXECUTE FUNCTION public.audit_user_role();
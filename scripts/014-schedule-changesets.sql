@@ -0,0 +1,149 @@
+-- Schedule history: before a bulk tool (refresh, cleanup, loop, reset)
+-- touches programs, it snapshots every program of each affected channel
+-- into a changeset. Restoring a changeset puts that channel back exactly as
+-- it was, after first snapshotting the current state, so a restore can be
+-- undone too.
+--
+--   snapshot_schedule(channel_ids, operation, label)  NULL ids = every channel
+--   restore_schedule_changeset(id)
+--
+-- Both run as the caller, so RLS on programs applies (admins and
+-- schedule:write staff, see 012-roles-and-permissions.sql). The newest 30
+-- changesets per channel are kept.
+
+CREATE TABLE IF NOT EXISTS public.schedule_changesets (
+  id BIGSERIAL PRIMARY KEY,
+  channel_id INTEGER NOT NULL,
+  operation TEXT NOT NULL,
+  label TEXT,
+  row_count INTEGER NOT NULL,
+  rows JSONB NOT NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  restored_at TIMESTAMPTZ,
+  restored_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS schedule_changesets_channel_idx
+  ON public.schedule_changesets (channel_id, created_at DESC);
+
+ALTER TABLE public.schedule_changesets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "schedule_changesets staff" ON public.schedule_changesets;
+CREATE POLICY "schedule_changesets staff" ON public.schedule_changesets
+  FOR ALL
+  USING (public.has_permission('schedule:write'))
+  WITH CHECK (public.has_permission('schedule:write'));
+
+-- One channel's snapshot, no permission check or pruning (callers do both)
+CREATE OR REPLACE FUNCTION public.snapshot_channel_schedule(
+  p_channel_id INTEGER,
+  p_operation TEXT,
+  p_label TEXT
+)
+RETURNS SETOF public.schedule_changesets
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO public.schedule_changesets (channel_id, operation, label, row_count, rows)
+  SELECT p_channel_id, p_operation, p_label, count(*),
+         coalesce(jsonb_agg(to_jsonb(p) ORDER BY p.start_time), '[]'::jsonb)
+  FROM public.programs p
+  WHERE p.channel_id = p_channel_id
+  RETURNING *;
+$$;
+
+-- Keep the newest 30 per channel, plus p_keep (a changeset being restored)
+CREATE OR REPLACE FUNCTION public.prune_schedule_changesets(p_channel_id INTEGER, p_keep BIGINT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  DELETE FROM public.schedule_changesets
+  WHERE channel_id = p_channel_id
+    AND id IS DISTINCT FROM p_keep
+    AND id NOT IN (
+      SELECT id FROM public.schedule_changesets
+      WHERE channel_id = p_channel_id
+      ORDER BY created_at DESC, id DESC
+      LIMIT 30
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_schedule(
+  p_channel_ids INTEGER[],
+  p_operation TEXT,
+  p_label TEXT DEFAULT NULL
+)
+RETURNS TABLE (id BIGINT, channel_id INTEGER, row_count INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_channel INTEGER;
+BEGIN
+  IF NOT public.has_permission('schedule:write') THEN
+    RAISE EXCEPTION 'schedule:write permission required' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_channel IN
+    SELECT DISTINCT c FROM unnest(p_channel_ids) AS c WHERE c IS NOT NULL
+    UNION
+    SELECT DISTINCT channel_id FROM public.programs
+      WHERE p_channel_ids IS NULL AND channel_id IS NOT NULL
+  LOOP
+    RETURN QUERY
+      SELECT s.id, s.channel_id, s.row_count
+      FROM public.snapshot_channel_schedule(v_channel, p_operation, p_label) s;
+    PERFORM public.prune_schedule_changesets(v_channel);
+  END LOOP;
+END;
+$$;
+
+-- Returns the number of programs restored
+CREATE OR REPLACE FUNCTION public.restore_schedule_changeset(p_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_set public.schedule_changesets%ROWTYPE;
+  v_cols TEXT;
+BEGIN
+  SELECT * INTO v_set FROM public.schedule_changesets WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'changeset % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.snapshot_channel_schedule(
+    v_set.channel_id, 'restore', format('Before restoring #%s', p_id)
+  );
+  PERFORM public.prune_schedule_changesets(v_set.channel_id, p_id);
+
+  DELETE FROM public.programs WHERE channel_id = v_set.channel_id;
+
+  -- Rows get fresh ids: reset-programs restarts the id sequence, so the
+  -- snapshot's ids may belong to newer rows by now
+  SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO v_cols
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'programs'
+      AND column_name <> 'id'
+      AND is_generated = 'NEVER';
+
+  EXECUTE format(
+    'INSERT INTO public.programs (%s) SELECT %s FROM jsonb_populate_recordset(NULL::public.programs, $1)',
+    v_cols, v_cols
+  ) USING v_set.rows;
+
+  UPDATE public.schedule_changesets
+    SET restored_at = NOW(), restored_by = auth.uid()
+    WHERE id = p_id;
+  RETURN v_set.row_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.snapshot_schedule(INTEGER[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_schedule_changeset(BIGINT) TO authenticated;
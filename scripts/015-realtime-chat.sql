@@ -0,0 +1,62 @@
+-- Realtime chat. Watch-page and room chat subscribe to chat_messages
+-- INSERTs (hooks/use-chat-room.ts) instead of polling, so the table joins
+-- the supabase_realtime publication. sender_name is filled in on insert so
+-- realtime payloads carry a display name without a profile lookup per
+-- message (and without exposing other members' profiles).
+
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS sender_name TEXT;
+
+CREATE INDEX IF NOT EXISTS chat_messages_room_created_idx
+  ON public.chat_messages (room_id, created_at DESC);
+
+-- Full name, else 'Member'. Never derived from the email: the name goes out
+-- to everyone in the room.
+CREATE OR REPLACE FUNCTION public.chat_display_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    nullif(trim(p.full_name), ''),
+    'Member'
+  )
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.user_profiles p ON p.id = p_user_id;
+$$;
+
+-- Only the trigger below needs it; don't let clients look up names by id
+REVOKE EXECUTE ON FUNCTION public.chat_display_name(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.chat_messages_set_sender_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.sender_name := public.chat_display_name(NEW.sender_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_messages_sender_name ON public.chat_messages;
+CREATE TRIGGER chat_messages_sender_name
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chat_messages_set_sender_name();
+
+UPDATE public.chat_messages
+  SET sender_name = public.chat_display_name(sender_id)
+  WHERE sender_name IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
+  END IF;
+END $$;
@@ -0,0 +1,231 @@
+-- Chat moderation. Everything is enforced in the database by a BEFORE
+-- INSERT trigger on chat_messages, so the rules hold however a message is
+-- sent:
+--   chat_sanctions        mutes (can't post) and bans (can't post or read),
+--                         per room or global (room_id NULL), optional expiry
+--   chat_rooms            slow_mode_seconds, members_only
+--   chat_blocked_words    'block' rejects the message, 'flag' posts it and
+--                         puts it in the moderation queue
+--   chat_messages         soft delete (deleted_at); the text is blanked and
+--                         kept only in chat_moderation_actions
+-- Moderators are staff with chat:moderate (012-roles-and-permissions.sql)
+-- and are exempt from all of it. The admin queue acts through
+-- lib/chat-moderation.ts with the service role.
+
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMPTZ;
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS flag_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS chat_messages_flagged_idx
+  ON public.chat_messages (flagged_at DESC) WHERE flagged_at IS NOT NULL AND deleted_at IS NULL;
+
+ALTER TABLE public.chat_rooms ADD COLUMN IF NOT EXISTS slow_mode_seconds INTEGER NOT NULL DEFAULT 0
+  CHECK (slow_mode_seconds >= 0 AND slow_mode_seconds <= 3600);
+ALTER TABLE public.chat_rooms ADD COLUMN IF NOT EXISTS members_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS public.chat_sanctions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  room_id UUID, -- NULL = every room
+  kind TEXT NOT NULL CHECK (kind IN ('mute', 'ban')),
+  reason TEXT,
+  expires_at TIMESTAMPTZ, -- NULL = until lifted
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lifted_at TIMESTAMPTZ,
+  lifted_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS chat_sanctions_user_idx ON public.chat_sanctions (user_id) WHERE lifted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.chat_blocked_words (
+  word TEXT PRIMARY KEY CHECK (word = lower(trim(word)) AND word <> ''),
+  action TEXT NOT NULL DEFAULT 'block' CHECK (action IN ('block', 'flag')),
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_moderation_actions (
+  id BIGSERIAL PRIMARY KEY,
+  action TEXT NOT NULL, -- delete, restore, dismiss_flag, mute, ban, lift, room_settings, word_add, word_remove
+  room_id UUID,
+  message_id UUID,
+  user_id UUID, -- the member acted on
+  original_text TEXT, -- deleted message text (moderators only)
+  reason TEXT,
+  details JSONB,
+  actor_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS chat_moderation_actions_created_idx
+  ON public.chat_moderation_actions (created_at DESC);
+
+ALTER TABLE public.chat_sanctions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_blocked_words ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Members can see their own sanctions (so the UI can say why); moderators see all
+DROP POLICY IF EXISTS "chat_sanctions read" ON public.chat_sanctions;
+CREATE POLICY "chat_sanctions read" ON public.chat_sanctions
+  FOR SELECT USING (user_id = auth.uid() OR public.has_permission('chat:moderate'));
+
+DROP POLICY IF EXISTS "chat_blocked_words moderators" ON public.chat_blocked_words;
+CREATE POLICY "chat_blocked_words moderators" ON public.chat_blocked_words
+  FOR SELECT USING (public.has_permission('chat:moderate'));
+
+DROP POLICY IF EXISTS "chat_moderation_actions moderators" ON public.chat_moderation_actions;
+CREATE POLICY "chat_moderation_actions moderators" ON public.chat_moderation_actions
+  FOR SELECT USING (public.has_permission('chat:moderate'));
+
+CREATE OR REPLACE FUNCTION public.chat_active_sanction(p_user_id UUID, p_room_id UUID, p_kinds TEXT[])
+RETURNS public.chat_sanctions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.chat_sanctions s
+  WHERE s.user_id = p_user_id
+    AND s.kind = ANY (p_kinds)
+    AND s.lifted_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    AND (s.room_id IS NULL OR s.room_id = p_room_id)
+  ORDER BY s.expires_at DESC NULLS FIRST
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.chat_active_sanction(UUID, UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- The caller's own ban only, for the read policy below
+CREATE OR REPLACE FUNCTION public.chat_viewer_banned(p_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND (public.chat_active_sanction(auth.uid(), p_room_id, ARRAY['ban'])).id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.chat_viewer_banned(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.chat_viewer_banned(UUID) TO anon, authenticated;
+
+-- Banned members can't read a room. Restrictive, so it narrows whatever
+-- read policy chat_messages already has.
+DROP POLICY IF EXISTS "chat_messages not banned" ON public.chat_messages;
+CREATE POLICY "chat_messages not banned" ON public.chat_messages
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.chat_viewer_banned(room_id));
+
+-- Same rule as resolveEntitlements() in lib/entitlements.ts: admin, an
+-- active/trialing subscription (with 3 days' renewal slack), a live gift,
+-- or grace
+CREATE OR REPLACE FUNCTION public.chat_is_paid_member(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_profiles p
+    WHERE p.id = p_user_id
+      AND (
+        lower(p.role) = 'admin'
+        OR (lower(p.membership_status) IN ('active', 'trialing')
+            AND (p.membership_ends_at IS NULL OR p.membership_ends_at > NOW() - INTERVAL '3 days'))
+        OR (lower(p.membership_status) = 'gift' AND p.membership_ends_at > NOW())
+        OR p.grace_until > NOW()
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.chat_is_paid_member(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.chat_messages_moderate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_room public.chat_rooms%ROWTYPE;
+  v_sanction public.chat_sanctions%ROWTYPE;
+  v_last TIMESTAMPTZ;
+  v_text TEXT;
+  v_word RECORD;
+BEGIN
+  -- Service-role inserts (no session) are trusted
+  IF v_uid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Members post as themselves only
+  NEW.sender_id := v_uid;
+  NEW.deleted_at := NULL;
+  NEW.deleted_by := NULL;
+  NEW.flagged_at := NULL;
+  NEW.flag_reason := NULL;
+
+  IF public.has_permission('chat:moderate') THEN
+    RETURN NEW;
+  END IF;
+
+  v_sanction := public.chat_active_sanction(v_uid, NEW.room_id, ARRAY['mute', 'ban']);
+  IF v_sanction.id IS NOT NULL THEN
+    RAISE EXCEPTION '%', CASE
+      WHEN v_sanction.expires_at IS NULL THEN format('You are %s from this chat.', CASE v_sanction.kind WHEN 'ban' THEN 'banned' ELSE 'muted' END)
+      ELSE format('You are %s from this chat until %s.', CASE v_sanction.kind WHEN 'ban' THEN 'banned' ELSE 'muted' END,
+                  to_char(v_sanction.expires_at AT TIME ZONE 'UTC', 'Mon DD, HH24:MI "UTC"'))
+    END
+    USING ERRCODE = '42501', HINT = 'chat_sanction';
+  END IF;
+
+  SELECT * INTO v_room FROM public.chat_rooms WHERE id = NEW.room_id;
+
+  IF v_room.members_only AND NOT public.chat_is_paid_member(v_uid) THEN
+    RAISE EXCEPTION 'This chat is for members only.' USING ERRCODE = '42501', HINT = 'chat_members_only';
+  END IF;
+
+  IF coalesce(v_room.slow_mode_seconds, 0) > 0 THEN
+    SELECT max(created_at) INTO v_last
+    FROM public.chat_messages
+    WHERE room_id = NEW.room_id AND sender_id = v_uid;
+    IF v_last IS NOT NULL AND v_last > NOW() - make_interval(secs => v_room.slow_mode_seconds) THEN
+      RAISE EXCEPTION 'Slow mode is on: wait % more second(s).',
+        ceil(extract(epoch FROM v_last + make_interval(secs => v_room.slow_mode_seconds) - NOW()))::INT
+        USING ERRCODE = 'P0001', HINT = 'chat_slow_mode';
+    END IF;
+  END IF;
+
+  -- Whole words, case-insensitive; block wins over flag
+  v_text := lower(NEW.message);
+  FOR v_word IN
+    SELECT word, action FROM public.chat_blocked_words ORDER BY (action = 'block') DESC
+  LOOP
+    IF v_text ~ ('\m' || regexp_replace(v_word.word, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g') || '\M') THEN
+      IF v_word.action = 'block' THEN
+        RAISE EXCEPTION 'Your message contains a word that isn''t allowed here.'
+          USING ERRCODE = 'P0001', HINT = 'chat_blocked_word';
+      END IF;
+      NEW.flagged_at := NOW();
+      NEW.flag_reason := format('Word filter: %s', v_word.word);
+      EXIT;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before chat_messages_sender_name (triggers fire in name order)
+DROP TRIGGER IF EXISTS chat_messages_moderate ON public.chat_messages;
+CREATE TRIGGER chat_messages_moderate
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chat_messages_moderate();
@@ -0,0 +1,146 @@
+-- Viewer reports on chat messages. Any signed-in viewer can report a
+-- message once; when a message has report_hide_threshold (per room,
+-- default 3) distinct open reports it is hidden from chat automatically
+-- until a moderator reviews it at /admin/chat-reports. Like a soft delete,
+-- hiding blanks the text in chat_messages (which every viewer can select);
+-- the original waits in chat_hidden_messages and comes back if the message
+-- is shown again.
+--   dismissed  reports closed, message shown again
+--   actioned   message deleted and/or sender warned or sanctioned
+
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+ALTER TABLE public.chat_rooms ADD COLUMN IF NOT EXISTS report_hide_threshold INTEGER NOT NULL DEFAULT 3
+  CHECK (report_hide_threshold >= 1);
+
+-- Only the service role reads it (lib/chat-reports.ts); no client policies
+CREATE TABLE IF NOT EXISTS public.chat_hidden_messages (
+  message_id UUID PRIMARY KEY REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  hidden_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.chat_hidden_messages ENABLE ROW LEVEL SECURITY;
+
+-- Whoever sets or clears hidden_at, the text follows: stashed and blanked
+-- on hide, put back on show (unless the message was deleted meanwhile)
+CREATE OR REPLACE FUNCTION public.chat_messages_hide_text()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_text TEXT;
+BEGIN
+  IF NEW.hidden_at IS NOT NULL THEN
+    IF coalesce(NEW.message, '') <> '' THEN
+      INSERT INTO public.chat_hidden_messages (message_id, message)
+      VALUES (NEW.id, NEW.message)
+      ON CONFLICT (message_id) DO UPDATE SET message = EXCLUDED.message;
+      NEW.message := '';
+    END IF;
+  ELSIF OLD.hidden_at IS NOT NULL THEN
+    DELETE FROM public.chat_hidden_messages WHERE message_id = NEW.id RETURNING message INTO v_text;
+    IF NEW.deleted_at IS NULL AND coalesce(NEW.message, '') = '' THEN
+      NEW.message := coalesce(v_text, '');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_messages_hide_text ON public.chat_messages;
+CREATE TRIGGER chat_messages_hide_text
+  BEFORE UPDATE OF hidden_at, message ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chat_messages_hide_text();
+
+CREATE TABLE IF NOT EXISTS public.chat_reports (
+  id BIGSERIAL PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  room_id UUID,
+  reporter_id UUID NOT NULL DEFAULT auth.uid(),
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'sexual', 'violence', 'misinformation', 'other')),
+  details TEXT CHECK (details IS NULL OR length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS chat_reports_open_idx ON public.chat_reports (message_id) WHERE status = 'open';
+
+ALTER TABLE public.chat_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "chat_reports insert own" ON public.chat_reports;
+CREATE POLICY "chat_reports insert own" ON public.chat_reports
+  FOR INSERT WITH CHECK (reporter_id = auth.uid());
+
+DROP POLICY IF EXISTS "chat_reports read" ON public.chat_reports;
+CREATE POLICY "chat_reports read" ON public.chat_reports
+  FOR SELECT USING (reporter_id = auth.uid() OR public.has_permission('chat:moderate'));
+
+-- Fill room_id from the message; reporters can't report themselves
+CREATE OR REPLACE FUNCTION public.chat_reports_prepare()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_msg public.chat_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_msg FROM public.chat_messages WHERE id = NEW.message_id;
+  IF NOT FOUND OR v_msg.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'That message is no longer available.' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_msg.sender_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You can''t report your own message.' USING ERRCODE = 'P0001';
+  END IF;
+  NEW.room_id := v_msg.room_id;
+  NEW.status := 'open';
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_reports_prepare ON public.chat_reports;
+CREATE TRIGGER chat_reports_prepare
+  BEFORE INSERT ON public.chat_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chat_reports_prepare();
+
+CREATE OR REPLACE FUNCTION public.chat_reports_autohide()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open INTEGER;
+  v_threshold INTEGER;
+BEGIN
+  SELECT count(DISTINCT reporter_id) INTO v_open
+  FROM public.chat_reports
+  WHERE message_id = NEW.message_id AND status = 'open';
+
+  SELECT coalesce(r.report_hide_threshold, 3) INTO v_threshold
+  FROM public.chat_rooms r WHERE r.id = NEW.room_id;
+
+  IF v_open >= coalesce(v_threshold, 3) THEN
+    UPDATE public.chat_messages
+      SET hidden_at = NOW()
+      WHERE id = NEW.message_id AND hidden_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_reports_autohide ON public.chat_reports;
+CREATE TRIGGER chat_reports_autohide
+  AFTER INSERT ON public.chat_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chat_reports_autohide();
@@ -0,0 +1,132 @@
+-- Concurrent viewers per channel. Watch pages join a Realtime presence
+-- channel per channel (hooks/use-channel-presence.ts) for the live "N
+-- watching" badge. For the admin dashboard each signed-in viewer also pings
+-- record_viewer_ping() once a minute with the program on air; the server
+-- stamps the user and the minute, so one person is one row per channel per
+-- minute however often (or from however many tabs) they call it. Viewer
+-- counts are count(*) over those rows, never a number a client sent.
+--
+-- Anonymous viewers show in the live badge but aren't recorded here.
+
+CREATE TABLE IF NOT EXISTS public.channel_viewer_pings (
+  channel_id INTEGER NOT NULL,
+  user_id UUID NOT NULL,
+  sampled_at TIMESTAMPTZ NOT NULL,
+  program_title TEXT,
+  program_start TIMESTAMPTZ,
+  PRIMARY KEY (channel_id, user_id, sampled_at)
+);
+
+CREATE INDEX IF NOT EXISTS channel_viewer_pings_time_idx
+  ON public.channel_viewer_pings (sampled_at DESC);
+
+ALTER TABLE public.channel_viewer_pings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "channel_viewer_pings admin read" ON public.channel_viewer_pings;
+CREATE POLICY "channel_viewer_pings admin read" ON public.channel_viewer_pings
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin'));
+
+-- No insert policy: clients write only through this function
+CREATE OR REPLACE FUNCTION public.record_viewer_ping(
+  p_channel_id INTEGER,
+  p_program_title TEXT DEFAULT NULL,
+  p_program_start TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to report viewing';
+  END IF;
+  IF p_channel_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.channel_viewer_pings
+    (channel_id, user_id, sampled_at, program_title, program_start)
+  VALUES (
+    p_channel_id,
+    auth.uid(),
+    date_trunc('minute', NOW()),
+    left(NULLIF(btrim(p_program_title), ''), 300),
+    p_program_start
+  )
+  ON CONFLICT (channel_id, user_id, sampled_at) DO NOTHING;
+
+  -- Keep 90 days; pings in the first minute of each hour trim their channel
+  IF extract(minute FROM NOW()) = 0 THEN
+    DELETE FROM public.channel_viewer_pings
+    WHERE channel_id = p_channel_id AND sampled_at < NOW() - INTERVAL '90 days';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_viewer_ping(INTEGER, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_viewer_ping(INTEGER, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- Viewers per channel per minute. security_invoker, so the admin-read policy
+-- on the pings applies to whoever queries the view.
+CREATE OR REPLACE VIEW public.channel_viewer_minutes
+WITH (security_invoker = true) AS
+  SELECT
+    channel_id,
+    sampled_at,
+    count(*)::INTEGER AS viewers,
+    min(program_title) AS program_title
+  FROM public.channel_viewer_pings
+  GROUP BY channel_id, sampled_at;
+
+-- For the admin dashboard. SECURITY INVOKER, so the admin-read policy applies.
+--   viewer_timeseries    peak and average viewers per channel per bucket
+--   viewer_program_stats the same per program airing, busiest first
+CREATE OR REPLACE FUNCTION public.viewer_timeseries(p_since TIMESTAMPTZ, p_bucket_minutes INTEGER DEFAULT 15)
+RETURNS TABLE (bucket TIMESTAMPTZ, channel_id INTEGER, peak_viewers INTEGER, avg_viewers NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    date_bin(make_interval(mins => GREATEST(p_bucket_minutes, 1)), m.sampled_at, TIMESTAMPTZ '2000-01-01') AS bucket,
+    m.channel_id,
+    max(m.viewers) AS peak_viewers,
+    round(avg(m.viewers), 1) AS avg_viewers
+  FROM public.channel_viewer_minutes m
+  WHERE m.sampled_at >= p_since
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION public.viewer_program_stats(p_since TIMESTAMPTZ, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  channel_id INTEGER,
+  program_title TEXT,
+  program_start TIMESTAMPTZ,
+  peak_viewers INTEGER,
+  avg_viewers NUMERIC,
+  minutes_sampled INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH per_minute AS (
+    -- Each viewer's ping counts toward the program they reported
+    SELECT p.channel_id, p.program_title, p.program_start, p.sampled_at, count(*)::INTEGER AS viewers
+    FROM public.channel_viewer_pings p
+    WHERE p.sampled_at >= p_since AND p.program_title IS NOT NULL
+    GROUP BY 1, 2, 3, 4
+  )
+  SELECT
+    m.channel_id,
+    m.program_title,
+    m.program_start,
+    max(m.viewers) AS peak_viewers,
+    round(avg(m.viewers), 1) AS avg_viewers,
+    count(*)::INTEGER AS minutes_sampled
+  FROM per_minute m
+  GROUP BY 1, 2, 3
+  ORDER BY max(m.viewers) DESC, avg(m.viewers) DESC
+  LIMIT GREATEST(p_limit, 1);
+$$;
@@ -0,0 +1,269 @@
+-- Program viewership analytics. The watch page sends a heartbeat every ~30s
+-- while the player is playing (hooks/use-watch-heartbeat.ts →
+-- /api/analytics/heartbeat); the ingest route adds the program on air, the
+-- viewer's tier and device class, and writes watch_heartbeats with the
+-- service role.
+-- rollup_watch_analytics(day) rebuilds that day's aggregates; the hourly
+-- /api/cron/analytics-rollup cron runs it for today and yesterday.
+--   program_daily_stats        sessions, viewers and seconds watched per
+--                              program, tier and device
+--   program_dropoff_daily      where in the program each session stopped,
+--                              in tenths of the program's length
+--   channel_conversions_daily  first paid memberships, credited to the
+--                              channel the member watched most in the
+--                              7 days before converting
+-- Raw heartbeats are kept 14 days (long enough for the conversion window).
+
+CREATE TABLE IF NOT EXISTS public.watch_heartbeats (
+  id BIGSERIAL PRIMARY KEY,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  session_id TEXT NOT NULL CHECK (length(session_id) <= 64),
+  user_id UUID,
+  channel_id INTEGER NOT NULL,
+  program_title TEXT NOT NULL DEFAULT '',
+  mp4_url TEXT NOT NULL DEFAULT '',
+  program_start TIMESTAMPTZ,
+  program_duration INTEGER CHECK (program_duration IS NULL OR program_duration > 0),
+  seconds INTEGER NOT NULL CHECK (seconds BETWEEN 0 AND 120),
+  position INTEGER CHECK (position IS NULL OR position >= 0),
+  tier TEXT NOT NULL DEFAULT 'free',
+  device TEXT NOT NULL DEFAULT 'desktop'
+);
+
+CREATE INDEX IF NOT EXISTS watch_heartbeats_received_idx ON public.watch_heartbeats (received_at);
+-- The ingest's per-session throttle looks up the latest beat
+CREATE INDEX IF NOT EXISTS watch_heartbeats_session_idx
+  ON public.watch_heartbeats (session_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS watch_heartbeats_user_idx
+  ON public.watch_heartbeats (user_id, received_at) WHERE user_id IS NOT NULL;
+
+-- Written and read by the service role only
+ALTER TABLE public.watch_heartbeats ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.program_daily_stats (
+  day DATE NOT NULL,
+  channel_id INTEGER NOT NULL,
+  program_title TEXT NOT NULL,
+  mp4_url TEXT NOT NULL,
+  tier TEXT NOT NULL,
+  device TEXT NOT NULL,
+  sessions INTEGER NOT NULL,
+  viewers INTEGER NOT NULL,
+  seconds_watched BIGINT NOT NULL,
+  PRIMARY KEY (day, channel_id, program_title, mp4_url, tier, device)
+);
+
+CREATE TABLE IF NOT EXISTS public.program_dropoff_daily (
+  day DATE NOT NULL,
+  channel_id INTEGER NOT NULL,
+  program_title TEXT NOT NULL,
+  mp4_url TEXT NOT NULL,
+  decile SMALLINT NOT NULL CHECK (decile BETWEEN 0 AND 9),
+  sessions INTEGER NOT NULL,
+  PRIMARY KEY (day, channel_id, program_title, mp4_url, decile)
+);
+
+CREATE TABLE IF NOT EXISTS public.channel_conversions_daily (
+  day DATE NOT NULL,
+  channel_id INTEGER NOT NULL,
+  conversions INTEGER NOT NULL,
+  PRIMARY KEY (day, channel_id)
+);
+
+ALTER TABLE public.program_daily_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_dropoff_daily ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.channel_conversions_daily ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['program_daily_stats', 'program_dropoff_daily', 'channel_conversions_daily'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', t || ' admin read', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT USING (EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role = ''admin''))',
+      t || ' admin read', t
+    );
+  END LOOP;
+END $$;
+
+-- Rebuild one UTC day. Safe to re-run: the day's rows are replaced.
+CREATE OR REPLACE FUNCTION public.rollup_watch_analytics(p_day DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from TIMESTAMPTZ := p_day::TIMESTAMP AT TIME ZONE 'UTC';
+  v_to TIMESTAMPTZ := (p_day + 1)::TIMESTAMP AT TIME ZONE 'UTC';
+BEGIN
+  DELETE FROM public.program_daily_stats WHERE day = p_day;
+  INSERT INTO public.program_daily_stats
+    (day, channel_id, program_title, mp4_url, tier, device, sessions, viewers, seconds_watched)
+  SELECT
+    p_day, h.channel_id, h.program_title, h.mp4_url, h.tier, h.device,
+    count(DISTINCT h.session_id),
+    count(DISTINCT COALESCE(h.user_id::TEXT, h.session_id)),
+    sum(h.seconds)
+  FROM public.watch_heartbeats h
+  WHERE h.received_at >= v_from AND h.received_at < v_to
+  GROUP BY h.channel_id, h.program_title, h.mp4_url, h.tier, h.device;
+
+  -- Each session's furthest point in each airing it watched
+  DELETE FROM public.program_dropoff_daily WHERE day = p_day;
+  INSERT INTO public.program_dropoff_daily (day, channel_id, program_title, mp4_url, decile, sessions)
+  SELECT p_day, s.channel_id, s.program_title, s.mp4_url, s.decile, count(*)
+  FROM (
+    SELECT
+      h.channel_id, h.program_title, h.mp4_url,
+      LEAST(9, floor(10.0 * max(h.position) / max(h.program_duration)))::SMALLINT AS decile
+    FROM public.watch_heartbeats h
+    WHERE h.received_at >= v_from AND h.received_at < v_to
+      AND h.position IS NOT NULL AND h.program_duration IS NOT NULL
+    GROUP BY h.session_id, h.channel_id, h.program_title, h.mp4_url, h.program_start
+  ) s
+  GROUP BY s.channel_id, s.program_title, s.mp4_url, s.decile;
+
+  -- A member's first paid membership event ever, if it fell on this day
+  DELETE FROM public.channel_conversions_daily WHERE day = p_day;
+  INSERT INTO public.channel_conversions_daily (day, channel_id, conversions)
+  SELECT p_day, credit.channel_id, count(*)
+  FROM (
+    SELECT user_id, min(created_at) AS converted_at
+    FROM public.membership_events
+    WHERE status IN ('active', 'trialing', 'gift') AND COALESCE(tier, 'free') <> 'free'
+    GROUP BY user_id
+  ) c
+  CROSS JOIN LATERAL (
+    SELECT h.channel_id
+    FROM public.watch_heartbeats h
+    WHERE h.user_id = c.user_id
+      AND h.received_at < c.converted_at
+      AND h.received_at >= c.converted_at - INTERVAL '7 days'
+    GROUP BY h.channel_id
+    ORDER BY sum(h.seconds) DESC
+    LIMIT 1
+  ) credit
+  WHERE c.converted_at >= v_from AND c.converted_at < v_to
+  GROUP BY credit.channel_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prune_watch_heartbeats()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH gone AS (
+    DELETE FROM public.watch_heartbeats
+    WHERE received_at < NOW() - INTERVAL '14 days'
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM gone;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollup_watch_analytics(DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_watch_heartbeats() FROM PUBLIC, anon, authenticated;
+
+-- Report queries for /api/admin/analytics. SECURITY INVOKER: the admin-read
+-- policies above apply.
+CREATE OR REPLACE FUNCTION public.analytics_top_programs(p_since DATE, p_limit INTEGER DEFAULT 25)
+RETURNS TABLE (
+  channel_id INTEGER,
+  program_title TEXT,
+  mp4_url TEXT,
+  sessions BIGINT,
+  viewers BIGINT,
+  seconds_watched BIGINT,
+  avg_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.channel_id, s.program_title, s.mp4_url,
+    sum(s.sessions)::BIGINT,
+    sum(s.viewers)::BIGINT,
+    sum(s.seconds_watched)::BIGINT,
+    round(sum(s.seconds_watched)::NUMERIC / NULLIF(sum(s.sessions), 0), 1)
+  FROM public.program_daily_stats s
+  WHERE s.day >= p_since
+  GROUP BY s.channel_id, s.program_title, s.mp4_url
+  ORDER BY sum(s.seconds_watched) DESC
+  LIMIT GREATEST(p_limit, 1);
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_channels(p_since DATE)
+RETURNS TABLE (
+  channel_id INTEGER,
+  sessions BIGINT,
+  seconds_watched BIGINT,
+  avg_seconds NUMERIC,
+  member_seconds BIGINT,
+  conversions BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH watch AS (
+    SELECT
+      s.channel_id,
+      sum(s.sessions)::BIGINT AS sessions,
+      sum(s.seconds_watched)::BIGINT AS seconds_watched,
+      sum(s.seconds_watched) FILTER (WHERE s.tier <> 'free')::BIGINT AS member_seconds
+    FROM public.program_daily_stats s
+    WHERE s.day >= p_since
+    GROUP BY s.channel_id
+  ),
+  conv AS (
+    SELECT c.channel_id, sum(c.conversions)::BIGINT AS conversions
+    FROM public.channel_conversions_daily c
+    WHERE c.day >= p_since
+    GROUP BY c.channel_id
+  )
+  SELECT
+    COALESCE(w.channel_id, v.channel_id),
+    COALESCE(w.sessions, 0),
+    COALESCE(w.seconds_watched, 0),
+    round(w.seconds_watched::NUMERIC / NULLIF(w.sessions, 0), 1),
+    COALESCE(w.member_seconds, 0),
+    COALESCE(v.conversions, 0)
+  FROM watch w
+  FULL JOIN conv v ON v.channel_id = w.channel_id
+  ORDER BY COALESCE(v.conversions, 0) DESC, COALESCE(w.seconds_watched, 0) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_breakdown(p_since DATE)
+RETURNS TABLE (dimension TEXT, value TEXT, sessions BIGINT, seconds_watched BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'tier', s.tier, sum(s.sessions)::BIGINT, sum(s.seconds_watched)::BIGINT
+  FROM public.program_daily_stats s WHERE s.day >= p_since GROUP BY s.tier
+  UNION ALL
+  SELECT 'device', s.device, sum(s.sessions)::BIGINT, sum(s.seconds_watched)::BIGINT
+  FROM public.program_daily_stats s WHERE s.day >= p_since GROUP BY s.device
+  ORDER BY 1, 4 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_dropoff(
+  p_since DATE,
+  p_channel_id INTEGER,
+  p_program_title TEXT,
+  p_mp4_url TEXT
+)
+RETURNS TABLE (decile SMALLINT, sessions BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT d.decile, sum(d.sessions)::BIGINT
+  FROM public.program_dropoff_daily d
+  WHERE d.day >= p_since
+    AND d.channel_id = p_channel_id
+    AND d.program_title = p_program_title
+    AND d.mp4_url = p_mp4_url
+  GROUP BY d.decile
+  ORDER BY d.decile;
+$$;
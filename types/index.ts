@@ -5,6 +5,7 @@ export interface Channel {
   description?: string
   logo_url?: string
   password_protected?: boolean | null
+  access_tier?: "free" | "member"
 }
 
 export interface Program {
@@ -1,9 +1,19 @@
 // utils/supabase/middleware.ts
 
 import { createServerClient } from "@supabase/ssr";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
 import { NextResponse, type NextRequest } from "next/server";
 
-export async function updateSession(request: NextRequest) {
+/**
+ * Runs after the session refresh. Return a response (e.g. a redirect) to
+ * short-circuit the request, or null to let it through.
+ */
+export type SessionGate = (ctx: {
+  supabase: SupabaseClient;
+  user: User | null;
+}) => Promise<NextResponse | null>;
+
+export async function updateSession(request: NextRequest, gate?: SessionGate) {
   let supabaseResponse = NextResponse.next({ request });
 
   const supabase = createServerClient(
@@ -30,7 +40,16 @@ export async function updateSession(request: NextRequest) {
   // IMPORTANT: do NOT add code between createServerClient and getUser().
   // Token refresh happens here; any other Supabase call would race with it
   // and you can end up with stale/missing sessions on intermittent requests.
-  await supabase.auth.getUser();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const gated = gate ? await gate({ supabase: supabase as unknown as SupabaseClient, user }) : null;
+  if (gated) {
+    // Keep refreshed auth cookies on the short-circuit response too.
+    supabaseResponse.cookies.getAll().forEach((c) => gated.cookies.set(c));
+    return gated;
+  }
 
   return supabaseResponse;
 }